@@ -7,6 +7,7 @@ import { EaseView } from "react-native-ease";
 import {
   ActivityIndicator,
   FlatList,
+  Modal,
   Pressable,
   RefreshControl,
   StyleSheet,
@@ -20,23 +21,60 @@ import { useMotionTransition } from "@/animation/useReducedMotion";
 import { AppBackground } from "@/components/AppBackground";
 import { StatusChip } from "@/components/StatusChip";
 import { useI18n } from "@/i18n/I18nProvider";
+import { getEnabledExtraTimeNames, resolveExtraTimes } from "@/services/extraTimes";
+import { appliesMosqueIqamah, resolveIqamahTime } from "@/services/iqamah";
 import { resolveLocationForSettings } from "@/services/location";
-import { replanAll } from "@/services/notifications";
+import { cancelPrayerFollowUps, replanAll } from "@/services/notifications";
+import { isTrackedPrayer, markPrayer } from "@/services/prayerTracker";
+import { getRamadanCountdown, RamadanCountdown } from "@/services/ramadan";
+import {
+  applySavedLocation,
+  getWatchLocation,
+  getWatchNextPrayer,
+  loadWatchTimings,
+  restoreBaseTimings,
+  warmSavedLocations
+} from "@/services/savedLocations";
 import { analyzeTimingsSanity, TimingSanityIssue } from "@/services/timingValidation";
 import { evaluateTimingTrust } from "@/services/timingTrust";
-import { getTodayTomorrowTimings, warmTimingsCacheRange } from "@/services/timingsCache";
+import { getTimingsProvider, getTodayTomorrowTimings, warmTimingsCacheRange } from "@/services/timingsCache";
+import {
+  declineTravel,
+  detectTravel,
+  endTravel,
+  followTravel,
+  getQasrHint,
+  locateTraveler,
+  setTravelHome,
+  startTravel
+} from "@/services/travel";
 import { syncWidgetWithTimings } from "@/services/widgetBridge";
 import {
   getCachedTimingsForDate,
+  getDefaultMosque,
   getHomeDateMode,
   getLatestCachedLocation,
   getLatestCachedTimings,
+  getPrayerLog,
   getSettings,
+  PrayerLogDay,
+  PrayerLogStatus,
   saveHomeDateMode,
-  saveLatestCachedLocation
+  saveLatestCachedLocation,
+  saveSettings
 } from "@/services/storage";
-import { PRAYER_NAMES, PrayerName, Settings, Timings } from "@/types/prayer";
+import { DefaultMosque } from "@/types/mosque";
+import {
+  PRAYER_NAMES,
+  PrayerName,
+  SavedLocation,
+  Settings,
+  Timings,
+  TrackedPrayer,
+  TravelPlace
+} from "@/types/prayer";
 import { formatDateTime } from "@/utils/date";
+import { applyHijriAdjustment } from "@/utils/hijri";
 import { formatCountdown, getDateKey, getNextPrayer, getTomorrow, parsePrayerTimeForDate } from "@/utils/time";
 import { useAppTheme } from "@/theme/ThemeProvider";
 
@@ -77,7 +115,7 @@ export default function HomeScreen() {
   const [countdown, setCountdown] = useState("00:00:00");
   const [nextPrayerName, setNextPrayerName] = useState<PrayerName>("Fajr");
   const [nextPrayerTomorrow, setNextPrayerTomorrow] = useState(false);
-  const [source, setSource] = useState<"api" | "cache" | null>(null);
+  const [source, setSource] = useState<"api" | "cache" | "fallback" | null>(null);
   const [lastUpdated, setLastUpdated] = useState<string | null>(null);
   const [statusMessage, setStatusMessage] = useState<string>("");
   const [sanityIssues, setSanityIssues] = useState<TimingSanityIssue[]>([]);
@@ -86,6 +124,18 @@ export default function HomeScreen() {
   const [coords, setCoords] = useState<{ lat: number; lon: number } | null>(null);
   const [locationName, setLocationName] = useState(t("common.current_location"));
   const [homeDateMode, setHomeDateMode] = useState<"gregorian" | "hijri">("gregorian");
+  const [ramadanCountdown, setRamadanCountdown] = useState<RamadanCountdown | null>(null);
+  const [ramadanRemaining, setRamadanRemaining] = useState("00:00:00");
+  const [todayLog, setTodayLog] = useState<PrayerLogDay>({});
+  const [defaultMosque, setDefaultMosque] = useState<DefaultMosque | null>(null);
+  const [travelOffer, setTravelOffer] = useState<{ place: TravelPlace; distanceKm: number } | null>(null);
+  const [locationPickerVisible, setLocationPickerVisible] = useState(false);
+  const [watchTimings, setWatchTimings] = useState<{
+    location: SavedLocation;
+    today: Timings;
+    tomorrow: Timings | null;
+  } | null>(null);
+  const lastWarmupKeyRef = useRef("");
   const lastReplanSignatureRef = useRef<string>("");
   const latestLoadRequestRef = useRef(0);
   const scheduleListRef = useRef<FlatList<PrayerName> | null>(null);
@@ -115,6 +165,28 @@ export default function HomeScreen() {
     setCountdown(formatCountdown(next.time.getTime() - now.getTime()));
   }, []);
 
+  const updateRamadanCountdown = useCallback(
+    (activeTimings: Timings, nextDayTimings: Timings | null, activeSettings: Settings | null) => {
+      if (!activeSettings) {
+        setRamadanCountdown(null);
+        return;
+      }
+      const now = new Date();
+      const next = getRamadanCountdown({
+        now,
+        today: activeTimings,
+        tomorrow: nextDayTimings,
+        ramadan: activeSettings.ramadan,
+        hijriAdjustmentDays: activeSettings.hijriAdjustmentDays
+      });
+      setRamadanCountdown(next);
+      if (next) {
+        setRamadanRemaining(formatCountdown(next.target.getTime() - now.getTime()));
+      }
+    },
+    []
+  );
+
   const loadData = useCallback(async (options?: { forceRefresh?: boolean; forceLocationRefresh?: boolean }) => {
     const requestId = ++latestLoadRequestRef.current;
     const isStale = () => requestId !== latestLoadRequestRef.current;
@@ -193,7 +265,13 @@ export default function HomeScreen() {
             provider: savedSettings.timingsProvider
           })
         );
-        setStatusMessage(resolved.source === "api" ? t("home.live_loaded") : t("home.cache_loaded"));
+        setStatusMessage(
+          resolved.source === "fallback"
+            ? t("home.fallback_loaded", { provider: t(`home.provider_${getTimingsProvider(resolved.today)}`) })
+            : resolved.source === "api"
+              ? t("home.live_loaded")
+              : t("home.cache_loaded")
+        );
         syncWidgetWithTimings({
           today: resolved.today,
           tomorrow: resolved.tomorrow,
@@ -211,10 +289,20 @@ export default function HomeScreen() {
         const dayKey = getDateKey(today);
         const replanSignature = [
           dayKey,
+          savedSettings.timingsProvider,
           savedSettings.methodId,
+          savedSettings.asrSchool,
+          JSON.stringify(savedSettings.tuneOffsets),
+          savedSettings.highLatitudeRule,
           location.lat.toFixed(3),
           location.lon.toFixed(3),
-          JSON.stringify(savedSettings.prayerNotifications)
+          JSON.stringify(savedSettings.prayerNotifications),
+          JSON.stringify(savedSettings.ramadan),
+          savedSettings.hijriAdjustmentDays,
+          JSON.stringify(savedSettings.extraTimes),
+          JSON.stringify(savedSettings.jumuah),
+          JSON.stringify(savedSettings.quiet),
+          Intl.DateTimeFormat().resolvedOptions().timeZone
         ].join("|");
 
         if (lastReplanSignatureRef.current !== replanSignature) {
@@ -222,7 +310,8 @@ export default function HomeScreen() {
             lat: location.lat,
             lon: location.lon,
             methodId: savedSettings.methodId,
-            settings: savedSettings
+            settings: savedSettings,
+            trigger: "app_open"
           });
           lastReplanSignatureRef.current = replanSignature;
         }
@@ -242,12 +331,18 @@ export default function HomeScreen() {
       const cachedTodayForDate = await getCachedTimingsForDate(
         getDateKey(today),
         savedSettings.timingsProvider,
-        savedSettings.methodId
+        savedSettings.methodId,
+        savedSettings.asrSchool,
+        savedSettings.tuneOffsets,
+        savedSettings.highLatitudeRule
       );
       const cachedTomorrowForDate = await getCachedTimingsForDate(
         getDateKey(tomorrow),
         savedSettings.timingsProvider,
-        savedSettings.methodId
+        savedSettings.methodId,
+        savedSettings.asrSchool,
+        savedSettings.tuneOffsets,
+        savedSettings.highLatitudeRule
       );
       if (cachedTodayForDate) {
         if (isStale()) {
@@ -319,21 +414,130 @@ export default function HomeScreen() {
     })();
   }, []);
 
+  const loadPrayerLog = useCallback(async () => {
+    const log = await getPrayerLog();
+    setTodayLog(log[getDateKey(new Date())] ?? {});
+  }, []);
+
+  const loadDefaultMosque = useCallback(async () => {
+    setDefaultMosque(await getDefaultMosque());
+  }, []);
+
+  // Runs after loadData so both do not save settings at once; a detected change reloads the timings.
+  const checkTravel = useCallback(async () => {
+    try {
+      const saved = await getSettings();
+      if (!saved.travel.detect) {
+        setTravelOffer(null);
+        return;
+      }
+      const place = await locateTraveler();
+      if (!place) {
+        return;
+      }
+      const detection = detectTravel(saved, place);
+      if (detection.kind === "away") {
+        setTravelOffer({ place, distanceKm: detection.distanceKm });
+        return;
+      }
+      setTravelOffer(null);
+      if (detection.kind === "adopt_home") {
+        await saveSettings(setTravelHome(saved, place));
+      } else if (detection.kind === "moved") {
+        await saveSettings(followTravel(saved, place));
+        await loadData();
+      } else if (detection.kind === "returned") {
+        await saveSettings(endTravel(saved));
+        await loadData({ forceLocationRefresh: saved.locationMode === "gps" });
+      }
+    } catch {
+      // Without a position the current mode stays as it is.
+    }
+  }, [loadData]);
+
+  const acceptTravel = useCallback(async () => {
+    if (!travelOffer) {
+      return;
+    }
+    setTravelOffer(null);
+    await saveSettings(startTravel(await getSettings(), travelOffer.place));
+    await loadData({ forceLocationRefresh: true });
+  }, [loadData, travelOffer]);
+
+  const dismissTravel = useCallback(async () => {
+    if (!travelOffer) {
+      return;
+    }
+    setTravelOffer(null);
+    await saveSettings(declineTravel(await getSettings(), travelOffer.place));
+  }, [travelOffer]);
+
+  // The watched location and the month-ahead warmup of every saved location, both from cache when possible.
+  const loadSavedLocations = useCallback(async () => {
+    const saved = await getSettings();
+    const watch = getWatchLocation(saved);
+    try {
+      setWatchTimings(watch ? { location: watch, ...(await loadWatchTimings(saved, watch, new Date())) } : null);
+    } catch {
+      setWatchTimings(null);
+    }
+
+    const warmupKey = `${getDateKey(new Date())}|${saved.savedLocations.map((item) => item.id).join(",")}`;
+    if (lastWarmupKeyRef.current !== warmupKey) {
+      lastWarmupKeyRef.current = warmupKey;
+      void warmSavedLocations(saved, new Date());
+    }
+  }, []);
+
+  const selectLocation = useCallback(
+    async (location: SavedLocation | null) => {
+      setLocationPickerVisible(false);
+      const saved = await getSettings();
+      const updated: Settings = location
+        ? applySavedLocation(saved, location)
+        : { ...restoreBaseTimings(endTravel(saved)), locationMode: "gps", activeLocationId: null };
+      await saveSettings(updated);
+      await loadData({ forceLocationRefresh: location === null });
+      await loadSavedLocations();
+    },
+    [loadData, loadSavedLocations]
+  );
+
   useFocusEffect(
     useCallback(() => {
-      void loadData();
-    }, [loadData])
+      void (async () => {
+        await loadData();
+        await checkTravel();
+        await loadSavedLocations();
+      })();
+      void loadPrayerLog();
+      void loadDefaultMosque();
+    }, [checkTravel, loadData, loadDefaultMosque, loadPrayerLog, loadSavedLocations])
   );
 
+  // Tap ticks a prayer as prayed, long-press logs it as missed; repeating the gesture clears it.
+  const togglePrayerLog = async (prayer: TrackedPrayer, status: PrayerLogStatus) => {
+    const dateKey = getDateKey(new Date());
+    const log = await markPrayer(dateKey, prayer, todayLog[prayer]?.status === status ? null : status);
+    setTodayLog(log[dateKey] ?? {});
+    if (log[dateKey]?.[prayer]) {
+      void cancelPrayerFollowUps(prayer, dateKey).catch(() => {
+        // The next replan leaves the warning out.
+      });
+    }
+  };
+
   useEffect(() => {
     if (!timings) {
       return;
     }
 
     updateCountdown(timings, tomorrowTimings);
+    updateRamadanCountdown(timings, tomorrowTimings, settings);
 
     const interval = setInterval(() => {
       updateCountdown(timings, tomorrowTimings);
+      updateRamadanCountdown(timings, tomorrowTimings, settings);
 
       const nowKey = getDateKey(new Date());
       if (nowKey !== timings.dateKey) {
@@ -342,7 +546,7 @@ export default function HomeScreen() {
     }, 1000);
 
     return () => clearInterval(interval);
-  }, [loadData, timings, tomorrowTimings, updateCountdown]);
+  }, [loadData, settings, timings, tomorrowTimings, updateCountdown, updateRamadanCountdown]);
 
   const onRefresh = useCallback(async () => {
     setRefreshing(true);
@@ -357,6 +561,23 @@ export default function HomeScreen() {
     return locationName;
   }, [locationName]);
 
+  const extraTimeRows = useMemo(() => {
+    if (!settings || !timings) {
+      return [];
+    }
+    const names = getEnabledExtraTimeNames(settings);
+    if (names.length === 0) {
+      return [];
+    }
+    const resolved = resolveExtraTimes({ timings, nextDayTimings: tomorrowTimings, settings });
+    return names.map((name) => ({ name, time: resolved[name], notify: settings.extraTimes[name].notify }));
+  }, [settings, timings, tomorrowTimings]);
+
+  const iqamahSchedule =
+    settings?.iqamah.showOnHome && defaultMosque && appliesMosqueIqamah(settings, defaultMosque, coords)
+      ? settings.iqamah.schedules[defaultMosque.id] ?? null
+      : null;
+
   const locationParts = useMemo(() => {
     const [cityRaw, countryRaw] = locationLabel.split(",");
     const city = (cityRaw ?? t("common.current_location")).trim();
@@ -372,15 +593,30 @@ export default function HomeScreen() {
     };
 
     if (homeDateMode === "hijri") {
+      const adjustment = settings?.hijriAdjustmentDays ?? 0;
       try {
-        return new Intl.DateTimeFormat(`${localeTag}-u-ca-islamic`, options).format(new Date());
+        if (adjustment === 0) {
+          return new Intl.DateTimeFormat(`${localeTag}-u-ca-islamic`, options).format(new Date());
+        }
+        // The weekday stays on today's Gregorian day; only the Hijri day and month are shifted.
+        const weekday = new Date().toLocaleDateString(localeTag, { weekday: "long" });
+        const dayMonth = new Intl.DateTimeFormat(`${localeTag}-u-ca-islamic`, {
+          day: "numeric",
+          month: "short"
+        }).format(applyHijriAdjustment(new Date(), adjustment));
+        return `${weekday}, ${dayMonth}`;
       } catch {
-        return new Intl.DateTimeFormat("en-u-ca-islamic", options).format(new Date());
+        // Same split as above, in English when the locale has no Islamic calendar.
+        const weekday = new Date().toLocaleDateString("en", { weekday: "long" });
+        const dayMonth = new Intl.DateTimeFormat("en-u-ca-islamic", { day: "numeric", month: "short" }).format(
+          applyHijriAdjustment(new Date(), adjustment)
+        );
+        return `${weekday}, ${dayMonth}`;
       }
     }
 
     return new Date().toLocaleDateString(localeTag, options);
-  }, [homeDateMode, localeTag]);
+  }, [homeDateMode, localeTag, settings?.hijriAdjustmentDays]);
 
   const toggleHomeDateMode = useCallback(async () => {
     const nextMode = homeDateMode === "gregorian" ? "hijri" : "gregorian";
@@ -402,6 +638,14 @@ export default function HomeScreen() {
     return timings.times[nextPrayerName] ?? "--:--";
   }, [nextPrayerName, nextPrayerTomorrow, timings, tomorrowTimings]);
 
+  const watchNext = useMemo(
+    () =>
+      watchTimings && countdown
+        ? getWatchNextPrayer(watchTimings.location, watchTimings.today, watchTimings.tomorrow, new Date())
+        : null,
+    [countdown, watchTimings]
+  );
+
   const nextPrayerLabel = useMemo(() => {
     if (nextPrayerTomorrow) {
       return t("home.tomorrow_prayer", { prayer: prayerName("Fajr") });
@@ -416,8 +660,11 @@ export default function HomeScreen() {
     if (source === "cache") {
       return t("home.source_cache");
     }
+    if (source === "fallback" && timings) {
+      return t(`home.provider_${getTimingsProvider(timings)}`);
+    }
     return t("home.source_unknown");
-  }, [source, t]);
+  }, [source, t, timings]);
 
   const sourceTrust = useMemo(() => {
     if (loadState === "loading") {
@@ -488,19 +735,30 @@ export default function HomeScreen() {
         <EaseView initialAnimate={easeInitialLift} animate={easeVisibleLift} transition={enterTransition}>
           <View style={styles.headerRow}>
             <View style={styles.headerLocationBlock}>
-              <View style={styles.locationRow}>
+              <Pressable
+                style={styles.locationRow}
+                onPress={() => setLocationPickerVisible(true)}
+                accessibilityRole="button"
+                accessibilityLabel={t("home.switch_location")}
+              >
                 <Ionicons name="location" size={18} color="#2B8CEE" />
                 <View style={styles.locationTextWrap}>
-                  <Text style={[styles.locationCityText, { color: colors.textPrimary }]} numberOfLines={1}>
-                    {locationParts.city}
-                  </Text>
+                  <View style={styles.locationCityRow}>
+                    <Text
+                      style={[styles.locationCityText, styles.locationCityShrink, { color: colors.textPrimary }]}
+                      numberOfLines={1}
+                    >
+                      {locationParts.city}
+                    </Text>
+                    <Ionicons name="chevron-down" size={18} color={colors.textSecondary} />
+                  </View>
                   {locationParts.country ? (
                     <Text style={[styles.locationCountryText, { color: colors.textSecondary }]} numberOfLines={1}>
                       {locationParts.country}
                     </Text>
                   ) : null}
                 </View>
-              </View>
+              </Pressable>
               <Pressable onPress={() => void toggleHomeDateMode()}>
                 <Text style={[styles.dateText, { color: colors.textSecondary }]}>{todaysDateLabel}</Text>
               </Pressable>
@@ -544,9 +802,117 @@ export default function HomeScreen() {
                 </Text>
               </Pressable>
             </View>
+
+            {watchNext ? (
+              <View style={styles.watchRow}>
+                <Ionicons name="eye-outline" size={15} color="#D8ECFF" />
+                <Text style={styles.watchText} numberOfLines={1}>
+                  {t(watchNext.tomorrow ? "home.watch_next_tomorrow" : "home.watch_next", {
+                    place: watchNext.location.label.split(",")[0],
+                    prayer: prayerName(watchNext.prayer),
+                    time: watchNext.time,
+                    countdown: formatCountdown(watchNext.minutesUntil * 60 * 1000).slice(0, 5)
+                  })}
+                </Text>
+              </View>
+            ) : null}
           </View>
         </EaseView>
 
+        {ramadanCountdown ? (
+          <EaseView initialAnimate={easeInitialFade} animate={easeVisibleFade} transition={stateTransition}>
+            <Pressable
+              style={[styles.ramadanCard, { backgroundColor: colors.card, borderColor: colors.cardBorder }]}
+              onPress={() => router.push("/ramadan" as never)}
+            >
+              <View style={styles.ramadanIconWrap}>
+                <MaterialCommunityIcons
+                  name={ramadanCountdown.phase === "iftar" ? "weather-sunset-down" : "moon-waning-crescent"}
+                  size={20}
+                  color="#F2F8FF"
+                />
+              </View>
+              <View style={styles.ramadanTextBlock}>
+                <Text style={[styles.ramadanTitle, { color: colors.textPrimary }]} numberOfLines={1}>
+                  {ramadanCountdown.phase === "iftar"
+                    ? t("home.ramadan_iftar_in", { time: ramadanRemaining })
+                    : t("home.ramadan_suhoor_in", { time: ramadanRemaining })}
+                </Text>
+                <Text style={[styles.ramadanMeta, { color: colors.textSecondary }]} numberOfLines={1}>
+                  {ramadanCountdown.day
+                    ? t("home.ramadan_day_times", {
+                        day: ramadanCountdown.day,
+                        imsak: ramadanCountdown.imsak,
+                        iftar: ramadanCountdown.iftar
+                      })
+                    : t("home.ramadan_times", { imsak: ramadanCountdown.imsak, iftar: ramadanCountdown.iftar })}
+                </Text>
+              </View>
+              <Ionicons name="chevron-forward" size={18} color={colors.textSecondary} />
+            </Pressable>
+          </EaseView>
+        ) : null}
+
+        {travelOffer ? (
+          <EaseView initialAnimate={easeInitialFade} animate={easeVisibleFade} transition={stateTransition}>
+            <View style={[styles.travelCard, { backgroundColor: colors.card, borderColor: colors.cardBorder }]}>
+              <View style={styles.travelHeader}>
+                <View style={styles.travelIconWrap}>
+                  <Ionicons name="airplane" size={18} color="#F2F8FF" />
+                </View>
+                <View style={styles.travelTextBlock}>
+                  <Text style={[styles.travelTitle, { color: colors.textPrimary }]} numberOfLines={1}>
+                    {t("home.travel_offer_title", { km: travelOffer.distanceKm })}
+                  </Text>
+                  <Text style={[styles.travelMeta, { color: colors.textSecondary }]} numberOfLines={2}>
+                    {t("home.travel_offer_body", { place: travelOffer.place.label })}
+                  </Text>
+                </View>
+              </View>
+              <View style={styles.travelActions}>
+                <Pressable
+                  style={[styles.travelButton, { borderColor: colors.cardBorder }]}
+                  onPress={() => void dismissTravel()}
+                >
+                  <Text style={[styles.travelButtonText, { color: colors.textPrimary }]}>
+                    {t("home.travel_not_now")}
+                  </Text>
+                </Pressable>
+                <Pressable
+                  style={[styles.travelButton, { backgroundColor: colors.accent, borderColor: colors.accent }]}
+                  onPress={() => void acceptTravel()}
+                >
+                  <Text style={[styles.travelButtonText, { color: "#F2F8FF" }]}>{t("home.travel_switch")}</Text>
+                </Pressable>
+              </View>
+            </View>
+          </EaseView>
+        ) : settings?.travel.active ? (
+          <EaseView initialAnimate={easeInitialFade} animate={easeVisibleFade} transition={stateTransition}>
+            <Pressable
+              style={[
+                styles.travelCard,
+                styles.travelHeader,
+                { backgroundColor: colors.card, borderColor: colors.cardBorder }
+              ]}
+              onPress={() => router.push("/travel" as never)}
+            >
+              <View style={styles.travelIconWrap}>
+                <Ionicons name="airplane" size={18} color="#F2F8FF" />
+              </View>
+              <View style={styles.travelTextBlock}>
+                <Text style={[styles.travelTitle, { color: colors.textPrimary }]} numberOfLines={1}>
+                  {t("home.travel_active", { place: settings.travel.active.place.label.split(",")[0] })}
+                </Text>
+                <Text style={[styles.travelMeta, { color: colors.textSecondary }]} numberOfLines={1}>
+                  {t("home.travel_active_meta")}
+                </Text>
+              </View>
+              <Ionicons name="chevron-forward" size={18} color={colors.textSecondary} />
+            </Pressable>
+          </EaseView>
+        ) : null}
+
         <EaseView initialAnimate={easeInitialLift} animate={easeVisibleLift} transition={enterTransition}>
           <Text style={[styles.sectionTitle, { color: colors.textSecondary }]}>{t("home.todays_schedule")}</Text>
         </EaseView>
@@ -608,6 +974,15 @@ export default function HomeScreen() {
               const rowIconColor = resolvedTheme === "light" ? "#5D7390" : "#7D8DA8";
               const rowNextBackground = resolvedTheme === "light" ? "#DDEEFF" : "#173A5E";
               const rowNextBorder = resolvedTheme === "light" ? "#69A9EA" : "#2B8CEE";
+              const logStatus = isTrackedPrayer(item) ? todayLog[item]?.status : undefined;
+              const hasStarted = timings
+                ? parsePrayerTimeForDate(new Date(), timings.times[item]).getTime() <= Date.now()
+                : false;
+              const qasrHint = settings ? getQasrHint(item, settings.travel) : null;
+              const iqamahTime =
+                iqamahSchedule && timings && isTrackedPrayer(item)
+                  ? resolveIqamahTime(iqamahSchedule, item, new Date(), timings.times[item])
+                  : null;
 
               return (
                 <View
@@ -638,13 +1013,56 @@ export default function HomeScreen() {
                       {prayerName(item)}
                     </Text>
                     {isNext ? <Text style={styles.comingUpText}>{t("home.coming_up")}</Text> : null}
+                    {qasrHint ? (
+                      <Text style={[styles.qasrText, { color: colors.textSecondary }]} numberOfLines={1}>
+                        {[
+                          qasrHint.qasr ? t("home.qasr_hint") : null,
+                          qasrHint.combineWith
+                            ? t("home.jam_hint", { prayer: prayerName(qasrHint.combineWith) })
+                            : null
+                        ]
+                          .filter(Boolean)
+                          .join(" • ")}
+                      </Text>
+                    ) : null}
                   </View>
                 </View>
 
                   <View style={styles.rowRight}>
-                    <Text style={[styles.rowTime, { color: rowTimeColor }, isNext && styles.rowTimeNext]}>
-                      {timings?.times[item] ?? "--:--"}
-                    </Text>
+                    <View style={styles.rowTimeBlock}>
+                      <Text style={[styles.rowTime, { color: rowTimeColor }, isNext && styles.rowTimeNext]}>
+                        {timings?.times[item] ?? "--:--"}
+                      </Text>
+                      {iqamahTime ? (
+                        <Text style={[styles.iqamahText, { color: colors.textSecondary }]}>
+                          {t("home.iqamah", { time: iqamahTime })}
+                        </Text>
+                      ) : null}
+                    </View>
+                    {isTrackedPrayer(item) ? (
+                      <Pressable
+                        hitSlop={8}
+                        disabled={!hasStarted}
+                        style={!hasStarted && styles.logButtonDisabled}
+                        onPress={() => void togglePrayerLog(item, "prayed")}
+                        onLongPress={() => void togglePrayerLog(item, "missed")}
+                        accessibilityLabel={t("home.mark_prayed", { prayer: prayerName(item) })}
+                      >
+                        <Ionicons
+                          name={
+                            logStatus === "prayed"
+                              ? "checkmark-circle"
+                              : logStatus === "missed"
+                                ? "close-circle"
+                                : "ellipse-outline"
+                          }
+                          size={22}
+                          color={logStatus === "prayed" ? "#1BBF84" : logStatus === "missed" ? "#D66B6B" : "#586A84"}
+                        />
+                      </Pressable>
+                    ) : (
+                      <View style={styles.logSpacer} />
+                    )}
                     <Ionicons
                       name={isEnabled ? "notifications" : "notifications-off-outline"}
                       size={20}
@@ -654,9 +1072,82 @@ export default function HomeScreen() {
                 </View>
               );
             }}
-            ListFooterComponent={<Text style={styles.statusText}>{statusMessage}</Text>}
+            ListFooterComponent={
+              <>
+                {extraTimeRows.length > 0 ? (
+                  <View style={[styles.extraCard, { backgroundColor: colors.card, borderColor: colors.cardBorder }]}>
+                    <Text style={[styles.extraTitle, { color: colors.textSecondary }]}>{t("home.extra_times")}</Text>
+                    {extraTimeRows.map((row) => (
+                      <View key={row.name} style={styles.extraRow}>
+                        <Text style={[styles.extraName, { color: colors.textPrimary }]}>
+                          {t(`extra_times.${row.name}`)}
+                        </Text>
+                        <View style={styles.extraRight}>
+                          <Text style={[styles.extraTime, { color: colors.textPrimary }]}>{row.time}</Text>
+                          <Ionicons
+                            name={row.notify ? "notifications" : "notifications-off-outline"}
+                            size={16}
+                            color={row.notify ? "#2B8CEE" : "#586A84"}
+                          />
+                        </View>
+                      </View>
+                    ))}
+                  </View>
+                ) : null}
+                <Text style={styles.statusText}>{statusMessage}</Text>
+              </>
+            }
           />
         )}
+
+        <Modal
+          transparent
+          visible={locationPickerVisible}
+          animationType="fade"
+          onRequestClose={() => setLocationPickerVisible(false)}
+        >
+          <Pressable style={styles.pickerOverlay} onPress={() => setLocationPickerVisible(false)}>
+            <Pressable
+              style={[styles.pickerSheet, { backgroundColor: colors.card, borderColor: colors.cardBorder }]}
+              onPress={() => {}}
+            >
+              <Text style={[styles.pickerTitle, { color: colors.textSecondary }]}>{t("home.switch_location")}</Text>
+              <Pressable style={styles.pickerRow} onPress={() => void selectLocation(null)}>
+                <Ionicons name="navigate" size={18} color="#2B8CEE" />
+                <Text style={[styles.pickerLabel, { color: colors.textPrimary }]} numberOfLines={1}>
+                  {t("home.location_gps")}
+                </Text>
+                {settings?.locationMode === "gps" ? <Ionicons name="checkmark" size={18} color="#2B8CEE" /> : null}
+              </Pressable>
+              {settings?.savedLocations.map((location) => {
+                const selected = settings.locationMode === "manual" && settings.activeLocationId === location.id;
+                return (
+                  <Pressable key={location.id} style={styles.pickerRow} onPress={() => void selectLocation(location)}>
+                    <Ionicons
+                      name={settings.watchLocationId === location.id ? "eye-outline" : "location-outline"}
+                      size={18}
+                      color={colors.textSecondary}
+                    />
+                    <Text style={[styles.pickerLabel, { color: colors.textPrimary }]} numberOfLines={1}>
+                      {location.label}
+                    </Text>
+                    {selected ? <Ionicons name="checkmark" size={18} color="#2B8CEE" /> : null}
+                  </Pressable>
+                );
+              })}
+              <Pressable
+                style={[styles.pickerRow, styles.pickerManage, { borderTopColor: colors.cardBorder }]}
+                onPress={() => {
+                  setLocationPickerVisible(false);
+                  router.push("/locations" as never);
+                }}
+              >
+                <Ionicons name="create-outline" size={18} color={colors.accent} />
+                <Text style={[styles.pickerLabel, { color: colors.accent }]}>{t("home.manage_locations")}</Text>
+              </Pressable>
+            </Pressable>
+          </Pressable>
+        </Modal>
       </View>
     </SafeAreaView>
   );
@@ -693,6 +1184,14 @@ const styles = StyleSheet.create({
     flexShrink: 1,
     flex: 1
   },
+  locationCityRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 4
+  },
+  locationCityShrink: {
+    flexShrink: 1
+  },
   locationCityText: {
     fontSize: 24,
     fontWeight: "700",
@@ -782,6 +1281,19 @@ const styles = StyleSheet.create({
     flex: 1,
     paddingRight: 8
   },
+  watchRow: {
+    marginTop: 14,
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 6
+  },
+  watchText: {
+    flex: 1,
+    fontSize: 14,
+    fontWeight: "600",
+    color: "#D8ECFF",
+    fontVariant: ["tabular-nums"]
+  },
   heroScheduledLabel: {
     fontSize: 18,
     color: "#D8ECFF"
@@ -817,6 +1329,157 @@ const styles = StyleSheet.create({
   reminderButtonTextCompact: {
     fontSize: 16
   },
+  ramadanCard: {
+    marginTop: 14,
+    borderRadius: 16,
+    borderWidth: 1,
+    paddingHorizontal: 14,
+    paddingVertical: 10,
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 12
+  },
+  ramadanIconWrap: {
+    width: 36,
+    height: 36,
+    borderRadius: 10,
+    backgroundColor: "#2B8CEE",
+    alignItems: "center",
+    justifyContent: "center"
+  },
+  ramadanTextBlock: {
+    flex: 1
+  },
+  ramadanTitle: {
+    fontSize: 16,
+    fontWeight: "800",
+    fontVariant: ["tabular-nums"]
+  },
+  ramadanMeta: {
+    marginTop: 2,
+    fontSize: 13,
+    fontWeight: "600"
+  },
+  pickerOverlay: {
+    flex: 1,
+    backgroundColor: "rgba(2, 8, 16, 0.18)",
+    justifyContent: "flex-start",
+    paddingTop: 96,
+    paddingHorizontal: 20
+  },
+  pickerSheet: {
+    borderRadius: 16,
+    borderWidth: 1,
+    paddingHorizontal: 14,
+    paddingVertical: 10,
+    shadowColor: "#000",
+    shadowOpacity: 0.2,
+    shadowRadius: 8,
+    shadowOffset: { width: 0, height: 3 }
+  },
+  pickerTitle: {
+    fontSize: 12,
+    fontWeight: "700",
+    letterSpacing: 0.8,
+    marginBottom: 4
+  },
+  pickerRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 10,
+    paddingVertical: 10
+  },
+  pickerLabel: {
+    flex: 1,
+    fontSize: 15,
+    fontWeight: "600"
+  },
+  pickerManage: {
+    marginTop: 4,
+    borderTopWidth: 1
+  },
+  travelCard: {
+    marginTop: 14,
+    borderRadius: 16,
+    borderWidth: 1,
+    paddingHorizontal: 14,
+    paddingVertical: 10
+  },
+  travelHeader: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 12
+  },
+  travelIconWrap: {
+    width: 36,
+    height: 36,
+    borderRadius: 10,
+    backgroundColor: "#2B8CEE",
+    alignItems: "center",
+    justifyContent: "center"
+  },
+  travelTextBlock: {
+    flex: 1
+  },
+  travelTitle: {
+    fontSize: 16,
+    fontWeight: "800"
+  },
+  travelMeta: {
+    marginTop: 2,
+    fontSize: 13,
+    fontWeight: "600"
+  },
+  travelActions: {
+    flexDirection: "row",
+    gap: 8,
+    marginTop: 10
+  },
+  travelButton: {
+    flex: 1,
+    minHeight: 36,
+    borderRadius: 10,
+    borderWidth: 1,
+    alignItems: "center",
+    justifyContent: "center"
+  },
+  travelButtonText: {
+    fontSize: 14,
+    fontWeight: "700"
+  },
+  extraCard: {
+    marginTop: 4,
+    borderRadius: 16,
+    borderWidth: 1,
+    paddingHorizontal: 14,
+    paddingVertical: 10,
+    gap: 6
+  },
+  extraTitle: {
+    fontSize: 12,
+    fontWeight: "700",
+    letterSpacing: 1.2,
+    textTransform: "uppercase"
+  },
+  extraRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between"
+  },
+  extraName: {
+    fontSize: 15,
+    fontWeight: "600"
+  },
+  extraRight: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 8
+  },
+  extraTime: {
+    fontSize: 15,
+    fontWeight: "700",
+    fontVariant: ["tabular-nums"]
+  },
   sectionTitle: {
     marginTop: 28,
     marginBottom: 10,
@@ -889,11 +1552,30 @@ const styles = StyleSheet.create({
     color: "#44A4FF",
     letterSpacing: 0.8
   },
+  qasrText: {
+    marginTop: 1,
+    fontSize: 11,
+    fontWeight: "600"
+  },
   rowRight: {
     flexDirection: "row",
     alignItems: "center",
     gap: 10
   },
+  logButtonDisabled: {
+    opacity: 0.35
+  },
+  logSpacer: {
+    width: 22
+  },
+  rowTimeBlock: {
+    alignItems: "flex-end"
+  },
+  iqamahText: {
+    marginTop: 1,
+    fontSize: 11,
+    fontWeight: "600"
+  },
   rowTime: {
     fontSize: 16,
     fontWeight: "800",
@@ -181,6 +181,55 @@ export default function MenuScreen() {
         />
       )
     },
+    {
+      id: "ramadan",
+      onPress: () => router.push("/ramadan" as never),
+      title: t("menu.ramadan.title"),
+      subtitle: t("menu.ramadan.subtitle"),
+      icon: <Ionicons name="moon-outline" size={21} color="#2B8CEE" />
+    },
+    {
+      id: "hijri-calendar",
+      onPress: () => router.push("/hijri-calendar" as never),
+      title: t("menu.hijri_calendar.title"),
+      subtitle: t("menu.hijri_calendar.subtitle"),
+      icon: <Ionicons name="calendar-outline" size={21} color="#2B8CEE" />
+    },
+    {
+      id: "jumuah",
+      onPress: () => router.push("/jumuah" as never),
+      title: t("menu.jumuah.title"),
+      subtitle: t("menu.jumuah.subtitle"),
+      icon: <Ionicons name="people-outline" size={21} color="#2B8CEE" />
+    },
+    {
+      id: "iqamah",
+      onPress: () => router.push("/iqamah" as never),
+      title: t("menu.iqamah.title"),
+      subtitle: t("menu.iqamah.subtitle"),
+      icon: <Ionicons name="time-outline" size={21} color="#2B8CEE" />
+    },
+    {
+      id: "travel",
+      onPress: () => router.push("/travel" as never),
+      title: t("menu.travel.title"),
+      subtitle: t("menu.travel.subtitle"),
+      icon: <Ionicons name="airplane-outline" size={21} color="#2B8CEE" />
+    },
+    {
+      id: "locations",
+      onPress: () => router.push("/locations" as never),
+      title: t("menu.locations.title"),
+      subtitle: t("menu.locations.subtitle"),
+      icon: <Ionicons name="bookmark-outline" size={21} color="#2B8CEE" />
+    },
+    {
+      id: "tracker",
+      onPress: () => router.push("/tracker" as never),
+      title: t("menu.tracker.title"),
+      subtitle: t("menu.tracker.subtitle"),
+      icon: <Ionicons name="stats-chart-outline" size={21} color="#2B8CEE" />
+    },
     {
       id: "source-check",
       onPress: () => router.push("/source-check" as never),
@@ -1,6 +1,7 @@
 import { Ionicons } from "@expo/vector-icons";
 import { useBottomTabBarHeight } from "@react-navigation/bottom-tabs";
 import { useFocusEffect, useIsFocused } from "@react-navigation/native";
+import { useRouter } from "expo-router";
 import { useCallback, useEffect, useMemo, useRef, useState } from "react";
 import { EaseView } from "react-native-ease";
 import {
@@ -31,16 +32,21 @@ import { StatusChip } from "@/components/StatusChip";
 import { useCompassConfidence } from "@/hooks/useCompassConfidence";
 import { useI18n } from "@/i18n/I18nProvider";
 import { getCurrentLocationDetails } from "@/services/location";
-import { getQiblaCompassImageUrl, getQiblaDirection } from "@/services/qibla";
+import { CalibrationAdviceReason, getCalibrationAdvice } from "@/services/compassCalibration";
+import { getMagneticDeclination } from "@/services/magneticDeclination";
+import { fetchQiblaDirection, getQiblaCompassImageUrl, getQiblaDirection } from "@/services/qibla";
 import {
   buildQiblaCacheKey,
-  getCachedQibla,
+  getCompassCalibrationHistory,
   getLatestCachedQibla,
   saveCachedQibla
 } from "@/services/storage";
+import { getSunPlacement, getSunQiblaAlignments, getSunQiblaGuidance } from "@/services/sunQibla";
 import { useAppTheme } from "@/theme/ThemeProvider";
 
 type LoadState = "idle" | "loading" | "ready" | "error";
+type HeadingReference = "true" | "corrected" | "magnetic";
+type FinderMode = "compass" | "sun";
 
 function normalizeHeading(value: number): number {
   const v = value % 360;
@@ -58,7 +64,8 @@ function signedTurnDiff(from: number, to: number): number {
 
 export default function QiblaScreen() {
   const { colors, resolvedTheme } = useAppTheme();
-  const { t } = useI18n();
+  const { t, localeTag } = useI18n();
+  const router = useRouter();
   const isFocused = useIsFocused();
   const tabBarHeight = useBottomTabBarHeight();
   const isLight = resolvedTheme === "light";
@@ -66,6 +73,9 @@ export default function QiblaScreen() {
   const stateTransition = useMotionTransition(easeStateTransition);
   const pressTransition = useMotionTransition(easePressTransition);
   const [bearing, setBearing] = useState<number | null>(null);
+  const [distanceKm, setDistanceKm] = useState<number | null>(null);
+  const [crossCheckDiff, setCrossCheckDiff] = useState<number | null>(null);
+  const [declination, setDeclination] = useState<number | null>(null);
   const [coords, setCoords] = useState<{ lat: number; lon: number } | null>(null);
   const [locationName, setLocationName] = useState(t("common.current_location"));
   const [statusText, setStatusText] = useState(t("qibla.gps_connected"));
@@ -78,7 +88,12 @@ export default function QiblaScreen() {
   const [deviceHeading, setDeviceHeading] = useState<number | undefined>(undefined);
   const [headingAvailable, setHeadingAvailable] = useState(false);
   const [headingStable, setHeadingStable] = useState(false);
+  const [headingReference, setHeadingReference] = useState<HeadingReference>("magnetic");
+  const [finderMode, setFinderMode] = useState<FinderMode>("compass");
+  const [sunNow, setSunNow] = useState(() => new Date());
+  const [calibrationAdvice, setCalibrationAdvice] = useState<CalibrationAdviceReason | null>(null);
 
+  const declinationRef = useRef<number | null>(null);
   const previousHeadingRef = useRef<number | undefined>(undefined);
   const deltaHistoryRef = useRef<number[]>([]);
   const alignmentArmedRef = useRef(true);
@@ -88,6 +103,7 @@ export default function QiblaScreen() {
   const refresh = useCallback(async () => {
     setLoadState("loading");
     setErrorText(null);
+    setCrossCheckDiff(null);
 
     try {
       const loc = await getCurrentLocationDetails();
@@ -96,36 +112,37 @@ export default function QiblaScreen() {
       setLocationName(displayName);
       setStatusText(t("qibla.gps_connected"));
 
-      const cacheKey = buildQiblaCacheKey(loc.lat, loc.lon);
+      const qibla = getQiblaDirection(loc.lat, loc.lon);
+      setBearing(qibla.bearing);
+      setDistanceKm(qibla.distanceKm);
+      declinationRef.current = getMagneticDeclination(loc.lat, loc.lon);
+      setDeclination(declinationRef.current);
+      setIsCached(false);
+      setLoadState("ready");
 
-      try {
-        const qibla = await getQiblaDirection(loc.lat, loc.lon);
-        setBearing(qibla);
-        setIsCached(false);
-
-        await saveCachedQibla(cacheKey, {
-          bearing: qibla,
-          locationName: displayName,
-          updatedAt: new Date().toISOString(),
-          latRounded: Number(loc.lat.toFixed(2)),
-          lonRounded: Number(loc.lon.toFixed(2))
-        });
-      } catch (apiError) {
-        const cached = await getCachedQibla(cacheKey);
-        if (!cached) {
-          throw apiError;
-        }
+      await saveCachedQibla(buildQiblaCacheKey(loc.lat, loc.lon), {
+        bearing: qibla.bearing,
+        locationName: displayName,
+        updatedAt: new Date().toISOString(),
+        latRounded: Number(loc.lat.toFixed(2)),
+        lonRounded: Number(loc.lon.toFixed(2))
+      });
 
-        setBearing(cached.bearing);
-        setLocationName(cached.locationName || displayName);
-        setIsCached(true);
+      // Offline is fine; the cross-check only adds confidence when the network is there.
+      try {
+        const remote = await fetchQiblaDirection(loc.lat, loc.lon);
+        setCrossCheckDiff(shortestDiff(remote, qibla.bearing));
+      } catch {
+        setCrossCheckDiff(null);
       }
-
-      setLoadState("ready");
     } catch (error) {
       const latest = await getLatestCachedQibla();
       if (latest) {
         setBearing(latest.bearing);
+        setCoords({ lat: latest.latRounded, lon: latest.lonRounded });
+        setDistanceKm(getQiblaDirection(latest.latRounded, latest.lonRounded).distanceKm);
+        declinationRef.current = getMagneticDeclination(latest.latRounded, latest.lonRounded);
+        setDeclination(declinationRef.current);
         setLocationName(latest.locationName || t("qibla.cached_location"));
         setStatusText(t("qibla.permission_needed"));
         setIsCached(true);
@@ -149,6 +166,12 @@ export default function QiblaScreen() {
     }, [refresh])
   );
 
+  useFocusEffect(
+    useCallback(() => {
+      void getCompassCalibrationHistory().then((history) => setCalibrationAdvice(getCalibrationAdvice(history)));
+    }, [])
+  );
+
   useFocusEffect(
     useCallback(() => {
       let active = true;
@@ -172,10 +195,13 @@ export default function QiblaScreen() {
           previousHeadingRef.current = undefined;
 
           const subscription = await Location.watchHeadingAsync((headingData) => {
-            const raw =
-              typeof headingData.trueHeading === "number" && headingData.trueHeading >= 0
-                ? headingData.trueHeading
-                : headingData.magHeading;
+            // The Qibla bearing is relative to true north; a bare magnetic heading is corrected on-device.
+            const hasTrueHeading = typeof headingData.trueHeading === "number" && headingData.trueHeading >= 0;
+            const declination = declinationRef.current;
+            const raw = hasTrueHeading
+              ? headingData.trueHeading
+              : headingData.magHeading + (declination ?? 0);
+            setHeadingReference(hasTrueHeading ? "true" : declination !== null ? "corrected" : "magnetic");
 
             const headingDeg = normalizeHeading(Number(raw));
             const accuracy = Number(headingData.accuracy);
@@ -266,7 +292,9 @@ export default function QiblaScreen() {
       };
     }
 
-    if (!headingStable || typeof deviceHeading !== "number") {
+    // A compass that calibrated poorly before gets sent back to calibration at the first doubt.
+    const warnEarly = calibrationAdvice !== null && confidence.status !== "good";
+    if (!headingStable || typeof deviceHeading !== "number" || warnEarly) {
       return {
         icon: "sync-outline" as const,
         label: t("qibla.guidance.calibrate"),
@@ -289,7 +317,49 @@ export default function QiblaScreen() {
       label: t(turn > 0 ? "qibla.guidance.turn_right" : "qibla.guidance.turn_left", { deg: degrees }),
       tone: "info" as const
     };
-  }, [bearing, deviceHeading, headingAvailable, headingStable, t]);
+  }, [bearing, calibrationAdvice, confidence.status, deviceHeading, headingAvailable, headingStable, t]);
+
+  useEffect(() => {
+    if (!isFocused || finderMode !== "sun") {
+      return;
+    }
+    setSunNow(new Date());
+    const timer = setInterval(() => setSunNow(new Date()), 30000);
+    return () => clearInterval(timer);
+  }, [finderMode, isFocused]);
+
+  const sun = useMemo(() => (coords ? getSunPlacement(sunNow, coords.lat, coords.lon) : null), [coords, sunNow]);
+
+  const sunGuidance = useMemo(() => {
+    if (!sun || typeof bearing !== "number") {
+      return null;
+    }
+    const placement = getSunQiblaGuidance(bearing, sun);
+    switch (placement.kind) {
+      case "below_horizon":
+        return { main: t("qibla.sun.below_horizon"), shadow: null };
+      case "ahead":
+        return { main: t("qibla.sun.ahead"), shadow: null };
+      case "behind":
+        return { main: t("qibla.sun.behind"), shadow: null };
+      case "side":
+        return {
+          main: t(`qibla.sun.keep_${placement.side}`, { deg: placement.degrees }),
+          shadow: t(placement.side === "left" ? "qibla.sun.shadow_right" : "qibla.sun.shadow_left", {
+            deg: 180 - placement.degrees
+          })
+        };
+    }
+  }, [bearing, sun, t]);
+
+  const sunDay = new Date(sunNow.getFullYear(), sunNow.getMonth(), sunNow.getDate()).getTime();
+  const alignments = useMemo(
+    () =>
+      coords && typeof bearing === "number"
+        ? getSunQiblaAlignments(new Date(sunDay), coords.lat, coords.lon, bearing)
+        : [],
+    [bearing, coords, sunDay]
+  );
 
   const guidanceIconColor = guidance?.tone === "success" ? "#2BAE66" : guidance?.tone === "info" ? "#2B8CEE" : "#E6A23C";
 
@@ -371,6 +441,37 @@ export default function QiblaScreen() {
             <Text style={[styles.qiblaText, { color: colors.accent }]}>
               {t("qibla.bearing", { deg: Math.round(bearing) })}
             </Text>
+            {distanceKm !== null ? (
+              <Text style={[styles.qiblaMeta, { color: colors.textSecondary }]}>
+                {t("qibla.distance", { km: Math.round(distanceKm).toLocaleString() })}
+              </Text>
+            ) : null}
+            <View style={styles.modeRow}>
+              {(["compass", "sun"] as const).map((item) => {
+                const selected = finderMode === item;
+                return (
+                  <Pressable
+                    key={item}
+                    style={[
+                      styles.modeChip,
+                      isLight ? { borderColor: "#C7DAEE", backgroundColor: "#F7FBFF" } : null,
+                      selected && { backgroundColor: colors.accent, borderColor: colors.accent }
+                    ]}
+                    onPress={() => setFinderMode(item)}
+                    accessibilityState={{ selected }}
+                  >
+                    <Ionicons
+                      name={item === "sun" ? "sunny-outline" : "compass-outline"}
+                      size={16}
+                      color={selected ? "#FFFFFF" : colors.textSecondary}
+                    />
+                    <Text style={[styles.modeChipText, { color: selected ? "#FFFFFF" : colors.textPrimary }]}>
+                      {t(`qibla.mode_${item}`)}
+                    </Text>
+                  </Pressable>
+                );
+              })}
+            </View>
           </EaseView>
         ) : null}
 
@@ -414,7 +515,73 @@ export default function QiblaScreen() {
             </EaseView>
           ) : null}
 
-          {loadState === "ready" && bearing !== null ? (
+          {loadState === "ready" && bearing !== null && finderMode === "sun" ? (
+            <EaseView
+              style={[styles.sunCard, isLight ? { borderColor: "#C7DAEE", backgroundColor: "#F7FBFF" } : null]}
+              initialAnimate={easeInitialFade}
+              animate={easeVisibleFade}
+              transition={enterTransition}
+            >
+              <View style={styles.sunHeader}>
+                <View style={[styles.guidanceIconWrap, isLight ? { backgroundColor: "#EAF2FC" } : null]}>
+                  <Ionicons name="sunny" size={20} color="#E6A23C" />
+                </View>
+                <View style={styles.guidanceCopy}>
+                  <Text style={[styles.guidanceTitle, isLight ? { color: "#173A59" } : null]}>
+                    {t("qibla.sun.title")}
+                  </Text>
+                  {sun ? (
+                    <Text style={[styles.confidenceTip, isLight ? { color: "#355777" } : null]}>
+                      {t("qibla.sun.position", {
+                        azimuth: Math.round(sun.azimuth),
+                        altitude: Math.round(sun.altitude)
+                      })}
+                    </Text>
+                  ) : null}
+                </View>
+              </View>
+              {sunGuidance ? (
+                <>
+                  <Text style={[styles.sunMain, isLight ? { color: "#173A59" } : null]}>{sunGuidance.main}</Text>
+                  {sunGuidance.shadow ? (
+                    <Text style={[styles.guidanceText, isLight ? { color: "#355777" } : null]}>
+                      {sunGuidance.shadow}
+                    </Text>
+                  ) : null}
+                </>
+              ) : null}
+
+              <Text style={[styles.sunSection, isLight ? { color: "#173A59" } : null]}>
+                {t("qibla.sun.alignments")}
+              </Text>
+              {alignments.length === 0 ? (
+                <Text style={[styles.confidenceTip, isLight ? { color: "#355777" } : null]}>
+                  {t("qibla.sun.no_alignments")}
+                </Text>
+              ) : (
+                alignments.map((item) => (
+                  <View key={`${item.kind}-${item.at.getTime()}`} style={styles.alignmentRow}>
+                    <Ionicons
+                      name={item.kind === "toward" ? "sunny-outline" : "body-outline"}
+                      size={16}
+                      color={isLight ? "#355777" : "#B8CCE2"}
+                    />
+                    <Text style={[styles.alignmentText, isLight ? { color: "#355777" } : null]}>
+                      {t(item.kind === "toward" ? "qibla.sun.toward" : "qibla.sun.away")}
+                    </Text>
+                    <Text style={[styles.alignmentTime, isLight ? { color: "#173A59" } : null]}>
+                      {item.at.toLocaleTimeString(localeTag, { hour: "2-digit", minute: "2-digit", hour12: false })}
+                    </Text>
+                  </View>
+                ))
+              )}
+              <Text style={[styles.confidenceTip, isLight ? { color: "#355777" } : null]}>
+                {t("qibla.sun.calibration_hint")}
+              </Text>
+            </EaseView>
+          ) : null}
+
+          {loadState === "ready" && bearing !== null && finderMode === "compass" ? (
             <EaseView initialAnimate={easeInitialFade} animate={easeVisibleFade} transition={enterTransition}>
               <View style={styles.contentWrap}>
               <QiblaCompass
@@ -477,6 +644,38 @@ export default function QiblaScreen() {
                 <Text style={[styles.confidenceTip, isLight ? { color: "#355777" } : null]}>
                   {t(confidence.messageKey)}
                 </Text>
+                {calibrationAdvice ? (
+                  <Text style={[styles.confidenceTip, isLight ? { color: "#355777" } : null]}>
+                    {t(`qibla.calibration.${calibrationAdvice}`)}
+                  </Text>
+                ) : null}
+                <View style={styles.confidenceLinks}>
+                  <Pressable onPress={() => router.push("/compass-calibration" as never)} hitSlop={6}>
+                    <Text style={[styles.confidenceLink, { color: colors.accent }]}>
+                      {t("qibla.calibration.open")}
+                    </Text>
+                  </Pressable>
+                  {confidence.status === "bad" ? (
+                    <Pressable onPress={() => setFinderMode("sun")} hitSlop={6}>
+                      <Text style={[styles.confidenceLink, { color: colors.accent }]}>{t("qibla.sun.try")}</Text>
+                    </Pressable>
+                  ) : null}
+                </View>
+                {declination !== null ? (
+                  <Text style={[styles.confidenceTip, isLight ? { color: "#355777" } : null]}>
+                    {t(declination >= 0 ? "qibla.declination_east" : "qibla.declination_west", {
+                      deg: Math.abs(declination).toFixed(1)
+                    })}{" "}
+                    {t(`qibla.heading_${headingReference}`)}
+                  </Text>
+                ) : null}
+                {crossCheckDiff !== null ? (
+                  <Text style={[styles.confidenceTip, isLight ? { color: "#355777" } : null]}>
+                    {t(crossCheckDiff <= 0.5 ? "qibla.cross_check_ok" : "qibla.cross_check_off", {
+                      diff: crossCheckDiff.toFixed(1)
+                    })}
+                  </Text>
+                ) : null}
                 {__DEV__ ? (
                   <Text style={[styles.confidenceDebug, isLight ? { color: "#56708B" } : null]}>
                     Field:{" "}
@@ -604,6 +803,75 @@ const styles = StyleSheet.create({
     fontWeight: "800",
     color: "#2B8CEE"
   },
+  qiblaMeta: {
+    marginTop: 2,
+    fontSize: 13,
+    fontWeight: "600"
+  },
+  modeRow: {
+    marginTop: 10,
+    flexDirection: "row",
+    gap: 8
+  },
+  modeChip: {
+    flex: 1,
+    minHeight: 36,
+    borderRadius: 10,
+    borderWidth: 1,
+    borderColor: "#244460",
+    backgroundColor: "#13283A",
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "center",
+    gap: 6
+  },
+  modeChipText: {
+    fontSize: 13,
+    fontWeight: "700"
+  },
+  sunCard: {
+    width: "100%",
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: "#244460",
+    backgroundColor: "#13283A",
+    paddingHorizontal: 12,
+    paddingVertical: 12,
+    gap: 6
+  },
+  sunHeader: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 10
+  },
+  sunMain: {
+    marginTop: 6,
+    color: "#E8F2FF",
+    fontSize: 17,
+    lineHeight: 23,
+    fontWeight: "800"
+  },
+  sunSection: {
+    marginTop: 10,
+    color: "#E8F2FF",
+    fontSize: 13,
+    fontWeight: "800"
+  },
+  alignmentRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 8
+  },
+  alignmentText: {
+    flex: 1,
+    color: "#B8CCE2",
+    fontSize: 13
+  },
+  alignmentTime: {
+    color: "#E8F2FF",
+    fontSize: 14,
+    fontWeight: "800"
+  },
   scrollContent: {
     paddingTop: 8
   },
@@ -712,6 +980,16 @@ const styles = StyleSheet.create({
     fontSize: 12,
     lineHeight: 16
   },
+  confidenceLinks: {
+    marginTop: 6,
+    flexDirection: "row",
+    flexWrap: "wrap",
+    gap: 16
+  },
+  confidenceLink: {
+    fontSize: 12,
+    fontWeight: "700"
+  },
   confidenceDebug: {
     marginTop: 8,
     color: "#8FA9C5",
@@ -25,6 +25,7 @@ import { easeButtonStateTransition, easeEnterTransition, easeInitialLift, easePr
 import { useMotionTransition } from "@/animation/useReducedMotion";
 import { StatusChip } from "@/components/StatusChip";
 import {
+  CitySuggestion,
   geocodeCityQuery,
   getCurrentLocationDetails,
   resolveLocationForSettings,
@@ -33,7 +34,9 @@ import {
 import { AppBackground } from "@/components/AppBackground";
 import { LanguageMode, useI18n } from "@/i18n/I18nProvider";
 import { replanAll } from "@/services/notifications";
+import { restoreBaseTimings } from "@/services/savedLocations";
 import { getTodayTomorrowTimings } from "@/services/timingsCache";
+import { endTravel } from "@/services/travel";
 import {
   getMosquesSettings,
   getSettings,
@@ -43,11 +46,22 @@ import {
 } from "@/services/storage";
 import { useAppTheme } from "@/theme/ThemeProvider";
 import { ThemeMode } from "@/theme/theme";
-import { PRAYER_NAMES, PrayerName, Settings } from "@/types/prayer";
+import {
+  AsrSchool,
+  EXTRA_TIME_NAMES,
+  ExtraTimeName,
+  ExtraTimeSetting,
+  HighLatitudeRule,
+  PRAYER_NAMES,
+  PrayerName,
+  Settings
+} from "@/types/prayer";
 import { MosquesSettings, TravelMode } from "@/types/mosque";
 
 const MINUTES_OPTIONS: Array<0 | 5 | 10 | 15 | 30> = [0, 5, 10, 15, 30];
 const MOSQUE_RADIUS_OPTIONS: Array<2 | 5 | 10 | 20> = [2, 5, 10, 20];
+const ASR_SCHOOL_OPTIONS: AsrSchool[] = ["standard", "hanafi"];
+const HIGH_LATITUDE_RULE_OPTIONS: HighLatitudeRule[] = ["angle_based", "one_seventh", "middle_of_night"];
 
 function nextMinutes(current: 0 | 5 | 10 | 15 | 30): 0 | 5 | 10 | 15 | 30 {
   const index = MINUTES_OPTIONS.indexOf(current);
@@ -102,7 +116,7 @@ export default function SettingsScreen() {
   const [locationModalVisible, setLocationModalVisible] = useState(false);
   const [cityQuery, setCityQuery] = useState("");
   const [citySearchLoading, setCitySearchLoading] = useState(false);
-  const [citySuggestions, setCitySuggestions] = useState<Array<{ label: string; lat: number; lon: number; query: string }>>([]);
+  const [citySuggestions, setCitySuggestions] = useState<CitySuggestion[]>([]);
   const [mosquesSettings, setMosquesSettings] = useState<MosquesSettings>({ radiusKm: 5, travelMode: "walk" });
   const [showAppInfo, setShowAppInfo] = useState(false);
   const [savePressed, setSavePressed] = useState(false);
@@ -200,22 +214,26 @@ export default function SettingsScreen() {
   }, [cityQuery, localeTag]);
 
   const applyManualLocation = useCallback(
-    async (location: { lat: number; lon: number; label: string; query?: string }) => {
+    async (location: { lat: number; lon: number; label: string; query?: string; timeZone?: string }) => {
       if (!settings) {
         return;
       }
 
       setSaving(true);
       try {
+        // A newly chosen city is the new home, so any trip in progress ends with it.
         const updated: Settings = {
-          ...settings,
+          ...restoreBaseTimings(settings),
           locationMode: "manual",
           manualLocation: {
             query: location.query ?? location.label,
             label: location.label,
             lat: location.lat,
-            lon: location.lon
-          }
+            lon: location.lon,
+            ...(location.timeZone ? { timeZone: location.timeZone } : {})
+          },
+          travel: { ...settings.travel, home: null, active: null, declined: null },
+          activeLocationId: null
         };
         setSettings(updated);
         setLocationStatus(location.label);
@@ -274,6 +292,24 @@ export default function SettingsScreen() {
     });
   }, []);
 
+  const updateExtraTime = useCallback((name: ExtraTimeName, patch: Partial<ExtraTimeSetting>) => {
+    setSettings((prev) => {
+      if (!prev) {
+        return prev;
+      }
+
+      const next = { ...prev.extraTimes[name], ...patch };
+      return {
+        ...prev,
+        extraTimes: {
+          ...prev.extraTimes,
+          // Hiding a time also stops its alerts; there is nothing on screen to explain them otherwise.
+          [name]: next.enabled ? next : { enabled: false, notify: false }
+        }
+      };
+    });
+  }, []);
+
   const cyclePrayerMinutes = useCallback((prayer: PrayerName) => {
     setSettings((prev) => {
       if (!prev) {
@@ -294,6 +330,45 @@ export default function SettingsScreen() {
     });
   }, []);
 
+  const saveCalculationSettings = useCallback(async (updated: Settings) => {
+    setSettings(updated);
+    setSaving(true);
+    try {
+      await saveSettings(updated);
+      const loc = await resolveLocationForSettings(updated);
+      await replanAll({
+        lat: loc.lat,
+        lon: loc.lon,
+        methodId: updated.methodId,
+        settings: updated
+      });
+    } catch {
+      // Persisting the calculation settings is still valid if location/replan fails.
+    } finally {
+      setSaving(false);
+    }
+  }, []);
+
+  const updateAsrSchool = useCallback(
+    async (asrSchool: AsrSchool) => {
+      if (!settings || settings.asrSchool === asrSchool) {
+        return;
+      }
+      await saveCalculationSettings({ ...settings, asrSchool });
+    },
+    [saveCalculationSettings, settings]
+  );
+
+  const updateHighLatitudeRule = useCallback(
+    async (highLatitudeRule: HighLatitudeRule) => {
+      if (!settings || settings.highLatitudeRule === highLatitudeRule) {
+        return;
+      }
+      await saveCalculationSettings({ ...settings, highLatitudeRule });
+    },
+    [saveCalculationSettings, settings]
+  );
+
   const refreshLocationAndReplan = useCallback(async () => {
     if (!settings) {
       return;
@@ -305,8 +380,9 @@ export default function SettingsScreen() {
       setLocationStatus(loc.label);
       setLocationModalVisible(false);
       const updated: Settings = {
-        ...settings,
-        locationMode: "gps"
+        ...restoreBaseTimings(endTravel(settings)),
+        locationMode: "gps",
+        activeLocationId: null
       };
       setSettings(updated);
       await saveSettings(updated);
@@ -359,7 +435,8 @@ export default function SettingsScreen() {
           lat: result.lat,
           lon: result.lon,
           label: result.label,
-          query
+          query,
+          timeZone: result.timeZone
         });
       } catch (error) {
         Alert.alert(t("settings.manual_city_title"), String(error));
@@ -369,12 +446,13 @@ export default function SettingsScreen() {
   );
 
   const onSuggestionPress = useCallback(
-    async (suggestion: { label: string; lat: number; lon: number; query: string }) => {
+    async (suggestion: CitySuggestion) => {
       await applyManualLocation({
         label: suggestion.label,
         lat: suggestion.lat,
         lon: suggestion.lon,
-        query: suggestion.query
+        query: suggestion.query,
+        timeZone: suggestion.timeZone
       });
     },
     [applyManualLocation]
@@ -542,16 +620,82 @@ export default function SettingsScreen() {
                 <View style={[styles.iconBox, isLight ? { backgroundColor: "#EAF2FC" } : null]}>
                   <MaterialCommunityIcons name="abjad-arabic" size={24} color="#2B8CEE" />
                 </View>
-                <View>
+                <View style={styles.settingTextBlock}>
                   <Text style={[styles.settingTitle, isLight ? { color: "#1A2E45" } : null]}>
-                    {t("settings.hanafi_only")}
+                    {t("settings.asr_school")}
                   </Text>
                   <Text style={[styles.settingSub, isLight ? { color: "#4E647C" } : null]}>
-                    {t("settings.asr_fixed")}
+                    {settings.timingsProvider === "diyanet"
+                      ? t("settings.asr_school_diyanet")
+                      : settings.asrSchool === "hanafi"
+                        ? t("settings.asr_school_hanafi_desc")
+                        : t("settings.asr_school_standard_desc")}
                   </Text>
                 </View>
               </View>
-              <Switch value={true} disabled />
+            </View>
+
+            <View style={[styles.themeModeRow, styles.calculationChipRow, { borderBottomColor: colors.cardBorder }]}>
+              {ASR_SCHOOL_OPTIONS.map((option) => {
+                const disabled = settings.timingsProvider === "diyanet" || saving;
+                const selected = settings.asrSchool === option && settings.timingsProvider !== "diyanet";
+                return (
+                  <Pressable
+                    key={option}
+                    style={[
+                      styles.themeModeButton,
+                      { borderColor: colors.cardBorder },
+                      selected && { backgroundColor: colors.accent, borderColor: colors.accent },
+                      disabled && styles.chipDisabled
+                    ]}
+                    onPress={() => void updateAsrSchool(option)}
+                    disabled={disabled}
+                  >
+                    <Text style={[styles.themeModeButtonText, { color: selected ? "#F2F8FF" : colors.textPrimary }]}>
+                      {option === "hanafi" ? t("settings.asr_school_hanafi") : t("settings.asr_school_standard")}
+                    </Text>
+                  </Pressable>
+                );
+              })}
+            </View>
+
+            <View style={[styles.settingRowWithBorder, { borderBottomColor: colors.cardBorder }]}>
+              <View style={styles.settingLeft}>
+                <View style={[styles.iconBox, isLight ? { backgroundColor: "#EAF2FC" } : null]}>
+                  <MaterialCommunityIcons name="weather-night" size={22} color="#2B8CEE" />
+                </View>
+                <View style={styles.settingTextBlock}>
+                  <Text style={[styles.settingTitle, isLight ? { color: "#1A2E45" } : null]}>
+                    {t("settings.high_latitude")}
+                  </Text>
+                  <Text style={[styles.settingSub, isLight ? { color: "#4E647C" } : null]}>
+                    {t(`settings.high_latitude_${settings.highLatitudeRule}_desc`)}
+                  </Text>
+                </View>
+              </View>
+            </View>
+
+            <View style={[styles.themeModeRow, styles.calculationChipRow, { borderBottomColor: colors.cardBorder }]}>
+              {HIGH_LATITUDE_RULE_OPTIONS.map((option) => {
+                const selected = settings.highLatitudeRule === option;
+                return (
+                  <Pressable
+                    key={option}
+                    style={[
+                      styles.themeModeButton,
+                      { borderColor: colors.cardBorder },
+                      selected && { backgroundColor: colors.accent, borderColor: colors.accent },
+                      saving && styles.chipDisabled
+                    ]}
+                    onPress={() => void updateHighLatitudeRule(option)}
+                    disabled={saving}
+                  >
+                    <Text style={[styles.themeModeButtonText, { color: selected ? "#F2F8FF" : colors.textPrimary }]}>
+                      {t(`settings.high_latitude_${option}`)}
+                    </Text>
+                  </Pressable>
+                );
+              })}
             </View>
 
             <Pressable style={styles.settingRow} onPress={() => router.push("/methods")}>
@@ -729,6 +873,63 @@ export default function SettingsScreen() {
             })}
           </View>
 
+          <View style={styles.notificationHeader}>
+            <Text style={[styles.sectionLabel, { color: colors.textSecondary }]}>{t("settings.extra_times")}</Text>
+            <Text style={[styles.minutesBeforeLabel, isLight ? { color: "#607890" } : null]}>
+              {t("settings.extra_times_show")}
+            </Text>
+          </View>
+
+          <View style={[styles.card, { backgroundColor: colors.card, borderColor: colors.cardBorder }]}>
+            {EXTRA_TIME_NAMES.map((name, index) => {
+              const entry = settings.extraTimes[name];
+              const hasBorder = index < EXTRA_TIME_NAMES.length - 1;
+
+              return (
+                <View
+                  key={name}
+                  style={[
+                    styles.notificationRow,
+                    hasBorder && styles.notificationRowBorder,
+                    hasBorder ? { borderBottomColor: colors.cardBorder } : null
+                  ]}
+                >
+                  <View style={styles.extraTimeText}>
+                    <Text style={[styles.notificationPrayer, isLight ? { color: "#1A2E45" } : null]}>
+                      {t(`extra_times.${name}`)}
+                    </Text>
+                    <Text style={[styles.extraTimeHint, { color: colors.textSecondary }]}>
+                      {t(`settings.extra_times_desc_${name}`)}
+                    </Text>
+                  </View>
+
+                  <View style={styles.notificationRight}>
+                    <Pressable
+                      onPress={() => updateExtraTime(name, { notify: !entry.notify })}
+                      disabled={!entry.enabled}
+                      accessibilityRole="button"
+                      accessibilityLabel={t("settings.extra_times_notify")}
+                      accessibilityState={{ selected: entry.notify, disabled: !entry.enabled }}
+                      hitSlop={8}
+                    >
+                      <Ionicons
+                        name={entry.notify ? "notifications" : "notifications-off-outline"}
+                        size={20}
+                        color={
+                          entry.enabled ? (entry.notify ? colors.accent : colors.textSecondary) : colors.cardBorder
+                        }
+                      />
+                    </Pressable>
+                    <Switch
+                      value={entry.enabled}
+                      onValueChange={(value) => updateExtraTime(name, { enabled: value })}
+                    />
+                  </View>
+                </View>
+              );
+            })}
+          </View>
+
           <EaseView
             animate={{ scale: savePressed ? 0.985 : 1 }}
             transition={savePressed ? pressTransition : enterTransition}
@@ -976,6 +1177,12 @@ const styles = StyleSheet.create({
     gap: 8,
     padding: 14
   },
+  calculationChipRow: {
+    borderBottomWidth: 1
+  },
+  chipDisabled: {
+    opacity: 0.5
+  },
   themeModeButton: {
     flex: 1,
     minHeight: 40,
@@ -1019,6 +1226,9 @@ const styles = StyleSheet.create({
     gap: 12,
     flexShrink: 1
   },
+  settingTextBlock: {
+    flexShrink: 1
+  },
   iconBox: {
     width: 42,
     height: 42,
@@ -1320,6 +1530,15 @@ const styles = StyleSheet.create({
     alignItems: "center",
     gap: 12
   },
+  extraTimeText: {
+    flex: 1,
+    paddingRight: 12,
+    gap: 2
+  },
+  extraTimeHint: {
+    fontSize: 12,
+    fontWeight: "500"
+  },
   minutesText: {
     fontSize: 14,
     fontWeight: "700",
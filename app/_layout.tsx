@@ -1,16 +1,54 @@
 import * as Notifications from "expo-notifications";
 import { StatusBar } from "expo-status-bar";
-import { Redirect, Stack, usePathname } from "expo-router";
-import { useEffect, useState } from "react";
+import { Redirect, Stack, usePathname, useRouter } from "expo-router";
+import { useEffect, useRef, useState } from "react";
+import { AdhanPlayerOverlay } from "@/components/AdhanPlayerOverlay";
 import { playFullAdhan } from "@/services/adhanPlayer";
+import {
+  handleNotificationAction,
+  registerNotificationActionCategories,
+  registerNotificationActionTask
+} from "@/services/notificationActions";
+import {
+  recordNotificationReceived,
+  recordNotificationResponse,
+  syncPresentedNotifications
+} from "@/services/notificationAudit";
+import { PrayerNotificationData, shouldPlayFullAdhan } from "@/services/notifications";
+import { registerNotificationTopUpTask } from "@/services/notificationTopUp";
 import { getOnboardingSeen } from "@/services/storage";
 import { ThemeProvider } from "@/theme/ThemeProvider";
 import { useAppTheme } from "@/theme/ThemeProvider";
-import { I18nProvider } from "@/i18n/I18nProvider";
+import { I18nProvider, useI18n } from "@/i18n/I18nProvider";
+
+// Opening an alert long after it arrived (or a stale launch response) should not start the adhan.
+const FULL_ADHAN_MAX_DELAY_MS = 30 * 60 * 1000;
+
+function playFullAdhanForNotification(notification: Notifications.Notification): void {
+  const data = (notification.request.content.data ?? {}) as PrayerNotificationData;
+  if (!shouldPlayFullAdhan(data) || Date.now() - notification.date > FULL_ADHAN_MAX_DELAY_MS) {
+    return;
+  }
+  void playFullAdhan(data.tone, { prayer: data.prayer, notificationId: notification.request.identifier }).catch(() => {
+    // The alert itself already played its short sound.
+  });
+}
+
+function recordResponse(response: Notifications.NotificationResponse): void {
+  void recordNotificationResponse(response).catch(() => {
+    // The audit log is best effort.
+  });
+}
 
 function RootNavigation() {
   const { resolvedTheme } = useAppTheme();
+  const { language } = useI18n();
   const pathname = usePathname();
+  const router = useRouter();
+  const lastNotificationResponse = Notifications.useLastNotificationResponse();
+  const handledResponseIdRef = useRef<string | null>(null);
+  // A warm tap reaches both the response listener and useLastNotificationResponse; only the first reacts.
+  const playedResponseIdRef = useRef<string | null>(null);
   const [onboardingSeen, setOnboardingSeen] = useState<boolean | null>(null);
 
   useEffect(() => {
@@ -27,22 +65,87 @@ function RootNavigation() {
   }, []);
 
   useEffect(() => {
-    const sub = Notifications.addNotificationResponseReceivedListener((response) => {
-      const data = (response.notification.request.content.data ?? {}) as {
-        playSound?: boolean;
-        tone?: string;
-      };
+    void registerNotificationTopUpTask().catch(() => {
+      // Without background tasks the alerts are topped up whenever the app is opened.
+    });
+  }, []);
+
+  useEffect(() => {
+    void registerNotificationActionTask().catch(() => {
+      // Action buttons still work through the response listener while the app is running.
+    });
+  }, []);
+
+  useEffect(() => {
+    void registerNotificationActionCategories(language).catch(() => {
+      // Alerts are shown without action buttons.
+    });
+  }, [language]);
 
-      if (data.playSound === false || data.tone !== "Adhan") {
+  useEffect(() => {
+    const sub = Notifications.addNotificationResponseReceivedListener((response) => {
+      if (response.actionIdentifier !== Notifications.DEFAULT_ACTION_IDENTIFIER) {
+        void handleNotificationAction(response).catch(() => {
+          // Nothing to recover; the alert stays in the tray.
+        });
         return;
       }
 
-      void playFullAdhan();
+      if (playedResponseIdRef.current === response.notification.request.identifier) {
+        return;
+      }
+      playedResponseIdRef.current = response.notification.request.identifier;
+      recordResponse(response);
+      playFullAdhanForNotification(response.notification);
     });
 
     return () => sub.remove();
   }, []);
 
+  // While the app is open the prayer-time alert plays the full adhan instead of its short clip.
+  useEffect(() => {
+    const sub = Notifications.addNotificationReceivedListener((notification) => {
+      void recordNotificationReceived(notification).catch(() => {
+        // The audit log is best effort.
+      });
+      playFullAdhanForNotification(notification);
+    });
+    return () => sub.remove();
+  }, []);
+
+  // Picks up alerts that were delivered while the app was closed.
+  useEffect(() => {
+    void syncPresentedNotifications().catch(() => {
+      // The audit log is best effort.
+    });
+  }, []);
+
+  // Notifications that carry a route (e.g. the Friday al-Kahf reminder) open it, also from a cold start.
+  useEffect(() => {
+    if (!onboardingSeen || !lastNotificationResponse) {
+      return;
+    }
+    const responseId = lastNotificationResponse.notification.request.identifier;
+    if (handledResponseIdRef.current === responseId) {
+      return;
+    }
+    handledResponseIdRef.current = responseId;
+    if (lastNotificationResponse.actionIdentifier !== Notifications.DEFAULT_ACTION_IDENTIFIER) {
+      return;
+    }
+    // Covers a cold start, where the response arrives before the listener above is attached.
+    if (playedResponseIdRef.current !== responseId) {
+      playedResponseIdRef.current = responseId;
+      recordResponse(lastNotificationResponse);
+      playFullAdhanForNotification(lastNotificationResponse.notification);
+    }
+
+    const data = (lastNotificationResponse.notification.request.content.data ?? {}) as { url?: unknown };
+    if (typeof data.url === "string" && data.url.startsWith("/")) {
+      router.push(data.url as never);
+    }
+  }, [lastNotificationResponse, onboardingSeen, router]);
+
   if (onboardingSeen === null) {
     return null;
   }
@@ -73,11 +176,22 @@ function RootNavigation() {
         <Stack.Screen name="quran/index" options={{ headerShown: false }} />
         <Stack.Screen name="quran/[surahId]" options={{ headerShown: false }} />
         <Stack.Screen name="monthly" options={{ headerShown: false }} />
+        <Stack.Screen name="ramadan" options={{ headerShown: false }} />
+        <Stack.Screen name="hijri-calendar" options={{ headerShown: false }} />
+        <Stack.Screen name="jumuah" options={{ headerShown: false }} />
+        <Stack.Screen name="iqamah" options={{ headerShown: false }} />
+        <Stack.Screen name="tracker" options={{ headerShown: false }} />
         <Stack.Screen name="source-check" options={{ headerShown: false }} />
         <Stack.Screen name="alert/[prayer]" options={{ headerShown: false }} />
         <Stack.Screen name="methods" options={{ headerShown: false }} />
         <Stack.Screen name="tones" options={{ headerShown: false }} />
+        <Stack.Screen name="quiet" options={{ headerShown: false }} />
+        <Stack.Screen name="notification-log" options={{ headerShown: false }} />
+        <Stack.Screen name="travel" options={{ headerShown: false }} />
+        <Stack.Screen name="locations" options={{ headerShown: false }} />
+        <Stack.Screen name="compass-calibration" options={{ headerShown: false }} />
       </Stack>
+      <AdhanPlayerOverlay />
     </>
   );
 }
@@ -23,12 +23,29 @@ import { AppBackground } from "@/components/AppBackground";
 import { StatusChip } from "@/components/StatusChip";
 import { useI18n } from "@/i18n/I18nProvider";
 import { resolveLocationForSettings } from "@/services/location";
-import { registerForLocalNotifications, replanAll, resolveNotificationSound } from "@/services/notifications";
-import { getSettings, saveSettings } from "@/services/storage";
+import {
+  cancelPrayerFollowUps,
+  registerForLocalNotifications,
+  replanAll,
+  resolveNotificationSound
+} from "@/services/notifications";
+import { getPreferredWindowEndName, isTrackedPrayer, markPrayer } from "@/services/prayerTracker";
+import {
+  getCustomTones,
+  getPrayerLog,
+  getSettings,
+  PrayerLogDay,
+  PrayerLogStatus,
+  saveSettings
+} from "@/services/storage";
+import { getBuiltInToneLabelKey, isCustomTone } from "@/services/toneLibrary";
 import { useAppTheme } from "@/theme/ThemeProvider";
-import { PRAYER_NAMES, PrayerName, Settings } from "@/types/prayer";
+import { CustomTone, PRAYER_NAMES, PrayerName, PrayerNotificationSetting, Settings } from "@/types/prayer";
+import { getDateKey } from "@/utils/time";
 
 const MINUTES_OPTIONS: Array<0 | 5 | 10 | 15 | 30> = [0, 5, 10, 15, 30];
+const END_WARNING_OPTIONS: PrayerNotificationSetting["endWarningMinutes"][] = [0, 10, 15, 20, 30];
+const LOG_OPTIONS: PrayerLogStatus[] = ["prayed", "missed"];
 
 type AlertFeedback = { tone: "success" | "warning" | "loading"; label: string } | null;
 
@@ -41,6 +58,8 @@ export default function PrayerAlertPreferencesScreen() {
   const pressTransition = useMotionTransition(easePressTransition);
   const params = useLocalSearchParams<{ prayer?: string }>();
   const [settings, setSettings] = useState<Settings | null>(null);
+  const [todayLog, setTodayLog] = useState<PrayerLogDay>({});
+  const [customTones, setCustomTones] = useState<CustomTone[]>([]);
   const [saving, setSaving] = useState(false);
   const [sliderTrackWidth, setSliderTrackWidth] = useState(0);
   const [isSliding, setIsSliding] = useState(false);
@@ -82,8 +101,10 @@ export default function PrayerAlertPreferencesScreen() {
   }, [params.prayer]);
 
   const load = useCallback(async () => {
-    const saved = await getSettings();
+    const [saved, log, savedTones] = await Promise.all([getSettings(), getPrayerLog(), getCustomTones()]);
     setSettings(saved);
+    setCustomTones(savedTones);
+    setTodayLog(log[getDateKey(new Date())] ?? {});
   }, []);
 
   useFocusEffect(
@@ -159,8 +180,20 @@ export default function PrayerAlertPreferencesScreen() {
   const entry = settings?.prayerNotifications[prayer];
   const prayerLabel = prayerName(prayer);
   const minutesBeforeValue = entry?.minutesBefore ?? 0;
+  const endWarningValue = entry?.endWarningMinutes ?? 0;
+  const windowEndName = isTrackedPrayer(prayer) ? getPreferredWindowEndName(prayer) : null;
+  const windowEndLabel =
+    windowEndName === "Midnight"
+      ? t("alert.end_warning_midnight", { prayer: prayerLabel })
+      : windowEndName
+        ? t("alert.end_warning_until", { prayer: prayerLabel, next: prayerName(windowEndName) })
+        : "";
   const volumeValue = entry?.volume ?? 75;
   const thumbLeftPercent = Math.max(0, Math.min(100, volumeValue));
+  const tone = entry?.tone ?? "Adhan";
+  const toneLabel = isCustomTone(tone)
+    ? customTones.find((item) => item.id === tone)?.name ?? t("tones.custom_missing")
+    : t(getBuiltInToneLabelKey(tone));
 
   const onSave = async () => {
     if (!settings) {
@@ -229,8 +262,11 @@ export default function PrayerAlertPreferencesScreen() {
                 })
               : t("notifications.body_offset", { prayer: prayerLabel, mins: entry.minutesBefore }),
         data: {
+          prayer,
+          intent: entry.minutesBefore === 0 ? "at_time" : "offset",
           playSound: entry.playSound,
-          tone: entry.tone
+          tone: entry.tone,
+          fullAdhan: entry.fullAdhan
         },
         sound: resolveNotificationSound(entry.playSound, entry.tone)
       },
@@ -243,12 +279,29 @@ export default function PrayerAlertPreferencesScreen() {
     showFeedback({ tone: "success", label: t("alert.inline_test_sent") });
   };
 
+  // The log is saved right away; Save only applies to the alert preferences below.
+  const onTogglePrayerLog = async (status: PrayerLogStatus) => {
+    if (!isTrackedPrayer(prayer)) {
+      return;
+    }
+    const dateKey = getDateKey(new Date());
+    const log = await markPrayer(dateKey, prayer, todayLog[prayer]?.status === status ? null : status);
+    setTodayLog(log[dateKey] ?? {});
+    if (log[dateKey]?.[prayer]) {
+      void cancelPrayerFollowUps(prayer, dateKey).catch(() => {
+        // The next replan leaves the warning out.
+      });
+    }
+  };
+
   const onResetToDefault = () => {
     updatePrayerSettings({
       enabled: true,
       minutesBefore: 0,
       playSound: true,
       tone: "Beep",
+      fullAdhan: false,
+      endWarningMinutes: 0,
       volume: 75,
       vibration: true
     });
@@ -307,6 +360,50 @@ export default function PrayerAlertPreferencesScreen() {
             </View>
           </View>
 
+          {isTrackedPrayer(prayer) ? (
+            <>
+              <Text style={[styles.sectionLabel, isLight ? { color: "#617990" } : null]}>{t("alert.today")}</Text>
+              <View
+                style={[
+                  styles.card,
+                  isLight ? { backgroundColor: "#FFFFFF", borderColor: "#D7E2EF" } : null
+                ]}
+              >
+                <View style={styles.rowPlain}>
+                  <View style={styles.rowLeft}>
+                    <View style={[styles.smallIcon, { backgroundColor: isLight ? "#DFF5EE" : "#133D36" }]}>
+                      <Ionicons name="checkmark-done" size={18} color="#46D9B0" />
+                    </View>
+                    <Text style={[styles.rowTitle, isLight ? { color: "#1A2E45" } : null]}>
+                      {t("alert.prayer_log")}
+                    </Text>
+                  </View>
+                  <View style={styles.logChips}>
+                    {LOG_OPTIONS.map((status) => {
+                      const selected = todayLog[prayer]?.status === status;
+                      return (
+                        <Pressable
+                          key={status}
+                          style={[
+                            styles.logChip,
+                            { borderColor: colors.cardBorder },
+                            selected && { backgroundColor: colors.accent, borderColor: colors.accent }
+                          ]}
+                          onPress={() => void onTogglePrayerLog(status)}
+                        >
+                          <Text style={[styles.logChipText, { color: selected ? "#FFFFFF" : colors.textPrimary }]}>
+                            {t(`alert.log_${status}`)}
+                          </Text>
+                        </Pressable>
+                      );
+                    })}
+                  </View>
+                </View>
+              </View>
+              <Text style={[styles.helpText, isLight ? { color: "#617990" } : null]}>{t("alert.prayer_log_help")}</Text>
+            </>
+          ) : null}
+
           <Text style={[styles.sectionLabel, isLight ? { color: "#617990" } : null]}>{t("alert.sound_audio")}</Text>
           <View
             style={[
@@ -340,7 +437,7 @@ export default function PrayerAlertPreferencesScreen() {
                 <View>
                   <Text style={[styles.rowTitle, isLight ? { color: "#1A2E45" } : null]}>{t("alert.alert_tone")}</Text>
                   <Text style={[styles.rowSub, isLight ? { color: "#4E647C" } : null]}>
-                    {(entry?.tone ?? "Adhan") === "Adhan" ? t("alert.tone_adhan") : t("alert.tone_beep")}
+                    {toneLabel}
                   </Text>
                 </View>
               </View>
@@ -348,6 +445,30 @@ export default function PrayerAlertPreferencesScreen() {
               <Ionicons name="chevron-forward" size={18} color={isLight ? "#617990" : "#8EA4BF"} />
             </Pressable>
 
+            {prayer !== "Sunrise" ? (
+              <View style={[styles.rowBordered, isLight ? { borderBottomColor: "#E4EDF7" } : null]}>
+                <View style={styles.rowLeft}>
+                  <View style={[styles.smallIcon, { backgroundColor: isLight ? "#E3F6EE" : "#193D33" }]}>
+                    <Ionicons name="megaphone" size={18} color="#4CC99A" />
+                  </View>
+                  <View style={styles.rowText}>
+                    <Text style={[styles.rowTitle, isLight ? { color: "#1A2E45" } : null]}>
+                      {t("alert.full_adhan")}
+                    </Text>
+                    <Text style={[styles.rowSub, isLight ? { color: "#4E647C" } : null]}>
+                      {t("alert.full_adhan_help")}
+                    </Text>
+                  </View>
+                </View>
+                <View style={styles.switchWrap}>
+                  <Switch
+                    value={entry?.fullAdhan ?? false}
+                    onValueChange={(value) => updatePrayerSettings({ fullAdhan: value })}
+                  />
+                </View>
+              </View>
+            ) : null}
+
             <View style={styles.volumeWrap}>
               <Pressable
                 style={styles.volButton}
@@ -452,6 +573,41 @@ export default function PrayerAlertPreferencesScreen() {
               </View>
             </Pressable>
 
+            {isTrackedPrayer(prayer) ? (
+              <Pressable
+                style={[styles.rowBordered, isLight ? { borderBottomColor: "#E4EDF7" } : null]}
+                onPress={() => {
+                  if (!entry) {
+                    return;
+                  }
+                  const index = END_WARNING_OPTIONS.indexOf(entry.endWarningMinutes);
+                  const next = END_WARNING_OPTIONS[(index + 1) % END_WARNING_OPTIONS.length];
+                  updatePrayerSettings({ endWarningMinutes: next });
+                }}
+              >
+                <View style={styles.rowLeft}>
+                  <View style={[styles.smallIcon, { backgroundColor: isLight ? "#FFF0DE" : "#443020" }]}>
+                    <Ionicons name="hourglass" size={18} color="#FFB15B" />
+                  </View>
+                  <View style={styles.rowText}>
+                    <Text style={[styles.rowTitle, isLight ? { color: "#1A2E45" } : null]}>
+                      {t("alert.end_warning")}
+                    </Text>
+                    <Text style={[styles.rowSub, isLight ? { color: "#4E647C" } : null]}>{windowEndLabel}</Text>
+                  </View>
+                </View>
+
+                <View style={styles.rightLabelWrap}>
+                  <Text style={[styles.rightLabelText, isLight ? { color: "#4E647C" } : null]}>
+                    {endWarningValue === 0
+                      ? t("alert.end_warning_off")
+                      : t("alert.end_warning_mins", { mins: endWarningValue })}
+                  </Text>
+                  <Ionicons name="chevron-forward" size={18} color={isLight ? "#617990" : "#8EA4BF"} />
+                </View>
+              </Pressable>
+            ) : null}
+
             <EaseView animate={{ scale: resetPressed ? 0.985 : 1 }} transition={pressTransition}>
               <Pressable
                 style={styles.rowPlain}
@@ -589,6 +745,22 @@ const styles = StyleSheet.create({
     flex: 1,
     minWidth: 0
   },
+  logChips: {
+    flexDirection: "row",
+    gap: 8
+  },
+  logChip: {
+    height: 34,
+    borderRadius: 12,
+    borderWidth: 1,
+    paddingHorizontal: 12,
+    alignItems: "center",
+    justifyContent: "center"
+  },
+  logChipText: {
+    fontSize: 13,
+    fontWeight: "700"
+  },
   switchWrap: {
     width: 58,
     alignItems: "flex-end",
@@ -606,6 +778,10 @@ const styles = StyleSheet.create({
     fontWeight: "600",
     color: "#ECF3FF"
   },
+  rowText: {
+    flex: 1,
+    paddingVertical: 10
+  },
   rowSub: {
     marginTop: 2,
     fontSize: 13,
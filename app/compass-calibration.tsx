@@ -0,0 +1,509 @@
+import { Ionicons } from "@expo/vector-icons";
+import { useFocusEffect, useIsFocused } from "@react-navigation/native";
+import * as Location from "expo-location";
+import { useRouter } from "expo-router";
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import { EaseView } from "react-native-ease";
+import { Animated, Easing, Pressable, ScrollView, StyleSheet, Text, View } from "react-native";
+import { SafeAreaView } from "react-native-safe-area-context";
+import {
+  easeEnterTransition,
+  easeInitialFade,
+  easeInitialLift,
+  easeStateTransition,
+  easeVisibleFade,
+  easeVisibleLift
+} from "@/animation/ease";
+import { useMotionTransition, useReducedMotion } from "@/animation/useReducedMotion";
+import { AppBackground } from "@/components/AppBackground";
+import { StatusChip } from "@/components/StatusChip";
+import { getCalibrationScore, useCompassConfidence } from "@/hooks/useCompassConfidence";
+import { useI18n } from "@/i18n/I18nProvider";
+import { CALIBRATION_ROTATION_DEG } from "@/services/compassCalibration";
+import {
+  appendCompassCalibration,
+  CompassCalibrationRecord,
+  getCompassCalibrationHistory
+} from "@/services/storage";
+import { useAppTheme } from "@/theme/ThemeProvider";
+
+type Phase = "move" | "settle" | "done";
+
+// Share of each reading that feeds the progress bar, so a single good sample cannot finish the run.
+const SETTLE_SMOOTHING = 0.12;
+const SETTLE_DONE = 0.97;
+const FIGURE_EIGHT_MS = 2600;
+const FIGURE_EIGHT_POINTS = 24;
+
+function FigureEightGuide({ color, paused }: { color: string; paused: boolean }) {
+  const progress = useRef(new Animated.Value(0)).current;
+
+  useEffect(() => {
+    if (paused) {
+      progress.setValue(0);
+      return;
+    }
+    const loop = Animated.loop(
+      Animated.timing(progress, {
+        toValue: 1,
+        duration: FIGURE_EIGHT_MS,
+        easing: Easing.linear,
+        useNativeDriver: true
+      })
+    );
+    loop.start();
+    return () => loop.stop();
+  }, [paused, progress]);
+
+  const { translateX, translateY, rotate } = useMemo(() => {
+    const inputRange = Array.from({ length: FIGURE_EIGHT_POINTS + 1 }, (_, i) => i / FIGURE_EIGHT_POINTS);
+    // A lemniscate: one full sweep sideways while the phone dips and rises twice.
+    return {
+      translateX: progress.interpolate({
+        inputRange,
+        outputRange: inputRange.map((value) => Math.sin(value * 2 * Math.PI) * 70)
+      }),
+      translateY: progress.interpolate({
+        inputRange,
+        outputRange: inputRange.map((value) => Math.sin(value * 4 * Math.PI) * 28)
+      }),
+      rotate: progress.interpolate({
+        inputRange,
+        outputRange: inputRange.map((value) => `${Math.cos(value * 2 * Math.PI) * 25}deg`)
+      })
+    };
+  }, [progress]);
+
+  return (
+    <View style={styles.guideWrap}>
+      <Ionicons name="infinite-outline" size={150} color={color} style={styles.guideTrack} />
+      <Animated.View style={{ transform: [{ translateX }, { translateY }, { rotate }] }}>
+        <Ionicons name="phone-portrait-outline" size={40} color={color} />
+      </Animated.View>
+    </View>
+  );
+}
+
+export default function CompassCalibrationScreen() {
+  const router = useRouter();
+  const isFocused = useIsFocused();
+  const { t, localeTag } = useI18n();
+  const { colors, resolvedTheme } = useAppTheme();
+  const isLight = resolvedTheme === "light";
+  const reducedMotion = useReducedMotion();
+  const enterTransition = useMotionTransition(easeEnterTransition);
+  const stateTransition = useMotionTransition(easeStateTransition);
+
+  const [heading, setHeading] = useState<number | null>(null);
+  const [headingAvailable, setHeadingAvailable] = useState(true);
+  const [rotation, setRotation] = useState(0);
+  const [settle, setSettle] = useState(0);
+  const [phase, setPhase] = useState<Phase>("move");
+  const [history, setHistory] = useState<CompassCalibrationRecord[]>([]);
+
+  const previousHeadingRef = useRef<number | null>(null);
+  const rotationRef = useRef(0);
+  const settleRef = useRef(0);
+  const recordedRef = useRef(false);
+
+  const confidence = useCompassConfidence({ headingDeg: heading, enabled: isFocused && heading !== null });
+
+  useFocusEffect(
+    useCallback(() => {
+      void getCompassCalibrationHistory().then(setHistory);
+    }, [])
+  );
+
+  useFocusEffect(
+    useCallback(() => {
+      let active = true;
+      let removeWatch: (() => void) | undefined;
+
+      void (async () => {
+        try {
+          const permission = await Location.requestForegroundPermissionsAsync();
+          if (!active) {
+            return;
+          }
+          if (permission.status !== "granted") {
+            setHeadingAvailable(false);
+            return;
+          }
+          const subscription = await Location.watchHeadingAsync((headingData) => {
+            const value = Number(headingData.magHeading);
+            if (Number.isFinite(value)) {
+              setHeading(value);
+            }
+          });
+          removeWatch = () => subscription.remove();
+        } catch {
+          setHeadingAvailable(false);
+        }
+      })();
+
+      return () => {
+        active = false;
+        if (removeWatch) {
+          removeWatch();
+        }
+      };
+    }, [])
+  );
+
+  // Accumulate how far the phone has turned; the figure-eight needs to sweep all directions.
+  useEffect(() => {
+    if (heading === null || phase !== "move") {
+      return;
+    }
+    const previous = previousHeadingRef.current;
+    previousHeadingRef.current = heading;
+    if (previous === null) {
+      return;
+    }
+    const delta = Math.abs(((heading - previous + 540) % 360) - 180);
+    rotationRef.current = Math.min(CALIBRATION_ROTATION_DEG, rotationRef.current + delta);
+    setRotation(rotationRef.current);
+    if (rotationRef.current >= CALIBRATION_ROTATION_DEG) {
+      setPhase("settle");
+    }
+  }, [heading, phase]);
+
+  const record = useCallback(
+    async (quality: CompassCalibrationRecord["quality"]) => {
+      if (recordedRef.current) {
+        return;
+      }
+      recordedRef.current = true;
+      const entry: CompassCalibrationRecord = {
+        at: Date.now(),
+        quality,
+        fieldStrength: confidence.fieldStrength,
+        headingStdDev: confidence.headingStdDev,
+        interference: confidence.interference
+      };
+      await appendCompassCalibration(entry);
+      setHistory((items) => [...items, entry]);
+    },
+    [confidence.fieldStrength, confidence.headingStdDev, confidence.interference]
+  );
+
+  // Once the phone is held still, fill the bar as field strength and heading spread settle.
+  useEffect(() => {
+    if (phase !== "settle") {
+      return;
+    }
+    const score = confidence.interference ? 0 : getCalibrationScore(confidence.fieldStrength, confidence.headingStdDev);
+    settleRef.current = settleRef.current * (1 - SETTLE_SMOOTHING) + score * SETTLE_SMOOTHING;
+    setSettle(settleRef.current);
+    if (settleRef.current >= SETTLE_DONE) {
+      setPhase("done");
+      void record(confidence.status === "good" ? "good" : "meh");
+    }
+  }, [
+    confidence.fieldStrength,
+    confidence.headingStdDev,
+    confidence.interference,
+    confidence.status,
+    phase,
+    record
+  ]);
+
+  const restart = useCallback(() => {
+    previousHeadingRef.current = null;
+    rotationRef.current = 0;
+    settleRef.current = 0;
+    recordedRef.current = false;
+    setRotation(0);
+    setSettle(0);
+    setPhase("move");
+  }, []);
+
+  const finishEarly = useCallback(() => {
+    void record(confidence.status).then(() => router.back());
+  }, [confidence.status, record, router]);
+
+  const progress = phase === "done" ? 1 : 0.5 * (rotation / CALIBRATION_ROTATION_DEG) + 0.5 * settle;
+  const cardStyle = [styles.card, { backgroundColor: colors.card, borderColor: colors.cardBorder }];
+  const qualityTone = (quality: CompassCalibrationRecord["quality"]) =>
+    quality === "good" ? ("success" as const) : quality === "bad" ? ("error" as const) : ("warning" as const);
+
+  return (
+    <SafeAreaView style={[styles.safeArea, { backgroundColor: colors.background }]}>
+      <View style={styles.container}>
+        <AppBackground />
+
+        <EaseView initialAnimate={easeInitialLift} animate={easeVisibleLift} transition={enterTransition}>
+          <View style={styles.headerRow}>
+            <Pressable
+              onPress={() => router.back()}
+              hitSlop={8}
+              style={[styles.circleButton, isLight ? styles.circleButtonLight : null]}
+            >
+              <Ionicons name="arrow-back" size={24} color={colors.textPrimary} />
+            </Pressable>
+            <Text style={[styles.headerTitle, { color: colors.textPrimary }]}>{t("calibration.title")}</Text>
+            <View style={styles.headerSpacer} />
+          </View>
+        </EaseView>
+
+        <ScrollView contentContainerStyle={styles.listContent} showsVerticalScrollIndicator={false}>
+          <View style={[...cardStyle, styles.cardPadded]}>
+            {phase === "done" ? (
+              <View style={styles.guideWrap}>
+                <Ionicons name="checkmark-circle" size={96} color="#2BAE66" />
+              </View>
+            ) : (
+              <FigureEightGuide color={colors.accent} paused={reducedMotion || phase !== "move"} />
+            )}
+
+            <Text style={[styles.stepTitle, { color: colors.textPrimary }]}>
+              {headingAvailable ? t(`calibration.step_${phase}`) : t("calibration.unavailable")}
+            </Text>
+            <Text style={[styles.stepText, { color: colors.textSecondary }]}>
+              {t(`calibration.step_${phase}_desc`)}
+            </Text>
+
+            <View style={[styles.progressTrack, { backgroundColor: colors.cardBorder }]}>
+              <View
+                style={[
+                  styles.progressFill,
+                  {
+                    width: `${Math.round(progress * 100)}%`,
+                    backgroundColor: phase === "done" ? "#2BAE66" : colors.accent
+                  }
+                ]}
+              />
+            </View>
+            <Text style={[styles.metaText, { color: colors.textSecondary }]}>
+              {t("calibration.readings", {
+                field: confidence.fieldStrength == null ? "--" : confidence.fieldStrength.toFixed(0),
+                spread: confidence.headingStdDev == null ? "--" : confidence.headingStdDev.toFixed(0)
+              })}
+            </Text>
+          </View>
+
+          {confidence.interference ? (
+            <EaseView initialAnimate={easeInitialFade} animate={easeVisibleFade} transition={stateTransition}>
+              <View style={[styles.warningCard, isLight ? styles.warningCardLight : null]}>
+                <Ionicons name="magnet-outline" size={20} color="#E6A23C" />
+                <View style={styles.warningCopy}>
+                  <Text style={[styles.warningTitle, { color: colors.textPrimary }]}>
+                    {t("calibration.interference")}
+                  </Text>
+                  <Text style={[styles.stepText, { color: colors.textSecondary }]}>
+                    {t("calibration.interference_desc")}
+                  </Text>
+                </View>
+              </View>
+            </EaseView>
+          ) : null}
+
+          <View style={styles.actionRow}>
+            <Pressable style={[styles.secondaryButton, { borderColor: colors.cardBorder }]} onPress={restart}>
+              <Text style={[styles.secondaryButtonText, { color: colors.textPrimary }]}>
+                {t("calibration.restart")}
+              </Text>
+            </Pressable>
+            <Pressable
+              style={[styles.primaryButton, { backgroundColor: colors.accent }]}
+              onPress={phase === "done" ? () => router.back() : finishEarly}
+            >
+              <Text style={styles.primaryButtonText}>
+                {t(phase === "done" ? "calibration.done" : "calibration.finish")}
+              </Text>
+            </Pressable>
+          </View>
+
+          {history.length > 0 ? (
+            <>
+              <Text style={[styles.cardLabel, { color: colors.textSecondary }]}>{t("calibration.history")}</Text>
+              <View style={cardStyle}>
+                {[...history]
+                  .reverse()
+                  .slice(0, 6)
+                  .map((item, index) => (
+                    <View
+                      key={item.at}
+                      style={[styles.historyRow, index > 0 && { borderTopWidth: 1, borderTopColor: colors.cardBorder }]}
+                    >
+                      <View style={styles.warningCopy}>
+                        <Text style={[styles.historyDate, { color: colors.textPrimary }]}>
+                          {new Date(item.at).toLocaleString(localeTag, {
+                            day: "numeric",
+                            month: "short",
+                            hour: "2-digit",
+                            minute: "2-digit"
+                          })}
+                        </Text>
+                        {item.interference ? (
+                          <Text style={[styles.metaText, { color: colors.textSecondary }]}>
+                            {t("calibration.history_interference")}
+                          </Text>
+                        ) : null}
+                      </View>
+                      <StatusChip label={t(`calibration.quality_${item.quality}`)} tone={qualityTone(item.quality)} />
+                    </View>
+                  ))}
+              </View>
+            </>
+          ) : null}
+        </ScrollView>
+      </View>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  safeArea: {
+    flex: 1
+  },
+  container: {
+    flex: 1,
+    width: "100%",
+    maxWidth: 860,
+    alignSelf: "center",
+    paddingHorizontal: 20,
+    paddingTop: 10
+  },
+  headerRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between"
+  },
+  circleButton: {
+    width: 48,
+    height: 48,
+    borderRadius: 24,
+    alignItems: "center",
+    justifyContent: "center",
+    backgroundColor: "rgba(22,44,68,0.9)",
+    borderWidth: 1,
+    borderColor: "rgba(77,117,153,0.35)"
+  },
+  circleButtonLight: {
+    backgroundColor: "#EAF2FC",
+    borderColor: "#BFD4EA"
+  },
+  headerTitle: {
+    fontSize: 22,
+    fontWeight: "800"
+  },
+  headerSpacer: {
+    width: 48
+  },
+  listContent: {
+    paddingTop: 16,
+    paddingBottom: 40
+  },
+  card: {
+    borderRadius: 18,
+    borderWidth: 1,
+    paddingHorizontal: 14,
+    marginBottom: 16,
+    overflow: "hidden"
+  },
+  cardPadded: {
+    paddingVertical: 16
+  },
+  cardLabel: {
+    fontSize: 12,
+    fontWeight: "700",
+    letterSpacing: 0.8,
+    marginBottom: 8
+  },
+  guideWrap: {
+    height: 170,
+    alignItems: "center",
+    justifyContent: "center"
+  },
+  guideTrack: {
+    position: "absolute",
+    opacity: 0.25
+  },
+  stepTitle: {
+    fontSize: 17,
+    fontWeight: "800",
+    textAlign: "center"
+  },
+  stepText: {
+    marginTop: 4,
+    fontSize: 13,
+    lineHeight: 18,
+    fontWeight: "500"
+  },
+  progressTrack: {
+    marginTop: 14,
+    height: 10,
+    borderRadius: 5,
+    overflow: "hidden"
+  },
+  progressFill: {
+    height: "100%",
+    borderRadius: 5
+  },
+  metaText: {
+    marginTop: 6,
+    fontSize: 12,
+    fontWeight: "600"
+  },
+  warningCard: {
+    flexDirection: "row",
+    gap: 10,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: "#5A4526",
+    backgroundColor: "#2A2116",
+    padding: 12,
+    marginBottom: 16
+  },
+  warningCardLight: {
+    borderColor: "#EED7AE",
+    backgroundColor: "#FFF7E8"
+  },
+  warningCopy: {
+    flex: 1
+  },
+  warningTitle: {
+    fontSize: 14,
+    fontWeight: "800"
+  },
+  actionRow: {
+    flexDirection: "row",
+    gap: 10,
+    marginBottom: 20
+  },
+  secondaryButton: {
+    flex: 1,
+    height: 44,
+    borderRadius: 12,
+    borderWidth: 1,
+    alignItems: "center",
+    justifyContent: "center"
+  },
+  secondaryButtonText: {
+    fontSize: 14,
+    fontWeight: "700"
+  },
+  primaryButton: {
+    flex: 1,
+    height: 44,
+    borderRadius: 12,
+    alignItems: "center",
+    justifyContent: "center"
+  },
+  primaryButtonText: {
+    color: "#F2F8FF",
+    fontSize: 14,
+    fontWeight: "700"
+  },
+  historyRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 12,
+    paddingVertical: 12
+  },
+  historyDate: {
+    fontSize: 14,
+    fontWeight: "700"
+  }
+});
@@ -0,0 +1,627 @@
+import { Ionicons } from "@expo/vector-icons";
+import { useFocusEffect } from "@react-navigation/native";
+import { useRouter } from "expo-router";
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import { EaseView } from "react-native-ease";
+import { ActivityIndicator, Pressable, ScrollView, StyleSheet, Switch, Text, View } from "react-native";
+import { SafeAreaView } from "react-native-safe-area-context";
+import {
+  easeEnterTransition,
+  easeInitialFade,
+  easeInitialLift,
+  easeStateTransition,
+  easeVisibleFade,
+  easeVisibleLift
+} from "@/animation/ease";
+import { useMotionTransition } from "@/animation/useReducedMotion";
+import { AppBackground } from "@/components/AppBackground";
+import { useI18n } from "@/i18n/I18nProvider";
+import { getIslamicEvents, IslamicEvent, IslamicEventKind } from "@/services/islamicEvents";
+import { resolveLocationPreferCache } from "@/services/location";
+import { replanAll } from "@/services/notifications";
+import { getSettings, getShowKandilNights, saveSettings, saveShowKandilNights } from "@/services/storage";
+import { getRangeTimings, MonthlyTimingsRow } from "@/services/timingsCache";
+import { HijriAdjustmentDays, PRAYER_NAMES, Settings } from "@/types/prayer";
+import { useAppTheme } from "@/theme/ThemeProvider";
+import { getHijriMonthRange, HijriMonthRange } from "@/utils/hijri";
+import { getDateKey } from "@/utils/time";
+
+const ADJUSTMENT_OPTIONS: HijriAdjustmentDays[] = [-2, -1, 0, 1, 2];
+
+const EVENT_COLORS: Record<IslamicEventKind, string> = {
+  holiday: "#22C55E",
+  holy_day: "#2B8CEE",
+  holy_night: "#A855F7",
+  kandil: "#F59E0B"
+};
+
+function shiftDate(date: Date, days: number): Date {
+  const value = new Date(date);
+  value.setDate(value.getDate() + days);
+  return value;
+}
+
+function formatAdjustment(value: number): string {
+  return value > 0 ? `+${value}` : String(value);
+}
+
+export default function HijriCalendarScreen() {
+  const router = useRouter();
+  const { t, prayerName, localeTag, language } = useI18n();
+  const { colors, resolvedTheme } = useAppTheme();
+  const isLight = resolvedTheme === "light";
+  const enterTransition = useMotionTransition(easeEnterTransition);
+  const stateTransition = useMotionTransition(easeStateTransition);
+
+  const [settings, setSettings] = useState<Settings | null>(null);
+  const [showKandils, setShowKandils] = useState(language === "tr");
+  const [range, setRange] = useState<HijriMonthRange | null>(null);
+  const [rows, setRows] = useState<MonthlyTimingsRow[]>([]);
+  const [loadingTimings, setLoadingTimings] = useState(false);
+  const [selectedKey, setSelectedKey] = useState(getDateKey(new Date()));
+  const [saving, setSaving] = useState(false);
+  const loadRequestRef = useRef(0);
+
+  const adjustment = settings?.hijriAdjustmentDays ?? 0;
+  const todayKey = getDateKey(new Date());
+
+  useFocusEffect(
+    useCallback(() => {
+      let active = true;
+      void (async () => {
+        const [saved, storedKandils] = await Promise.all([getSettings(), getShowKandilNights()]);
+        if (!active) {
+          return;
+        }
+        setSettings(saved);
+        setShowKandils(storedKandils ?? language === "tr");
+        setRange((current) => current ?? getHijriMonthRange(new Date(), saved.hijriAdjustmentDays));
+      })();
+      return () => {
+        active = false;
+      };
+    }, [language])
+  );
+
+  useEffect(() => {
+    if (!range || !settings) {
+      return;
+    }
+    const requestId = ++loadRequestRef.current;
+    setLoadingTimings(true);
+    void (async () => {
+      try {
+        const location = await resolveLocationPreferCache(settings);
+        const result = await getRangeTimings({
+          start: range.start,
+          days: range.days,
+          location: { lat: location.lat, lon: location.lon },
+          locationLabel: location.label,
+          settings
+        });
+        if (requestId === loadRequestRef.current) {
+          setRows(result);
+        }
+      } catch {
+        if (requestId === loadRequestRef.current) {
+          setRows([]);
+        }
+      } finally {
+        if (requestId === loadRequestRef.current) {
+          setLoadingTimings(false);
+        }
+      }
+    })();
+  }, [range, settings]);
+
+  const days = useMemo(() => {
+    if (!range) {
+      return [];
+    }
+    return Array.from({ length: range.days }, (_, index) => {
+      const date = shiftDate(range.start, index);
+      return {
+        date,
+        dateKey: getDateKey(date),
+        hijriDay: index + 1,
+        events: getIslamicEvents(date, adjustment, { includeKandils: showKandils })
+      };
+    });
+  }, [adjustment, range, showKandils]);
+
+  // Monday-first grid; getDay() is Sunday-first, so shift by six and wrap.
+  const leadingBlanks = range ? (range.start.getDay() + 6) % 7 : 0;
+  const weekdayLabels = useMemo(() => {
+    const monday = new Date(2024, 0, 1);
+    return Array.from({ length: 7 }, (_, index) =>
+      shiftDate(monday, index).toLocaleDateString(localeTag, { weekday: "narrow" })
+    );
+  }, [localeTag]);
+
+  const gregorianSpan = useMemo(() => {
+    if (!range) {
+      return "";
+    }
+    const end = shiftDate(range.start, range.days - 1);
+    const options: Intl.DateTimeFormatOptions = { day: "numeric", month: "short", year: "numeric" };
+    return `${range.start.toLocaleDateString(localeTag, options)} – ${end.toLocaleDateString(localeTag, options)}`;
+  }, [localeTag, range]);
+
+  const selectedDay = days.find((day) => day.dateKey === selectedKey) ?? null;
+  const selectedRow = rows.find((row) => row.dateKey === selectedKey) ?? null;
+  const monthEvents = days.filter((day) => day.events.length > 0);
+
+  const moveMonth = (delta: -1 | 1) => {
+    if (!range) {
+      return;
+    }
+    const target = delta < 0 ? shiftDate(range.start, -1) : shiftDate(range.start, range.days);
+    setRange(getHijriMonthRange(target, adjustment));
+  };
+
+  const jumpToToday = () => {
+    setRange(getHijriMonthRange(new Date(), adjustment));
+    setSelectedKey(todayKey);
+  };
+
+  const updateAdjustment = useCallback(
+    async (value: HijriAdjustmentDays) => {
+      if (!settings || settings.hijriAdjustmentDays === value) {
+        return;
+      }
+      const updated: Settings = { ...settings, hijriAdjustmentDays: value };
+      setSettings(updated);
+      // Re-anchor on mid-month so the same Hijri month stays visible after the shift.
+      setRange(getHijriMonthRange(range ? shiftDate(range.start, 14) : new Date(), value));
+      setSaving(true);
+      try {
+        await saveSettings(updated);
+        const location = await resolveLocationPreferCache(updated);
+        await replanAll({
+          lat: location.lat,
+          lon: location.lon,
+          methodId: updated.methodId,
+          settings: updated
+        });
+      } catch {
+        // The adjustment is saved; Hijri-based notifications follow on the next replan.
+      } finally {
+        setSaving(false);
+      }
+    },
+    [range, settings]
+  );
+
+  const toggleKandils = useCallback(async (value: boolean) => {
+    setShowKandils(value);
+    try {
+      await saveShowKandilNights(value);
+    } catch {
+      // Keep the toggle responsive even if persisting fails.
+    }
+  }, []);
+
+  const paddedCardStyle = [
+    styles.card,
+    styles.cardPadded,
+    { backgroundColor: colors.card, borderColor: colors.cardBorder }
+  ];
+
+  const renderEventLabel = (event: IslamicEvent) => (
+    <View key={event.key} style={styles.eventRow}>
+      <View style={[styles.eventDot, { backgroundColor: EVENT_COLORS[event.kind] }]} />
+      <Text style={[styles.eventText, { color: colors.textPrimary }]}>{t(`hijri.event_${event.key}`)}</Text>
+    </View>
+  );
+
+  return (
+    <SafeAreaView style={[styles.safeArea, { backgroundColor: colors.background }]}>
+      <View style={styles.container}>
+        <AppBackground />
+
+        <EaseView initialAnimate={easeInitialLift} animate={easeVisibleLift} transition={enterTransition}>
+          <View style={styles.headerRow}>
+            <Pressable
+              onPress={() => router.back()}
+              hitSlop={8}
+              style={[styles.circleButton, isLight ? styles.circleButtonLight : null]}
+            >
+              <Ionicons name="arrow-back" size={24} color={colors.textPrimary} />
+            </Pressable>
+            <Text style={[styles.headerTitle, { color: colors.textPrimary }]}>{t("hijri.title")}</Text>
+            <Pressable
+              onPress={jumpToToday}
+              hitSlop={8}
+              style={[styles.circleButton, isLight ? styles.circleButtonLight : null]}
+            >
+              <Ionicons name="today-outline" size={22} color={colors.textPrimary} />
+            </Pressable>
+          </View>
+        </EaseView>
+
+        <ScrollView contentContainerStyle={styles.scrollContent} showsVerticalScrollIndicator={false}>
+          {range ? (
+            <EaseView initialAnimate={easeInitialFade} animate={easeVisibleFade} transition={stateTransition}>
+              <View style={styles.monthNavRow}>
+                <Pressable onPress={() => moveMonth(-1)} hitSlop={10} style={styles.navButton}>
+                  <Ionicons name="chevron-back" size={22} color={colors.textPrimary} />
+                </Pressable>
+                <View style={styles.monthTitleBlock}>
+                  <Text style={[styles.monthTitle, { color: colors.textPrimary }]}>
+                    {t(`hijri_months.${range.month}`)} {range.year}
+                  </Text>
+                  <Text style={[styles.monthSub, { color: colors.textSecondary }]}>{gregorianSpan}</Text>
+                </View>
+                <Pressable onPress={() => moveMonth(1)} hitSlop={10} style={styles.navButton}>
+                  <Ionicons name="chevron-forward" size={22} color={colors.textPrimary} />
+                </Pressable>
+              </View>
+
+              <View style={[styles.card, { backgroundColor: colors.card, borderColor: colors.cardBorder }]}>
+                <View style={styles.weekRow}>
+                  {weekdayLabels.map((label, index) => (
+                    <Text key={`${label}-${index}`} style={[styles.weekdayLabel, { color: colors.textSecondary }]}>
+                      {label}
+                    </Text>
+                  ))}
+                </View>
+                <View style={styles.grid}>
+                  {Array.from({ length: leadingBlanks }, (_, index) => (
+                    <View key={`blank-${index}`} style={styles.cell} />
+                  ))}
+                  {days.map((day) => {
+                    const isSelected = day.dateKey === selectedKey;
+                    const isToday = day.dateKey === todayKey;
+                    return (
+                      <Pressable key={day.dateKey} style={styles.cell} onPress={() => setSelectedKey(day.dateKey)}>
+                        <View
+                          style={[
+                            styles.cellInner,
+                            isToday && { borderColor: colors.accent },
+                            isSelected && { backgroundColor: colors.accent, borderColor: colors.accent }
+                          ]}
+                        >
+                          <Text style={[styles.cellHijri, { color: isSelected ? "#F2F8FF" : colors.textPrimary }]}>
+                            {day.hijriDay}
+                          </Text>
+                          <Text
+                            style={[styles.cellGregorian, { color: isSelected ? "#DCEBFF" : colors.textSecondary }]}
+                          >
+                            {day.date.getDate()}
+                          </Text>
+                          <View style={styles.cellDots}>
+                            {day.events.map((event) => (
+                              <View
+                                key={event.key}
+                                style={[styles.cellDot, { backgroundColor: EVENT_COLORS[event.kind] }]}
+                              />
+                            ))}
+                          </View>
+                        </View>
+                      </Pressable>
+                    );
+                  })}
+                </View>
+              </View>
+
+              {selectedDay ? (
+                <View style={paddedCardStyle}>
+                  <Text style={[styles.selectedTitle, { color: colors.textPrimary }]}>
+                    {`${selectedDay.hijriDay} ${t(`hijri_months.${range.month}`)} ${range.year}`}
+                  </Text>
+                  <Text style={[styles.monthSub, { color: colors.textSecondary }]}>
+                    {selectedDay.date.toLocaleDateString(localeTag, {
+                      weekday: "long",
+                      day: "numeric",
+                      month: "long",
+                      year: "numeric"
+                    })}
+                  </Text>
+                  {selectedDay.events.length > 0 ? (
+                    <View style={styles.eventList}>{selectedDay.events.map(renderEventLabel)}</View>
+                  ) : null}
+                  <View style={styles.timesGrid}>
+                    {PRAYER_NAMES.map((prayer) => (
+                      <View key={prayer} style={styles.timeItem}>
+                        <Text style={[styles.timeLabel, { color: colors.textSecondary }]}>{prayerName(prayer)}</Text>
+                        <Text style={[styles.timeValue, { color: colors.textPrimary }]}>
+                          {selectedRow?.timings?.times[prayer] ?? "--:--"}
+                        </Text>
+                      </View>
+                    ))}
+                  </View>
+                  {loadingTimings ? <ActivityIndicator color="#2B8CEE" size="small" /> : null}
+                </View>
+              ) : null}
+
+              <Text style={[styles.sectionLabel, { color: colors.textSecondary }]}>{t("hijri.events_this_month")}</Text>
+              <View style={paddedCardStyle}>
+                {monthEvents.length === 0 ? (
+                  <Text style={[styles.monthSub, { color: colors.textSecondary }]}>{t("hijri.no_events")}</Text>
+                ) : (
+                  monthEvents.map((day) => (
+                    <Pressable
+                      key={day.dateKey}
+                      style={styles.monthEventRow}
+                      onPress={() => setSelectedKey(day.dateKey)}
+                    >
+                      <Text style={[styles.monthEventDate, { color: colors.textSecondary }]}>
+                        {day.date.toLocaleDateString(localeTag, { day: "numeric", month: "short" })}
+                      </Text>
+                      <View style={styles.monthEventLabels}>{day.events.map(renderEventLabel)}</View>
+                    </Pressable>
+                  ))
+                )}
+              </View>
+            </EaseView>
+          ) : (
+            <ActivityIndicator color="#2B8CEE" size="small" />
+          )}
+
+          {settings ? (
+            <>
+              <Text style={[styles.sectionLabel, { color: colors.textSecondary }]}>{t("hijri.adjustment")}</Text>
+              <View style={paddedCardStyle}>
+                <Text style={[styles.monthSub, { color: colors.textSecondary }]}>{t("hijri.adjustment_desc")}</Text>
+                <View style={styles.chipRow}>
+                  {ADJUSTMENT_OPTIONS.map((option) => {
+                    const selected = settings.hijriAdjustmentDays === option;
+                    return (
+                      <Pressable
+                        key={option}
+                        style={[
+                          styles.chip,
+                          { borderColor: colors.cardBorder },
+                          selected && { backgroundColor: colors.accent, borderColor: colors.accent },
+                          saving && styles.chipDisabled
+                        ]}
+                        onPress={() => void updateAdjustment(option)}
+                        disabled={saving}
+                      >
+                        <Text style={[styles.chipText, { color: selected ? "#F2F8FF" : colors.textPrimary }]}>
+                          {option === 0
+                            ? t("hijri.adjustment_none")
+                            : t("hijri.adjustment_days", { days: formatAdjustment(option) })}
+                        </Text>
+                      </Pressable>
+                    );
+                  })}
+                </View>
+                <View style={[styles.switchRow, { borderTopColor: colors.cardBorder }]}>
+                  <View style={styles.switchTextBlock}>
+                    <Text style={[styles.switchTitle, { color: colors.textPrimary }]}>{t("hijri.show_kandils")}</Text>
+                    <Text style={[styles.monthSub, { color: colors.textSecondary }]}>
+                      {t("hijri.show_kandils_desc")}
+                    </Text>
+                  </View>
+                  <Switch value={showKandils} onValueChange={(value) => void toggleKandils(value)} />
+                </View>
+              </View>
+            </>
+          ) : null}
+        </ScrollView>
+      </View>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  safeArea: {
+    flex: 1
+  },
+  container: {
+    flex: 1,
+    width: "100%",
+    maxWidth: 860,
+    alignSelf: "center",
+    paddingHorizontal: 20,
+    paddingTop: 10
+  },
+  headerRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between"
+  },
+  circleButton: {
+    width: 48,
+    height: 48,
+    borderRadius: 24,
+    alignItems: "center",
+    justifyContent: "center",
+    backgroundColor: "rgba(22,44,68,0.9)",
+    borderWidth: 1,
+    borderColor: "rgba(77,117,153,0.35)"
+  },
+  circleButtonLight: {
+    backgroundColor: "#EAF2FC",
+    borderColor: "#BFD4EA"
+  },
+  headerTitle: {
+    fontSize: 22,
+    fontWeight: "800"
+  },
+  scrollContent: {
+    paddingTop: 12,
+    paddingBottom: 40
+  },
+  monthNavRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+    marginBottom: 12
+  },
+  navButton: {
+    width: 40,
+    height: 40,
+    alignItems: "center",
+    justifyContent: "center"
+  },
+  monthTitleBlock: {
+    flex: 1,
+    alignItems: "center"
+  },
+  monthTitle: {
+    fontSize: 18,
+    fontWeight: "800"
+  },
+  monthSub: {
+    marginTop: 2,
+    fontSize: 13,
+    fontWeight: "500"
+  },
+  card: {
+    borderRadius: 18,
+    borderWidth: 1,
+    marginBottom: 16,
+    padding: 8,
+    overflow: "hidden"
+  },
+  cardPadded: {
+    padding: 14
+  },
+  weekRow: {
+    flexDirection: "row"
+  },
+  weekdayLabel: {
+    width: `${100 / 7}%`,
+    textAlign: "center",
+    fontSize: 12,
+    fontWeight: "700",
+    paddingVertical: 6
+  },
+  grid: {
+    flexDirection: "row",
+    flexWrap: "wrap"
+  },
+  cell: {
+    width: `${100 / 7}%`,
+    aspectRatio: 0.9,
+    padding: 2
+  },
+  cellInner: {
+    flex: 1,
+    borderRadius: 10,
+    borderWidth: 1,
+    borderColor: "transparent",
+    alignItems: "center",
+    justifyContent: "center"
+  },
+  cellHijri: {
+    fontSize: 15,
+    fontWeight: "800"
+  },
+  cellGregorian: {
+    fontSize: 10,
+    fontWeight: "600"
+  },
+  cellDots: {
+    flexDirection: "row",
+    gap: 2,
+    height: 6,
+    marginTop: 2
+  },
+  cellDot: {
+    width: 5,
+    height: 5,
+    borderRadius: 3
+  },
+  selectedTitle: {
+    fontSize: 17,
+    fontWeight: "800"
+  },
+  eventList: {
+    marginTop: 10,
+    gap: 6
+  },
+  eventRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 8
+  },
+  eventDot: {
+    width: 8,
+    height: 8,
+    borderRadius: 4
+  },
+  eventText: {
+    flexShrink: 1,
+    fontSize: 14,
+    fontWeight: "600"
+  },
+  timesGrid: {
+    marginTop: 12,
+    flexDirection: "row",
+    flexWrap: "wrap",
+    rowGap: 10
+  },
+  timeItem: {
+    width: "33.33%"
+  },
+  timeLabel: {
+    fontSize: 12,
+    fontWeight: "600"
+  },
+  timeValue: {
+    marginTop: 2,
+    fontSize: 16,
+    fontWeight: "800",
+    fontVariant: ["tabular-nums"]
+  },
+  sectionLabel: {
+    fontSize: 14,
+    fontWeight: "700",
+    letterSpacing: 1.1,
+    marginBottom: 10
+  },
+  monthEventRow: {
+    flexDirection: "row",
+    alignItems: "flex-start",
+    gap: 12,
+    paddingVertical: 6
+  },
+  monthEventDate: {
+    width: 64,
+    fontSize: 13,
+    fontWeight: "700"
+  },
+  monthEventLabels: {
+    flex: 1,
+    gap: 4
+  },
+  chipRow: {
+    flexDirection: "row",
+    gap: 8,
+    marginTop: 12,
+    marginBottom: 14
+  },
+  chip: {
+    flex: 1,
+    minHeight: 38,
+    borderRadius: 10,
+    borderWidth: 1,
+    alignItems: "center",
+    justifyContent: "center"
+  },
+  chipDisabled: {
+    opacity: 0.5
+  },
+  chipText: {
+    fontSize: 13,
+    fontWeight: "700"
+  },
+  switchRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+    gap: 12,
+    paddingTop: 12,
+    borderTopWidth: 1
+  },
+  switchTextBlock: {
+    flex: 1
+  },
+  switchTitle: {
+    fontSize: 15,
+    fontWeight: "700"
+  }
+});
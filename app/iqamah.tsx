@@ -0,0 +1,968 @@
+import { Ionicons } from "@expo/vector-icons";
+import { useFocusEffect } from "@react-navigation/native";
+import { useLocalSearchParams, useRouter } from "expo-router";
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import { EaseView } from "react-native-ease";
+import {
+  ActivityIndicator,
+  Alert,
+  Pressable,
+  ScrollView,
+  Share,
+  StyleSheet,
+  Switch,
+  Text,
+  TextInput,
+  View
+} from "react-native";
+import { SafeAreaView } from "react-native-safe-area-context";
+import {
+  easeEnterTransition,
+  easeInitialFade,
+  easeInitialLift,
+  easeStateTransition,
+  easeVisibleFade,
+  easeVisibleLift
+} from "@/animation/ease";
+import { useMotionTransition } from "@/animation/useReducedMotion";
+import { AppBackground } from "@/components/AppBackground";
+import { StatusChip } from "@/components/StatusChip";
+import { useI18n } from "@/i18n/I18nProvider";
+import {
+  createEmptyIqamahSchedule,
+  hasIqamahRules,
+  IQAMAH_DAY_CODES,
+  MAX_IQAMAH_OFFSET_MINUTES,
+  parseIqamahImport,
+  resolveIqamahTime
+} from "@/services/iqamah";
+import {
+  buildIqamahLink,
+  fetchIqamahSchedule,
+  importIqamahFromText,
+  pickIqamahScheduleFile,
+  shareIqamahSchedule
+} from "@/services/iqamahImport";
+import { resolveLocationPreferCache } from "@/services/location";
+import { replanAll } from "@/services/notifications";
+import { getDefaultMosque, getSettings, saveSettings } from "@/services/storage";
+import { getRangeTimings } from "@/services/timingsCache";
+import { DefaultMosque } from "@/types/mosque";
+import {
+  IqamahRule,
+  IqamahSchedule,
+  IqamahSettings,
+  Settings,
+  Timings,
+  TRACKED_PRAYERS,
+  TrackedPrayer
+} from "@/types/prayer";
+import { useAppTheme } from "@/theme/ThemeProvider";
+import { shiftTimeHHmm } from "@/utils/time";
+
+type LoadState = "idle" | "loading" | "ready" | "error";
+type RuleMode = "none" | "offset" | "fixed";
+
+const STEP_MINUTES = 5;
+const DEFAULT_OFFSET_MINUTES = 10;
+const RULE_MODES: RuleMode[] = ["none", "offset", "fixed"];
+// Any Monday works; it only anchors the localized weekday names.
+const WEEK_START = new Date(2024, 0, 1);
+
+export default function IqamahScreen() {
+  const router = useRouter();
+  const params = useLocalSearchParams<{ url?: string; data?: string }>();
+  const { t, prayerName, localeTag } = useI18n();
+  const { colors, resolvedTheme } = useAppTheme();
+  const isLight = resolvedTheme === "light";
+  const enterTransition = useMotionTransition(easeEnterTransition);
+  const stateTransition = useMotionTransition(easeStateTransition);
+
+  const [settings, setSettings] = useState<Settings | null>(null);
+  const [mosque, setMosque] = useState<DefaultMosque | null>(null);
+  const [todayTimings, setTodayTimings] = useState<Timings | null>(null);
+  const [loadState, setLoadState] = useState<LoadState>("idle");
+  const [saving, setSaving] = useState(false);
+  const [editing, setEditing] = useState<TrackedPrayer | null>(null);
+  // null edits the rule for every day; 0-6 edits the override for that weekday, Monday first.
+  const [editingDay, setEditingDay] = useState<number | null>(null);
+  const [importText, setImportText] = useState("");
+  const [importing, setImporting] = useState(false);
+  const [notice, setNotice] = useState<{ label: string; tone: "success" | "error" } | null>(null);
+  const loadRequestRef = useRef(0);
+  const handledLinkRef = useRef<string | null>(null);
+
+  const today = useMemo(() => new Date(), []);
+  const dayLabels = useMemo(
+    () =>
+      IQAMAH_DAY_CODES.map((_, day) =>
+        new Date(WEEK_START.getTime() + day * 24 * 60 * 60 * 1000).toLocaleDateString(localeTag, {
+          weekday: "short"
+        })
+      ),
+    [localeTag]
+  );
+
+  const load = useCallback(async () => {
+    const requestId = ++loadRequestRef.current;
+    setLoadState("loading");
+    try {
+      const [saved, savedMosque] = await Promise.all([getSettings(), getDefaultMosque()]);
+      if (requestId !== loadRequestRef.current) {
+        return;
+      }
+      setSettings(saved);
+      setMosque(savedMosque);
+      setLoadState("ready");
+
+      // Today's adhan times only fill in the preview, so the screen does not wait for them.
+      const location = await resolveLocationPreferCache(saved);
+      const rows = await getRangeTimings({
+        start: today,
+        days: 1,
+        location: { lat: location.lat, lon: location.lon },
+        locationLabel: location.label,
+        settings: saved
+      });
+      if (requestId === loadRequestRef.current) {
+        setTodayTimings(rows[0]?.timings ?? null);
+      }
+    } catch {
+      if (requestId === loadRequestRef.current) {
+        setLoadState((current) => (current === "ready" ? current : "error"));
+      }
+    }
+  }, [today]);
+
+  useFocusEffect(
+    useCallback(() => {
+      void load();
+    }, [load])
+  );
+
+  const updateIqamah = useCallback(
+    async (patch: Partial<IqamahSettings>) => {
+      if (!settings) {
+        return;
+      }
+      const updated: Settings = { ...settings, iqamah: { ...settings.iqamah, ...patch } };
+      setSettings(updated);
+      setSaving(true);
+      try {
+        await saveSettings(updated);
+        const location = await resolveLocationPreferCache(updated);
+        await replanAll({
+          lat: location.lat,
+          lon: location.lon,
+          methodId: updated.methodId,
+          settings: updated
+        });
+      } catch {
+        // The timetable is saved; notifications catch up on the next replan.
+      } finally {
+        setSaving(false);
+      }
+    },
+    [settings]
+  );
+
+  const schedule = settings && mosque ? settings.iqamah.schedules[mosque.id] ?? null : null;
+
+  const saveSchedule = useCallback(
+    async (next: IqamahSchedule | null) => {
+      if (!settings || !mosque) {
+        return;
+      }
+      const { [mosque.id]: _removed, ...rest } = settings.iqamah.schedules;
+      await updateIqamah({ schedules: hasIqamahRules(next) ? { ...rest, [mosque.id]: next } : rest });
+    },
+    [mosque, settings, updateIqamah]
+  );
+
+  // A link can be opened by anyone's QR code, so it never saves without the user seeing where it came from.
+  const applyImported = useCallback(
+    (imported: IqamahSchedule, fromLink: boolean) => {
+      if (!mosque) {
+        setNotice({ label: t("iqamah.no_mosque"), tone: "error" });
+        return;
+      }
+      const apply = () => {
+        setImportText("");
+        setNotice({ label: t("iqamah.imported", { mosque: mosque.name }), tone: "success" });
+        void saveSchedule(imported);
+      };
+      const replacing = hasIqamahRules(schedule);
+      if (fromLink) {
+        const source = imported.sourceUrl ?? t("iqamah.link_source_shared");
+        const body = imported.sourceMosque
+          ? t("iqamah.link_body_named", { source, from: imported.sourceMosque, mosque: mosque.name })
+          : t("iqamah.link_body", { source, mosque: mosque.name });
+        Alert.alert(
+          t("iqamah.link_title"),
+          replacing ? `${body}\n\n${t("iqamah.replace_body", { mosque: mosque.name })}` : body,
+          [
+            { text: t("qaza.cancel"), style: "cancel" },
+            { text: replacing ? t("iqamah.replace") : t("iqamah.import_button"), onPress: apply }
+          ]
+        );
+        return;
+      }
+      if (!replacing) {
+        apply();
+        return;
+      }
+      Alert.alert(t("iqamah.replace_title"), t("iqamah.replace_body", { mosque: mosque.name }), [
+        { text: t("qaza.cancel"), style: "cancel" },
+        { text: t("iqamah.replace"), onPress: apply }
+      ]);
+    },
+    [mosque, saveSchedule, schedule, t]
+  );
+
+  const runImport = useCallback(
+    async (task: () => Promise<IqamahSchedule | null>, fromLink = false) => {
+      setImporting(true);
+      setNotice(null);
+      try {
+        const imported = await task();
+        if (imported) {
+          applyImported(imported, fromLink);
+        }
+      } catch {
+        setNotice({ label: t("iqamah.import_failed"), tone: "error" });
+      } finally {
+        setImporting(false);
+      }
+    },
+    [applyImported, t]
+  );
+
+  // A mosque's QR code opens the app with the timetable, or a link to it, in the query.
+  useEffect(() => {
+    const link = params.url ?? params.data ?? null;
+    if (!link || loadState !== "ready" || handledLinkRef.current === link) {
+      return;
+    }
+    handledLinkRef.current = link;
+    void runImport(
+      async () => (params.url ? fetchIqamahSchedule(params.url) : parseIqamahImport(params.data ?? "")),
+      true
+    );
+  }, [loadState, params.data, params.url, runImport]);
+
+  const editingRule = useMemo(() => {
+    if (!editing || !schedule) {
+      return null;
+    }
+    const entry = schedule.prayers[editing];
+    return editingDay === null ? entry.rule : entry.weekdays[editingDay];
+  }, [editing, editingDay, schedule]);
+
+  const setRule = useCallback(
+    (prayer: TrackedPrayer, day: number | null, rule: IqamahRule | null) => {
+      const base = schedule ?? createEmptyIqamahSchedule();
+      const entry = base.prayers[prayer];
+      const next: IqamahSchedule = {
+        ...base,
+        prayers: {
+          ...base.prayers,
+          [prayer]:
+            day === null
+              ? { ...entry, rule }
+              : { ...entry, weekdays: entry.weekdays.map((value, index) => (index === day ? rule : value)) }
+        },
+        updatedAt: Date.now()
+      };
+      void saveSchedule(next);
+    },
+    [saveSchedule, schedule]
+  );
+
+  const selectMode = useCallback(
+    (mode: RuleMode) => {
+      if (!editing) {
+        return;
+      }
+      if (mode === "none") {
+        setRule(editing, editingDay, null);
+      } else if (mode === "offset") {
+        setRule(editing, editingDay, { kind: "offset", minutes: DEFAULT_OFFSET_MINUTES });
+      } else {
+        const adhan = todayTimings?.times[editing] ?? "12:00";
+        setRule(editing, editingDay, { kind: "fixed", time: shiftTimeHHmm(adhan, DEFAULT_OFFSET_MINUTES) });
+      }
+    },
+    [editing, editingDay, setRule, todayTimings]
+  );
+
+  const stepRule = useCallback(
+    (minutes: number) => {
+      if (!editing || !editingRule) {
+        return;
+      }
+      setRule(
+        editing,
+        editingDay,
+        editingRule.kind === "offset"
+          ? {
+              kind: "offset",
+              minutes: Math.min(MAX_IQAMAH_OFFSET_MINUTES, Math.max(0, editingRule.minutes + minutes))
+            }
+          : { kind: "fixed", time: shiftTimeHHmm(editingRule.time, minutes) }
+      );
+    },
+    [editing, editingDay, editingRule, setRule]
+  );
+
+  const clearSchedule = useCallback(() => {
+    if (!mosque) {
+      return;
+    }
+    Alert.alert(t("iqamah.clear_title"), t("iqamah.clear_body", { mosque: mosque.name }), [
+      { text: t("qaza.cancel"), style: "cancel" },
+      { text: t("iqamah.clear"), style: "destructive", onPress: () => void saveSchedule(null) }
+    ]);
+  }, [mosque, saveSchedule, t]);
+
+  const shareFile = useCallback(async () => {
+    if (!schedule) {
+      return;
+    }
+    try {
+      await shareIqamahSchedule({ schedule, mosqueName: mosque?.name ?? null, dialogTitle: t("iqamah.title") });
+    } catch {
+      setNotice({ label: t("iqamah.share_failed"), tone: "error" });
+    }
+  }, [mosque, schedule, t]);
+
+  const shareLink = useCallback(async () => {
+    if (!schedule) {
+      return;
+    }
+    try {
+      await Share.share({ message: buildIqamahLink(schedule, mosque?.name ?? null) });
+    } catch {
+      setNotice({ label: t("iqamah.share_failed"), tone: "error" });
+    }
+  }, [mosque, schedule, t]);
+
+  const describeRule = useCallback(
+    (rule: IqamahRule | null) =>
+      !rule
+        ? t("iqamah.rule_none")
+        : rule.kind === "offset"
+          ? t("iqamah.rule_offset", { mins: rule.minutes })
+          : t("iqamah.rule_fixed", { time: rule.time }),
+    [t]
+  );
+
+  const chipStyle = (selected: boolean) => [
+    styles.chip,
+    { borderColor: colors.cardBorder },
+    selected && { backgroundColor: colors.accent, borderColor: colors.accent },
+    saving && styles.disabled
+  ];
+  const stepButtonStyle = [styles.stepButton, { borderColor: colors.cardBorder }, saving && styles.disabled];
+  const editingMode: RuleMode = editingRule?.kind ?? "none";
+
+  return (
+    <SafeAreaView style={[styles.safeArea, { backgroundColor: colors.background }]}>
+      <View style={styles.container}>
+        <AppBackground />
+
+        <EaseView initialAnimate={easeInitialLift} animate={easeVisibleLift} transition={enterTransition}>
+          <View style={styles.headerRow}>
+            <Pressable
+              onPress={() => router.back()}
+              hitSlop={8}
+              style={[styles.circleButton, isLight ? styles.circleButtonLight : null]}
+            >
+              <Ionicons name="arrow-back" size={24} color={colors.textPrimary} />
+            </Pressable>
+            <Text style={[styles.headerTitle, { color: colors.textPrimary }]}>{t("iqamah.title")}</Text>
+            <View style={styles.headerSpacer} />
+          </View>
+        </EaseView>
+
+        {loadState === "loading" && !settings ? (
+          <View style={styles.loadingWrap}>
+            <ActivityIndicator color="#2B8CEE" size="small" />
+            <Text style={[styles.loadingText, { color: colors.textSecondary }]}>{t("iqamah.loading")}</Text>
+          </View>
+        ) : loadState === "error" && !settings ? (
+          <View style={styles.loadingWrap}>
+            <Text style={[styles.loadingText, { color: colors.textSecondary }]}>{t("iqamah.error")}</Text>
+            <Pressable style={styles.retryBtn} onPress={() => void load()}>
+              <Text style={styles.retryLabel}>{t("common.retry")}</Text>
+            </Pressable>
+          </View>
+        ) : settings ? (
+          <ScrollView
+            contentContainerStyle={styles.listContent}
+            showsVerticalScrollIndicator={false}
+            keyboardShouldPersistTaps="handled"
+          >
+            <EaseView initialAnimate={easeInitialFade} animate={easeVisibleFade} transition={stateTransition}>
+              <View style={styles.metaRow}>
+                <Text style={[styles.metaText, { color: colors.textSecondary }]} numberOfLines={2}>
+                  {mosque ? mosque.name : t("iqamah.no_mosque")}
+                </Text>
+                <StatusChip
+                  label={hasIqamahRules(schedule) ? t("iqamah.status_set") : t("iqamah.status_empty")}
+                  tone={hasIqamahRules(schedule) ? "success" : "info"}
+                />
+              </View>
+            </EaseView>
+
+            {!mosque ? (
+              <View
+                style={[
+                  styles.card,
+                  styles.cardPadded,
+                  { backgroundColor: colors.card, borderColor: colors.cardBorder }
+                ]}
+              >
+                <View style={styles.emptyMosque}>
+                  <Text style={[styles.switchSub, { color: colors.textSecondary }]}>{t("iqamah.no_mosque_desc")}</Text>
+                  <Pressable style={styles.retryBtn} onPress={() => router.push("/mosques" as never)}>
+                    <Text style={styles.retryLabel}>{t("jumuah.choose_mosque")}</Text>
+                  </Pressable>
+                </View>
+              </View>
+            ) : (
+              <>
+                <View style={[styles.card, { backgroundColor: colors.card, borderColor: colors.cardBorder }]}>
+                  <View style={styles.switchRow}>
+                    <View style={styles.switchTextBlock}>
+                      <Text style={[styles.switchTitle, { color: colors.textPrimary }]}>
+                        {t("iqamah.show_on_home")}
+                      </Text>
+                      <Text style={[styles.switchSub, { color: colors.textSecondary }]}>
+                        {t("iqamah.show_on_home_desc")}
+                      </Text>
+                    </View>
+                    <Switch
+                      value={settings.iqamah.showOnHome}
+                      onValueChange={(value) => void updateIqamah({ showOnHome: value })}
+                      disabled={saving}
+                    />
+                  </View>
+                  <View style={[styles.switchRow, styles.rowDivider, { borderTopColor: colors.cardBorder }]}>
+                    <View style={styles.switchTextBlock}>
+                      <Text style={[styles.switchTitle, { color: colors.textPrimary }]}>
+                        {t("iqamah.notify_at_iqamah")}
+                      </Text>
+                      <Text style={[styles.switchSub, { color: colors.textSecondary }]}>
+                        {t("iqamah.notify_at_iqamah_desc")}
+                      </Text>
+                    </View>
+                    <Switch
+                      value={settings.iqamah.notifyAtIqamah}
+                      onValueChange={(value) => void updateIqamah({ notifyAtIqamah: value })}
+                      disabled={saving}
+                    />
+                  </View>
+                </View>
+
+                <View
+                  style={[
+                    styles.card,
+                    styles.cardPadded,
+                    { backgroundColor: colors.card, borderColor: colors.cardBorder }
+                  ]}
+                >
+                  <Text style={[styles.cardLabel, { color: colors.textSecondary }]}>{t("iqamah.timetable")}</Text>
+                  {TRACKED_PRAYERS.map((prayer) => {
+                    const entry = schedule?.prayers[prayer];
+                    const adhan = todayTimings?.times[prayer] ?? null;
+                    const todayTime = adhan ? resolveIqamahTime(schedule, prayer, today, adhan) : null;
+                    const overrides = entry?.weekdays.filter(Boolean).length ?? 0;
+                    const expanded = editing === prayer;
+                    return (
+                      <View key={prayer} style={[styles.prayerBlock, { borderTopColor: colors.cardBorder }]}>
+                        <Pressable
+                          style={styles.prayerRow}
+                          onPress={() => {
+                            setEditing(expanded ? null : prayer);
+                            setEditingDay(null);
+                          }}
+                        >
+                          <View style={styles.switchTextBlock}>
+                            <Text style={[styles.switchTitle, { color: colors.textPrimary }]}>
+                              {prayerName(prayer)}
+                            </Text>
+                            <Text style={[styles.switchSub, { color: colors.textSecondary }]} numberOfLines={1}>
+                              {overrides > 0
+                                ? t("iqamah.rule_with_overrides", {
+                                    rule: describeRule(entry?.rule ?? null),
+                                    count: overrides
+                                  })
+                                : describeRule(entry?.rule ?? null)}
+                            </Text>
+                          </View>
+                          <View style={styles.prayerTimes}>
+                            <Text style={[styles.iqamahTime, { color: colors.textPrimary }]}>
+                              {todayTime ?? "--:--"}
+                            </Text>
+                            <Text style={[styles.switchSub, { color: colors.textSecondary }]}>
+                              {t("iqamah.adhan_at", { time: adhan ?? "--:--" })}
+                            </Text>
+                          </View>
+                          <Ionicons
+                            name={expanded ? "chevron-up" : "chevron-down"}
+                            size={18}
+                            color={colors.textSecondary}
+                          />
+                        </Pressable>
+
+                        {expanded ? (
+                          <View style={styles.editor}>
+                            <ScrollView horizontal showsHorizontalScrollIndicator={false}>
+                              <View style={styles.dayRow}>
+                                {[null, ...IQAMAH_DAY_CODES.map((_, day) => day)].map((day) => {
+                                  const selected = editingDay === day;
+                                  const hasOverride = day !== null && Boolean(entry?.weekdays[day]);
+                                  return (
+                                    <Pressable
+                                      key={day ?? "all"}
+                                      style={[
+                                        styles.dayChip,
+                                        { borderColor: hasOverride ? colors.accent : colors.cardBorder },
+                                        selected && { backgroundColor: colors.accent, borderColor: colors.accent }
+                                      ]}
+                                      onPress={() => setEditingDay(day)}
+                                    >
+                                      <Text
+                                        style={[
+                                          styles.chipText,
+                                          { color: selected ? "#F2F8FF" : colors.textPrimary }
+                                        ]}
+                                      >
+                                        {day === null ? t("iqamah.every_day") : dayLabels[day]}
+                                      </Text>
+                                    </Pressable>
+                                  );
+                                })}
+                              </View>
+                            </ScrollView>
+
+                            <View style={styles.chipRow}>
+                              {RULE_MODES.map((mode) => (
+                                <Pressable
+                                  key={mode}
+                                  style={chipStyle(editingMode === mode)}
+                                  onPress={() => selectMode(mode)}
+                                  disabled={saving}
+                                >
+                                  <Text
+                                    style={[
+                                      styles.chipText,
+                                      { color: editingMode === mode ? "#F2F8FF" : colors.textPrimary }
+                                    ]}
+                                    numberOfLines={1}
+                                  >
+                                    {mode === "none"
+                                      ? t(editingDay === null ? "iqamah.mode_none" : "iqamah.mode_same")
+                                      : t(`iqamah.mode_${mode}`)}
+                                  </Text>
+                                </Pressable>
+                              ))}
+                            </View>
+
+                            {editingRule ? (
+                              <View style={styles.stepperRow}>
+                                <Pressable
+                                  style={stepButtonStyle}
+                                  onPress={() => stepRule(-STEP_MINUTES)}
+                                  disabled={saving}
+                                  accessibilityLabel={t("jumuah.earlier")}
+                                >
+                                  <Ionicons name="remove" size={20} color={colors.textPrimary} />
+                                </Pressable>
+                                <View style={styles.stepperValue}>
+                                  <Text style={[styles.stepperTime, { color: colors.textPrimary }]}>
+                                    {editingRule.kind === "offset" ? `+${editingRule.minutes}` : editingRule.time}
+                                  </Text>
+                                  <Text style={[styles.switchSub, { color: colors.textSecondary }]}>
+                                    {editingRule.kind === "offset"
+                                      ? t("iqamah.offset_unit")
+                                      : t("iqamah.fixed_unit")}
+                                  </Text>
+                                </View>
+                                <Pressable
+                                  style={stepButtonStyle}
+                                  onPress={() => stepRule(STEP_MINUTES)}
+                                  disabled={saving}
+                                  accessibilityLabel={t("jumuah.later")}
+                                >
+                                  <Ionicons name="add" size={20} color={colors.textPrimary} />
+                                </Pressable>
+                              </View>
+                            ) : null}
+                          </View>
+                        ) : null}
+                      </View>
+                    );
+                  })}
+                </View>
+
+                <View
+                  style={[
+                    styles.card,
+                    styles.cardPadded,
+                    { backgroundColor: colors.card, borderColor: colors.cardBorder }
+                  ]}
+                >
+                  <Text style={[styles.cardLabel, { color: colors.textSecondary }]}>{t("iqamah.import")}</Text>
+                  <Text style={[styles.switchSub, styles.importHint, { color: colors.textSecondary }]}>
+                    {t("iqamah.import_desc")}
+                  </Text>
+                  <View style={[styles.inputField, { borderColor: colors.cardBorder }]}>
+                    <Ionicons name="link" size={18} color={colors.textSecondary} />
+                    <TextInput
+                      value={importText}
+                      onChangeText={setImportText}
+                      style={[styles.input, { color: colors.textPrimary }]}
+                      placeholder={t("iqamah.import_placeholder")}
+                      placeholderTextColor={colors.textSecondary}
+                      autoCapitalize="none"
+                      autoCorrect={false}
+                      multiline
+                    />
+                  </View>
+                  <View style={styles.buttonRow}>
+                    <Pressable
+                      style={[styles.primaryButton, (importing || !importText.trim()) && styles.disabled]}
+                      onPress={() => void runImport(() => importIqamahFromText(importText))}
+                      disabled={importing || !importText.trim()}
+                    >
+                      {importing ? (
+                        <ActivityIndicator size="small" color="#FFFFFF" />
+                      ) : (
+                        <Text style={styles.retryLabel}>{t("iqamah.import_button")}</Text>
+                      )}
+                    </Pressable>
+                    <Pressable
+                      style={[styles.secondaryButton, { borderColor: colors.cardBorder }, importing && styles.disabled]}
+                      onPress={() => void runImport(pickIqamahScheduleFile)}
+                      disabled={importing}
+                    >
+                      <Ionicons name="document-outline" size={16} color={colors.accent} />
+                      <Text style={[styles.secondaryLabel, { color: colors.accent }]}>{t("iqamah.choose_file")}</Text>
+                    </Pressable>
+                  </View>
+                  {schedule?.sourceUrl ? (
+                    <Pressable
+                      style={styles.linkRow}
+                      onPress={() => void runImport(() => fetchIqamahSchedule(schedule.sourceUrl ?? ""))}
+                      disabled={importing}
+                    >
+                      <Ionicons name="refresh" size={16} color={colors.accent} />
+                      <Text style={[styles.linkText, { color: colors.accent }]} numberOfLines={1}>
+                        {t("iqamah.refresh_from", { url: schedule.sourceUrl })}
+                      </Text>
+                    </Pressable>
+                  ) : null}
+                  {notice ? (
+                    <View style={styles.noticeRow}>
+                      <StatusChip label={notice.label} tone={notice.tone} />
+                    </View>
+                  ) : null}
+                </View>
+
+                {hasIqamahRules(schedule) ? (
+                  <View style={[styles.card, { backgroundColor: colors.card, borderColor: colors.cardBorder }]}>
+                    <Pressable style={styles.actionRow} onPress={() => void shareFile()}>
+                      <Text style={[styles.linkText, { color: colors.accent }]}>{t("iqamah.share_file")}</Text>
+                      <Ionicons name="share-outline" size={18} color={colors.textSecondary} />
+                    </Pressable>
+                    <Pressable
+                      style={[styles.actionRow, styles.rowDivider, { borderTopColor: colors.cardBorder }]}
+                      onPress={() => void shareLink()}
+                    >
+                      <Text style={[styles.linkText, { color: colors.accent }]}>{t("iqamah.share_link")}</Text>
+                      <Ionicons name="qr-code-outline" size={18} color={colors.textSecondary} />
+                    </Pressable>
+                    <Pressable
+                      style={[styles.actionRow, styles.rowDivider, { borderTopColor: colors.cardBorder }]}
+                      onPress={clearSchedule}
+                      disabled={saving}
+                    >
+                      <Text style={[styles.linkText, styles.destructiveText]}>{t("iqamah.clear")}</Text>
+                      <Ionicons name="trash-outline" size={18} color="#D66B6B" />
+                    </Pressable>
+                  </View>
+                ) : null}
+              </>
+            )}
+          </ScrollView>
+        ) : null}
+      </View>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  safeArea: {
+    flex: 1
+  },
+  container: {
+    flex: 1,
+    width: "100%",
+    maxWidth: 860,
+    alignSelf: "center",
+    paddingHorizontal: 20,
+    paddingTop: 10
+  },
+  headerRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between"
+  },
+  circleButton: {
+    width: 48,
+    height: 48,
+    borderRadius: 24,
+    alignItems: "center",
+    justifyContent: "center",
+    backgroundColor: "rgba(22,44,68,0.9)",
+    borderWidth: 1,
+    borderColor: "rgba(77,117,153,0.35)"
+  },
+  circleButtonLight: {
+    backgroundColor: "#EAF2FC",
+    borderColor: "#BFD4EA"
+  },
+  headerTitle: {
+    fontSize: 22,
+    fontWeight: "800"
+  },
+  headerSpacer: {
+    width: 48
+  },
+  metaRow: {
+    marginTop: 12,
+    marginBottom: 12,
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+    gap: 10
+  },
+  metaText: {
+    flex: 1,
+    fontSize: 14,
+    fontWeight: "600"
+  },
+  listContent: {
+    paddingBottom: 40
+  },
+  card: {
+    borderRadius: 18,
+    borderWidth: 1,
+    paddingHorizontal: 14,
+    marginBottom: 16,
+    overflow: "hidden"
+  },
+  cardPadded: {
+    paddingTop: 12
+  },
+  cardLabel: {
+    fontSize: 12,
+    fontWeight: "700",
+    letterSpacing: 0.8,
+    marginBottom: 8
+  },
+  switchRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+    gap: 12,
+    paddingVertical: 12
+  },
+  rowDivider: {
+    borderTopWidth: 1
+  },
+  switchTextBlock: {
+    flex: 1
+  },
+  switchTitle: {
+    fontSize: 15,
+    fontWeight: "700"
+  },
+  switchSub: {
+    marginTop: 2,
+    fontSize: 12,
+    fontWeight: "500"
+  },
+  emptyMosque: {
+    alignItems: "flex-start",
+    gap: 10,
+    marginBottom: 16
+  },
+  prayerBlock: {
+    borderTopWidth: 1
+  },
+  prayerRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 12,
+    paddingVertical: 12
+  },
+  prayerTimes: {
+    alignItems: "flex-end"
+  },
+  iqamahTime: {
+    fontSize: 16,
+    fontWeight: "800",
+    fontVariant: ["tabular-nums"]
+  },
+  editor: {
+    paddingBottom: 12
+  },
+  dayRow: {
+    flexDirection: "row",
+    gap: 6,
+    marginBottom: 10
+  },
+  dayChip: {
+    minHeight: 34,
+    borderRadius: 10,
+    borderWidth: 1,
+    alignItems: "center",
+    justifyContent: "center",
+    paddingHorizontal: 10
+  },
+  chipRow: {
+    flexDirection: "row",
+    gap: 8,
+    marginBottom: 12
+  },
+  chip: {
+    flex: 1,
+    minHeight: 38,
+    borderRadius: 10,
+    borderWidth: 1,
+    alignItems: "center",
+    justifyContent: "center",
+    paddingHorizontal: 6
+  },
+  chipText: {
+    fontSize: 13,
+    fontWeight: "700"
+  },
+  disabled: {
+    opacity: 0.5
+  },
+  stepperRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between"
+  },
+  stepButton: {
+    width: 44,
+    height: 44,
+    borderRadius: 12,
+    borderWidth: 1,
+    alignItems: "center",
+    justifyContent: "center"
+  },
+  stepperValue: {
+    alignItems: "center"
+  },
+  stepperTime: {
+    fontSize: 28,
+    fontWeight: "800",
+    fontVariant: ["tabular-nums"]
+  },
+  importHint: {
+    marginTop: 0,
+    marginBottom: 10
+  },
+  inputField: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 8,
+    borderWidth: 1,
+    borderRadius: 12,
+    paddingHorizontal: 12,
+    minHeight: 44,
+    marginBottom: 12
+  },
+  input: {
+    flex: 1,
+    fontSize: 15,
+    maxHeight: 120
+  },
+  buttonRow: {
+    flexDirection: "row",
+    gap: 10,
+    marginBottom: 12
+  },
+  primaryButton: {
+    flex: 1,
+    minHeight: 40,
+    borderRadius: 10,
+    backgroundColor: "#2B8CEE",
+    alignItems: "center",
+    justifyContent: "center"
+  },
+  secondaryButton: {
+    flex: 1,
+    minHeight: 40,
+    borderRadius: 10,
+    borderWidth: 1,
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "center",
+    gap: 6
+  },
+  secondaryLabel: {
+    fontSize: 13,
+    fontWeight: "700"
+  },
+  linkRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 8,
+    marginBottom: 12
+  },
+  linkText: {
+    flex: 1,
+    fontSize: 14,
+    fontWeight: "700"
+  },
+  destructiveText: {
+    color: "#D66B6B"
+  },
+  noticeRow: {
+    alignItems: "flex-start",
+    marginBottom: 12
+  },
+  actionRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+    paddingVertical: 12
+  },
+  loadingWrap: {
+    paddingVertical: 32,
+    alignItems: "center",
+    gap: 10
+  },
+  loadingText: {
+    fontSize: 14,
+    fontWeight: "600",
+    textAlign: "center"
+  },
+  retryBtn: {
+    borderRadius: 10,
+    backgroundColor: "#2B8CEE",
+    paddingHorizontal: 16,
+    paddingVertical: 8
+  },
+  retryLabel: {
+    color: "#FFFFFF",
+    fontSize: 13,
+    fontWeight: "700"
+  }
+});
@@ -0,0 +1,576 @@
+import { Ionicons } from "@expo/vector-icons";
+import { useFocusEffect } from "@react-navigation/native";
+import { useRouter } from "expo-router";
+import { useCallback, useMemo, useRef, useState } from "react";
+import { EaseView } from "react-native-ease";
+import { ActivityIndicator, Pressable, ScrollView, StyleSheet, Switch, Text, View } from "react-native";
+import { SafeAreaView } from "react-native-safe-area-context";
+import {
+  easeEnterTransition,
+  easeInitialFade,
+  easeInitialLift,
+  easeStateTransition,
+  easeVisibleFade,
+  easeVisibleLift
+} from "@/animation/ease";
+import { useMotionTransition } from "@/animation/useReducedMotion";
+import { AppBackground } from "@/components/AppBackground";
+import { StatusChip } from "@/components/StatusChip";
+import { useI18n } from "@/i18n/I18nProvider";
+import {
+  canReachJumuahMosque,
+  getJumuahPlan,
+  getKhutbahTime,
+  getNextFriday,
+  KAHF_SURAH_ID
+} from "@/services/jumuah";
+import { resolveLocationPreferCache } from "@/services/location";
+import { replanAll } from "@/services/notifications";
+import { getDefaultMosque, getMosquesSettings, getSettings, saveSettings } from "@/services/storage";
+import { getRangeTimings } from "@/services/timingsCache";
+import { DefaultMosque, TravelMode } from "@/types/mosque";
+import { JumuahSettings, Settings, Timings } from "@/types/prayer";
+import { useAppTheme } from "@/theme/ThemeProvider";
+import { shiftTimeHHmm } from "@/utils/time";
+
+type LoadState = "idle" | "loading" | "ready" | "error";
+
+const LEAVE_BUFFER_OPTIONS: JumuahSettings["leaveBufferMinutes"][] = [0, 5, 10, 15, 30];
+const KAHF_TIME_OPTIONS: JumuahSettings["kahfReminderTime"][] = ["08:00", "09:00", "10:00", "11:00"];
+const KHUTBAH_STEP_MINUTES = 5;
+
+export default function JumuahScreen() {
+  const router = useRouter();
+  const { t, localeTag } = useI18n();
+  const { colors, resolvedTheme } = useAppTheme();
+  const isLight = resolvedTheme === "light";
+  const enterTransition = useMotionTransition(easeEnterTransition);
+  const stateTransition = useMotionTransition(easeStateTransition);
+
+  const [settings, setSettings] = useState<Settings | null>(null);
+  const [mosque, setMosque] = useState<DefaultMosque | null>(null);
+  const [travelMode, setTravelMode] = useState<TravelMode>("walk");
+  const [origin, setOrigin] = useState<{ lat: number; lon: number } | null>(null);
+  const [fridayTimings, setFridayTimings] = useState<Timings | null>(null);
+  const [loadState, setLoadState] = useState<LoadState>("idle");
+  const [saving, setSaving] = useState(false);
+  const loadRequestRef = useRef(0);
+
+  const nextFriday = useMemo(() => getNextFriday(new Date()), []);
+
+  const load = useCallback(async () => {
+    const requestId = ++loadRequestRef.current;
+    setLoadState("loading");
+    try {
+      const [saved, savedMosque, mosquesSettings] = await Promise.all([
+        getSettings(),
+        getDefaultMosque(),
+        getMosquesSettings()
+      ]);
+      if (requestId !== loadRequestRef.current) {
+        return;
+      }
+      setSettings(saved);
+      setMosque(savedMosque);
+      setTravelMode(mosquesSettings.travelMode);
+
+      const location = await resolveLocationPreferCache(saved);
+      const rows = await getRangeTimings({
+        start: nextFriday,
+        days: 1,
+        location: { lat: location.lat, lon: location.lon },
+        locationLabel: location.label,
+        settings: saved
+      });
+      if (requestId !== loadRequestRef.current) {
+        return;
+      }
+      setOrigin({ lat: location.lat, lon: location.lon });
+      setFridayTimings(rows[0]?.timings ?? null);
+      setLoadState("ready");
+    } catch {
+      if (requestId === loadRequestRef.current) {
+        setLoadState("error");
+      }
+    }
+  }, [nextFriday]);
+
+  useFocusEffect(
+    useCallback(() => {
+      void load();
+    }, [load])
+  );
+
+  const updateJumuah = useCallback(
+    async (patch: Partial<JumuahSettings>) => {
+      if (!settings) {
+        return;
+      }
+      const updated: Settings = { ...settings, jumuah: { ...settings.jumuah, ...patch } };
+      setSettings(updated);
+      setSaving(true);
+      try {
+        await saveSettings(updated);
+        const location = await resolveLocationPreferCache(updated);
+        await replanAll({
+          lat: location.lat,
+          lon: location.lon,
+          methodId: updated.methodId,
+          settings: updated
+        });
+      } catch {
+        // The preference is saved; notifications catch up on the next replan.
+      } finally {
+        setSaving(false);
+      }
+    },
+    [settings]
+  );
+
+  const khutbahTime = settings ? getKhutbahTime(settings.jumuah, mosque) : null;
+
+  const shiftKhutbah = useCallback(
+    (minutes: number) => {
+      if (!settings || !mosque) {
+        return;
+      }
+      const base = khutbahTime ?? fridayTimings?.times.Dhuhr ?? "13:00";
+      void updateJumuah({
+        khutbahTimes: { ...settings.jumuah.khutbahTimes, [mosque.id]: shiftTimeHHmm(base, minutes) }
+      });
+    },
+    [fridayTimings, khutbahTime, mosque, settings, updateJumuah]
+  );
+
+  const resetKhutbah = useCallback(() => {
+    if (!settings || !mosque) {
+      return;
+    }
+    const { [mosque.id]: _removed, ...rest } = settings.jumuah.khutbahTimes;
+    void updateJumuah({ khutbahTimes: rest });
+  }, [mosque, settings, updateJumuah]);
+
+  const awayFromMosque = Boolean(settings && mosque && !canReachJumuahMosque(settings, mosque, origin));
+  const plan = useMemo(() => {
+    if (!settings || !mosque || !fridayTimings || awayFromMosque) {
+      return null;
+    }
+    return getJumuahPlan({
+      date: nextFriday,
+      timings: fridayTimings,
+      jumuah: settings.jumuah,
+      mosque,
+      travelMode,
+      origin
+    });
+  }, [awayFromMosque, fridayTimings, mosque, nextFriday, origin, settings, travelMode]);
+
+  const formatClock = useCallback(
+    (date: Date) => date.toLocaleTimeString(localeTag, { hour: "2-digit", minute: "2-digit", hour12: false }),
+    [localeTag]
+  );
+
+  const chipStyle = (selected: boolean) => [
+    styles.chip,
+    { borderColor: colors.cardBorder },
+    selected && { backgroundColor: colors.accent, borderColor: colors.accent },
+    saving && styles.chipDisabled
+  ];
+  const stepButtonStyle = [
+    styles.stepButton,
+    { borderColor: colors.cardBorder },
+    (saving || !mosque) && styles.chipDisabled
+  ];
+
+  return (
+    <SafeAreaView style={[styles.safeArea, { backgroundColor: colors.background }]}>
+      <View style={styles.container}>
+        <AppBackground />
+
+        <EaseView initialAnimate={easeInitialLift} animate={easeVisibleLift} transition={enterTransition}>
+          <View style={styles.headerRow}>
+            <Pressable
+              onPress={() => router.back()}
+              hitSlop={8}
+              style={[styles.circleButton, isLight ? styles.circleButtonLight : null]}
+            >
+              <Ionicons name="arrow-back" size={24} color={colors.textPrimary} />
+            </Pressable>
+            <Text style={[styles.headerTitle, { color: colors.textPrimary }]}>{t("jumuah.title")}</Text>
+            <View style={styles.headerSpacer} />
+          </View>
+        </EaseView>
+
+        {loadState === "loading" && !settings ? (
+          <View style={styles.loadingWrap}>
+            <ActivityIndicator color="#2B8CEE" size="small" />
+            <Text style={[styles.loadingText, { color: colors.textSecondary }]}>{t("jumuah.loading")}</Text>
+          </View>
+        ) : loadState === "error" && !settings ? (
+          <View style={styles.loadingWrap}>
+            <Text style={[styles.loadingText, { color: colors.textSecondary }]}>{t("jumuah.error")}</Text>
+            <Pressable style={styles.retryBtn} onPress={() => void load()}>
+              <Text style={styles.retryLabel}>{t("common.retry")}</Text>
+            </Pressable>
+          </View>
+        ) : settings ? (
+          <ScrollView contentContainerStyle={styles.listContent} showsVerticalScrollIndicator={false}>
+            <EaseView initialAnimate={easeInitialFade} animate={easeVisibleFade} transition={stateTransition}>
+              <View style={styles.metaRow}>
+                <Text style={[styles.metaText, { color: colors.textSecondary }]} numberOfLines={2}>
+                  {plan
+                    ? t("jumuah.next_plan", {
+                        date: nextFriday.toLocaleDateString(localeTag, {
+                          weekday: "long",
+                          day: "numeric",
+                          month: "short"
+                        }),
+                        leave: formatClock(plan.leaveAt),
+                        khutbah: plan.khutbahTime
+                      })
+                    : t(awayFromMosque ? "jumuah.next_plan_away" : "jumuah.next_plan_unavailable")}
+                </Text>
+                <StatusChip
+                  label={settings.jumuah.enabled ? t("jumuah.status_on") : t("jumuah.status_off")}
+                  tone={settings.jumuah.enabled ? "success" : "info"}
+                />
+              </View>
+            </EaseView>
+
+            <View style={[styles.card, { backgroundColor: colors.card, borderColor: colors.cardBorder }]}>
+              <View style={styles.switchRow}>
+                <View style={styles.switchTextBlock}>
+                  <Text style={[styles.switchTitle, { color: colors.textPrimary }]}>{t("jumuah.enabled")}</Text>
+                  <Text style={[styles.switchSub, { color: colors.textSecondary }]}>{t("jumuah.enabled_desc")}</Text>
+                </View>
+                <Switch
+                  value={settings.jumuah.enabled}
+                  onValueChange={(value) => void updateJumuah({ enabled: value })}
+                  disabled={saving}
+                />
+              </View>
+            </View>
+
+            <View
+              style={[styles.card, styles.cardPadded, { backgroundColor: colors.card, borderColor: colors.cardBorder }]}
+            >
+              <Text style={[styles.cardLabel, { color: colors.textSecondary }]}>{t("jumuah.mosque")}</Text>
+              {mosque ? (
+                <View style={styles.mosqueRow}>
+                  <View style={styles.mosqueIconWrap}>
+                    <Ionicons name="business" size={18} color="#F2F8FF" />
+                  </View>
+                  <View style={styles.switchTextBlock}>
+                    <Text style={[styles.switchTitle, { color: colors.textPrimary }]} numberOfLines={1}>
+                      {mosque.name}
+                    </Text>
+                    <Text style={[styles.switchSub, { color: colors.textSecondary }]}>
+                      {plan
+                        ? t(travelMode === "walk" ? "jumuah.travel_walk" : "jumuah.travel_drive", {
+                            mins: plan.travelMinutes
+                          })
+                        : t(awayFromMosque ? "jumuah.travel_away" : "jumuah.travel_unknown")}
+                    </Text>
+                  </View>
+                  <Pressable onPress={() => router.push("/mosques" as never)} hitSlop={8}>
+                    <Text style={[styles.linkText, { color: colors.accent }]}>{t("jumuah.change_mosque")}</Text>
+                  </Pressable>
+                </View>
+              ) : (
+                <View style={styles.emptyMosque}>
+                  <Text style={[styles.switchSub, { color: colors.textSecondary }]}>{t("jumuah.no_mosque")}</Text>
+                  <Pressable style={styles.retryBtn} onPress={() => router.push("/mosques" as never)}>
+                    <Text style={styles.retryLabel}>{t("jumuah.choose_mosque")}</Text>
+                  </Pressable>
+                </View>
+              )}
+
+              <Text style={[styles.cardLabel, { color: colors.textSecondary }]}>{t("jumuah.khutbah_time")}</Text>
+              <View style={styles.stepperRow}>
+                <Pressable
+                  style={stepButtonStyle}
+                  onPress={() => shiftKhutbah(-KHUTBAH_STEP_MINUTES)}
+                  disabled={saving || !mosque}
+                  accessibilityLabel={t("jumuah.earlier")}
+                >
+                  <Ionicons name="remove" size={20} color={colors.textPrimary} />
+                </Pressable>
+                <View style={styles.stepperValue}>
+                  <Text style={[styles.khutbahTime, { color: colors.textPrimary }]}>
+                    {khutbahTime ?? fridayTimings?.times.Dhuhr ?? "--:--"}
+                  </Text>
+                  <Text style={[styles.switchSub, { color: colors.textSecondary }]}>
+                    {khutbahTime ? t("jumuah.khutbah_custom") : t("jumuah.khutbah_dhuhr")}
+                  </Text>
+                </View>
+                <Pressable
+                  style={stepButtonStyle}
+                  onPress={() => shiftKhutbah(KHUTBAH_STEP_MINUTES)}
+                  disabled={saving || !mosque}
+                  accessibilityLabel={t("jumuah.later")}
+                >
+                  <Ionicons name="add" size={20} color={colors.textPrimary} />
+                </Pressable>
+              </View>
+              {khutbahTime ? (
+                <Pressable onPress={resetKhutbah} disabled={saving} hitSlop={8} style={styles.resetLink}>
+                  <Text style={[styles.linkText, { color: colors.accent }]}>{t("jumuah.use_dhuhr")}</Text>
+                </Pressable>
+              ) : null}
+
+              <Text style={[styles.cardLabel, { color: colors.textSecondary }]}>{t("jumuah.leave_buffer")}</Text>
+              <View style={styles.chipRow}>
+                {LEAVE_BUFFER_OPTIONS.map((option) => {
+                  const selected = settings.jumuah.leaveBufferMinutes === option;
+                  return (
+                    <Pressable
+                      key={option}
+                      style={chipStyle(selected)}
+                      onPress={() => void updateJumuah({ leaveBufferMinutes: option })}
+                      disabled={saving}
+                    >
+                      <Text style={[styles.chipText, { color: selected ? "#F2F8FF" : colors.textPrimary }]}>
+                        {t("ramadan.minutes", { mins: option })}
+                      </Text>
+                    </Pressable>
+                  );
+                })}
+              </View>
+            </View>
+
+            <View style={[styles.card, { backgroundColor: colors.card, borderColor: colors.cardBorder }]}>
+              <View style={styles.switchRow}>
+                <View style={styles.switchTextBlock}>
+                  <Text style={[styles.switchTitle, { color: colors.textPrimary }]}>{t("jumuah.kahf_reminder")}</Text>
+                  <Text style={[styles.switchSub, { color: colors.textSecondary }]}>
+                    {t("jumuah.kahf_reminder_desc")}
+                  </Text>
+                </View>
+                <Switch
+                  value={settings.jumuah.kahfReminder}
+                  onValueChange={(value) => void updateJumuah({ kahfReminder: value })}
+                  disabled={saving}
+                />
+              </View>
+              {settings.jumuah.kahfReminder ? (
+                <View style={styles.chipRow}>
+                  {KAHF_TIME_OPTIONS.map((option) => {
+                    const selected = settings.jumuah.kahfReminderTime === option;
+                    return (
+                      <Pressable
+                        key={option}
+                        style={chipStyle(selected)}
+                        onPress={() => void updateJumuah({ kahfReminderTime: option })}
+                        disabled={saving}
+                      >
+                        <Text style={[styles.chipText, { color: selected ? "#F2F8FF" : colors.textPrimary }]}>
+                          {option}
+                        </Text>
+                      </Pressable>
+                    );
+                  })}
+                </View>
+              ) : null}
+              <Pressable
+                style={[styles.readRow, { borderTopColor: colors.cardBorder }]}
+                onPress={() => router.push(`/quran/${KAHF_SURAH_ID}` as never)}
+              >
+                <Text style={[styles.linkText, { color: colors.accent }]}>{t("jumuah.read_kahf")}</Text>
+                <Ionicons name="chevron-forward" size={18} color={colors.textSecondary} />
+              </Pressable>
+            </View>
+          </ScrollView>
+        ) : null}
+      </View>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  safeArea: {
+    flex: 1
+  },
+  container: {
+    flex: 1,
+    width: "100%",
+    maxWidth: 860,
+    alignSelf: "center",
+    paddingHorizontal: 20,
+    paddingTop: 10
+  },
+  headerRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between"
+  },
+  circleButton: {
+    width: 48,
+    height: 48,
+    borderRadius: 24,
+    alignItems: "center",
+    justifyContent: "center",
+    backgroundColor: "rgba(22,44,68,0.9)",
+    borderWidth: 1,
+    borderColor: "rgba(77,117,153,0.35)"
+  },
+  circleButtonLight: {
+    backgroundColor: "#EAF2FC",
+    borderColor: "#BFD4EA"
+  },
+  headerTitle: {
+    fontSize: 22,
+    fontWeight: "800"
+  },
+  headerSpacer: {
+    width: 48
+  },
+  metaRow: {
+    marginTop: 12,
+    marginBottom: 12,
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+    gap: 10
+  },
+  metaText: {
+    flex: 1,
+    fontSize: 14,
+    fontWeight: "600"
+  },
+  listContent: {
+    paddingBottom: 40
+  },
+  card: {
+    borderRadius: 18,
+    borderWidth: 1,
+    paddingHorizontal: 14,
+    marginBottom: 16,
+    overflow: "hidden"
+  },
+  cardPadded: {
+    paddingTop: 12
+  },
+  cardLabel: {
+    fontSize: 12,
+    fontWeight: "700",
+    letterSpacing: 0.8,
+    marginBottom: 8
+  },
+  chipRow: {
+    flexDirection: "row",
+    gap: 8,
+    marginBottom: 14
+  },
+  chip: {
+    flex: 1,
+    minHeight: 38,
+    borderRadius: 10,
+    borderWidth: 1,
+    alignItems: "center",
+    justifyContent: "center",
+    paddingHorizontal: 6
+  },
+  chipDisabled: {
+    opacity: 0.5
+  },
+  chipText: {
+    fontSize: 13,
+    fontWeight: "700"
+  },
+  switchRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+    gap: 12,
+    paddingVertical: 12
+  },
+  switchTextBlock: {
+    flex: 1
+  },
+  switchTitle: {
+    fontSize: 15,
+    fontWeight: "700"
+  },
+  switchSub: {
+    marginTop: 2,
+    fontSize: 12,
+    fontWeight: "500"
+  },
+  mosqueRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 12,
+    marginBottom: 16
+  },
+  mosqueIconWrap: {
+    width: 36,
+    height: 36,
+    borderRadius: 10,
+    backgroundColor: "#2B8CEE",
+    alignItems: "center",
+    justifyContent: "center"
+  },
+  emptyMosque: {
+    alignItems: "flex-start",
+    gap: 10,
+    marginBottom: 16
+  },
+  linkText: {
+    fontSize: 14,
+    fontWeight: "700"
+  },
+  stepperRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+    marginBottom: 8
+  },
+  stepButton: {
+    width: 44,
+    height: 44,
+    borderRadius: 12,
+    borderWidth: 1,
+    alignItems: "center",
+    justifyContent: "center"
+  },
+  stepperValue: {
+    alignItems: "center"
+  },
+  khutbahTime: {
+    fontSize: 28,
+    fontWeight: "800",
+    fontVariant: ["tabular-nums"]
+  },
+  resetLink: {
+    alignSelf: "center",
+    marginBottom: 12
+  },
+  readRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+    paddingVertical: 12,
+    borderTopWidth: 1
+  },
+  loadingWrap: {
+    paddingVertical: 32,
+    alignItems: "center",
+    gap: 10
+  },
+  loadingText: {
+    fontSize: 14,
+    fontWeight: "600",
+    textAlign: "center"
+  },
+  retryBtn: {
+    borderRadius: 10,
+    backgroundColor: "#2B8CEE",
+    paddingHorizontal: 16,
+    paddingVertical: 8
+  },
+  retryLabel: {
+    color: "#FFFFFF",
+    fontSize: 13,
+    fontWeight: "700"
+  }
+});
@@ -0,0 +1,477 @@
+import { Ionicons } from "@expo/vector-icons";
+import { useFocusEffect } from "@react-navigation/native";
+import { useRouter } from "expo-router";
+import { useCallback, useEffect, useState } from "react";
+import { EaseView } from "react-native-ease";
+import { ActivityIndicator, Alert, Pressable, ScrollView, StyleSheet, Text, TextInput, View } from "react-native";
+import { SafeAreaView } from "react-native-safe-area-context";
+import {
+  easeEnterTransition,
+  easeInitialFade,
+  easeInitialLift,
+  easeStateTransition,
+  easeVisibleFade,
+  easeVisibleLift
+} from "@/animation/ease";
+import { useMotionTransition } from "@/animation/useReducedMotion";
+import { AppBackground } from "@/components/AppBackground";
+import { StatusChip } from "@/components/StatusChip";
+import { useI18n } from "@/i18n/I18nProvider";
+import { CitySuggestion, searchCitySuggestions } from "@/services/location";
+import {
+  createSavedLocation,
+  MAX_SAVED_LOCATIONS,
+  restoreBaseTimings,
+  warmSavedLocation
+} from "@/services/savedLocations";
+import { getLatestCachedLocation, getSettings, saveSettings } from "@/services/storage";
+import { CachedLocation, SavedLocation, Settings } from "@/types/prayer";
+import { useAppTheme } from "@/theme/ThemeProvider";
+
+export default function SavedLocationsScreen() {
+  const router = useRouter();
+  const { t, localeTag } = useI18n();
+  const { colors, resolvedTheme } = useAppTheme();
+  const isLight = resolvedTheme === "light";
+  const enterTransition = useMotionTransition(easeEnterTransition);
+  const stateTransition = useMotionTransition(easeStateTransition);
+
+  const [settings, setSettings] = useState<Settings | null>(null);
+  const [current, setCurrent] = useState<CachedLocation | null>(null);
+  const [query, setQuery] = useState("");
+  const [suggestions, setSuggestions] = useState<CitySuggestion[]>([]);
+  const [searching, setSearching] = useState(false);
+
+  const load = useCallback(async () => {
+    const [saved, cachedLocation] = await Promise.all([getSettings(), getLatestCachedLocation()]);
+    setSettings(saved);
+    setCurrent(cachedLocation);
+  }, []);
+
+  useFocusEffect(
+    useCallback(() => {
+      void load();
+    }, [load])
+  );
+
+  useEffect(() => {
+    const trimmed = query.trim();
+    if (trimmed.length < 2) {
+      setSuggestions([]);
+      setSearching(false);
+      return;
+    }
+    setSearching(true);
+    let active = true;
+    const timer = setTimeout(() => {
+      void (async () => {
+        const rows = await searchCitySuggestions(trimmed, localeTag);
+        if (active) {
+          setSuggestions(rows);
+          setSearching(false);
+        }
+      })();
+    }, 220);
+    return () => {
+      active = false;
+      clearTimeout(timer);
+    };
+  }, [localeTag, query]);
+
+  const update = useCallback(async (updated: Settings) => {
+    setSettings(updated);
+    await saveSettings(updated);
+  }, []);
+
+  const addLocation = useCallback(
+    async (location: SavedLocation) => {
+      if (!settings) {
+        return;
+      }
+      if (settings.savedLocations.length >= MAX_SAVED_LOCATIONS) {
+        Alert.alert(t("locations.title"), t("locations.limit", { max: MAX_SAVED_LOCATIONS }));
+        return;
+      }
+      const updated = { ...settings, savedLocations: [...settings.savedLocations, location] };
+      setQuery("");
+      setSuggestions([]);
+      await update(updated);
+      void warmSavedLocation(updated, location, new Date());
+    },
+    [settings, t, update]
+  );
+
+  const addCurrent = useCallback(() => {
+    if (current) {
+      const place = { query: current.label, label: current.label, lat: current.lat, lon: current.lon };
+      void addLocation(createSavedLocation(place, Intl.DateTimeFormat().resolvedOptions().timeZone));
+    }
+  }, [addLocation, current]);
+
+  const addSuggestion = useCallback(
+    (suggestion: CitySuggestion) => {
+      void addLocation(createSavedLocation(suggestion, suggestion.timeZone ?? null));
+    },
+    [addLocation]
+  );
+
+  const updateLocation = useCallback(
+    (id: string, patch: Partial<SavedLocation>) => {
+      if (settings) {
+        void update({
+          ...settings,
+          savedLocations: settings.savedLocations.map((item) => (item.id === id ? { ...item, ...patch } : item))
+        });
+      }
+    },
+    [settings, update]
+  );
+
+  const toggleMethod = useCallback(
+    (location: SavedLocation) => {
+      if (!settings) {
+        return;
+      }
+      const timings = location.timings
+        ? null
+        : { provider: settings.timingsProvider, methodId: settings.methodId, methodName: settings.methodName };
+      const updated: Settings = {
+        ...settings,
+        savedLocations: settings.savedLocations.map((item) => (item.id === location.id ? { ...item, timings } : item))
+      };
+      // Unpinning the selected location hands it back to the app-wide provider right away.
+      void update(location.id === settings.activeLocationId && !timings ? restoreBaseTimings(updated) : updated);
+    },
+    [settings, update]
+  );
+
+  const toggleWatch = useCallback(
+    (location: SavedLocation) => {
+      if (settings) {
+        void update({ ...settings, watchLocationId: settings.watchLocationId === location.id ? null : location.id });
+      }
+    },
+    [settings, update]
+  );
+
+  const removeLocation = useCallback(
+    (location: SavedLocation) => {
+      Alert.alert(t("locations.remove_title"), t("locations.remove_body", { name: location.label }), [
+        { text: t("qaza.cancel"), style: "cancel" },
+        {
+          text: t("locations.remove"),
+          style: "destructive",
+          onPress: () => {
+            if (!settings) {
+              return;
+            }
+            const base = settings.activeLocationId === location.id ? restoreBaseTimings(settings) : settings;
+            void update({
+              ...base,
+              savedLocations: settings.savedLocations.filter((item) => item.id !== location.id),
+              activeLocationId: settings.activeLocationId === location.id ? null : settings.activeLocationId,
+              watchLocationId: settings.watchLocationId === location.id ? null : settings.watchLocationId
+            });
+          }
+        }
+      ]);
+    },
+    [settings, t, update]
+  );
+
+  const full = (settings?.savedLocations.length ?? 0) >= MAX_SAVED_LOCATIONS;
+  const currentSaved =
+    !!current &&
+    !!settings?.savedLocations.some(
+      (item) => item.lat.toFixed(3) === current.lat.toFixed(3) && item.lon.toFixed(3) === current.lon.toFixed(3)
+    );
+
+  return (
+    <SafeAreaView style={[styles.safeArea, { backgroundColor: colors.background }]}>
+      <View style={styles.container}>
+        <AppBackground />
+
+        <EaseView initialAnimate={easeInitialLift} animate={easeVisibleLift} transition={enterTransition}>
+          <View style={styles.headerRow}>
+            <Pressable
+              onPress={() => router.back()}
+              hitSlop={8}
+              style={[styles.circleButton, isLight ? styles.circleButtonLight : null]}
+            >
+              <Ionicons name="arrow-back" size={24} color={colors.textPrimary} />
+            </Pressable>
+            <Text style={[styles.headerTitle, { color: colors.textPrimary }]}>{t("locations.title")}</Text>
+            <View style={styles.headerSpacer} />
+          </View>
+        </EaseView>
+
+        {!settings ? (
+          <View style={styles.loadingWrap}>
+            <ActivityIndicator color="#2B8CEE" size="small" />
+          </View>
+        ) : (
+          <ScrollView
+            contentContainerStyle={styles.listContent}
+            showsVerticalScrollIndicator={false}
+            keyboardShouldPersistTaps="handled"
+          >
+            <EaseView initialAnimate={easeInitialFade} animate={easeVisibleFade} transition={stateTransition}>
+              <View style={styles.metaRow}>
+                <Text style={[styles.metaText, { color: colors.textSecondary }]} numberOfLines={2}>
+                  {t("locations.subtitle")}
+                </Text>
+                <StatusChip
+                  label={t("locations.count", { count: settings.savedLocations.length, max: MAX_SAVED_LOCATIONS })}
+                  tone={full ? "warning" : "info"}
+                />
+              </View>
+            </EaseView>
+
+            <View style={[styles.card, { backgroundColor: colors.card, borderColor: colors.cardBorder }]}>
+              {settings.savedLocations.length === 0 ? (
+                <Text style={[styles.emptyText, { color: colors.textSecondary }]}>{t("locations.empty")}</Text>
+              ) : (
+                settings.savedLocations.map((location, index) => {
+                  const watched = settings.watchLocationId === location.id;
+                  return (
+                    <View
+                      key={location.id}
+                      style={[
+                        styles.locationRow,
+                        index > 0 && { borderTopWidth: 1, borderTopColor: colors.cardBorder }
+                      ]}
+                    >
+                      <View style={styles.locationText}>
+                        <Text style={[styles.switchTitle, { color: colors.textPrimary }]} numberOfLines={1}>
+                          {location.label}
+                        </Text>
+                        <Pressable onPress={() => toggleMethod(location)} hitSlop={6}>
+                          <Text style={[styles.switchSub, { color: colors.accent }]} numberOfLines={1}>
+                            {location.timings
+                              ? t("locations.method_own", { method: location.timings.methodName })
+                              : t("locations.method_default")}
+                          </Text>
+                        </Pressable>
+                      </View>
+                      <Pressable
+                        onPress={() => toggleWatch(location)}
+                        hitSlop={8}
+                        accessibilityLabel={t("locations.watch")}
+                        accessibilityState={{ selected: watched }}
+                      >
+                        <Ionicons
+                          name={watched ? "eye" : "eye-outline"}
+                          size={20}
+                          color={watched ? colors.accent : colors.textSecondary}
+                        />
+                      </Pressable>
+                      <Pressable
+                        onPress={() => removeLocation(location)}
+                        hitSlop={8}
+                        accessibilityLabel={t("locations.remove")}
+                      >
+                        <Ionicons name="trash-outline" size={20} color={colors.textSecondary} />
+                      </Pressable>
+                    </View>
+                  );
+                })
+              )}
+            </View>
+            <Text style={[styles.hint, { color: colors.textSecondary }]}>{t("locations.hint")}</Text>
+
+            <View
+              style={[styles.card, styles.cardPadded, { backgroundColor: colors.card, borderColor: colors.cardBorder }]}
+            >
+              <Text style={[styles.cardLabel, { color: colors.textSecondary }]}>{t("locations.add")}</Text>
+              {current && !currentSaved ? (
+                <Pressable
+                  style={[styles.addRow, full && styles.disabled]}
+                  onPress={addCurrent}
+                  disabled={full}
+                >
+                  <Ionicons name="navigate" size={18} color={colors.accent} />
+                  <Text style={[styles.linkText, { color: colors.accent }]} numberOfLines={1}>
+                    {t("locations.add_current", { name: current.label })}
+                  </Text>
+                </Pressable>
+              ) : null}
+              <View style={[styles.searchField, { borderColor: colors.cardBorder }]}>
+                <Ionicons name="search" size={18} color={colors.textSecondary} />
+                <TextInput
+                  value={query}
+                  onChangeText={setQuery}
+                  editable={!full}
+                  style={[styles.searchInput, { color: colors.textPrimary }]}
+                  placeholder={t("settings.search_city_placeholder")}
+                  placeholderTextColor={colors.textSecondary}
+                />
+              </View>
+              {searching ? (
+                <ActivityIndicator style={styles.searchSpinner} size="small" color="#2B8CEE" />
+              ) : (
+                suggestions.map((suggestion, index) => (
+                  <Pressable
+                    key={`${suggestion.label}-${suggestion.lat}-${suggestion.lon}-${index}`}
+                    style={[styles.suggestionRow, { borderTopColor: colors.cardBorder }]}
+                    onPress={() => addSuggestion(suggestion)}
+                  >
+                    <Text style={[styles.switchTitle, { color: colors.textPrimary }]} numberOfLines={1}>
+                      {suggestion.label}
+                    </Text>
+                    <Ionicons name="add" size={18} color={colors.accent} />
+                  </Pressable>
+                ))
+              )}
+            </View>
+          </ScrollView>
+        )}
+      </View>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  safeArea: {
+    flex: 1
+  },
+  container: {
+    flex: 1,
+    width: "100%",
+    maxWidth: 860,
+    alignSelf: "center",
+    paddingHorizontal: 20,
+    paddingTop: 10
+  },
+  headerRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between"
+  },
+  circleButton: {
+    width: 48,
+    height: 48,
+    borderRadius: 24,
+    alignItems: "center",
+    justifyContent: "center",
+    backgroundColor: "rgba(22,44,68,0.9)",
+    borderWidth: 1,
+    borderColor: "rgba(77,117,153,0.35)"
+  },
+  circleButtonLight: {
+    backgroundColor: "#EAF2FC",
+    borderColor: "#BFD4EA"
+  },
+  headerTitle: {
+    fontSize: 22,
+    fontWeight: "800"
+  },
+  headerSpacer: {
+    width: 48
+  },
+  metaRow: {
+    marginTop: 12,
+    marginBottom: 12,
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+    gap: 10
+  },
+  metaText: {
+    flex: 1,
+    fontSize: 14,
+    fontWeight: "600"
+  },
+  listContent: {
+    paddingBottom: 40
+  },
+  card: {
+    borderRadius: 18,
+    borderWidth: 1,
+    paddingHorizontal: 14,
+    marginBottom: 16,
+    overflow: "hidden"
+  },
+  cardPadded: {
+    paddingTop: 12
+  },
+  cardLabel: {
+    fontSize: 12,
+    fontWeight: "700",
+    letterSpacing: 0.8,
+    marginBottom: 8
+  },
+  emptyText: {
+    fontSize: 13,
+    fontWeight: "500",
+    paddingVertical: 14
+  },
+  locationRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 14,
+    paddingVertical: 12
+  },
+  locationText: {
+    flex: 1
+  },
+  switchTitle: {
+    flex: 1,
+    fontSize: 15,
+    fontWeight: "700"
+  },
+  switchSub: {
+    marginTop: 2,
+    fontSize: 12,
+    fontWeight: "600"
+  },
+  hint: {
+    marginTop: -8,
+    marginBottom: 16,
+    paddingHorizontal: 4,
+    fontSize: 12,
+    fontWeight: "500"
+  },
+  addRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 8,
+    marginBottom: 12
+  },
+  disabled: {
+    opacity: 0.5
+  },
+  linkText: {
+    flex: 1,
+    fontSize: 14,
+    fontWeight: "700"
+  },
+  searchField: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 8,
+    borderWidth: 1,
+    borderRadius: 12,
+    paddingHorizontal: 12,
+    minHeight: 44,
+    marginBottom: 12
+  },
+  searchInput: {
+    flex: 1,
+    fontSize: 15
+  },
+  searchSpinner: {
+    marginBottom: 14
+  },
+  suggestionRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 10,
+    paddingVertical: 12,
+    borderTopWidth: 1
+  },
+  loadingWrap: {
+    paddingVertical: 32,
+    alignItems: "center",
+    gap: 10
+  }
+});
@@ -26,20 +26,27 @@ import { AppBackground } from "@/components/AppBackground";
 import { StatusChip } from "@/components/StatusChip";
 import { useI18n } from "@/i18n/I18nProvider";
 import { resolveLocationForSettings } from "@/services/location";
-import { fetchMethods, MethodItem, summarizeMethodParams } from "@/services/methods";
+import { fetchMethods, getFallbackMethodById, MethodItem, summarizeMethodParams } from "@/services/methods";
 import { replanAll } from "@/services/notifications";
-import { getSettings, saveSettings } from "@/services/storage";
+import { getSettings, MAX_TUNE_OFFSET_MINUTES, saveSettings } from "@/services/storage";
 import { useAppTheme } from "@/theme/ThemeProvider";
-import { Settings } from "@/types/prayer";
+import { PRAYER_NAMES, PrayerName, Settings, TuneOffsets } from "@/types/prayer";
 
 const DIYANET_OFFICIAL_ID = 98_001;
 const DIYANET_OFFICIAL_KEY = "DIYANET_OFFICIAL_API";
+const ASTRONOMICAL_ID = 98_002;
+const ASTRONOMICAL_KEY = "ASTRONOMICAL_OFFLINE";
+const ASTRONOMICAL_DEFAULT_METHOD_ID = 3;
+
+function formatOffset(minutes: number): string {
+  return minutes > 0 ? `+${minutes}` : String(minutes);
+}
 
 export default function MethodsScreen() {
   const router = useRouter();
   const navigation = useNavigation();
   const { colors, resolvedTheme } = useAppTheme();
-  const { t } = useI18n();
+  const { t, prayerName } = useI18n();
   const isLight = resolvedTheme === "light";
   const [settings, setSettings] = useState<Settings | null>(null);
   const [methods, setMethods] = useState<MethodItem[]>([]);
@@ -47,6 +54,9 @@ export default function MethodsScreen() {
   const [savingId, setSavingId] = useState<number | null>(null);
   const [searchQuery, setSearchQuery] = useState("");
   const [pressedMethodId, setPressedMethodId] = useState<number | null>(null);
+  const [tuneExpanded, setTuneExpanded] = useState(false);
+  const [tuneDraft, setTuneDraft] = useState<TuneOffsets | null>(null);
+  const [savingTune, setSavingTune] = useState(false);
   const enterTransition = useMotionTransition(easeEnterTransition);
   const pressTransition = useMotionTransition(easePressTransition);
 
@@ -55,6 +65,7 @@ export default function MethodsScreen() {
     try {
       const [savedSettings, availableMethods] = await Promise.all([getSettings(), fetchMethods()]);
       setSettings(savedSettings);
+      setTuneDraft(savedSettings.tuneOffsets);
       setMethods(availableMethods);
     } finally {
       setLoading(false);
@@ -69,6 +80,9 @@ export default function MethodsScreen() {
 
   const currentMethodId = settings?.methodId ?? 3;
   const usingDiyanet = settings?.timingsProvider === "diyanet";
+  const usingAstronomical = settings?.timingsProvider === "astronomical";
+  const astronomicalMethod =
+    getFallbackMethodById(currentMethodId) ?? getFallbackMethodById(ASTRONOMICAL_DEFAULT_METHOD_ID);
 
   const providerOptions = useMemo<MethodItem[]>(() => {
     return [
@@ -77,6 +91,12 @@ export default function MethodsScreen() {
         id: DIYANET_OFFICIAL_ID,
         name: t("methods.diyanet_official"),
         params: {}
+      },
+      {
+        key: ASTRONOMICAL_KEY,
+        id: ASTRONOMICAL_ID,
+        name: t("methods.astronomical_offline"),
+        params: {}
       }
     ];
   }, [t]);
@@ -85,9 +105,12 @@ export default function MethodsScreen() {
     if (usingDiyanet) {
       return t("methods.diyanet_active");
     }
+    if (usingAstronomical) {
+      return t("methods.astronomical_active");
+    }
     const selected = methods.find((item) => item.id === currentMethodId);
     return selected ? `${selected.name} (${selected.id})` : t("methods.method_id", { id: currentMethodId });
-  }, [currentMethodId, methods, t, usingDiyanet]);
+  }, [currentMethodId, methods, t, usingAstronomical, usingDiyanet]);
 
   const filteredMethods = useMemo(() => {
     const all = [...providerOptions, ...methods];
@@ -107,14 +130,83 @@ export default function MethodsScreen() {
     if (savingId !== null) {
       return { label: t("methods.inline_applying"), tone: "loading" as const };
     }
+    if (savingTune) {
+      return { label: t("methods.inline_tune_applying"), tone: "loading" as const };
+    }
     if (usingDiyanet) {
       return { label: t("methods.inline_diyanet_selected"), tone: "success" as const };
     }
+    if (usingAstronomical) {
+      return { label: t("methods.inline_astronomical_selected"), tone: "success" as const };
+    }
     return {
       label: t("methods.inline_method_selected", { id: currentMethodId }),
       tone: "info" as const
     };
-  }, [currentMethodId, loading, savingId, t, usingDiyanet]);
+  }, [currentMethodId, loading, savingId, savingTune, t, usingAstronomical, usingDiyanet]);
+
+  const tuneSummary = useMemo(() => {
+    const adjusted = PRAYER_NAMES.filter((prayer) => (settings?.tuneOffsets[prayer] ?? 0) !== 0);
+    if (adjusted.length === 0) {
+      return t("methods.tune_none");
+    }
+    return adjusted
+      .map((prayer) => `${prayerName(prayer)} ${formatOffset(settings?.tuneOffsets[prayer] ?? 0)}`)
+      .join(", ");
+  }, [prayerName, settings, t]);
+
+  const tuneDirty = useMemo(() => {
+    if (!settings || !tuneDraft) {
+      return false;
+    }
+    return PRAYER_NAMES.some((prayer) => settings.tuneOffsets[prayer] !== tuneDraft[prayer]);
+  }, [settings, tuneDraft]);
+
+  const stepTuneOffset = useCallback((prayer: PrayerName, delta: number) => {
+    setTuneDraft((prev) => {
+      if (!prev) {
+        return prev;
+      }
+      const next = Math.max(-MAX_TUNE_OFFSET_MINUTES, Math.min(MAX_TUNE_OFFSET_MINUTES, prev[prayer] + delta));
+      return { ...prev, [prayer]: next };
+    });
+  }, []);
+
+  const resetTuneDraft = useCallback(() => {
+    setTuneDraft(
+      PRAYER_NAMES.reduce((acc, prayer) => {
+        acc[prayer] = 0;
+        return acc;
+      }, {} as TuneOffsets)
+    );
+  }, []);
+
+  const onApplyTuneOffsets = useCallback(async () => {
+    if (!settings || !tuneDraft || !tuneDirty) {
+      return;
+    }
+
+    setSavingTune(true);
+    try {
+      const updated: Settings = { ...settings, tuneOffsets: tuneDraft };
+      await saveSettings(updated);
+      setSettings(updated);
+
+      try {
+        const loc = await resolveLocationForSettings(updated);
+        await replanAll({
+          lat: loc.lat,
+          lon: loc.lon,
+          methodId: updated.methodId,
+          settings: updated
+        });
+      } catch {
+        // Persisting the offsets is still valid if location/replan fails.
+      }
+    } finally {
+      setSavingTune(false);
+    }
+  }, [settings, tuneDirty, tuneDraft]);
 
   const onSelectMethod = useCallback(
     async (method: MethodItem) => {
@@ -128,8 +220,36 @@ export default function MethodsScreen() {
           const updated: Settings = {
             ...settings,
             timingsProvider: "diyanet",
-            methodName: t("methods.diyanet_official"),
-            hanafiOnly: true
+            baseTimings: null,
+            methodName: t("methods.diyanet_official")
+          };
+
+          await saveSettings(updated);
+          setSettings(updated);
+
+          try {
+            const loc = await resolveLocationForSettings(updated);
+            await replanAll({
+              lat: loc.lat,
+              lon: loc.lon,
+              methodId: updated.methodId,
+              settings: updated
+            });
+          } catch {
+            // Persisting provider selection is still valid if location/replan fails.
+          }
+
+          navigation.goBack();
+          return;
+        }
+
+        if (method.key === ASTRONOMICAL_KEY) {
+          const updated: Settings = {
+            ...settings,
+            timingsProvider: "astronomical",
+            baseTimings: null,
+            methodId: astronomicalMethod?.id ?? ASTRONOMICAL_DEFAULT_METHOD_ID,
+            methodName: t("methods.astronomical_offline")
           };
 
           await saveSettings(updated);
@@ -154,9 +274,9 @@ export default function MethodsScreen() {
         const updated: Settings = {
           ...settings,
           timingsProvider: "aladhan",
+          baseTimings: null,
           methodId: method.id,
-          methodName: method.name,
-          hanafiOnly: true
+          methodName: method.name
         };
 
         await saveSettings(updated);
@@ -179,7 +299,7 @@ export default function MethodsScreen() {
         setSavingId(null);
       }
     },
-    [navigation, settings, t]
+    [astronomicalMethod, navigation, settings, t]
   );
 
   return (
@@ -248,16 +368,97 @@ export default function MethodsScreen() {
             keyExtractor={(item) => `${item.key}-${item.id}`}
             showsVerticalScrollIndicator={false}
             contentContainerStyle={styles.listContent}
+            ListHeaderComponent={
+              <View style={[styles.tuneCard, { backgroundColor: colors.card, borderColor: colors.cardBorder }]}>
+                <Pressable style={styles.tuneHeader} onPress={() => setTuneExpanded((prev) => !prev)}>
+                  <View style={styles.rowLeft}>
+                    <Text style={[styles.rowTitle, isLight ? { color: "#1A2E45" } : null]}>
+                      {t("methods.tune_title")}
+                    </Text>
+                    <Text style={[styles.rowSub, isLight ? { color: "#4E647C" } : null]}>{tuneSummary}</Text>
+                  </View>
+                  <Ionicons
+                    name={tuneExpanded ? "chevron-up" : "chevron-down"}
+                    size={18}
+                    color={isLight ? "#617990" : "#8EA4BF"}
+                  />
+                </Pressable>
+
+                {tuneExpanded && tuneDraft ? (
+                  <View style={styles.tuneBody}>
+                    <Text style={[styles.rowSub, isLight ? { color: "#4E647C" } : null]}>
+                      {t("methods.tune_hint", { max: MAX_TUNE_OFFSET_MINUTES })}
+                    </Text>
+                    {PRAYER_NAMES.map((prayer) => (
+                      <View key={prayer} style={styles.tuneRow}>
+                        <Text style={[styles.tuneLabel, isLight ? { color: "#1A2E45" } : null]}>
+                          {prayerName(prayer)}
+                        </Text>
+                        <View style={styles.tuneStepper}>
+                          <Pressable
+                            style={[styles.tuneStepButton, isLight ? styles.tuneStepButtonLight : null]}
+                            onPress={() => stepTuneOffset(prayer, -1)}
+                            disabled={savingTune || tuneDraft[prayer] <= -MAX_TUNE_OFFSET_MINUTES}
+                          >
+                            <Ionicons name="remove" size={16} color={isLight ? "#1E3D5C" : "#EAF2FF"} />
+                          </Pressable>
+                          <Text style={[styles.tuneValue, isLight ? { color: "#1A2E45" } : null]}>
+                            {t("methods.tune_minutes", { value: formatOffset(tuneDraft[prayer]) })}
+                          </Text>
+                          <Pressable
+                            style={[styles.tuneStepButton, isLight ? styles.tuneStepButtonLight : null]}
+                            onPress={() => stepTuneOffset(prayer, 1)}
+                            disabled={savingTune || tuneDraft[prayer] >= MAX_TUNE_OFFSET_MINUTES}
+                          >
+                            <Ionicons name="add" size={16} color={isLight ? "#1E3D5C" : "#EAF2FF"} />
+                          </Pressable>
+                        </View>
+                      </View>
+                    ))}
+                    <View style={styles.tuneActions}>
+                      <Pressable
+                        style={[styles.tuneActionButton, isLight ? styles.tuneStepButtonLight : null]}
+                        onPress={resetTuneDraft}
+                        disabled={savingTune}
+                      >
+                        <Text style={[styles.tuneActionText, isLight ? { color: "#1E3D5C" } : null]}>
+                          {t("methods.tune_reset")}
+                        </Text>
+                      </Pressable>
+                      <Pressable
+                        style={[
+                          styles.tuneActionButton,
+                          styles.tuneApplyButton,
+                          !tuneDirty && styles.tuneApplyDisabled
+                        ]}
+                        onPress={() => void onApplyTuneOffsets()}
+                        disabled={!tuneDirty || savingTune}
+                      >
+                        {savingTune ? (
+                          <ActivityIndicator color="#FFFFFF" size="small" />
+                        ) : (
+                          <Text style={[styles.tuneActionText, styles.tuneApplyText]}>{t("methods.tune_apply")}</Text>
+                        )}
+                      </Pressable>
+                    </View>
+                  </View>
+                ) : null}
+              </View>
+            }
             renderItem={({ item }) => {
               const selected =
                 item.key === DIYANET_OFFICIAL_KEY
                   ? usingDiyanet
-                  : !usingDiyanet && item.id === currentMethodId;
+                  : item.key === ASTRONOMICAL_KEY
+                    ? usingAstronomical
+                    : !usingDiyanet && !usingAstronomical && item.id === currentMethodId;
               const rowBusy = savingId === item.id;
               const subtitleText =
                 item.key === DIYANET_OFFICIAL_KEY
                   ? t("methods.diyanet_official_desc")
-                  : summarizeMethodParams(item.params);
+                  : item.key === ASTRONOMICAL_KEY
+                    ? t("methods.astronomical_offline_desc", { method: astronomicalMethod?.name ?? "-" })
+                    : summarizeMethodParams(item.params);
 
               return (
                 <EaseView
@@ -418,5 +619,91 @@ const styles = StyleSheet.create({
     flexDirection: "row",
     alignItems: "center",
     gap: 8
+  },
+  tuneCard: {
+    borderRadius: 14,
+    borderWidth: 1,
+    borderColor: "#1D3349",
+    backgroundColor: "#162638",
+    paddingHorizontal: 14,
+    paddingVertical: 10
+  },
+  tuneHeader: {
+    minHeight: 52,
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between"
+  },
+  tuneBody: {
+    marginTop: 6,
+    gap: 8
+  },
+  tuneRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between"
+  },
+  tuneLabel: {
+    fontSize: 15,
+    fontWeight: "600",
+    color: "#EAF2FF"
+  },
+  tuneStepper: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 10
+  },
+  tuneStepButton: {
+    width: 32,
+    height: 32,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: "#23405B",
+    backgroundColor: "#102131",
+    alignItems: "center",
+    justifyContent: "center"
+  },
+  tuneStepButtonLight: {
+    borderColor: "#C8DBEE",
+    backgroundColor: "#F2F7FD"
+  },
+  tuneValue: {
+    minWidth: 64,
+    textAlign: "center",
+    fontSize: 14,
+    fontWeight: "700",
+    color: "#EAF2FF"
+  },
+  tuneActions: {
+    marginTop: 4,
+    flexDirection: "row",
+    justifyContent: "flex-end",
+    gap: 10
+  },
+  tuneActionButton: {
+    minHeight: 36,
+    minWidth: 88,
+    borderRadius: 10,
+    borderWidth: 1,
+    borderColor: "#23405B",
+    backgroundColor: "#102131",
+    paddingHorizontal: 14,
+    alignItems: "center",
+    justifyContent: "center"
+  },
+  tuneApplyButton: {
+    borderColor: "#2B8CEE",
+    backgroundColor: "#2B8CEE"
+  },
+  tuneApplyDisabled: {
+    opacity: 0.5
+  },
+  tuneActionText: {
+    fontSize: 14,
+    fontWeight: "700",
+    color: "#EAF2FF"
+  },
+  tuneApplyText: {
+    color: "#FFFFFF"
   }
 });
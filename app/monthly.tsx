@@ -28,6 +28,7 @@ import { useMotionTransition } from "@/animation/useReducedMotion";
 import { AppBackground } from "@/components/AppBackground";
 import { StatusChip } from "@/components/StatusChip";
 import { useI18n } from "@/i18n/I18nProvider";
+import { ExtraTimes, getEnabledExtraTimeNames, resolveExtraTimes } from "@/services/extraTimes";
 import { resolveLocationForSettings } from "@/services/location";
 import {
   getMonthlyCacheSnapshot,
@@ -35,11 +36,23 @@ import {
   prefetchMonthTimings
 } from "@/services/timingsCache";
 import { getLatestCachedLocation, getSettings, saveLatestCachedLocation } from "@/services/storage";
-import { PrayerName, Settings } from "@/types/prayer";
+import { buildYearTimetable, shareTimetable, TimetableExportFormat } from "@/services/timetableExport";
+import { ExtraTimeName, PrayerName, Settings } from "@/types/prayer";
 import { useAppTheme } from "@/theme/ThemeProvider";
+import { formatDateTime } from "@/utils/date";
 
 type LoadState = "idle" | "loading" | "ready" | "error";
 
+const EXPORT_FORMATS: Array<{
+  format: TimetableExportFormat;
+  labelKey: string;
+  icon: "document-text-outline" | "grid-outline" | "calendar-outline";
+}> = [
+  { format: "pdf", labelKey: "monthly.export_pdf", icon: "document-text-outline" },
+  { format: "csv", labelKey: "monthly.export_csv", icon: "grid-outline" },
+  { format: "ics", labelKey: "monthly.export_ics", icon: "calendar-outline" }
+];
+
 const COLUMN_ORDER: Array<{ key: PrayerName; labelKey: string }> = [
   { key: "Fajr", labelKey: "monthly.fajr" },
   { key: "Sunrise", labelKey: "monthly.shoroq" },
@@ -117,7 +130,7 @@ interface ResolvedMonthlyContext {
 
 export default function MonthlyScreen() {
   const router = useRouter();
-  const { t } = useI18n();
+  const { t, localeTag } = useI18n();
   const { colors, resolvedTheme } = useAppTheme();
   const { width: windowWidth } = useWindowDimensions();
   const isLight = resolvedTheme === "light";
@@ -132,6 +145,7 @@ export default function MonthlyScreen() {
   const [pickerOpen, setPickerOpen] = useState(false);
 
   const [rows, setRows] = useState<MonthlyTimingsRow[]>([]);
+  const [tableSettings, setTableSettings] = useState<Settings | null>(null);
   const [source, setSource] = useState<"cache" | "network" | null>(null);
   const [loadState, setLoadState] = useState<LoadState>("idle");
   const [errorMessage, setErrorMessage] = useState<string | null>(null);
@@ -139,6 +153,10 @@ export default function MonthlyScreen() {
   const [partialError, setPartialError] = useState(false);
   const [refreshPressed, setRefreshPressed] = useState(false);
   const [retryPressed, setRetryPressed] = useState(false);
+  const [exportOpen, setExportOpen] = useState(false);
+  const [exportingFormat, setExportingFormat] = useState<TimetableExportFormat | null>(null);
+  const [exportProgress, setExportProgress] = useState<{ done: number; total: number } | null>(null);
+  const [exportError, setExportError] = useState<string | null>(null);
 
   const loadRequestRef = useRef(0);
   const isLoadingRef = useRef(false);
@@ -149,10 +167,36 @@ export default function MonthlyScreen() {
   const contentWidth = Math.min(windowWidth, 860) - 40;
   const tableInnerWidth = Math.max(contentWidth - 16, 300);
   const dateColumnWidth = Math.max(58, Math.floor(tableInnerWidth * 0.17));
-  const timeColumnWidth = Math.max(
-    40,
-    Math.floor((tableInnerWidth - dateColumnWidth) / COLUMN_ORDER.length)
+  const extraColumns = useMemo<ExtraTimeName[]>(
+    () => (tableSettings ? getEnabledExtraTimeNames(tableSettings) : []),
+    [tableSettings]
   );
+  const timeColumnWidth =
+    extraColumns.length === 0
+      ? Math.max(40, Math.floor((tableInnerWidth - dateColumnWidth) / COLUMN_ORDER.length))
+      : Math.max(52, Math.floor((tableInnerWidth - dateColumnWidth) / (COLUMN_ORDER.length + extraColumns.length)));
+  const tableWidth = dateColumnWidth + timeColumnWidth * (COLUMN_ORDER.length + extraColumns.length) + 16;
+  const tableScrollsHorizontally = tableWidth > tableInnerWidth + 16;
+
+  const extraTimesByDateKey = useMemo(() => {
+    const map = new Map<string, ExtraTimes>();
+    if (!tableSettings || extraColumns.length === 0) {
+      return map;
+    }
+    rows.forEach((row, index) => {
+      if (row.timings) {
+        map.set(
+          row.dateKey,
+          resolveExtraTimes({
+            timings: row.timings,
+            nextDayTimings: rows[index + 1]?.timings ?? null,
+            settings: tableSettings
+          })
+        );
+      }
+    });
+    return map;
+  }, [extraColumns.length, rows, tableSettings]);
 
   const monthStats = useMemo(() => {
     const total = rows.length;
@@ -269,6 +313,7 @@ export default function MonthlyScreen() {
         if (isStale()) {
           return;
         }
+        setTableSettings(ctx.settings);
 
         if (forceRefresh) {
           const fetched = await prefetchMonthTimings({
@@ -437,6 +482,64 @@ export default function MonthlyScreen() {
     };
   }, [isFocused, selectedMonth, scheduleLoad]);
 
+  const runExport = useCallback(
+    async (format: TimetableExportFormat) => {
+      const year = selectedMonth.getFullYear();
+      setExportingFormat(format);
+      setExportError(null);
+      setExportProgress({ done: 0, total: 12 });
+      try {
+        const ctx = await getContext();
+        const rows = await buildYearTimetable({
+          year,
+          location: {
+            lat: ctx.location.lat,
+            lon: ctx.location.lon
+          },
+          locationLabel: ctx.location.label,
+          settings: ctx.settings,
+          onProgress: (done, total) => setExportProgress({ done, total })
+        });
+        if (rows.every((row) => !row.timings)) {
+          throw new Error(t("monthly.export_empty"));
+        }
+
+        await shareTimetable({
+          format,
+          rows,
+          fileBaseName: `prayer-times-${year}`,
+          meta: {
+            title: t("monthly.export_document_title", { year }),
+            locationLabel: ctx.location.label,
+            providerLabel:
+              ctx.settings.timingsProvider === "diyanet"
+                ? t("source_check.provider_diyanet")
+                : ctx.settings.timingsProvider === "astronomical"
+                  ? t("source_check.provider_astronomical", { method: ctx.settings.methodId })
+                  : t("source_check.provider_aladhan", { method: ctx.settings.methodId }),
+            methodLabel: ctx.settings.methodName,
+            generatedLabel: t("monthly.export_generated", {
+              date: formatDateTime(new Date().toISOString(), localeTag)
+            }),
+            dateLabel: t("monthly.export_date"),
+            prayerLabels: COLUMN_ORDER.reduce((acc, column) => {
+              acc[column.key] = t(column.labelKey);
+              return acc;
+            }, {} as Record<PrayerName, string>),
+            monthLabels: Array.from({ length: 12 }, (_, monthIndex) => `${t(monthNameKey(monthIndex))} ${year}`)
+          }
+        });
+        setExportOpen(false);
+      } catch (error) {
+        setExportError(error instanceof Error ? error.message : t("monthly.export_failed"));
+      } finally {
+        setExportingFormat(null);
+        setExportProgress(null);
+      }
+    },
+    [getContext, localeTag, selectedMonth, t]
+  );
+
   const movePickerMonth = (delta: number) => {
     setPickerMonth((current) => new Date(current.getFullYear(), current.getMonth() + delta, 1));
   };
@@ -475,19 +578,31 @@ export default function MonthlyScreen() {
         <EaseView initialAnimate={easeInitialLift} animate={easeVisibleLift} transition={enterTransition}>
           <View style={styles.subHeaderRow}>
             <Text style={[styles.monthLabel, { color: colors.textPrimary }]}>{monthTitle}</Text>
-            <EaseView animate={{ scale: refreshPressed ? 0.98 : 1 }} transition={pressTransition}>
+            <View style={styles.subHeaderActions}>
               <Pressable
                 style={styles.refreshBtn}
                 onPress={() => {
-                  scheduleLoad(selectedMonth, { forceRefresh: true });
+                  setExportError(null);
+                  setExportOpen(true);
                 }}
-                onPressIn={() => setRefreshPressed(true)}
-                onPressOut={() => setRefreshPressed(false)}
               >
-                <Ionicons name="refresh" size={16} color="#FFFFFF" />
-                <Text style={styles.refreshLabel}>{t("monthly.refresh")}</Text>
+                <Ionicons name="share-outline" size={16} color="#FFFFFF" />
+                <Text style={styles.refreshLabel}>{t("monthly.export")}</Text>
               </Pressable>
-            </EaseView>
+              <EaseView animate={{ scale: refreshPressed ? 0.98 : 1 }} transition={pressTransition}>
+                <Pressable
+                  style={styles.refreshBtn}
+                  onPress={() => {
+                    scheduleLoad(selectedMonth, { forceRefresh: true });
+                  }}
+                  onPressIn={() => setRefreshPressed(true)}
+                  onPressOut={() => setRefreshPressed(false)}
+                >
+                  <Ionicons name="refresh" size={16} color="#FFFFFF" />
+                  <Text style={styles.refreshLabel}>{t("monthly.refresh")}</Text>
+                </Pressable>
+              </EaseView>
+            </View>
           </View>
         </EaseView>
 
@@ -566,81 +681,114 @@ export default function MonthlyScreen() {
             </EaseView>
           ) : (
             <>
-              <View style={styles.tableWrap}>
-                <View style={[styles.tableHeaderRow, { borderBottomColor: colors.cardBorder }]}> 
-                  <Text style={[styles.dateHeaderCell, { color: colors.textSecondary, width: dateColumnWidth }]}> </Text>
-                  {COLUMN_ORDER.map((column) => (
-                    <Text
-                      key={column.key}
-                      style={[
-                        styles.headerCell,
-                        {
-                          width: timeColumnWidth,
-                          color: column.key === "Fajr" ? colors.accent : colors.textSecondary,
-                          fontWeight: column.key === "Fajr" ? "800" : "700"
-                        }
-                      ]}
-                      numberOfLines={1}
-                    >
-                      {t(column.labelKey)}
-                    </Text>
-                  ))}
-                </View>
-
-                <ScrollView style={styles.rowsScroll} showsVerticalScrollIndicator={false}>
-                  {rows.map((row) => {
-                    const isToday =
-                      shouldHighlightToday &&
-                      row.date.getDate() === todayDate.getDate() &&
-                      row.date.getMonth() === todayDate.getMonth() &&
-                      row.date.getFullYear() === todayDate.getFullYear();
-
-                    return (
-                      <View
-                        key={row.dateKey}
+              <ScrollView
+                horizontal
+                scrollEnabled={tableScrollsHorizontally}
+                showsHorizontalScrollIndicator={tableScrollsHorizontally}
+                style={styles.tableWrap}
+                contentContainerStyle={styles.tableScrollContent}
+              >
+                <View style={[styles.tableWrap, tableScrollsHorizontally ? { width: tableWidth } : null]}>
+                  <View style={[styles.tableHeaderRow, { borderBottomColor: colors.cardBorder }]}> 
+                    <Text style={[styles.dateHeaderCell, { color: colors.textSecondary, width: dateColumnWidth }]}> </Text>
+                    {COLUMN_ORDER.map((column) => (
+                      <Text
+                        key={column.key}
                         style={[
-                          styles.tableDataRow,
+                          styles.headerCell,
                           {
-                            borderBottomColor: colors.cardBorder,
-                            backgroundColor: isToday ? (isLight ? "#EAF4FF" : "rgba(43,140,238,0.12)") : "transparent"
+                            width: timeColumnWidth,
+                            color: column.key === "Fajr" ? colors.accent : colors.textSecondary,
+                            fontWeight: column.key === "Fajr" ? "800" : "700"
                           }
                         ]}
+                        numberOfLines={1}
+                      >
+                        {t(column.labelKey)}
+                      </Text>
+                    ))}
+                    {extraColumns.map((name) => (
+                      <Text
+                        key={name}
+                        style={[styles.headerCell, { width: timeColumnWidth, color: colors.textSecondary }]}
+                        numberOfLines={1}
                       >
-                        <View style={[styles.dateCellWrap, { width: dateColumnWidth }]}>
-                          <View
-                            style={[
-                              styles.rowSourceDot,
-                              {
-                                backgroundColor:
-                                  row.source === "network" ? "#22C55E" : row.source === "cache" ? "#2B8CEE" : "#F87171"
-                              }
-                            ]}
-                          />
-                          <Text style={[styles.dateCell, { color: colors.textPrimary }]} numberOfLines={1}>
-                            {`${row.date.getDate()} ${t(monthShortNameKey(row.date.getMonth()))}`}
-                          </Text>
+                        {t(`monthly.extra_${name}`)}
+                      </Text>
+                    ))}
+                  </View>
+
+                  <ScrollView style={styles.rowsScroll} showsVerticalScrollIndicator={false}>
+                    {rows.map((row) => {
+                      const isToday =
+                        shouldHighlightToday &&
+                        row.date.getDate() === todayDate.getDate() &&
+                        row.date.getMonth() === todayDate.getMonth() &&
+                        row.date.getFullYear() === todayDate.getFullYear();
+
+                      return (
+                        <View
+                          key={row.dateKey}
+                          style={[
+                            styles.tableDataRow,
+                            {
+                              borderBottomColor: colors.cardBorder,
+                              backgroundColor: isToday ? (isLight ? "#EAF4FF" : "rgba(43,140,238,0.12)") : "transparent"
+                            }
+                          ]}
+                        >
+                          <View style={[styles.dateCellWrap, { width: dateColumnWidth }]}>
+                            <View
+                              style={[
+                                styles.rowSourceDot,
+                                {
+                                  backgroundColor:
+                                    row.source === "network" ? "#22C55E" : row.source === "cache" ? "#2B8CEE" : "#F87171"
+                                }
+                              ]}
+                            />
+                            <Text style={[styles.dateCell, { color: colors.textPrimary }]} numberOfLines={1}>
+                              {`${row.date.getDate()} ${t(monthShortNameKey(row.date.getMonth()))}`}
+                            </Text>
+                          </View>
+                          {COLUMN_ORDER.map((column) => (
+                            <Text
+                              key={`${row.dateKey}-${column.key}`}
+                              style={[
+                                styles.timeCell,
+                                {
+                                  color: row.timings ? colors.textPrimary : colors.textSecondary,
+                                  width: timeColumnWidth,
+                                  opacity: row.timings ? 1 : 0.55
+                                }
+                              ]}
+                              numberOfLines={1}
+                            >
+                              {row.timings?.times[column.key] ?? "—"}
+                            </Text>
+                          ))}
+                          {extraColumns.map((name) => (
+                            <Text
+                              key={`${row.dateKey}-${name}`}
+                              style={[
+                                styles.timeCell,
+                                {
+                                  color: colors.textSecondary,
+                                  width: timeColumnWidth,
+                                  opacity: row.timings ? 1 : 0.55
+                                }
+                              ]}
+                              numberOfLines={1}
+                            >
+                              {extraTimesByDateKey.get(row.dateKey)?.[name] ?? "—"}
+                            </Text>
+                          ))}
                         </View>
-                        {COLUMN_ORDER.map((column) => (
-                          <Text
-                            key={`${row.dateKey}-${column.key}`}
-                            style={[
-                              styles.timeCell,
-                              {
-                                color: row.timings ? colors.textPrimary : colors.textSecondary,
-                                width: timeColumnWidth,
-                                opacity: row.timings ? 1 : 0.55
-                              }
-                            ]}
-                            numberOfLines={1}
-                          >
-                            {row.timings?.times[column.key] ?? "—"}
-                          </Text>
-                        ))}
-                      </View>
-                    );
-                  })}
-                </ScrollView>
-              </View>
+                      );
+                    })}
+                  </ScrollView>
+                </View>
+              </ScrollView>
 
               {partialError ? (
                 <EaseView initialAnimate={easeInitialFade} animate={easeVisibleFade} transition={stateTransition}>
@@ -690,6 +838,63 @@ export default function MonthlyScreen() {
           </View>
         </View>
       </Modal>
+
+      <Modal
+        visible={exportOpen}
+        transparent
+        animationType="fade"
+        onRequestClose={() => {
+          if (!exportingFormat) {
+            setExportOpen(false);
+          }
+        }}
+      >
+        <View style={styles.modalOverlay}>
+          <View style={[styles.modalCard, { backgroundColor: colors.card, borderColor: colors.cardBorder }]}>
+            <Text style={[styles.modalTitle, { color: colors.textPrimary }]}>
+              {t("monthly.export_title", { year: selectedMonth.getFullYear() })}
+            </Text>
+            <Text style={[styles.exportBody, { color: colors.textSecondary }]}>{t("monthly.export_body")}</Text>
+
+            {EXPORT_FORMATS.map((item) => (
+              <Pressable
+                key={item.format}
+                style={[styles.modalButton, styles.exportButton, exportingFormat !== null && styles.exportButtonBusy]}
+                onPress={() => void runExport(item.format)}
+                disabled={exportingFormat !== null}
+              >
+                {exportingFormat === item.format ? (
+                  <ActivityIndicator color="#FFFFFF" size="small" />
+                ) : (
+                  <Ionicons name={item.icon} size={18} color="#FFFFFF" />
+                )}
+                <Text style={styles.modalButtonLabel}>{t(item.labelKey)}</Text>
+              </Pressable>
+            ))}
+
+            {exportProgress ? (
+              <Text style={[styles.exportBody, { color: colors.textSecondary }]}>
+                {t("monthly.export_progress", { done: exportProgress.done, total: exportProgress.total })}
+              </Text>
+            ) : null}
+            {exportError ? <Text style={styles.exportError}>{exportError}</Text> : null}
+
+            <Pressable
+              style={[
+                styles.modalButton,
+                {
+                  borderColor: colors.cardBorder,
+                  backgroundColor: isLight ? "#EFF5FC" : "#1A2D42"
+                }
+              ]}
+              onPress={() => setExportOpen(false)}
+              disabled={exportingFormat !== null}
+            >
+              <Text style={[styles.modalButtonLabel, { color: colors.textPrimary }]}>{t("monthly.close")}</Text>
+            </Pressable>
+          </View>
+        </View>
+      </Modal>
     </SafeAreaView>
   );
 }
@@ -824,6 +1029,9 @@ const styles = StyleSheet.create({
   tableWrap: {
     flex: 1
   },
+  tableScrollContent: {
+    flexGrow: 1
+  },
   tableHeaderRow: {
     height: 48,
     flexDirection: "row",
@@ -921,4 +1129,25 @@ const styles = StyleSheet.create({
     fontSize: 14,
     fontWeight: "700"
   },
+  subHeaderActions: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 8
+  },
+  exportBody: {
+    fontSize: 14,
+    lineHeight: 20
+  },
+  exportButton: {
+    flexDirection: "row",
+    gap: 8
+  },
+  exportButtonBusy: {
+    opacity: 0.7
+  },
+  exportError: {
+    color: "#F87171",
+    fontSize: 13,
+    fontWeight: "600"
+  },
 });
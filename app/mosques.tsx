@@ -9,8 +9,10 @@ import {
   FlatList,
   Image,
   Linking,
+  Modal,
   Pressable,
   RefreshControl,
+  ScrollView,
   StyleSheet,
   Text,
   TextInput,
@@ -23,14 +25,20 @@ import { AppBackground } from "@/components/AppBackground";
 import { StatusChip } from "@/components/StatusChip";
 import { useI18n } from "@/i18n/I18nProvider";
 import { getCurrentLocationDetails } from "@/services/location";
-import { getMosques } from "@/services/mosqueService";
+import { resolveLocationPreferCache } from "@/services/location";
+import { getMosques, TRAVEL_SPEEDS_KMH } from "@/services/mosqueService";
+import { formatTimeRange, isOpenAt } from "@/services/openingHours";
+import { replanAll } from "@/services/notifications";
 import {
   getCachedTimingsForDate,
   getDefaultMosqueId,
   getLatestCachedTimings,
   getMosquesFavorites,
   getMosquesSettings,
+  getSettings,
+  setDefaultMosque,
   setDefaultMosqueId,
+  saveFavoriteMosqueDetails,
   setMosquesFavorites
 } from "@/services/storage";
 import { Mosque, MosquesSettings } from "@/types/mosque";
@@ -39,7 +47,7 @@ import { useAppTheme } from "@/theme/ThemeProvider";
 import { getDateKey, getNextPrayer, getTomorrow, parsePrayerTimeForDate } from "@/utils/time";
 
 type LoadState = "idle" | "loading" | "ready" | "error" | "permission_denied";
-type ActiveFilter = "all" | "favorites";
+type ActiveFilter = "all" | "favorites" | "women" | "wheelchair";
 type MosqueListItem = Mosque & {
   etaMinutes: number;
   isFeasible: boolean | null;
@@ -67,11 +75,58 @@ function hexToRgb(hex: string): { r: number; g: number; b: number } {
 }
 
 const FEASIBILITY_BUFFER_MIN = 10;
-const TRAVEL_SPEEDS_KMH: Record<MosquesSettings["travelMode"], number> = {
-  walk: 5,
-  drive: 30
+const FILTERS: ActiveFilter[] = ["all", "favorites", "women", "wheelchair"];
+const KNOWN_DENOMINATIONS = ["sunni", "shia", "ibadi", "ahmadiyya"];
+
+type DetailRowProps = {
+  icon: keyof typeof Ionicons.glyphMap;
+  label: string;
+  value: string;
+  iconColor: string;
+  labelColor: string;
+  valueColor: string;
+  onPress?: () => void;
 };
 
+function DetailRow({ icon, label, value, iconColor, labelColor, valueColor, onPress }: DetailRowProps) {
+  return (
+    <Pressable style={styles.detailRow} onPress={onPress} disabled={!onPress}>
+      <Ionicons name={icon} size={18} color={iconColor} />
+      <View style={styles.detailCopy}>
+        <Text style={[styles.detailLabel, { color: labelColor }]}>{label}</Text>
+        <Text style={[styles.detailValue, { color: valueColor }]}>{value}</Text>
+      </View>
+    </Pressable>
+  );
+}
+
+function matchesFilter(item: MosqueListItem, filter: ActiveFilter): boolean {
+  switch (filter) {
+    case "favorites":
+      return item.isFavorite;
+    case "women":
+      return item.womenArea === true;
+    case "wheelchair":
+      return item.wheelchair === "yes" || item.wheelchair === "limited";
+    default:
+      return true;
+  }
+}
+
+// Jumu'ah leave reminders depend on the default mosque, so a new default needs a fresh plan.
+async function replanJumuahReminders(): Promise<void> {
+  try {
+    const settings = await getSettings();
+    if (!settings.jumuah.enabled) {
+      return;
+    }
+    const location = await resolveLocationPreferCache(settings);
+    await replanAll({ lat: location.lat, lon: location.lon, methodId: settings.methodId, settings });
+  } catch {
+    // The next regular replan picks the new mosque up.
+  }
+}
+
 export default function MosquesScreen() {
   const router = useRouter();
   const params = useLocalSearchParams<{ filter?: string }>();
@@ -99,6 +154,7 @@ export default function MosquesScreen() {
   const [activeFilter, setActiveFilter] = useState<ActiveFilter>("all");
   const [pressedCardId, setPressedCardId] = useState<string | null>(null);
   const [pressedFilter, setPressedFilter] = useState<ActiveFilter | null>(null);
+  const [detailMosque, setDetailMosque] = useState<MosqueListItem | null>(null);
   const isFocused = useIsFocused();
   const mosquesSettingsRef = useRef<MosquesSettings>({ radiusKm: 5, travelMode: "walk" });
   const mosquesCountRef = useRef(0);
@@ -195,12 +251,22 @@ export default function MosquesScreen() {
 
     const provider = latest.provider ?? "aladhan";
     const methodId = latest.methodId;
+    const asrSchool = latest.asrSchool ?? "hanafi";
+    const tuneOffsets = latest.tuneOffsets;
+    const highLatitudeRule = latest.highLatitudeRule;
     let todayTimings: Timings | null = null;
 
     if (latest.timings.dateKey === todayKey) {
       todayTimings = latest.timings;
     } else {
-      const cachedToday = await getCachedTimingsForDate(todayKey, provider, methodId);
+      const cachedToday = await getCachedTimingsForDate(
+        todayKey,
+        provider,
+        methodId,
+        asrSchool,
+        tuneOffsets,
+        highLatitudeRule
+      );
       todayTimings = cachedToday?.timings ?? null;
     }
 
@@ -213,7 +279,14 @@ export default function MosquesScreen() {
 
     const tomorrow = getTomorrow(now);
     const tomorrowKey = getDateKey(tomorrow);
-    const cachedTomorrow = await getCachedTimingsForDate(tomorrowKey, provider, methodId);
+    const cachedTomorrow = await getCachedTimingsForDate(
+      tomorrowKey,
+      provider,
+      methodId,
+      asrSchool,
+      tuneOffsets,
+      highLatitudeRule
+    );
     if (!cachedTomorrow?.timings?.times?.Fajr) {
       return null;
     }
@@ -346,6 +419,14 @@ export default function MosquesScreen() {
     };
   }, [isFocused, loadMosques]);
 
+  // Keeps a position for every favorite on screen; the silent-in-mosque rule works from these.
+  useEffect(() => {
+    const known = mosques.filter((mosque) => favorites.includes(mosque.id));
+    void saveFavoriteMosqueDetails(known).catch(() => {
+      // Tried again the next time the list loads.
+    });
+  }, [favorites, mosques]);
+
   const toggleFavorite = useCallback(async (id: string) => {
     setFavorites((prev) => {
       const exists = prev.includes(id);
@@ -354,16 +435,16 @@ export default function MosquesScreen() {
 
       if (exists && defaultMosqueId === id) {
         setDefaultMosqueIdState(null);
-        void setDefaultMosqueId(null);
+        void setDefaultMosqueId(null).then(replanJumuahReminders);
       }
       return next;
     });
   }, [defaultMosqueId]);
 
-  const toggleDefaultMosque = useCallback(async (id: string) => {
+  const toggleDefaultMosque = useCallback(async (mosque: Mosque) => {
     setDefaultMosqueIdState((prev) => {
-      const nextDefault = prev === id ? null : id;
-      void setDefaultMosqueId(nextDefault);
+      const nextDefault = prev === mosque.id ? null : mosque.id;
+      void setDefaultMosque(nextDefault ? mosque : null).then(replanJumuahReminders);
       if (nextDefault) {
         setFavorites((favoritePrev) => {
           if (favoritePrev.includes(nextDefault)) {
@@ -422,6 +503,27 @@ export default function MosquesScreen() {
     [mosquesSettings.travelMode, t]
   );
 
+  const openWebsite = useCallback((website: string) => {
+    void Linking.openURL(/^https?:\/\//i.test(website) ? website : `https://${website}`).catch(() => {
+      // Nothing to open it with; the address stays visible in the sheet.
+    });
+  }, []);
+
+  const callPhone = useCallback((phone: string) => {
+    void Linking.openURL(`tel:${phone.replace(/[^\d+]/g, "")}`).catch(() => {
+      // Devices without telephony; the number stays visible in the sheet.
+    });
+  }, []);
+
+  const weekdayNames = useMemo(
+    // 1 January 2024 was a Monday, matching the Monday-first opening hours.
+    () =>
+      Array.from({ length: 7 }, (_, day) =>
+        new Date(2024, 0, 1 + day).toLocaleDateString(localeTag, { weekday: "short" })
+      ),
+    [localeTag]
+  );
+
   const mosqueItems = useMemo(() => {
     const favoritesSet = new Set(favorites);
     const query = searchQuery.trim().toLowerCase();
@@ -441,7 +543,7 @@ export default function MosquesScreen() {
     });
 
     const filteredByName = query.length > 0 ? items.filter((item) => item.name.toLowerCase().includes(query)) : items;
-    const filtered = activeFilter === "favorites" ? filteredByName.filter((item) => item.isFavorite) : filteredByName;
+    const filtered = filteredByName.filter((item) => matchesFilter(item, activeFilter));
 
     filtered.sort((a, b) => {
       if (timeLeftMinutes !== null) {
@@ -467,6 +569,9 @@ export default function MosquesScreen() {
     if (activeFilter === "favorites") {
       return t("mosques.empty_no_favorites");
     }
+    if (activeFilter !== "all") {
+      return t("mosques.empty_no_filter");
+    }
     if (searchQuery.trim().length > 0) {
       return t("mosques.empty_no_search");
     }
@@ -578,11 +683,20 @@ export default function MosquesScreen() {
               <Ionicons name="map-outline" size={16} color={isLight ? "#4A6A8E" : "#A8BDD7"} />
               <Text style={[styles.cardActionText, { color: colors.textPrimary }]}>{t("mosques.open_maps_action")}</Text>
             </Pressable>
+            <Pressable
+              style={[styles.cardActionButton, { borderColor: colors.cardBorder }]}
+              onPress={() => setDetailMosque(item)}
+              onPressIn={() => setPressedCardId(item.id)}
+              onPressOut={() => setPressedCardId(null)}
+            >
+              <Ionicons name="information-circle-outline" size={16} color={isLight ? "#4A6A8E" : "#A8BDD7"} />
+              <Text style={[styles.cardActionText, { color: colors.textPrimary }]}>{t("mosques.details_action")}</Text>
+            </Pressable>
           </View>
 
           <Pressable
             style={[styles.defaultButton, { borderColor: colors.cardBorder }]}
-            onPress={() => void toggleDefaultMosque(item.id)}
+            onPress={() => void toggleDefaultMosque(item)}
             onPressIn={() => setPressedCardId(item.id)}
             onPressOut={() => setPressedCardId(null)}
           >
@@ -596,6 +710,20 @@ export default function MosquesScreen() {
     [buttonStateTransition, colors.accent, colors.card, colors.cardBorder, colors.textPrimary, colors.textSecondary, formatDistance, formatRelativeUpdated, isLight, openInMaps, openRoute, pressTransition, pressedCardId, t, toggleDefaultMosque, toggleFavorite]
   );
 
+  const detailOpenNow = detailMosque?.openingHours ? isOpenAt(detailMosque.openingHours, new Date()) : null;
+  const detailWebsite = detailMosque?.website ?? null;
+  const detailPhone = detailMosque?.phone ?? null;
+  const detailEmpty =
+    detailMosque !== null &&
+    !detailMosque.openingHours &&
+    !detailMosque.address &&
+    !detailMosque.denomination &&
+    !detailWebsite &&
+    !detailPhone &&
+    detailMosque.womenArea === null &&
+    !detailMosque.wheelchair &&
+    detailMosque.parking === null;
+
   return (
     <SafeAreaView style={[styles.safeArea, { backgroundColor: colors.background }]}>
       <View style={styles.container}>
@@ -709,7 +837,7 @@ export default function MosquesScreen() {
                   ) : null}
                 </View>
                 <View style={styles.filterRow}>
-                  {(["all", "favorites"] as ActiveFilter[]).map((filter) => {
+                  {FILTERS.map((filter) => {
                     const active = activeFilter === filter;
                     const pressed = pressedFilter === filter;
                     return (
@@ -730,7 +858,7 @@ export default function MosquesScreen() {
                           onPressOut={() => setPressedFilter(null)}
                         >
                           <Text style={[styles.filterText, { color: active ? "#F2F8FF" : colors.textPrimary }]}>
-                            {filter === "all" ? t("mosques.filter_all") : t("mosques.filter_favorites")}
+                            {t(`mosques.filter_${filter}`)}
                           </Text>
                         </Pressable>
                       </EaseView>
@@ -765,6 +893,159 @@ export default function MosquesScreen() {
             </View>
           </>
         ) : null}
+
+        <Modal
+          transparent
+          visible={detailMosque !== null}
+          animationType="fade"
+          onRequestClose={() => setDetailMosque(null)}
+        >
+          <Pressable style={styles.sheetOverlay} onPress={() => setDetailMosque(null)}>
+            {detailMosque ? (
+              <Pressable
+                style={[
+                  styles.sheet,
+                  { backgroundColor: colors.card, borderColor: colors.cardBorder, paddingBottom: insets.bottom + 16 }
+                ]}
+                onPress={() => {}}
+              >
+                <View style={styles.cardHeader}>
+                  <Text style={[styles.mosqueName, { color: colors.textPrimary }]} numberOfLines={2}>
+                    {detailMosque.name}
+                  </Text>
+                  <Pressable
+                    onPress={() => setDetailMosque(null)}
+                    hitSlop={8}
+                    accessibilityLabel={t("mosques.details_close")}
+                  >
+                    <Ionicons name="close" size={22} color={colors.textSecondary} />
+                  </Pressable>
+                </View>
+                <Text style={[styles.mosqueDistance, { color: colors.accent }]}>
+                  {formatDistance(detailMosque.distanceKm)}
+                </Text>
+
+                <ScrollView style={styles.sheetScroll} showsVerticalScrollIndicator={false}>
+                  {detailMosque.openingHours ? (
+                    <View style={styles.detailRow}>
+                      <Ionicons name="time-outline" size={18} color={colors.accent} />
+                      <View style={styles.detailCopy}>
+                        <View style={styles.hoursHeader}>
+                          <Text style={[styles.detailLabel, { color: colors.textSecondary }]}>
+                            {t("mosques.details_hours")}
+                          </Text>
+                          {detailOpenNow !== null ? (
+                            <StatusChip
+                              label={t(detailOpenNow ? "mosques.open_now" : "mosques.closed_now")}
+                              tone={detailOpenNow ? "success" : "warning"}
+                            />
+                          ) : null}
+                        </View>
+                        {detailMosque.openingHours.week ? (
+                          detailMosque.openingHours.week.map((ranges, day) => (
+                            <View key={day} style={styles.hoursRow}>
+                              <Text style={[styles.detailValue, styles.hoursDay, { color: colors.textSecondary }]}>
+                                {weekdayNames[day]}
+                              </Text>
+                              <Text style={[styles.detailValue, { color: colors.textPrimary }]}>
+                                {ranges.length > 0 ? ranges.map(formatTimeRange).join(", ") : t("mosques.closed")}
+                              </Text>
+                            </View>
+                          ))
+                        ) : (
+                          <Text style={[styles.detailValue, { color: colors.textPrimary }]}>
+                            {detailMosque.openingHours.raw}
+                          </Text>
+                        )}
+                      </View>
+                    </View>
+                  ) : null}
+                  {detailMosque.address ? (
+                    <DetailRow
+                      icon="location-outline"
+                      label={t("mosques.details_address")}
+                      value={detailMosque.address}
+                      iconColor={colors.accent}
+                      labelColor={colors.textSecondary}
+                      valueColor={colors.textPrimary}
+                      onPress={() => void openInMaps(detailMosque)}
+                    />
+                  ) : null}
+                  {detailMosque.denomination ? (
+                    <DetailRow
+                      icon="book-outline"
+                      label={t("mosques.details_denomination")}
+                      value={
+                        KNOWN_DENOMINATIONS.includes(detailMosque.denomination)
+                          ? t(`mosques.denomination_${detailMosque.denomination}`)
+                          : detailMosque.denomination
+                      }
+                      iconColor={colors.accent}
+                      labelColor={colors.textSecondary}
+                      valueColor={colors.textPrimary}
+                    />
+                  ) : null}
+                  {detailWebsite ? (
+                    <DetailRow
+                      icon="globe-outline"
+                      label={t("mosques.details_website")}
+                      value={detailWebsite}
+                      iconColor={colors.accent}
+                      labelColor={colors.textSecondary}
+                      valueColor={colors.accent}
+                      onPress={() => openWebsite(detailWebsite)}
+                    />
+                  ) : null}
+                  {detailPhone ? (
+                    <DetailRow
+                      icon="call-outline"
+                      label={t("mosques.details_phone")}
+                      value={detailPhone}
+                      iconColor={colors.accent}
+                      labelColor={colors.textSecondary}
+                      valueColor={colors.accent}
+                      onPress={() => callPhone(detailPhone)}
+                    />
+                  ) : null}
+                  {detailMosque.womenArea !== null ? (
+                    <DetailRow
+                      icon="woman-outline"
+                      label={t("mosques.details_women")}
+                      value={t(detailMosque.womenArea ? "mosques.details_yes" : "mosques.details_no")}
+                      iconColor={colors.accent}
+                      labelColor={colors.textSecondary}
+                      valueColor={colors.textPrimary}
+                    />
+                  ) : null}
+                  {detailMosque.wheelchair ? (
+                    <DetailRow
+                      icon="accessibility-outline"
+                      label={t("mosques.details_wheelchair")}
+                      value={t(`mosques.wheelchair_${detailMosque.wheelchair}`)}
+                      iconColor={colors.accent}
+                      labelColor={colors.textSecondary}
+                      valueColor={colors.textPrimary}
+                    />
+                  ) : null}
+                  {detailMosque.parking !== null ? (
+                    <DetailRow
+                      icon="car-outline"
+                      label={t("mosques.details_parking")}
+                      value={t(detailMosque.parking ? "mosques.details_yes" : "mosques.details_no")}
+                      iconColor={colors.accent}
+                      labelColor={colors.textSecondary}
+                      valueColor={colors.textPrimary}
+                    />
+                  ) : null}
+                  {detailEmpty ? (
+                    <Text style={[styles.infoBody, { color: colors.textSecondary }]}>{t("mosques.details_none")}</Text>
+                  ) : null}
+                </ScrollView>
+                <Text style={[styles.mosqueMeta, { color: colors.textSecondary }]}>{t("mosques.details_source")}</Text>
+              </Pressable>
+            ) : null}
+          </Pressable>
+        </Modal>
       </View>
     </SafeAreaView>
   );
@@ -864,6 +1145,7 @@ const styles = StyleSheet.create({
   filterRow: {
     marginTop: 10,
     flexDirection: "row",
+    flexWrap: "wrap",
     gap: 8
   },
   filterChipWrap: {
@@ -1043,5 +1325,56 @@ const styles = StyleSheet.create({
   defaultButtonText: {
     fontSize: 13,
     fontWeight: "700"
+  },
+  sheetOverlay: {
+    flex: 1,
+    backgroundColor: "rgba(2, 8, 16, 0.35)",
+    justifyContent: "flex-end"
+  },
+  sheet: {
+    maxHeight: "80%",
+    width: "100%",
+    maxWidth: 860,
+    alignSelf: "center",
+    borderTopLeftRadius: 20,
+    borderTopRightRadius: 20,
+    borderWidth: 1,
+    paddingHorizontal: 18,
+    paddingTop: 18
+  },
+  sheetScroll: {
+    marginTop: 8,
+    marginBottom: 10
+  },
+  detailRow: {
+    flexDirection: "row",
+    alignItems: "flex-start",
+    gap: 12,
+    paddingVertical: 10
+  },
+  detailCopy: {
+    flex: 1
+  },
+  detailLabel: {
+    fontSize: 12,
+    fontWeight: "700"
+  },
+  detailValue: {
+    marginTop: 2,
+    fontSize: 14,
+    fontWeight: "600"
+  },
+  hoursHeader: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+    gap: 8
+  },
+  hoursRow: {
+    flexDirection: "row",
+    gap: 10
+  },
+  hoursDay: {
+    width: 44
   }
 });
@@ -0,0 +1,504 @@
+import { Ionicons } from "@expo/vector-icons";
+import { useFocusEffect } from "@react-navigation/native";
+import * as Application from "expo-application";
+import Constants from "expo-constants";
+import { useRouter } from "expo-router";
+import { useCallback, useMemo, useRef, useState } from "react";
+import { EaseView } from "react-native-ease";
+import { ActivityIndicator, Alert, Platform, Pressable, ScrollView, StyleSheet, Text, View } from "react-native";
+import { SafeAreaView } from "react-native-safe-area-context";
+import {
+  easeEnterTransition,
+  easeInitialFade,
+  easeInitialLift,
+  easeStateTransition,
+  easeVisibleFade,
+  easeVisibleLift
+} from "@/animation/ease";
+import { useMotionTransition } from "@/animation/useReducedMotion";
+import { AppBackground } from "@/components/AppBackground";
+import { StatusChip } from "@/components/StatusChip";
+import { useI18n } from "@/i18n/I18nProvider";
+import {
+  buildNotificationAuditText,
+  compareDeliveries,
+  DeliveryComparison,
+  shareNotificationAudit,
+  syncPresentedNotifications
+} from "@/services/notificationAudit";
+import {
+  AuditSkipReason,
+  clearNotificationAudit,
+  getNotificationAudit,
+  NotificationAudit,
+  ReplanTrigger
+} from "@/services/storage";
+import { useAppTheme } from "@/theme/ThemeProvider";
+
+type LoadState = "idle" | "loading" | "ready" | "error";
+
+// Within this margin a delivery counts as on time; the OS batches alerts by up to a minute.
+const ON_TIME_MS = 60 * 1000;
+const VISIBLE_DELIVERIES = 40;
+
+const TRIGGER_KEYS: Record<ReplanTrigger, string> = {
+  app_open: "notification_log.trigger_app_open",
+  settings: "notification_log.trigger_settings",
+  background: "notification_log.trigger_background"
+};
+
+const SKIP_KEYS: Record<AuditSkipReason, string> = {
+  past: "notification_log.skip_past",
+  disabled: "notification_log.skip_disabled",
+  duplicate: "notification_log.skip_duplicate",
+  budget: "notification_log.skip_budget"
+};
+
+export default function NotificationLogScreen() {
+  const router = useRouter();
+  const { t, localeTag, language } = useI18n();
+  const { colors, resolvedTheme } = useAppTheme();
+  const isLight = resolvedTheme === "light";
+  const enterTransition = useMotionTransition(easeEnterTransition);
+  const stateTransition = useMotionTransition(easeStateTransition);
+
+  const [audit, setAudit] = useState<NotificationAudit | null>(null);
+  const [loadState, setLoadState] = useState<LoadState>("idle");
+  const [expandedReplanId, setExpandedReplanId] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+  const loadRequestRef = useRef(0);
+
+  const load = useCallback(async () => {
+    const requestId = ++loadRequestRef.current;
+    setLoadState("loading");
+    try {
+      await syncPresentedNotifications().catch(() => {
+        // The stored log is still worth showing.
+      });
+      const saved = await getNotificationAudit();
+      if (requestId !== loadRequestRef.current) {
+        return;
+      }
+      setAudit(saved);
+      setLoadState("ready");
+    } catch {
+      if (requestId === loadRequestRef.current) {
+        setLoadState("error");
+      }
+    }
+  }, []);
+
+  useFocusEffect(
+    useCallback(() => {
+      void load();
+    }, [load])
+  );
+
+  const deliveries = useMemo(() => (audit ? compareDeliveries(audit) : []), [audit]);
+  const replans = useMemo(() => (audit ? [...audit.replans].reverse() : []), [audit]);
+  const lastReplan = replans[0] ?? null;
+
+  const formatStamp = useCallback(
+    (value: number) =>
+      new Date(value).toLocaleString(localeTag, {
+        day: "numeric",
+        month: "short",
+        hour: "2-digit",
+        minute: "2-digit",
+        hour12: false
+      }),
+    [localeTag]
+  );
+
+  const formatDelay = useCallback(
+    (row: DeliveryComparison) => {
+      if (row.delayMs === null) {
+        return t("notification_log.not_scheduled");
+      }
+      if (Math.abs(row.delayMs) < ON_TIME_MS) {
+        return t("notification_log.on_time");
+      }
+      const mins = Math.round(Math.abs(row.delayMs) / ON_TIME_MS);
+      return row.delayMs > 0 ? t("notification_log.late", { mins }) : t("notification_log.early", { mins });
+    },
+    [t]
+  );
+
+  const onExport = useCallback(async () => {
+    if (!audit) {
+      return;
+    }
+    setBusy(true);
+    try {
+      const version = Application.nativeApplicationVersion ?? Constants.expoConfig?.version ?? "-";
+      const build = Application.nativeBuildVersion ?? "-";
+      const text = buildNotificationAuditText(audit, [
+        "GoToGo Pray notification log",
+        `App: ${version} (${build})`,
+        `Platform: ${Platform.OS} ${String(Platform.Version)}`,
+        `Language: ${language}`
+      ]);
+      await shareNotificationAudit(text, t("notification_log.title"));
+    } catch {
+      Alert.alert(t("notification_log.title"), t("notification_log.export_failed"));
+    } finally {
+      setBusy(false);
+    }
+  }, [audit, language, t]);
+
+  const onClear = useCallback(() => {
+    Alert.alert(t("notification_log.clear_title"), t("notification_log.clear_body"), [
+      { text: t("qaza.cancel"), style: "cancel" },
+      {
+        text: t("notification_log.clear"),
+        style: "destructive",
+        onPress: () =>
+          void (async () => {
+            await clearNotificationAudit();
+            setExpandedReplanId(null);
+            await load();
+          })()
+      }
+    ]);
+  }, [load, t]);
+
+  const actionStyle = [styles.actionButton, { borderColor: colors.cardBorder }, (busy || !audit) && styles.disabled];
+
+  return (
+    <SafeAreaView style={[styles.safeArea, { backgroundColor: colors.background }]}>
+      <View style={styles.container}>
+        <AppBackground />
+
+        <EaseView initialAnimate={easeInitialLift} animate={easeVisibleLift} transition={enterTransition}>
+          <View style={styles.headerRow}>
+            <Pressable
+              onPress={() => router.back()}
+              hitSlop={8}
+              style={[styles.circleButton, isLight ? styles.circleButtonLight : null]}
+            >
+              <Ionicons name="arrow-back" size={24} color={colors.textPrimary} />
+            </Pressable>
+            <Text style={[styles.headerTitle, { color: colors.textPrimary }]}>{t("notification_log.title")}</Text>
+            <View style={styles.headerSpacer} />
+          </View>
+        </EaseView>
+
+        {loadState === "loading" && !audit ? (
+          <View style={styles.loadingWrap}>
+            <ActivityIndicator color="#2B8CEE" size="small" />
+            <Text style={[styles.loadingText, { color: colors.textSecondary }]}>{t("notification_log.loading")}</Text>
+          </View>
+        ) : loadState === "error" && !audit ? (
+          <View style={styles.loadingWrap}>
+            <Text style={[styles.loadingText, { color: colors.textSecondary }]}>{t("notification_log.error")}</Text>
+            <Pressable style={styles.retryBtn} onPress={() => void load()}>
+              <Text style={styles.retryLabel}>{t("common.retry")}</Text>
+            </Pressable>
+          </View>
+        ) : audit ? (
+          <ScrollView contentContainerStyle={styles.listContent} showsVerticalScrollIndicator={false}>
+            <EaseView initialAnimate={easeInitialFade} animate={easeVisibleFade} transition={stateTransition}>
+              <View style={styles.metaRow}>
+                <Text style={[styles.metaText, { color: colors.textSecondary }]} numberOfLines={2}>
+                  {t("notification_log.subtitle")}
+                </Text>
+                <StatusChip
+                  label={
+                    !lastReplan
+                      ? t("notification_log.status_empty")
+                      : lastReplan.error
+                        ? t("notification_log.status_error")
+                        : t("notification_log.status_ok")
+                  }
+                  tone={!lastReplan ? "info" : lastReplan.error ? "error" : "success"}
+                />
+              </View>
+            </EaseView>
+
+            <View style={styles.actionRow}>
+              <Pressable style={actionStyle} onPress={() => void onExport()} disabled={busy}>
+                <Ionicons name="share-outline" size={18} color={colors.textPrimary} />
+                <Text style={[styles.actionText, { color: colors.textPrimary }]}>{t("notification_log.export")}</Text>
+              </Pressable>
+              <Pressable style={actionStyle} onPress={onClear} disabled={busy}>
+                <Ionicons name="trash-outline" size={18} color={colors.textPrimary} />
+                <Text style={[styles.actionText, { color: colors.textPrimary }]}>{t("notification_log.clear")}</Text>
+              </Pressable>
+            </View>
+
+            <View
+              style={[styles.card, styles.cardPadded, { backgroundColor: colors.card, borderColor: colors.cardBorder }]}
+            >
+              <Text style={[styles.cardLabel, { color: colors.textSecondary }]}>
+                {t("notification_log.deliveries")}
+              </Text>
+              {deliveries.length === 0 ? (
+                <Text style={[styles.emptyText, { color: colors.textSecondary }]}>
+                  {t("notification_log.deliveries_empty")}
+                </Text>
+              ) : (
+                deliveries.slice(0, VISIBLE_DELIVERIES).map((row) => {
+                  const late = row.delayMs !== null && row.delayMs >= ON_TIME_MS;
+                  const notes = [
+                    row.source === "presented" ? t("notification_log.from_tray") : null,
+                    row.tappedAt !== null ? t("notification_log.opened") : null
+                  ].filter(Boolean);
+                  return (
+                    <View key={row.identifier} style={[styles.itemRow, { borderTopColor: colors.cardBorder }]}>
+                      <View style={styles.itemText}>
+                        <Text style={[styles.itemTitle, { color: colors.textPrimary }]} numberOfLines={1}>
+                          {row.kind}
+                        </Text>
+                        <Text style={[styles.itemSub, { color: colors.textSecondary }]}>
+                          {row.scheduledAt !== null
+                            ? t("notification_log.scheduled_delivered", {
+                                scheduled: formatStamp(row.scheduledAt),
+                                delivered: formatStamp(row.deliveredAt)
+                              })
+                            : t("notification_log.delivered", { delivered: formatStamp(row.deliveredAt) })}
+                        </Text>
+                        {notes.length > 0 ? (
+                          <Text style={[styles.itemSub, { color: colors.textSecondary }]}>{notes.join(" • ")}</Text>
+                        ) : null}
+                      </View>
+                      <Text style={[styles.delayText, { color: late ? "#E0A040" : colors.textSecondary }]}>
+                        {formatDelay(row)}
+                      </Text>
+                    </View>
+                  );
+                })
+              )}
+            </View>
+
+            <View
+              style={[styles.card, styles.cardPadded, { backgroundColor: colors.card, borderColor: colors.cardBorder }]}
+            >
+              <Text style={[styles.cardLabel, { color: colors.textSecondary }]}>{t("notification_log.replans")}</Text>
+              {replans.length === 0 ? (
+                <Text style={[styles.emptyText, { color: colors.textSecondary }]}>
+                  {t("notification_log.replans_empty")}
+                </Text>
+              ) : (
+                replans.map((replan) => {
+                  const expanded = expandedReplanId === replan.id;
+                  return (
+                    <View key={replan.id}>
+                      <Pressable
+                        style={[styles.itemRow, { borderTopColor: colors.cardBorder }]}
+                        onPress={() => setExpandedReplanId(expanded ? null : replan.id)}
+                      >
+                        <View style={styles.itemText}>
+                          <Text style={[styles.itemTitle, { color: colors.textPrimary }]}>
+                            {formatStamp(replan.at)} • {t(TRIGGER_KEYS[replan.trigger])}
+                          </Text>
+                          <Text style={[styles.itemSub, { color: colors.textSecondary }]}>
+                            {t("notification_log.replan_counts", {
+                              scheduled: replan.scheduled.length,
+                              budget: replan.budget,
+                              skipped: replan.skipped.length
+                            })}
+                          </Text>
+                          <Text style={[styles.itemSub, { color: colors.textSecondary }]} numberOfLines={1}>
+                            {`${replan.provider} • ${replan.methodId} • ${replan.locationMode}`}
+                          </Text>
+                          {replan.error ? (
+                            <Text style={[styles.itemSub, styles.errorText]} numberOfLines={2}>
+                              {t("notification_log.replan_error", { message: replan.error })}
+                            </Text>
+                          ) : null}
+                        </View>
+                        <Ionicons
+                          name={expanded ? "chevron-up" : "chevron-down"}
+                          size={18}
+                          color={colors.textSecondary}
+                        />
+                      </Pressable>
+                      {expanded ? (
+                        <View style={styles.detailList}>
+                          {replan.scheduled.map((item) => (
+                            <Text
+                              key={`s-${item.dedupeKey}`}
+                              style={[styles.detailText, { color: colors.textPrimary }]}
+                              numberOfLines={1}
+                            >
+                              {`+ ${formatStamp(item.triggerAt)}  ${item.kind}`}
+                            </Text>
+                          ))}
+                          {replan.skipped.map((item) => (
+                            <Text
+                              key={`k-${item.dedupeKey}-${item.reason}`}
+                              style={[styles.detailText, { color: colors.textSecondary }]}
+                              numberOfLines={1}
+                            >
+                              {`− ${item.triggerAt !== null ? formatStamp(item.triggerAt) : "--"}  ` +
+                                `${t(SKIP_KEYS[item.reason])}  ${item.dedupeKey}`}
+                            </Text>
+                          ))}
+                        </View>
+                      ) : null}
+                    </View>
+                  );
+                })
+              )}
+            </View>
+          </ScrollView>
+        ) : null}
+      </View>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  safeArea: {
+    flex: 1
+  },
+  container: {
+    flex: 1,
+    width: "100%",
+    maxWidth: 860,
+    alignSelf: "center",
+    paddingHorizontal: 20,
+    paddingTop: 10
+  },
+  headerRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between"
+  },
+  circleButton: {
+    width: 48,
+    height: 48,
+    borderRadius: 24,
+    alignItems: "center",
+    justifyContent: "center",
+    backgroundColor: "rgba(22,44,68,0.9)",
+    borderWidth: 1,
+    borderColor: "rgba(77,117,153,0.35)"
+  },
+  circleButtonLight: {
+    backgroundColor: "#EAF2FC",
+    borderColor: "#BFD4EA"
+  },
+  headerTitle: {
+    fontSize: 22,
+    fontWeight: "800"
+  },
+  headerSpacer: {
+    width: 48
+  },
+  metaRow: {
+    marginTop: 12,
+    marginBottom: 12,
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+    gap: 10
+  },
+  metaText: {
+    flex: 1,
+    fontSize: 14,
+    fontWeight: "600"
+  },
+  listContent: {
+    paddingBottom: 40
+  },
+  actionRow: {
+    flexDirection: "row",
+    gap: 8,
+    marginBottom: 16
+  },
+  actionButton: {
+    flex: 1,
+    minHeight: 40,
+    borderRadius: 10,
+    borderWidth: 1,
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "center",
+    gap: 6
+  },
+  actionText: {
+    fontSize: 14,
+    fontWeight: "700"
+  },
+  disabled: {
+    opacity: 0.5
+  },
+  card: {
+    borderRadius: 18,
+    borderWidth: 1,
+    paddingHorizontal: 14,
+    marginBottom: 16,
+    overflow: "hidden"
+  },
+  cardPadded: {
+    paddingTop: 12
+  },
+  cardLabel: {
+    fontSize: 12,
+    fontWeight: "700",
+    letterSpacing: 0.8,
+    marginBottom: 8
+  },
+  emptyText: {
+    fontSize: 13,
+    fontWeight: "500",
+    paddingBottom: 14
+  },
+  itemRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+    gap: 12,
+    paddingVertical: 10,
+    borderTopWidth: StyleSheet.hairlineWidth
+  },
+  itemText: {
+    flex: 1
+  },
+  itemTitle: {
+    fontSize: 14,
+    fontWeight: "700"
+  },
+  itemSub: {
+    marginTop: 2,
+    fontSize: 12,
+    fontWeight: "500"
+  },
+  delayText: {
+    fontSize: 12,
+    fontWeight: "700"
+  },
+  errorText: {
+    color: "#E06060"
+  },
+  detailList: {
+    paddingBottom: 10,
+    gap: 3
+  },
+  detailText: {
+    fontSize: 11,
+    fontVariant: ["tabular-nums"]
+  },
+  loadingWrap: {
+    paddingVertical: 32,
+    alignItems: "center",
+    gap: 10
+  },
+  loadingText: {
+    fontSize: 14,
+    fontWeight: "600",
+    textAlign: "center"
+  },
+  retryBtn: {
+    borderRadius: 10,
+    backgroundColor: "#2B8CEE",
+    paddingHorizontal: 16,
+    paddingVertical: 8
+  },
+  retryLabel: {
+    color: "#FFFFFF",
+    fontSize: 13,
+    fontWeight: "700"
+  }
+});
@@ -0,0 +1,430 @@
+import { Ionicons } from "@expo/vector-icons";
+import { useFocusEffect } from "@react-navigation/native";
+import { useRouter } from "expo-router";
+import { useCallback, useState } from "react";
+import { EaseView } from "react-native-ease";
+import { ActivityIndicator, Pressable, ScrollView, StyleSheet, Switch, Text, View } from "react-native";
+import { SafeAreaView } from "react-native-safe-area-context";
+import {
+  easeEnterTransition,
+  easeInitialFade,
+  easeInitialLift,
+  easeStateTransition,
+  easeVisibleFade,
+  easeVisibleLift
+} from "@/animation/ease";
+import { useMotionTransition } from "@/animation/useReducedMotion";
+import { AppBackground } from "@/components/AppBackground";
+import { StatusChip } from "@/components/StatusChip";
+import { useI18n } from "@/i18n/I18nProvider";
+import { resolveLocationPreferCache } from "@/services/location";
+import { replanAll } from "@/services/notifications";
+import { getQuietContext, QuietContext } from "@/services/quietRules";
+import { getFavoriteMosques, getSettings, saveSettings } from "@/services/storage";
+import { FavoriteMosque } from "@/types/mosque";
+import {
+  PRAYER_NAMES,
+  PrayerName,
+  QuietHoursSetting,
+  QuietSettings,
+  Settings,
+  SilentInMosqueSetting
+} from "@/types/prayer";
+import { useAppTheme } from "@/theme/ThemeProvider";
+import { shiftTimeHHmm } from "@/utils/time";
+
+const QUIET_STEP_MINUTES = 30;
+const RADIUS_OPTIONS: SilentInMosqueSetting["radiusMeters"][] = [100, 200, 300, 500];
+
+export default function QuietRulesScreen() {
+  const router = useRouter();
+  const { t, prayerName } = useI18n();
+  const { colors, resolvedTheme } = useAppTheme();
+  const isLight = resolvedTheme === "light";
+  const enterTransition = useMotionTransition(easeEnterTransition);
+  const stateTransition = useMotionTransition(easeStateTransition);
+
+  const [settings, setSettings] = useState<Settings | null>(null);
+  const [favorites, setFavorites] = useState<FavoriteMosque[]>([]);
+  const [context, setContext] = useState<QuietContext | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  const load = useCallback(async () => {
+    const [saved, savedFavorites] = await Promise.all([getSettings(), getFavoriteMosques()]);
+    setSettings(saved);
+    setFavorites(savedFavorites);
+    setContext(await getQuietContext(saved.quiet));
+  }, []);
+
+  useFocusEffect(
+    useCallback(() => {
+      void load();
+    }, [load])
+  );
+
+  const updateQuiet = useCallback(
+    async (patch: { hours?: Partial<QuietHoursSetting>; mosque?: Partial<SilentInMosqueSetting> }) => {
+      if (!settings) {
+        return;
+      }
+      const quiet: QuietSettings = {
+        hours: { ...settings.quiet.hours, ...patch.hours },
+        mosque: { ...settings.quiet.mosque, ...patch.mosque }
+      };
+      const updated: Settings = { ...settings, quiet };
+      setSettings(updated);
+      setSaving(true);
+      try {
+        await saveSettings(updated);
+        setContext(await getQuietContext(quiet));
+        const location = await resolveLocationPreferCache(updated);
+        await replanAll({
+          lat: location.lat,
+          lon: location.lon,
+          methodId: updated.methodId,
+          settings: updated
+        });
+      } catch {
+        // The preference is saved; notifications catch up on the next replan.
+      } finally {
+        setSaving(false);
+      }
+    },
+    [settings]
+  );
+
+  const toggleException = useCallback(
+    (prayer: PrayerName) => {
+      if (!settings) {
+        return;
+      }
+      const current = settings.quiet.hours.exceptPrayers;
+      const next = current.includes(prayer) ? current.filter((item) => item !== prayer) : [...current, prayer];
+      void updateQuiet({ hours: { exceptPrayers: PRAYER_NAMES.filter((item) => next.includes(item)) } });
+    },
+    [settings, updateQuiet]
+  );
+
+  const chipStyle = (selected: boolean) => [
+    styles.chip,
+    { borderColor: colors.cardBorder },
+    selected && { backgroundColor: colors.accent, borderColor: colors.accent },
+    saving && styles.chipDisabled
+  ];
+  const stepButtonStyle = [styles.stepButton, { borderColor: colors.cardBorder }, saving && styles.chipDisabled];
+
+  const mosqueStatus = !settings?.quiet.mosque.enabled
+    ? null
+    : favorites.length === 0
+      ? t("quiet.mosque_no_favorites")
+      : context?.mosque
+        ? t("quiet.mosque_near", { name: context.mosque.name })
+        : t("quiet.mosque_not_near");
+
+  const renderTimeStepper = (field: "start" | "end") => {
+    if (!settings) {
+      return null;
+    }
+    const value = settings.quiet.hours[field];
+    return (
+      <View style={styles.stepperBlock}>
+        <Text style={[styles.cardLabel, { color: colors.textSecondary }]}>{t(`quiet.${field}`)}</Text>
+        <View style={styles.stepperRow}>
+          <Pressable
+            style={stepButtonStyle}
+            onPress={() => void updateQuiet({ hours: { [field]: shiftTimeHHmm(value, -QUIET_STEP_MINUTES) } })}
+            disabled={saving}
+            accessibilityLabel={t("jumuah.earlier")}
+          >
+            <Ionicons name="remove" size={18} color={colors.textPrimary} />
+          </Pressable>
+          <Text style={[styles.timeValue, { color: colors.textPrimary }]}>{value}</Text>
+          <Pressable
+            style={stepButtonStyle}
+            onPress={() => void updateQuiet({ hours: { [field]: shiftTimeHHmm(value, QUIET_STEP_MINUTES) } })}
+            disabled={saving}
+            accessibilityLabel={t("jumuah.later")}
+          >
+            <Ionicons name="add" size={18} color={colors.textPrimary} />
+          </Pressable>
+        </View>
+      </View>
+    );
+  };
+
+  return (
+    <SafeAreaView style={[styles.safeArea, { backgroundColor: colors.background }]}>
+      <View style={styles.container}>
+        <AppBackground />
+
+        <EaseView initialAnimate={easeInitialLift} animate={easeVisibleLift} transition={enterTransition}>
+          <View style={styles.headerRow}>
+            <Pressable
+              onPress={() => router.back()}
+              hitSlop={8}
+              style={[styles.circleButton, isLight ? styles.circleButtonLight : null]}
+            >
+              <Ionicons name="arrow-back" size={24} color={colors.textPrimary} />
+            </Pressable>
+            <Text style={[styles.headerTitle, { color: colors.textPrimary }]}>{t("quiet.title")}</Text>
+            <View style={styles.headerSpacer} />
+          </View>
+        </EaseView>
+
+        {!settings ? (
+          <View style={styles.loadingWrap}>
+            <ActivityIndicator color="#2B8CEE" size="small" />
+          </View>
+        ) : (
+          <ScrollView contentContainerStyle={styles.listContent} showsVerticalScrollIndicator={false}>
+            <EaseView initialAnimate={easeInitialFade} animate={easeVisibleFade} transition={stateTransition}>
+              <Text style={[styles.metaText, { color: colors.textSecondary }]}>{t("quiet.subtitle")}</Text>
+            </EaseView>
+
+            <View style={[styles.card, { backgroundColor: colors.card, borderColor: colors.cardBorder }]}>
+              <View style={styles.switchRow}>
+                <View style={styles.switchTextBlock}>
+                  <Text style={[styles.switchTitle, { color: colors.textPrimary }]}>{t("quiet.hours")}</Text>
+                  <Text style={[styles.switchSub, { color: colors.textSecondary }]}>
+                    {t("quiet.hours_desc", { start: settings.quiet.hours.start, end: settings.quiet.hours.end })}
+                  </Text>
+                </View>
+                <Switch
+                  value={settings.quiet.hours.enabled}
+                  onValueChange={(value) => void updateQuiet({ hours: { enabled: value } })}
+                  disabled={saving}
+                />
+              </View>
+              {settings.quiet.hours.enabled ? (
+                <>
+                  <View style={styles.stepperPair}>
+                    {renderTimeStepper("start")}
+                    {renderTimeStepper("end")}
+                  </View>
+                  <Text style={[styles.cardLabel, { color: colors.textSecondary }]}>{t("quiet.except")}</Text>
+                  <View style={styles.chipRow}>
+                    {PRAYER_NAMES.map((prayer) => {
+                      const selected = settings.quiet.hours.exceptPrayers.includes(prayer);
+                      return (
+                        <Pressable
+                          key={prayer}
+                          style={chipStyle(selected)}
+                          onPress={() => toggleException(prayer)}
+                          disabled={saving}
+                        >
+                          <Text
+                            style={[styles.chipText, { color: selected ? "#F2F8FF" : colors.textPrimary }]}
+                            numberOfLines={1}
+                          >
+                            {prayerName(prayer)}
+                          </Text>
+                        </Pressable>
+                      );
+                    })}
+                  </View>
+                </>
+              ) : null}
+            </View>
+
+            <View style={[styles.card, { backgroundColor: colors.card, borderColor: colors.cardBorder }]}>
+              <View style={styles.switchRow}>
+                <View style={styles.switchTextBlock}>
+                  <Text style={[styles.switchTitle, { color: colors.textPrimary }]}>{t("quiet.mosque")}</Text>
+                  <Text style={[styles.switchSub, { color: colors.textSecondary }]}>{t("quiet.mosque_desc")}</Text>
+                </View>
+                <Switch
+                  value={settings.quiet.mosque.enabled}
+                  onValueChange={(value) => void updateQuiet({ mosque: { enabled: value } })}
+                  disabled={saving}
+                />
+              </View>
+              {settings.quiet.mosque.enabled ? (
+                <>
+                  <Text style={[styles.cardLabel, { color: colors.textSecondary }]}>{t("quiet.radius")}</Text>
+                  <View style={styles.chipRow}>
+                    {RADIUS_OPTIONS.map((option) => {
+                      const selected = settings.quiet.mosque.radiusMeters === option;
+                      return (
+                        <Pressable
+                          key={option}
+                          style={chipStyle(selected)}
+                          onPress={() => void updateQuiet({ mosque: { radiusMeters: option } })}
+                          disabled={saving}
+                        >
+                          <Text style={[styles.chipText, { color: selected ? "#F2F8FF" : colors.textPrimary }]}>
+                            {t("quiet.meters", { meters: option })}
+                          </Text>
+                        </Pressable>
+                      );
+                    })}
+                  </View>
+                  <View style={styles.statusRow}>
+                    <StatusChip label={mosqueStatus ?? ""} tone={context?.mosque ? "success" : "info"} />
+                  </View>
+                  <Pressable
+                    style={[styles.readRow, { borderTopColor: colors.cardBorder }]}
+                    onPress={() => router.push("/mosques?filter=favorites" as never)}
+                  >
+                    <Text style={[styles.linkText, { color: colors.accent }]}>
+                      {t("quiet.manage_favorites", { count: favorites.length })}
+                    </Text>
+                    <Ionicons name="chevron-forward" size={18} color={colors.textSecondary} />
+                  </Pressable>
+                </>
+              ) : null}
+            </View>
+          </ScrollView>
+        )}
+      </View>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  safeArea: {
+    flex: 1
+  },
+  container: {
+    flex: 1,
+    width: "100%",
+    maxWidth: 860,
+    alignSelf: "center",
+    paddingHorizontal: 20,
+    paddingTop: 10
+  },
+  headerRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between"
+  },
+  circleButton: {
+    width: 48,
+    height: 48,
+    borderRadius: 24,
+    alignItems: "center",
+    justifyContent: "center",
+    backgroundColor: "rgba(22,44,68,0.9)",
+    borderWidth: 1,
+    borderColor: "rgba(77,117,153,0.35)"
+  },
+  circleButtonLight: {
+    backgroundColor: "#EAF2FC",
+    borderColor: "#BFD4EA"
+  },
+  headerTitle: {
+    fontSize: 22,
+    fontWeight: "800"
+  },
+  headerSpacer: {
+    width: 48
+  },
+  metaText: {
+    marginTop: 12,
+    marginBottom: 12,
+    fontSize: 14,
+    fontWeight: "600"
+  },
+  listContent: {
+    paddingBottom: 40
+  },
+  card: {
+    borderRadius: 18,
+    borderWidth: 1,
+    paddingHorizontal: 14,
+    marginBottom: 16,
+    overflow: "hidden"
+  },
+  cardLabel: {
+    fontSize: 12,
+    fontWeight: "700",
+    letterSpacing: 0.8,
+    marginBottom: 8
+  },
+  chipRow: {
+    flexDirection: "row",
+    gap: 8,
+    marginBottom: 14
+  },
+  chip: {
+    flex: 1,
+    minHeight: 38,
+    borderRadius: 10,
+    borderWidth: 1,
+    alignItems: "center",
+    justifyContent: "center",
+    paddingHorizontal: 4
+  },
+  chipDisabled: {
+    opacity: 0.5
+  },
+  chipText: {
+    fontSize: 12,
+    fontWeight: "700"
+  },
+  switchRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+    gap: 12,
+    paddingVertical: 12
+  },
+  switchTextBlock: {
+    flex: 1
+  },
+  switchTitle: {
+    fontSize: 15,
+    fontWeight: "700"
+  },
+  switchSub: {
+    marginTop: 2,
+    fontSize: 12,
+    fontWeight: "500"
+  },
+  stepperPair: {
+    flexDirection: "row",
+    gap: 16,
+    marginBottom: 8
+  },
+  stepperBlock: {
+    flex: 1
+  },
+  stepperRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+    marginBottom: 8
+  },
+  stepButton: {
+    width: 40,
+    height: 40,
+    borderRadius: 12,
+    borderWidth: 1,
+    alignItems: "center",
+    justifyContent: "center"
+  },
+  timeValue: {
+    fontSize: 22,
+    fontWeight: "800",
+    fontVariant: ["tabular-nums"]
+  },
+  statusRow: {
+    flexDirection: "row",
+    marginBottom: 12
+  },
+  readRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+    paddingVertical: 12,
+    borderTopWidth: 1
+  },
+  linkText: {
+    fontSize: 14,
+    fontWeight: "700"
+  },
+  loadingWrap: {
+    paddingVertical: 32,
+    alignItems: "center",
+    gap: 10
+  }
+});
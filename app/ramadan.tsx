@@ -0,0 +1,523 @@
+import { Ionicons } from "@expo/vector-icons";
+import { useFocusEffect } from "@react-navigation/native";
+import { useRouter } from "expo-router";
+import { useCallback, useMemo, useRef, useState } from "react";
+import { EaseView } from "react-native-ease";
+import { ActivityIndicator, FlatList, Pressable, StyleSheet, Switch, Text, View } from "react-native";
+import { SafeAreaView } from "react-native-safe-area-context";
+import {
+  easeEnterTransition,
+  easeInitialFade,
+  easeInitialLift,
+  easeStateTransition,
+  easeVisibleFade,
+  easeVisibleLift
+} from "@/animation/ease";
+import { useMotionTransition } from "@/animation/useReducedMotion";
+import { AppBackground } from "@/components/AppBackground";
+import { StatusChip } from "@/components/StatusChip";
+import { useI18n } from "@/i18n/I18nProvider";
+import { resolveLocationPreferCache } from "@/services/location";
+import { replanAll } from "@/services/notifications";
+import { buildRamadanTimetable, getImsakTime, isRamadanActive, RamadanTimetable } from "@/services/ramadan";
+import { getSettings, saveSettings } from "@/services/storage";
+import { RamadanMode, RamadanSettings, Settings } from "@/types/prayer";
+import { useAppTheme } from "@/theme/ThemeProvider";
+import { getDateKey } from "@/utils/time";
+
+type LoadState = "idle" | "loading" | "ready" | "error";
+
+const MODE_OPTIONS: RamadanMode[] = ["auto", "on", "off"];
+const IMSAK_MARGIN_OPTIONS: RamadanSettings["imsakMarginMinutes"][] = [0, 5, 10, 15, 20];
+const SUHOOR_OPTIONS: Array<RamadanSettings["suhoorMinutesBefore"] | "off"> = ["off", 0, 15, 30, 45, 60];
+
+export default function RamadanScreen() {
+  const router = useRouter();
+  const { t, localeTag } = useI18n();
+  const { colors, resolvedTheme } = useAppTheme();
+  const isLight = resolvedTheme === "light";
+  const enterTransition = useMotionTransition(easeEnterTransition);
+  const stateTransition = useMotionTransition(easeStateTransition);
+
+  const [settings, setSettings] = useState<Settings | null>(null);
+  const [timetable, setTimetable] = useState<RamadanTimetable | null>(null);
+  const [loadState, setLoadState] = useState<LoadState>("idle");
+  const [saving, setSaving] = useState(false);
+  const loadRequestRef = useRef(0);
+
+  const load = useCallback(async () => {
+    const requestId = ++loadRequestRef.current;
+    setLoadState("loading");
+    try {
+      const saved = await getSettings();
+      if (requestId !== loadRequestRef.current) {
+        return;
+      }
+      setSettings(saved);
+      const location = await resolveLocationPreferCache(saved);
+      const result = await buildRamadanTimetable({
+        reference: new Date(),
+        location: { lat: location.lat, lon: location.lon },
+        locationLabel: location.label,
+        settings: saved
+      });
+      if (requestId !== loadRequestRef.current) {
+        return;
+      }
+      setTimetable(result);
+      setLoadState(result ? "ready" : "error");
+    } catch {
+      if (requestId === loadRequestRef.current) {
+        setLoadState("error");
+      }
+    }
+  }, []);
+
+  useFocusEffect(
+    useCallback(() => {
+      void load();
+    }, [load])
+  );
+
+  const updateRamadan = useCallback(
+    async (patch: Partial<RamadanSettings>) => {
+      if (!settings) {
+        return;
+      }
+      const updated: Settings = { ...settings, ramadan: { ...settings.ramadan, ...patch } };
+      setSettings(updated);
+      setSaving(true);
+      try {
+        await saveSettings(updated);
+        const location = await resolveLocationPreferCache(updated);
+        await replanAll({
+          lat: location.lat,
+          lon: location.lon,
+          methodId: updated.methodId,
+          settings: updated
+        });
+      } catch {
+        // The preference is saved; notifications catch up on the next replan.
+      } finally {
+        setSaving(false);
+      }
+    },
+    [settings]
+  );
+
+  const todayKey = getDateKey(new Date());
+  const active = settings ? isRamadanActive(settings.ramadan, new Date(), settings.hijriAdjustmentDays) : false;
+  const availableDays = useMemo(
+    () => timetable?.rows.filter((row) => Boolean(row.timings)).length ?? 0,
+    [timetable]
+  );
+
+  const rangeLabel = useMemo(() => {
+    if (!timetable || timetable.rows.length === 0) {
+      return "";
+    }
+    const options: Intl.DateTimeFormatOptions = { day: "numeric", month: "long" };
+    const first = timetable.rows[0].date.toLocaleDateString(localeTag, options);
+    const last = timetable.rows[timetable.rows.length - 1].date.toLocaleDateString(localeTag, options);
+    return t("ramadan.range", { year: timetable.hijriYear, start: first, end: last });
+  }, [localeTag, t, timetable]);
+
+  const chipStyle = (selected: boolean) => [
+    styles.chip,
+    { borderColor: colors.cardBorder },
+    selected && { backgroundColor: colors.accent, borderColor: colors.accent },
+    saving && styles.chipDisabled
+  ];
+
+  const settingsCard = settings ? (
+    <View style={[styles.card, { backgroundColor: colors.card, borderColor: colors.cardBorder }]}>
+      <Text style={[styles.cardLabel, { color: colors.textSecondary }]}>{t("ramadan.mode")}</Text>
+      <View style={styles.chipRow}>
+        {MODE_OPTIONS.map((option) => {
+          const selected = settings.ramadan.mode === option;
+          return (
+            <Pressable
+              key={option}
+              style={chipStyle(selected)}
+              onPress={() => void updateRamadan({ mode: option })}
+              disabled={saving}
+            >
+              <Text style={[styles.chipText, { color: selected ? "#F2F8FF" : colors.textPrimary }]}>
+                {t(`ramadan.mode_${option}`)}
+              </Text>
+            </Pressable>
+          );
+        })}
+      </View>
+
+      <Text style={[styles.cardLabel, { color: colors.textSecondary }]}>{t("ramadan.imsak_margin")}</Text>
+      <View style={styles.chipRow}>
+        {IMSAK_MARGIN_OPTIONS.map((option) => {
+          const selected = settings.ramadan.imsakMarginMinutes === option;
+          return (
+            <Pressable
+              key={option}
+              style={chipStyle(selected)}
+              onPress={() => void updateRamadan({ imsakMarginMinutes: option })}
+              disabled={saving}
+            >
+              <Text style={[styles.chipText, { color: selected ? "#F2F8FF" : colors.textPrimary }]}>
+                {t("ramadan.minutes", { mins: option })}
+              </Text>
+            </Pressable>
+          );
+        })}
+      </View>
+      {settings.timingsProvider === "diyanet" ? (
+        <Text style={[styles.marginNote, { color: colors.textSecondary }]}>{t("ramadan.imsak_margin_diyanet")}</Text>
+      ) : null}
+
+      <Text style={[styles.cardLabel, { color: colors.textSecondary }]}>{t("ramadan.suhoor_reminder")}</Text>
+      <View style={[styles.chipRow, styles.chipRowWrap]}>
+        {SUHOOR_OPTIONS.map((option) => {
+          const selected =
+            option === "off"
+              ? !settings.ramadan.suhoorReminder
+              : settings.ramadan.suhoorReminder && settings.ramadan.suhoorMinutesBefore === option;
+          return (
+            <Pressable
+              key={String(option)}
+              style={[chipStyle(selected), styles.chipWrapItem]}
+              onPress={() =>
+                void updateRamadan(
+                  option === "off" ? { suhoorReminder: false } : { suhoorReminder: true, suhoorMinutesBefore: option }
+                )
+              }
+              disabled={saving}
+            >
+              <Text style={[styles.chipText, { color: selected ? "#F2F8FF" : colors.textPrimary }]}>
+                {option === "off"
+                  ? t("ramadan.reminder_off")
+                  : option === 0
+                    ? t("ramadan.at_imsak")
+                    : t("ramadan.minutes_before", { mins: option })}
+              </Text>
+            </Pressable>
+          );
+        })}
+      </View>
+
+      <View style={[styles.switchRow, { borderTopColor: colors.cardBorder }]}>
+        <View style={styles.switchTextBlock}>
+          <Text style={[styles.switchTitle, { color: colors.textPrimary }]}>{t("ramadan.iftar_reminder")}</Text>
+          <Text style={[styles.switchSub, { color: colors.textSecondary }]}>{t("ramadan.iftar_reminder_desc")}</Text>
+        </View>
+        <Switch
+          value={settings.ramadan.iftarReminder}
+          onValueChange={(value) => void updateRamadan({ iftarReminder: value })}
+          disabled={saving}
+        />
+      </View>
+    </View>
+  ) : null;
+
+  return (
+    <SafeAreaView style={[styles.safeArea, { backgroundColor: colors.background }]}>
+      <View style={styles.container}>
+        <AppBackground />
+
+        <EaseView initialAnimate={easeInitialLift} animate={easeVisibleLift} transition={enterTransition}>
+          <View style={styles.headerRow}>
+            <Pressable
+              onPress={() => router.back()}
+              hitSlop={8}
+              style={[styles.circleButton, isLight ? styles.circleButtonLight : null]}
+            >
+              <Ionicons name="arrow-back" size={24} color={colors.textPrimary} />
+            </Pressable>
+            <Text style={[styles.headerTitle, { color: colors.textPrimary }]}>{t("ramadan.title")}</Text>
+            <Pressable
+              onPress={() => void load()}
+              hitSlop={8}
+              style={[styles.circleButton, isLight ? styles.circleButtonLight : null]}
+            >
+              <Ionicons name="refresh" size={22} color={colors.textPrimary} />
+            </Pressable>
+          </View>
+        </EaseView>
+
+        <EaseView initialAnimate={easeInitialFade} animate={easeVisibleFade} transition={stateTransition}>
+          <View style={styles.metaRow}>
+            <Text style={[styles.rangeText, { color: colors.textSecondary }]} numberOfLines={2}>
+              {rangeLabel}
+            </Text>
+            <StatusChip
+              label={active ? t("ramadan.status_active") : t("ramadan.status_upcoming")}
+              tone={active ? "success" : "info"}
+              visible={Boolean(settings)}
+            />
+          </View>
+        </EaseView>
+
+        <FlatList
+          data={loadState === "ready" ? timetable?.rows ?? [] : []}
+          keyExtractor={(item) => item.dateKey}
+          showsVerticalScrollIndicator={false}
+          contentContainerStyle={styles.listContent}
+          ListHeaderComponent={
+            <>
+              {settingsCard}
+              {loadState === "ready" && timetable ? (
+                <>
+                  <Text style={[styles.availableText, { color: colors.textSecondary }]}>
+                    {t("ramadan.available_count", { available: availableDays, total: timetable.rows.length })}
+                  </Text>
+                  <View style={[styles.tableHeader, { borderBottomColor: colors.cardBorder }]}>
+                    <Text style={[styles.dayCell, styles.headerCell, { color: colors.textSecondary }]}>
+                      {t("ramadan.col_day")}
+                    </Text>
+                    <Text style={[styles.dateCell, styles.headerCell, { color: colors.textSecondary }]}>
+                      {t("ramadan.col_date")}
+                    </Text>
+                    <Text style={[styles.timeCell, styles.headerCell, { color: colors.accent }]}>
+                      {t("ramadan.col_imsak")}
+                    </Text>
+                    <Text style={[styles.timeCell, styles.headerCell, { color: colors.textSecondary }]}>
+                      {t("monthly.fajr")}
+                    </Text>
+                    <Text style={[styles.timeCell, styles.headerCell, { color: colors.accent }]}>
+                      {t("ramadan.col_iftar")}
+                    </Text>
+                  </View>
+                </>
+              ) : null}
+            </>
+          }
+          ListEmptyComponent={
+            loadState === "loading" || loadState === "idle" ? (
+              <View style={styles.loadingWrap}>
+                <ActivityIndicator color="#2B8CEE" size="small" />
+                <Text style={[styles.loadingText, { color: colors.textSecondary }]}>{t("ramadan.loading")}</Text>
+              </View>
+            ) : loadState === "error" ? (
+              <View style={styles.loadingWrap}>
+                <Text style={[styles.loadingText, { color: colors.textSecondary }]}>{t("ramadan.error")}</Text>
+                <Pressable style={styles.retryBtn} onPress={() => void load()}>
+                  <Text style={styles.retryLabel}>{t("common.retry")}</Text>
+                </Pressable>
+              </View>
+            ) : null
+          }
+          renderItem={({ item }) => {
+            const isToday = item.dateKey === todayKey;
+            const muted = !item.timings;
+            const highlightColor = muted ? colors.textSecondary : colors.accent;
+            return (
+              <View
+                style={[
+                  styles.tableRow,
+                  {
+                    borderBottomColor: colors.cardBorder,
+                    backgroundColor: isToday ? (isLight ? "#EAF4FF" : "rgba(43,140,238,0.12)") : "transparent"
+                  }
+                ]}
+              >
+                <Text style={[styles.dayCell, { color: colors.textPrimary }]}>{item.day}</Text>
+                <Text style={[styles.dateCell, { color: colors.textPrimary }]} numberOfLines={1}>
+                  {item.date.toLocaleDateString(localeTag, { weekday: "short", day: "numeric", month: "short" })}
+                </Text>
+                <Text style={[styles.timeCell, styles.timeStrong, { color: highlightColor }]}>
+                  {item.timings && settings ? getImsakTime(item.timings, settings.ramadan) : "--:--"}
+                </Text>
+                <Text style={[styles.timeCell, { color: muted ? colors.textSecondary : colors.textPrimary }]}>
+                  {item.timings?.times.Fajr ?? "--:--"}
+                </Text>
+                <Text style={[styles.timeCell, styles.timeStrong, { color: highlightColor }]}>
+                  {item.timings?.times.Maghrib ?? "--:--"}
+                </Text>
+              </View>
+            );
+          }}
+        />
+      </View>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  safeArea: {
+    flex: 1
+  },
+  container: {
+    flex: 1,
+    width: "100%",
+    maxWidth: 860,
+    alignSelf: "center",
+    paddingHorizontal: 20,
+    paddingTop: 10
+  },
+  headerRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between"
+  },
+  circleButton: {
+    width: 48,
+    height: 48,
+    borderRadius: 24,
+    alignItems: "center",
+    justifyContent: "center",
+    backgroundColor: "rgba(22,44,68,0.9)",
+    borderWidth: 1,
+    borderColor: "rgba(77,117,153,0.35)"
+  },
+  circleButtonLight: {
+    backgroundColor: "#EAF2FC",
+    borderColor: "#BFD4EA"
+  },
+  headerTitle: {
+    fontSize: 22,
+    fontWeight: "800"
+  },
+  metaRow: {
+    marginTop: 12,
+    marginBottom: 12,
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+    gap: 10
+  },
+  rangeText: {
+    flex: 1,
+    fontSize: 14,
+    fontWeight: "600"
+  },
+  listContent: {
+    paddingBottom: 40
+  },
+  card: {
+    borderRadius: 18,
+    borderWidth: 1,
+    paddingHorizontal: 14,
+    paddingTop: 12,
+    marginBottom: 16,
+    overflow: "hidden"
+  },
+  cardLabel: {
+    fontSize: 12,
+    fontWeight: "700",
+    letterSpacing: 0.8,
+    marginBottom: 8
+  },
+  chipRow: {
+    flexDirection: "row",
+    gap: 8,
+    marginBottom: 14
+  },
+  chipRowWrap: {
+    flexWrap: "wrap"
+  },
+  chip: {
+    flex: 1,
+    minHeight: 38,
+    borderRadius: 10,
+    borderWidth: 1,
+    alignItems: "center",
+    justifyContent: "center",
+    paddingHorizontal: 6
+  },
+  chipWrapItem: {
+    flexBasis: "30%"
+  },
+  chipDisabled: {
+    opacity: 0.5
+  },
+  chipText: {
+    fontSize: 13,
+    fontWeight: "700"
+  },
+  switchRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+    gap: 12,
+    paddingVertical: 12,
+    borderTopWidth: 1
+  },
+  switchTextBlock: {
+    flex: 1
+  },
+  switchTitle: {
+    fontSize: 15,
+    fontWeight: "700"
+  },
+  switchSub: {
+    marginTop: 2,
+    fontSize: 12,
+    fontWeight: "500"
+  },
+  marginNote: {
+    marginTop: -6,
+    marginBottom: 14,
+    fontSize: 12,
+    fontWeight: "500"
+  },
+  availableText: {
+    fontSize: 13,
+    fontWeight: "600",
+    marginBottom: 8
+  },
+  tableHeader: {
+    flexDirection: "row",
+    alignItems: "center",
+    paddingVertical: 8,
+    borderBottomWidth: 1
+  },
+  headerCell: {
+    fontSize: 12,
+    fontWeight: "800"
+  },
+  tableRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    minHeight: 40,
+    borderBottomWidth: 1
+  },
+  dayCell: {
+    width: 36,
+    textAlign: "center",
+    fontSize: 13,
+    fontWeight: "700"
+  },
+  dateCell: {
+    flex: 1,
+    fontSize: 13,
+    fontWeight: "600"
+  },
+  timeCell: {
+    width: 60,
+    textAlign: "center",
+    fontSize: 13,
+    fontWeight: "600",
+    fontVariant: ["tabular-nums"]
+  },
+  timeStrong: {
+    fontWeight: "800"
+  },
+  loadingWrap: {
+    paddingVertical: 32,
+    alignItems: "center",
+    gap: 10
+  },
+  loadingText: {
+    fontSize: 14,
+    fontWeight: "600",
+    textAlign: "center"
+  },
+  retryBtn: {
+    borderRadius: 10,
+    backgroundColor: "#2B8CEE",
+    paddingHorizontal: 16,
+    paddingVertical: 8
+  },
+  retryLabel: {
+    color: "#FFFFFF",
+    fontSize: 13,
+    fontWeight: "700"
+  }
+});
@@ -10,9 +10,17 @@ import { useMotionTransition } from "@/animation/useReducedMotion";
 import { AppBackground } from "@/components/AppBackground";
 import { StatusChip } from "@/components/StatusChip";
 import { useI18n } from "@/i18n/I18nProvider";
+import { ConsensusResult, ConsensusRow, fetchConsensusTimings } from "@/services/consensus";
 import { resolveLocationForSettings } from "@/services/location";
-import { getSettings } from "@/services/storage";
-import { buildTimingsCacheKey, getCachedTimings } from "@/services/storage";
+import { replanAll } from "@/services/notifications";
+import {
+  ConsensusThresholdMinutes,
+  getConsensusThresholdMinutes,
+  getSettings,
+  saveConsensusThresholdMinutes,
+  saveSettings
+} from "@/services/storage";
+import { buildTimingsCacheKeyForSettings, getCachedTimings } from "@/services/storage";
 import { analyzeTimingsSanity, TimingSanityIssue } from "@/services/timingValidation";
 import { evaluateTimingTrust, TimingTrust } from "@/services/timingTrust";
 import { getTodayTomorrowTimings } from "@/services/timingsCache";
@@ -22,13 +30,16 @@ import { formatDateTime } from "@/utils/date";
 import { getDateKey, getTomorrow } from "@/utils/time";
 
 type LoadState = "idle" | "loading" | "ready" | "error";
+type ViewMode = "overview" | "compare";
+
+const CONSENSUS_THRESHOLD_OPTIONS: ConsensusThresholdMinutes[] = [2, 5, 10];
 
 type CheckResult = {
   settings: Settings;
   location: { lat: number; lon: number; label: string };
   today: Timings;
   tomorrow: Timings;
-  source: "api" | "cache";
+  source: "api" | "cache" | "fallback";
   lastUpdated: string;
   hadTodayCache: boolean;
   hadTomorrowCache: boolean;
@@ -39,9 +50,35 @@ function providerLabel(settings: Settings, t: (key: string, params?: Record<stri
   if (settings.timingsProvider === "diyanet") {
     return t("source_check.provider_diyanet");
   }
+  if (settings.timingsProvider === "astronomical") {
+    return t("source_check.provider_astronomical", { method: settings.methodId });
+  }
   return t("source_check.provider_aladhan", { method: settings.methodId });
 }
 
+function asrSchoolLabel(settings: Settings, t: (key: string, params?: Record<string, string | number>) => string): string {
+  if (settings.timingsProvider === "diyanet") {
+    return t("source_check.asr_school_diyanet");
+  }
+  return settings.asrSchool === "hanafi" ? t("settings.asr_school_hanafi") : t("settings.asr_school_standard");
+}
+
+function tuneOffsetsLabel(
+  settings: Settings,
+  t: (key: string, params?: Record<string, string | number>) => string,
+  prayerName: (prayer: PrayerName) => string
+): string {
+  const adjusted = PRAYER_NAMES.filter((prayer) => settings.tuneOffsets[prayer] !== 0);
+  if (adjusted.length === 0) {
+    return t("methods.tune_none");
+  }
+  return adjusted.map((prayer) => `${prayerName(prayer)} ${formatOffset(settings.tuneOffsets[prayer])}`).join(", ");
+}
+
+function formatOffset(minutes: number): string {
+  return minutes > 0 ? `+${minutes}` : String(minutes);
+}
+
 function compactLocation(value: string): string {
   return value
     .split(",")
@@ -77,10 +114,17 @@ export default function SourceCheckScreen() {
   const [result, setResult] = useState<CheckResult | null>(null);
   const [error, setError] = useState<string | null>(null);
   const [pressed, setPressed] = useState(false);
+  const [viewMode, setViewMode] = useState<ViewMode>("overview");
+  const [consensus, setConsensus] = useState<ConsensusResult | null>(null);
+  const [consensusState, setConsensusState] = useState<LoadState>("idle");
+  const [threshold, setThreshold] = useState<ConsensusThresholdMinutes>(5);
+  const [switchingKey, setSwitchingKey] = useState<string | null>(null);
 
   const load = useCallback(async () => {
     setState("loading");
     setError(null);
+    setConsensus(null);
+    setConsensusState("idle");
     try {
       const settings = await getSettings();
       const location = await resolveLocationForSettings(settings);
@@ -89,24 +133,8 @@ export default function SourceCheckScreen() {
       const todayKey = getDateKey(today);
       const tomorrowKey = getDateKey(tomorrow);
       const [cachedToday, cachedTomorrow] = await Promise.all([
-        getCachedTimings(
-          buildTimingsCacheKey(
-            todayKey,
-            location.lat,
-            location.lon,
-            settings.methodId,
-            settings.timingsProvider
-          )
-        ),
-        getCachedTimings(
-          buildTimingsCacheKey(
-            tomorrowKey,
-            location.lat,
-            location.lon,
-            settings.methodId,
-            settings.timingsProvider
-          )
-        )
+        getCachedTimings(buildTimingsCacheKeyForSettings(todayKey, location.lat, location.lon, settings)),
+        getCachedTimings(buildTimingsCacheKeyForSettings(tomorrowKey, location.lat, location.lon, settings))
       ]);
 
       const timings = await getTodayTomorrowTimings({
@@ -144,6 +172,76 @@ export default function SourceCheckScreen() {
     void load();
   }, [load]);
 
+  useEffect(() => {
+    void getConsensusThresholdMinutes().then(setThreshold);
+  }, []);
+
+  const loadConsensus = useCallback(async (checked: CheckResult) => {
+    setConsensusState("loading");
+    try {
+      const next = await fetchConsensusTimings({
+        date: new Date(),
+        location: checked.location,
+        locationLabel: checked.location.label,
+        settings: checked.settings
+      });
+      setConsensus(next);
+      setConsensusState("ready");
+    } catch {
+      setConsensusState("error");
+    }
+  }, []);
+
+  useEffect(() => {
+    if (viewMode === "compare" && result && consensusState === "idle") {
+      void loadConsensus(result);
+    }
+  }, [consensusState, loadConsensus, result, viewMode]);
+
+  const updateThreshold = useCallback((minutes: ConsensusThresholdMinutes) => {
+    setThreshold(minutes);
+    void saveConsensusThresholdMinutes(minutes);
+  }, []);
+
+  const switchProvider = useCallback(
+    async (row: ConsensusRow) => {
+      if (!result || row.candidate.active) {
+        return;
+      }
+
+      setSwitchingKey(row.candidate.key);
+      try {
+        const updated: Settings = {
+          ...result.settings,
+          timingsProvider: row.candidate.provider,
+          baseTimings: null,
+          methodId: row.candidate.methodId,
+          methodName:
+            row.candidate.provider === "diyanet"
+              ? t("methods.diyanet_official")
+              : row.candidate.methodName ?? t("methods.method_id", { id: row.candidate.methodId })
+        };
+        await saveSettings(updated);
+
+        try {
+          await replanAll({
+            lat: result.location.lat,
+            lon: result.location.lon,
+            methodId: updated.methodId,
+            settings: updated
+          });
+        } catch {
+          // Persisting provider selection is still valid if replan fails.
+        }
+      } finally {
+        setSwitchingKey(null);
+      }
+
+      await load();
+    },
+    [load, result, t]
+  );
+
   const trust = useMemo(
     () =>
       result
@@ -178,7 +276,14 @@ export default function SourceCheckScreen() {
   const renderPrayerRow = (timings: Timings, prayer: PrayerName) => (
     <View key={`${timings.dateKey}-${prayer}`} style={[styles.prayerRow, { borderColor: colors.cardBorder }]}>
       <Text style={[styles.prayerLabel, { color: colors.textPrimary }]}>{prayerName(prayer)}</Text>
-      <Text style={[styles.prayerTime, { color: colors.textPrimary }]}>{timings.times[prayer]}</Text>
+      <View style={styles.prayerTimeWrap}>
+        {timings.tuneOffsets?.[prayer] ? (
+          <Text style={[styles.prayerOffset, { color: colors.textSecondary }]}>
+            {t("methods.tune_minutes", { value: formatOffset(timings.tuneOffsets[prayer] ?? 0) })}
+          </Text>
+        ) : null}
+        <Text style={[styles.prayerTime, { color: colors.textPrimary }]}>{timings.times[prayer]}</Text>
+      </View>
     </View>
   );
 
@@ -203,6 +308,26 @@ export default function SourceCheckScreen() {
             <View style={styles.statusWrap}>
               <StatusChip label={inlineStatus.label} tone={inlineStatus.tone} />
             </View>
+            <View style={styles.modeRow}>
+              {(["overview", "compare"] as ViewMode[]).map((mode) => {
+                const selected = viewMode === mode;
+                return (
+                  <Pressable
+                    key={mode}
+                    style={[
+                      styles.modeButton,
+                      { borderColor: colors.cardBorder },
+                      selected && { backgroundColor: colors.accent, borderColor: colors.accent }
+                    ]}
+                    onPress={() => setViewMode(mode)}
+                  >
+                    <Text style={[styles.modeButtonText, { color: selected ? "#F2F8FF" : colors.textPrimary }]}>
+                      {mode === "overview" ? t("source_check.mode_overview") : t("source_check.mode_compare")}
+                    </Text>
+                  </Pressable>
+                );
+              })}
+            </View>
           </EaseView>
 
           {state === "loading" && !result ? (
@@ -236,7 +361,19 @@ export default function SourceCheckScreen() {
             </EaseView>
           ) : null}
 
-          {result ? (
+          {result && viewMode === "compare" ? (
+            <ConsensusCard
+              consensus={consensus}
+              state={consensusState}
+              threshold={threshold}
+              switchingKey={switchingKey}
+              onThresholdChange={updateThreshold}
+              onSwitch={(row) => void switchProvider(row)}
+              onRetry={() => void loadConsensus(result)}
+            />
+          ) : null}
+
+          {result && viewMode === "overview" ? (
             <>
               <TrustSummaryCard trust={trust ?? "unknown"} />
 
@@ -251,6 +388,15 @@ export default function SourceCheckScreen() {
                     value={`${result.location.lat.toFixed(4)}, ${result.location.lon.toFixed(4)}`}
                   />
                   <InfoRow label={t("source_check.provider")} value={providerLabel(result.settings, t)} />
+                  <InfoRow label={t("source_check.asr_school")} value={asrSchoolLabel(result.settings, t)} />
+                  <InfoRow
+                    label={t("source_check.high_latitude")}
+                    value={t(`settings.high_latitude_${result.settings.highLatitudeRule}`)}
+                  />
+                  <InfoRow
+                    label={t("source_check.tune_offsets")}
+                    value={tuneOffsetsLabel(result.settings, t, prayerName)}
+                  />
                   <InfoRow
                     label={t("source_check.updated")}
                     value={formatDateTime(result.lastUpdated, localeTag)}
@@ -410,6 +556,190 @@ function SanityCard({ issues }: { issues: TimingSanityIssue[] }) {
   );
 }
 
+function consensusRowLabel(
+  row: ConsensusRow,
+  t: (key: string, params?: Record<string, string | number>) => string
+): string {
+  if (row.candidate.provider === "diyanet") {
+    return t("methods.diyanet_official");
+  }
+  return row.candidate.methodName ?? t("methods.method_id", { id: row.candidate.methodId });
+}
+
+function ConsensusCard({
+  consensus,
+  state,
+  threshold,
+  switchingKey,
+  onThresholdChange,
+  onSwitch,
+  onRetry
+}: {
+  consensus: ConsensusResult | null;
+  state: LoadState;
+  threshold: ConsensusThresholdMinutes;
+  switchingKey: string | null;
+  onThresholdChange: (minutes: ConsensusThresholdMinutes) => void;
+  onSwitch: (row: ConsensusRow) => void;
+  onRetry: () => void;
+}) {
+  const { colors } = useAppTheme();
+  const { t, prayerName } = useI18n();
+  const transition = useMotionTransition(easeEnterTransition);
+  const divergent = useMemo(() => {
+    if (!consensus) {
+      return [] as PrayerName[];
+    }
+    return PRAYER_NAMES.filter((prayer) =>
+      consensus.rows.some((row) => Math.abs(row.diffs[prayer] ?? 0) > threshold)
+    );
+  }, [consensus, threshold]);
+
+  return (
+    <EaseView initialAnimate={easeInitialLift} animate={easeVisibleLift} transition={transition}>
+      <View style={[styles.card, { backgroundColor: colors.card, borderColor: colors.cardBorder }]}>
+        <Text style={[styles.cardTitle, { color: colors.textPrimary }]}>{t("source_check.compare_title")}</Text>
+        <Text style={[styles.detailText, { color: colors.textSecondary }]}>{t("source_check.compare_body")}</Text>
+
+        <Text style={[styles.infoLabel, { color: colors.textSecondary }]}>{t("source_check.compare_threshold")}</Text>
+        <View style={styles.modeRow}>
+          {CONSENSUS_THRESHOLD_OPTIONS.map((minutes) => {
+            const selected = threshold === minutes;
+            return (
+              <Pressable
+                key={minutes}
+                style={[
+                  styles.modeButton,
+                  { borderColor: colors.cardBorder },
+                  selected && { backgroundColor: colors.accent, borderColor: colors.accent }
+                ]}
+                onPress={() => onThresholdChange(minutes)}
+              >
+                <Text style={[styles.modeButtonText, { color: selected ? "#F2F8FF" : colors.textPrimary }]}>
+                  {t("source_check.compare_minutes", { minutes })}
+                </Text>
+              </Pressable>
+            );
+          })}
+        </View>
+
+        {state === "loading" || (state === "idle" && !consensus) ? (
+          <View style={styles.compareLoading}>
+            <ActivityIndicator color="#2B8CEE" />
+            <Text style={[styles.loadingText, { color: colors.textSecondary }]}>
+              {t("source_check.compare_loading")}
+            </Text>
+          </View>
+        ) : null}
+
+        {state === "error" ? (
+          <Pressable style={styles.primaryButton} onPress={onRetry}>
+            <Text style={styles.primaryButtonText}>{t("common.retry")}</Text>
+          </Pressable>
+        ) : null}
+
+        {consensus && state === "ready" ? (
+          <>
+            <View style={styles.statusWrapTight}>
+              <StatusChip
+                label={
+                  divergent.length === 0
+                    ? t("source_check.compare_agree", { minutes: threshold })
+                    : t("source_check.compare_differ", {
+                        prayers: divergent.map((prayer) => prayerName(prayer)).join(", "),
+                        minutes: threshold
+                      })
+                }
+                tone={divergent.length === 0 ? "success" : "warning"}
+              />
+            </View>
+
+            <ScrollView horizontal showsHorizontalScrollIndicator={false}>
+              <View>
+                <View style={[styles.compareRow, { borderColor: colors.cardBorder }]}>
+                  <View style={styles.compareSourceCell} />
+                  {PRAYER_NAMES.map((prayer) => (
+                    <Text
+                      key={prayer}
+                      style={[styles.compareHeaderCell, { color: colors.textSecondary }]}
+                      numberOfLines={1}
+                    >
+                      {prayerName(prayer)}
+                    </Text>
+                  ))}
+                </View>
+
+                {consensus.rows.map((row) => {
+                  const isReference = row.candidate.key === consensus.referenceKey;
+                  return (
+                    <View key={row.candidate.key} style={[styles.compareRow, { borderColor: colors.cardBorder }]}>
+                      <View style={styles.compareSourceCell}>
+                        <Text style={[styles.compareSourceName, { color: colors.textPrimary }]} numberOfLines={2}>
+                          {consensusRowLabel(row, t)}
+                        </Text>
+                        <Text style={[styles.compareSourceMeta, { color: colors.textSecondary }]} numberOfLines={1}>
+                          {row.candidate.active
+                            ? t("source_check.compare_active")
+                            : isReference
+                              ? t("source_check.compare_reference")
+                              : row.timings
+                                ? row.trust === "needs-check"
+                                  ? t("source_check.trust_attention_title")
+                                  : t("source_check.trust_live_title")
+                                : t("source_check.compare_failed")}
+                        </Text>
+                        {!row.candidate.active && row.timings ? (
+                          <Pressable
+                            style={[styles.compareSwitchButton, { borderColor: colors.accent }]}
+                            onPress={() => onSwitch(row)}
+                            disabled={switchingKey !== null}
+                          >
+                            {switchingKey === row.candidate.key ? (
+                              <ActivityIndicator color="#2B8CEE" size="small" />
+                            ) : (
+                              <Text style={[styles.compareSwitchText, { color: colors.accent }]}>
+                                {t("source_check.compare_use")}
+                              </Text>
+                            )}
+                          </Pressable>
+                        ) : null}
+                      </View>
+                      {PRAYER_NAMES.map((prayer) => {
+                        const diff = row.diffs[prayer];
+                        const highlighted = typeof diff === "number" && Math.abs(diff) > threshold;
+                        return (
+                          <View
+                            key={prayer}
+                            style={[styles.compareCell, highlighted && styles.compareCellHighlighted]}
+                          >
+                            <Text style={[styles.compareTime, { color: colors.textPrimary }]}>
+                              {row.timings?.times[prayer] ?? "--:--"}
+                            </Text>
+                            {!isReference && typeof diff === "number" && diff !== 0 ? (
+                              <Text
+                                style={[
+                                  styles.compareDiff,
+                                  { color: highlighted ? "#E5484D" : colors.textSecondary }
+                                ]}
+                              >
+                                {formatOffset(diff)}
+                              </Text>
+                            ) : null}
+                          </View>
+                        );
+                      })}
+                    </View>
+                  );
+                })}
+              </View>
+            </ScrollView>
+          </>
+        ) : null}
+      </View>
+    </EaseView>
+  );
+}
+
 function TimingCard({
   title,
   timings,
@@ -564,6 +894,15 @@ const styles = StyleSheet.create({
     fontSize: 18,
     fontWeight: "900"
   },
+  prayerTimeWrap: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 8
+  },
+  prayerOffset: {
+    fontSize: 12,
+    fontWeight: "700"
+  },
   primaryButton: {
     minHeight: 56,
     borderRadius: 18,
@@ -578,5 +917,86 @@ const styles = StyleSheet.create({
     color: "#FFFFFF",
     fontSize: 17,
     fontWeight: "900"
+  },
+  modeRow: {
+    flexDirection: "row",
+    gap: 8,
+    marginTop: 8,
+    marginBottom: 14
+  },
+  modeButton: {
+    minHeight: 36,
+    borderRadius: 12,
+    borderWidth: 1,
+    paddingHorizontal: 14,
+    alignItems: "center",
+    justifyContent: "center"
+  },
+  modeButtonText: {
+    fontSize: 14,
+    fontWeight: "800"
+  },
+  compareLoading: {
+    minHeight: 120,
+    alignItems: "center",
+    justifyContent: "center",
+    gap: 10
+  },
+  compareRow: {
+    minHeight: 48,
+    borderTopWidth: 1,
+    flexDirection: "row",
+    alignItems: "center"
+  },
+  compareSourceCell: {
+    width: 150,
+    paddingVertical: 8,
+    paddingRight: 10,
+    gap: 2
+  },
+  compareSourceName: {
+    fontSize: 13,
+    fontWeight: "800"
+  },
+  compareSourceMeta: {
+    fontSize: 11,
+    fontWeight: "600"
+  },
+  compareSwitchButton: {
+    alignSelf: "flex-start",
+    minHeight: 26,
+    borderRadius: 8,
+    borderWidth: 1,
+    paddingHorizontal: 10,
+    marginTop: 4,
+    alignItems: "center",
+    justifyContent: "center"
+  },
+  compareSwitchText: {
+    fontSize: 12,
+    fontWeight: "800"
+  },
+  compareHeaderCell: {
+    width: 66,
+    textAlign: "center",
+    fontSize: 12,
+    fontWeight: "800"
+  },
+  compareCell: {
+    width: 66,
+    paddingVertical: 6,
+    borderRadius: 8,
+    alignItems: "center"
+  },
+  compareCellHighlighted: {
+    backgroundColor: "rgba(229, 72, 77, 0.14)"
+  },
+  compareTime: {
+    fontSize: 14,
+    fontWeight: "800"
+  },
+  compareDiff: {
+    fontSize: 11,
+    fontWeight: "700"
   }
 });
@@ -3,7 +3,7 @@ import { Ionicons } from "@expo/vector-icons";
 import { useFocusEffect } from "@react-navigation/native";
 import { useLocalSearchParams, useRouter } from "expo-router";
 import { useCallback, useEffect, useMemo, useRef, useState } from "react";
-import { ActivityIndicator, Pressable, StyleSheet, Text, View } from "react-native";
+import { ActivityIndicator, Alert, Platform, Pressable, ScrollView, StyleSheet, Text, View } from "react-native";
 import { EaseView } from "react-native-ease";
 import { SafeAreaView } from "react-native-safe-area-context";
 import {
@@ -22,11 +22,26 @@ import { StatusChip } from "@/components/StatusChip";
 import { useI18n } from "@/i18n/I18nProvider";
 import { resolveLocationForSettings } from "@/services/location";
 import { replanAll } from "@/services/notifications";
-import { getSettings, saveSettings } from "@/services/storage";
+import { getCustomTones, getSettings, saveSettings } from "@/services/storage";
+import {
+  deleteCustomTone,
+  getBuiltInToneLabelKey,
+  getTonePreviewSource,
+  importCustomTone,
+  isCustomTone,
+  NOTIFICATION_SOUND_MAX_SECONDS
+} from "@/services/toneLibrary";
 import { useAppTheme } from "@/theme/ThemeProvider";
-import { PRAYER_NAMES, PrayerName, Settings } from "@/types/prayer";
+import {
+  BUILT_IN_TONES,
+  CustomTone,
+  CustomToneId,
+  NotificationTone,
+  PRAYER_NAMES,
+  PrayerName,
+  Settings
+} from "@/types/prayer";
 
-const TONES: Array<"Adhan" | "Beep"> = ["Adhan", "Beep"];
 type PreviewState = "idle" | "preparing" | "playing" | "error";
 type InlineStatusTone = "success" | "loading" | "error" | "info" | "warning";
 
@@ -41,7 +56,9 @@ export default function ToneSelectionScreen() {
   const [pressedTone, setPressedTone] = useState<string | null>(null);
   const [pressedPreviewTone, setPressedPreviewTone] = useState<string | null>(null);
   const [previewState, setPreviewState] = useState<PreviewState>("idle");
-  const [previewTone, setPreviewTone] = useState<"Adhan" | "Beep" | null>(null);
+  const [previewTone, setPreviewTone] = useState<NotificationTone | null>(null);
+  const [customTones, setCustomTones] = useState<CustomTone[]>([]);
+  const [importing, setImporting] = useState(false);
   const [inlineStatus, setInlineStatus] = useState<{ label: string; tone: InlineStatusTone } | null>(null);
   const soundRef = useRef<Audio.Sound | null>(null);
   const statusTimeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null);
@@ -77,8 +94,9 @@ export default function ToneSelectionScreen() {
   );
 
   const load = useCallback(async () => {
-    const saved = await getSettings();
+    const [saved, savedTones] = await Promise.all([getSettings(), getCustomTones()]);
     setSettings(saved);
+    setCustomTones(savedTones);
   }, []);
 
   useFocusEffect(
@@ -131,7 +149,7 @@ export default function ToneSelectionScreen() {
   }, []);
 
   const onSelectTone = useCallback(
-    async (tone: "Adhan" | "Beep") => {
+    async (tone: NotificationTone) => {
       if (!settings || !prayer) {
         return;
       }
@@ -191,18 +209,20 @@ export default function ToneSelectionScreen() {
   const currentTone = settings?.prayerNotifications[prayer].tone ?? "Beep";
 
   const onPreviewTone = useCallback(
-    async (tone: "Adhan" | "Beep") => {
+    async (tone: NotificationTone) => {
       if (savingTone) {
         return;
       }
 
-      if (tone === "Beep") {
-        showInlineStatus(t("alert.inline_preview_unavailable"), "info");
+      const source = getTonePreviewSource(tone);
+      if (!source) {
+        const unavailableKey = tone === "Beep" ? "alert.inline_preview_unavailable" : "alert.inline_preview_error";
+        showInlineStatus(t(unavailableKey), "info");
         return;
       }
 
       try {
-        if (previewTone === "Adhan" && previewState === "playing") {
+        if (previewTone === tone && previewState === "playing") {
           await cleanupPreview();
           showInlineStatus(t("alert.inline_preview_stopped"), "info", 1500);
           return;
@@ -211,7 +231,7 @@ export default function ToneSelectionScreen() {
         clearInlineStatusTimeout();
         setInlineStatus({ label: t("alert.inline_preview_playing"), tone: "loading" });
         setPreviewState("preparing");
-        setPreviewTone("Adhan");
+        setPreviewTone(tone);
 
         await cleanupPreview();
         await Audio.setAudioModeAsync({
@@ -219,7 +239,7 @@ export default function ToneSelectionScreen() {
           staysActiveInBackground: false
         });
 
-        const { sound } = await Audio.Sound.createAsync(require("../assets/sounds/adhan_short.wav"));
+        const { sound } = await Audio.Sound.createAsync(source);
         soundRef.current = sound;
         sound.setOnPlaybackStatusUpdate((status: AVPlaybackStatus) => {
           if (!status.isLoaded) {
@@ -238,23 +258,96 @@ export default function ToneSelectionScreen() {
           }
           if (status.isPlaying) {
             setPreviewState("playing");
-            setPreviewTone("Adhan");
+            setPreviewTone(tone);
           }
         });
 
         await sound.playAsync();
         setPreviewState("playing");
-        setPreviewTone("Adhan");
+        setPreviewTone(tone);
       } catch {
         await cleanupPreview();
         setPreviewState("error");
-        setPreviewTone("Adhan");
+        setPreviewTone(tone);
         showInlineStatus(t("alert.inline_preview_error"), "error", 2200);
       }
     },
     [cleanupPreview, clearInlineStatusTimeout, previewState, previewTone, savingTone, showInlineStatus, t]
   );
 
+  const onImportTone = useCallback(async () => {
+    setImporting(true);
+    try {
+      const imported = await importCustomTone();
+      if (!imported) {
+        return;
+      }
+      setCustomTones((prev) => [...prev, imported]);
+      showInlineStatus(
+        imported.trimmed
+          ? t("tones.imported_trimmed", { seconds: NOTIFICATION_SOUND_MAX_SECONDS })
+          : t("tones.imported"),
+        "success",
+        3200
+      );
+    } catch {
+      showInlineStatus(t("tones.import_failed"), "error", 3200);
+    } finally {
+      setImporting(false);
+    }
+  }, [showInlineStatus, t]);
+
+  // Prayers that used a deleted tone go back to the default adhan.
+  const removeTone = useCallback(
+    async (id: CustomToneId) => {
+      if (previewTone === id) {
+        await cleanupPreview();
+      }
+      await deleteCustomTone(id);
+      setCustomTones((prev) => prev.filter((tone) => tone.id !== id));
+
+      if (!settings || !PRAYER_NAMES.some((name) => settings.prayerNotifications[name].tone === id)) {
+        return;
+      }
+      const updated: Settings = {
+        ...settings,
+        prayerNotifications: PRAYER_NAMES.reduce(
+          (acc, name) => {
+            const entry = settings.prayerNotifications[name];
+            acc[name] = entry.tone === id ? { ...entry, tone: "Adhan" } : entry;
+            return acc;
+          },
+          {} as Settings["prayerNotifications"]
+        )
+      };
+      await saveSettings(updated);
+      setSettings(updated);
+      try {
+        const loc = await resolveLocationForSettings(updated);
+        await replanAll({ lat: loc.lat, lon: loc.lon, methodId: updated.methodId, settings: updated });
+      } catch {
+        // Alerts fall back to the system sound until the next replan.
+      }
+    },
+    [cleanupPreview, previewTone, settings]
+  );
+
+  const onDeleteTone = useCallback(
+    (tone: CustomTone) => {
+      Alert.alert(t("tones.delete_title"), t("tones.delete_message", { name: tone.name }), [
+        { text: t("qaza.cancel"), style: "cancel" },
+        { text: t("tones.delete"), style: "destructive", onPress: () => void removeTone(tone.id) }
+      ]);
+    },
+    [removeTone, t]
+  );
+
+  const tones: NotificationTone[] = [...BUILT_IN_TONES, ...customTones.map((tone) => tone.id)];
+  const toneLabel = (tone: NotificationTone) =>
+    isCustomTone(tone)
+      ? customTones.find((item) => item.id === tone)?.name ?? tone
+      : t(getBuiltInToneLabelKey(tone));
+
   return (
     <SafeAreaView style={[styles.safeArea, { backgroundColor: colors.background }]}>
       <View style={styles.container}>
@@ -278,94 +371,132 @@ export default function ToneSelectionScreen() {
           <StatusChip label={inlineStatus?.label ?? ""} tone={inlineStatus?.tone ?? "info"} visible={!!inlineStatus} />
         </EaseView>
 
-        <EaseView
-          style={[styles.card, { backgroundColor: colors.card, borderColor: colors.cardBorder }]}
-          initialAnimate={easeInitialFade}
-          animate={easeVisibleFade}
-          transition={enterTransition}
-        >
-          {TONES.map((tone, index) => {
-            const selected = currentTone === tone;
-            const previewActive = previewTone === tone && previewState === "playing";
-            const previewBusy = previewTone === tone && previewState === "preparing";
-            const tonePressed = pressedTone === tone;
-            const previewPressed = pressedPreviewTone === tone;
-            return (
-              <EaseView
-                key={tone}
-                animate={{ scale: tonePressed ? 0.992 : 1 }}
-                transition={pressTransition}
-              >
-                <Pressable
-                  style={[
-                    styles.row,
-                    index < TONES.length - 1 ? { borderBottomColor: colors.cardBorder, borderBottomWidth: 1 } : null,
-                    selected
-                      ? isLight
-                        ? { backgroundColor: "#DDEEFF" }
-                        : { backgroundColor: "#173A5E" }
-                      : null
-                  ]}
-                  onPress={() => void onSelectTone(tone)}
-                  onPressIn={() => setPressedTone(tone)}
-                  onPressOut={() => setPressedTone(null)}
-                  disabled={savingTone !== null}
+        <ScrollView showsVerticalScrollIndicator={false} contentContainerStyle={styles.scrollContent}>
+          <EaseView
+            style={[styles.card, { backgroundColor: colors.card, borderColor: colors.cardBorder }]}
+            initialAnimate={easeInitialFade}
+            animate={easeVisibleFade}
+            transition={enterTransition}
+          >
+            {tones.map((tone, index) => {
+              const custom = isCustomTone(tone) ? customTones.find((item) => item.id === tone) : undefined;
+              const selected = currentTone === tone;
+              const previewActive = previewTone === tone && previewState === "playing";
+              const previewBusy = previewTone === tone && previewState === "preparing";
+              const tonePressed = pressedTone === tone;
+              const previewPressed = pressedPreviewTone === tone;
+              return (
+                <EaseView
+                  key={tone}
+                  animate={{ scale: tonePressed ? 0.992 : 1 }}
+                  transition={pressTransition}
                 >
-                  <View style={styles.rowTextWrap}>
-                    <Text
-                      style={[
-                        styles.rowTitle,
-                        { color: isLight ? "#1A2E45" : "#EAF2FF" },
-                        selected ? { color: "#1E78D9" } : null
-                      ]}
-                    >
-                      {tone === "Adhan" ? t("alert.tone_adhan") : t("alert.tone_beep")}
-                    </Text>
-                  </View>
-
-                  <View style={styles.rowRight}>
-                    <EaseView
-                      animate={{
-                        scale: previewPressed ? 0.95 : 1,
-                        opacity: savingTone !== null && savingTone !== tone ? 0.55 : 1
-                      }}
-                      transition={buttonTransition}
-                    >
-                      <Pressable
-                        onPress={() => void onPreviewTone(tone)}
-                        onPressIn={() => setPressedPreviewTone(tone)}
-                        onPressOut={() => setPressedPreviewTone(null)}
-                        disabled={savingTone !== null || previewBusy}
+                  <Pressable
+                    style={[
+                      styles.row,
+                      index < tones.length - 1 ? { borderBottomColor: colors.cardBorder, borderBottomWidth: 1 } : null,
+                      selected
+                        ? isLight
+                          ? { backgroundColor: "#DDEEFF" }
+                          : { backgroundColor: "#173A5E" }
+                        : null
+                    ]}
+                    onPress={() => void onSelectTone(tone)}
+                    onPressIn={() => setPressedTone(tone)}
+                    onPressOut={() => setPressedTone(null)}
+                    disabled={savingTone !== null}
+                  >
+                    <View style={styles.rowTextWrap}>
+                      <Text
                         style={[
-                          styles.previewButton,
-                          previewActive
-                            ? isLight
-                              ? { backgroundColor: "#DDEEFF" }
-                              : { backgroundColor: "#204564" }
-                            : isLight
-                              ? { backgroundColor: "#EEF4FA" }
-                              : { backgroundColor: "#14293D" }
+                          styles.rowTitle,
+                          { color: isLight ? "#1A2E45" : "#EAF2FF" },
+                          selected ? { color: "#1E78D9" } : null
                         ]}
                       >
-                        {previewBusy ? (
-                          <ActivityIndicator size="small" color="#2B8CEE" />
-                        ) : (
-                          <Ionicons
-                            name={previewActive ? "stop-circle" : "play-circle"}
-                            size={22}
-                            color="#2B8CEE"
-                          />
-                        )}
-                      </Pressable>
-                    </EaseView>
-                    {savingTone === tone ? <ActivityIndicator size="small" color="#2B8CEE" /> : null}
-                    {selected ? <Ionicons name="checkmark-circle" size={22} color="#2B8CEE" /> : null}
-                  </View>
-                </Pressable>
-              </EaseView>
-            );
-          })}
-        </EaseView>
+                        {toneLabel(tone)}
+                      </Text>
+                      {custom ? (
+                        <Text style={[styles.rowSub, { color: colors.textSecondary }]}>
+                          {custom.trimmed
+                            ? t("tones.custom_trimmed", { seconds: custom.durationSeconds })
+                            : t("tones.custom_length", { seconds: custom.durationSeconds })}
+                        </Text>
+                      ) : null}
+                    </View>
+
+                    <View style={styles.rowRight}>
+                      <EaseView
+                        animate={{
+                          scale: previewPressed ? 0.95 : 1,
+                          opacity: savingTone !== null && savingTone !== tone ? 0.55 : 1
+                        }}
+                        transition={buttonTransition}
+                      >
+                        <Pressable
+                          onPress={() => void onPreviewTone(tone)}
+                          onPressIn={() => setPressedPreviewTone(tone)}
+                          onPressOut={() => setPressedPreviewTone(null)}
+                          disabled={savingTone !== null || previewBusy}
+                          style={[
+                            styles.previewButton,
+                            previewActive
+                              ? isLight
+                                ? { backgroundColor: "#DDEEFF" }
+                                : { backgroundColor: "#204564" }
+                              : isLight
+                                ? { backgroundColor: "#EEF4FA" }
+                                : { backgroundColor: "#14293D" }
+                          ]}
+                        >
+                          {previewBusy ? (
+                            <ActivityIndicator size="small" color="#2B8CEE" />
+                          ) : (
+                            <Ionicons
+                              name={previewActive ? "stop-circle" : "play-circle"}
+                              size={22}
+                              color="#2B8CEE"
+                            />
+                          )}
+                        </Pressable>
+                      </EaseView>
+                      {custom ? (
+                        <Pressable
+                          hitSlop={6}
+                          onPress={() => onDeleteTone(custom)}
+                          disabled={savingTone !== null}
+                          accessibilityLabel={t("tones.delete")}
+                        >
+                          <Ionicons name="trash-outline" size={20} color="#FF667D" />
+                        </Pressable>
+                      ) : null}
+                      {savingTone === tone ? <ActivityIndicator size="small" color="#2B8CEE" /> : null}
+                      {selected ? <Ionicons name="checkmark-circle" size={22} color="#2B8CEE" /> : null}
+                    </View>
+                  </Pressable>
+                </EaseView>
+              );
+            })}
+          </EaseView>
+
+          <Pressable
+            style={[styles.importButton, { borderColor: colors.cardBorder, backgroundColor: colors.card }]}
+            onPress={() => void onImportTone()}
+            disabled={importing}
+          >
+            {importing ? (
+              <ActivityIndicator size="small" color="#2B8CEE" />
+            ) : (
+              <Ionicons name="add-circle-outline" size={20} color="#2B8CEE" />
+            )}
+            <Text style={styles.importButtonText}>{t("tones.import")}</Text>
+          </Pressable>
+          <Text style={[styles.importHint, { color: colors.textSecondary }]}>
+            {t(Platform.OS === "ios" ? "tones.import_hint_ios" : "tones.import_hint_android", {
+              seconds: NOTIFICATION_SOUND_MAX_SECONDS
+            })}
+          </Text>
+        </ScrollView>
       </View>
     </SafeAreaView>
   );
@@ -433,6 +564,11 @@ const styles = StyleSheet.create({
     fontSize: 16,
     fontWeight: "700"
   },
+  rowSub: {
+    marginTop: 2,
+    fontSize: 12,
+    fontWeight: "500"
+  },
   rowRight: {
     flexDirection: "row",
     alignItems: "center",
@@ -444,5 +580,28 @@ const styles = StyleSheet.create({
     borderRadius: 19,
     alignItems: "center",
     justifyContent: "center"
+  },
+  scrollContent: {
+    paddingBottom: 32
+  },
+  importButton: {
+    marginTop: 14,
+    minHeight: 52,
+    borderRadius: 16,
+    borderWidth: 1,
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "center",
+    gap: 8
+  },
+  importButtonText: {
+    color: "#2B8CEE",
+    fontSize: 15,
+    fontWeight: "700"
+  },
+  importHint: {
+    marginTop: 8,
+    fontSize: 12,
+    lineHeight: 17
   }
 });
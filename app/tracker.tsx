@@ -0,0 +1,526 @@
+import { Ionicons } from "@expo/vector-icons";
+import { useFocusEffect } from "@react-navigation/native";
+import { useRouter } from "expo-router";
+import { useCallback, useMemo, useRef, useState } from "react";
+import { EaseView } from "react-native-ease";
+import { ActivityIndicator, Pressable, ScrollView, StyleSheet, Text, View } from "react-native";
+import { SafeAreaView } from "react-native-safe-area-context";
+import {
+  easeEnterTransition,
+  easeInitialFade,
+  easeInitialLift,
+  easeVisibleFade,
+  easeVisibleLift
+} from "@/animation/ease";
+import { useMotionTransition } from "@/animation/useReducedMotion";
+import { AppBackground } from "@/components/AppBackground";
+import { StatusChip } from "@/components/StatusChip";
+import { useI18n } from "@/i18n/I18nProvider";
+import { resolveLocationPreferCache } from "@/services/location";
+import {
+  getDailyCompletion,
+  getMissedPrayers,
+  getMonthlyCompletion,
+  getPunctuality,
+  getStreaks,
+  MissedPrayer,
+  transferMissedToQaza
+} from "@/services/prayerTracker";
+import { getPrayerLog, getSettings, PrayerLog } from "@/services/storage";
+import { getRangeTimings } from "@/services/timingsCache";
+import { Timings, TRACKED_PRAYERS } from "@/types/prayer";
+import { useAppTheme } from "@/theme/ThemeProvider";
+import { getDateKey } from "@/utils/time";
+
+type LoadState = "idle" | "loading" | "ready" | "error";
+
+const WEEK_DAYS = 7;
+const MONTHS_SHOWN = 6;
+// On-time statistics look back this far; older cached prayer times are usually gone.
+const PUNCTUALITY_DAYS = 30;
+const CHART_HEIGHT = 96;
+
+export default function TrackerScreen() {
+  const router = useRouter();
+  const { t, prayerName, localeTag } = useI18n();
+  const { colors, resolvedTheme } = useAppTheme();
+  const isLight = resolvedTheme === "light";
+  const enterTransition = useMotionTransition(easeEnterTransition);
+
+  const [log, setLog] = useState<PrayerLog>({});
+  const [recentTimings, setRecentTimings] = useState<Array<{ date: Date; dateKey: string; timings: Timings | null }>>(
+    []
+  );
+  const [loadState, setLoadState] = useState<LoadState>("idle");
+  const [transferring, setTransferring] = useState(false);
+  const loadRequestRef = useRef(0);
+
+  const today = useMemo(() => new Date(), []);
+
+  const load = useCallback(async () => {
+    const requestId = ++loadRequestRef.current;
+    setLoadState("loading");
+    try {
+      const [savedLog, settings] = await Promise.all([getPrayerLog(), getSettings()]);
+      if (requestId !== loadRequestRef.current) {
+        return;
+      }
+      setLog(savedLog);
+      setLoadState("ready");
+
+      // Cache only: the breakdown uses whatever times were shown on those days, and one extra day
+      // so tonight's Isha can be measured against tomorrow's Fajr.
+      const location = await resolveLocationPreferCache(settings);
+      const start = new Date(today.getFullYear(), today.getMonth(), today.getDate() - PUNCTUALITY_DAYS + 1);
+      const rows = await getRangeTimings({
+        start,
+        days: PUNCTUALITY_DAYS + 1,
+        location: { lat: location.lat, lon: location.lon },
+        settings,
+        fetchMissing: false
+      });
+      if (requestId === loadRequestRef.current) {
+        setRecentTimings(rows.map((row) => ({ date: row.date, dateKey: row.dateKey, timings: row.timings })));
+      }
+    } catch {
+      if (requestId === loadRequestRef.current) {
+        setLoadState((prev) => (prev === "ready" ? prev : "error"));
+      }
+    }
+  }, [today]);
+
+  useFocusEffect(
+    useCallback(() => {
+      void load();
+    }, [load])
+  );
+
+  const streaks = useMemo(() => getStreaks(log, today), [log, today]);
+  const week = useMemo(() => getDailyCompletion(log, today, WEEK_DAYS), [log, today]);
+  const months = useMemo(() => getMonthlyCompletion(log, today, MONTHS_SHOWN), [log, today]);
+  const punctuality = useMemo(() => getPunctuality(log, recentTimings), [log, recentTimings]);
+  const missed = useMemo(() => getMissedPrayers(log), [log]);
+  const punctualityTotal = punctuality.onTime + punctuality.late;
+
+  const transfer = useCallback(async (items: MissedPrayer[]) => {
+    setTransferring(true);
+    try {
+      let next: PrayerLog | null = null;
+      for (const item of items) {
+        next = await transferMissedToQaza(item.dateKey, item.prayer);
+      }
+      if (next) {
+        setLog(next);
+      }
+    } finally {
+      setTransferring(false);
+    }
+  }, []);
+
+  const formatWeekday = (date: Date) => date.toLocaleDateString(localeTag, { weekday: "short" });
+  const formatMonth = (date: Date) => date.toLocaleDateString(localeTag, { month: "short" });
+  const formatDay = (date: Date) =>
+    date.toLocaleDateString(localeTag, { weekday: "short", day: "numeric", month: "short" });
+
+  const cardStyle = [styles.card, { backgroundColor: colors.card, borderColor: colors.cardBorder }];
+  const todayKey = getDateKey(today);
+
+  return (
+    <SafeAreaView style={[styles.safeArea, { backgroundColor: colors.background }]}>
+      <View style={styles.container}>
+        <AppBackground />
+
+        <EaseView initialAnimate={easeInitialLift} animate={easeVisibleLift} transition={enterTransition}>
+          <View style={styles.headerRow}>
+            <Pressable
+              onPress={() => router.back()}
+              hitSlop={8}
+              style={[styles.circleButton, isLight ? styles.circleButtonLight : null]}
+            >
+              <Ionicons name="arrow-back" size={24} color={colors.textPrimary} />
+            </Pressable>
+            <Text style={[styles.headerTitle, { color: colors.textPrimary }]}>{t("tracker.title")}</Text>
+            <View style={styles.headerSpacer} />
+          </View>
+        </EaseView>
+
+        {loadState === "loading" && Object.keys(log).length === 0 ? (
+          <View style={styles.loadingWrap}>
+            <ActivityIndicator color="#2B8CEE" size="small" />
+          </View>
+        ) : loadState === "error" ? (
+          <View style={styles.loadingWrap}>
+            <Text style={[styles.loadingText, { color: colors.textSecondary }]}>{t("tracker.load_failed")}</Text>
+            <Pressable style={styles.retryBtn} onPress={() => void load()}>
+              <Text style={styles.retryText}>{t("common.retry")}</Text>
+            </Pressable>
+          </View>
+        ) : (
+          <ScrollView contentContainerStyle={styles.listContent} showsVerticalScrollIndicator={false}>
+            <EaseView
+              style={styles.metaRow}
+              initialAnimate={easeInitialFade}
+              animate={easeVisibleFade}
+              transition={enterTransition}
+            >
+              <StatusChip
+                label={
+                  Object.keys(log).length === 0
+                    ? t("tracker.empty")
+                    : t("tracker.streak_summary", { count: streaks.current })
+                }
+                tone={streaks.current > 0 ? "success" : "info"}
+              />
+            </EaseView>
+
+            <View style={[cardStyle, styles.statsRow]}>
+              <View style={styles.statBlock}>
+                <Text style={[styles.statValue, { color: colors.textPrimary }]}>{streaks.current}</Text>
+                <Text style={[styles.statLabel, { color: colors.textSecondary }]}>{t("tracker.current_streak")}</Text>
+              </View>
+              <View style={[styles.statDivider, { backgroundColor: colors.cardBorder }]} />
+              <View style={styles.statBlock}>
+                <Text style={[styles.statValue, { color: colors.textPrimary }]}>{streaks.best}</Text>
+                <Text style={[styles.statLabel, { color: colors.textSecondary }]}>{t("tracker.best_streak")}</Text>
+              </View>
+            </View>
+
+            <View style={cardStyle}>
+              <Text style={[styles.cardLabel, { color: colors.textSecondary }]}>{t("tracker.this_week")}</Text>
+              <View style={styles.chart}>
+                {week.map((day) => (
+                  <View key={day.dateKey} style={styles.chartColumn}>
+                    <Text style={[styles.chartValue, { color: colors.textSecondary }]}>{day.prayed}</Text>
+                    <View style={[styles.chartTrack, { backgroundColor: colors.cardBorder }]}>
+                      <View
+                        style={[
+                          styles.chartFill,
+                          {
+                            height: (CHART_HEIGHT * day.prayed) / TRACKED_PRAYERS.length,
+                            backgroundColor: day.prayed === TRACKED_PRAYERS.length ? "#1BBF84" : colors.accent
+                          }
+                        ]}
+                      />
+                    </View>
+                    <Text
+                      style={[
+                        styles.chartLabel,
+                        { color: day.dateKey === todayKey ? colors.accent : colors.textSecondary }
+                      ]}
+                    >
+                      {formatWeekday(day.date)}
+                    </Text>
+                  </View>
+                ))}
+              </View>
+            </View>
+
+            <View style={cardStyle}>
+              <Text style={[styles.cardLabel, { color: colors.textSecondary }]}>{t("tracker.monthly")}</Text>
+              <View style={styles.chart}>
+                {months.map((month) => {
+                  const ratio = month.possible > 0 ? Math.min(1, month.prayed / month.possible) : 0;
+                  return (
+                    <View key={month.month.toISOString()} style={styles.chartColumn}>
+                      <Text style={[styles.chartValue, { color: colors.textSecondary }]}>
+                        {month.possible > 0 ? `${Math.round(ratio * 100)}%` : "–"}
+                      </Text>
+                      <View style={[styles.chartTrack, { backgroundColor: colors.cardBorder }]}>
+                        <View
+                          style={[styles.chartFill, { height: CHART_HEIGHT * ratio, backgroundColor: colors.accent }]}
+                        />
+                      </View>
+                      <Text style={[styles.chartLabel, { color: colors.textSecondary }]}>
+                        {formatMonth(month.month)}
+                      </Text>
+                    </View>
+                  );
+                })}
+              </View>
+            </View>
+
+            <View style={cardStyle}>
+              <Text style={[styles.cardLabel, { color: colors.textSecondary }]}>
+                {t("tracker.punctuality", { days: PUNCTUALITY_DAYS })}
+              </Text>
+              {punctualityTotal > 0 ? (
+                <>
+                  <View style={[styles.splitBar, { backgroundColor: colors.cardBorder }]}>
+                    <View style={[styles.splitOnTime, { flex: punctuality.onTime }]} />
+                    <View style={[styles.splitLate, { flex: punctuality.late }]} />
+                  </View>
+                  <View style={styles.legendRow}>
+                    <View style={styles.legendItem}>
+                      <View style={[styles.legendDot, styles.splitOnTime]} />
+                      <Text style={[styles.legendText, { color: colors.textPrimary }]}>
+                        {t("tracker.on_time", { count: punctuality.onTime })}
+                      </Text>
+                    </View>
+                    <View style={styles.legendItem}>
+                      <View style={[styles.legendDot, styles.splitLate]} />
+                      <Text style={[styles.legendText, { color: colors.textPrimary }]}>
+                        {t("tracker.late", { count: punctuality.late })}
+                      </Text>
+                    </View>
+                  </View>
+                </>
+              ) : (
+                <Text style={[styles.hintText, { color: colors.textSecondary }]}>{t("tracker.punctuality_empty")}</Text>
+              )}
+              {punctuality.unknown > 0 ? (
+                <Text style={[styles.hintText, { color: colors.textSecondary }]}>
+                  {t("tracker.punctuality_unknown", { count: punctuality.unknown })}
+                </Text>
+              ) : null}
+              <Text style={[styles.hintText, { color: colors.textSecondary }]}>{t("tracker.punctuality_hint")}</Text>
+            </View>
+
+            <View style={cardStyle}>
+              <View style={styles.missedHeader}>
+                <Text style={[styles.cardLabel, { color: colors.textSecondary }]}>{t("tracker.missed")}</Text>
+                {missed.length > 1 ? (
+                  <Pressable disabled={transferring} hitSlop={8} onPress={() => void transfer(missed)}>
+                    <Text style={[styles.linkText, { color: colors.accent }]}>{t("tracker.add_all_to_qaza")}</Text>
+                  </Pressable>
+                ) : null}
+              </View>
+              {missed.length === 0 ? (
+                <Text style={[styles.hintText, { color: colors.textSecondary }]}>{t("tracker.missed_empty")}</Text>
+              ) : (
+                missed.map((item) => (
+                  <View
+                    key={`${item.dateKey}-${item.prayer}`}
+                    style={[styles.missedRow, { borderTopColor: colors.cardBorder }]}
+                  >
+                    <View>
+                      <Text style={[styles.missedPrayer, { color: colors.textPrimary }]}>
+                        {prayerName(item.prayer)}
+                      </Text>
+                      <Text style={[styles.missedDate, { color: colors.textSecondary }]}>{formatDay(item.date)}</Text>
+                    </View>
+                    <Pressable
+                      disabled={transferring}
+                      style={[styles.qazaButton, { borderColor: colors.accent }, transferring && styles.disabled]}
+                      onPress={() => void transfer([item])}
+                    >
+                      <Text style={[styles.qazaButtonText, { color: colors.accent }]}>{t("tracker.add_to_qaza")}</Text>
+                    </Pressable>
+                  </View>
+                ))
+              )}
+            </View>
+
+            <Text style={[styles.hintText, { color: colors.textSecondary }]}>{t("tracker.how_to_log")}</Text>
+          </ScrollView>
+        )}
+      </View>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  safeArea: {
+    flex: 1
+  },
+  container: {
+    flex: 1,
+    width: "100%",
+    maxWidth: 860,
+    alignSelf: "center",
+    paddingHorizontal: 20,
+    paddingTop: 10
+  },
+  headerRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between"
+  },
+  circleButton: {
+    width: 48,
+    height: 48,
+    borderRadius: 24,
+    alignItems: "center",
+    justifyContent: "center",
+    backgroundColor: "rgba(22,44,68,0.9)",
+    borderWidth: 1,
+    borderColor: "rgba(77,117,153,0.35)"
+  },
+  circleButtonLight: {
+    backgroundColor: "#EAF2FC",
+    borderColor: "#BFD4EA"
+  },
+  headerTitle: {
+    fontSize: 22,
+    fontWeight: "800"
+  },
+  headerSpacer: {
+    width: 48
+  },
+  metaRow: {
+    marginTop: 12,
+    marginBottom: 12
+  },
+  listContent: {
+    paddingBottom: 40
+  },
+  card: {
+    borderRadius: 18,
+    borderWidth: 1,
+    padding: 14,
+    marginBottom: 16
+  },
+  cardLabel: {
+    fontSize: 12,
+    fontWeight: "700",
+    letterSpacing: 0.8,
+    marginBottom: 10
+  },
+  statsRow: {
+    flexDirection: "row",
+    alignItems: "center"
+  },
+  statBlock: {
+    flex: 1,
+    alignItems: "center"
+  },
+  statValue: {
+    fontSize: 30,
+    fontWeight: "800",
+    fontVariant: ["tabular-nums"]
+  },
+  statLabel: {
+    marginTop: 2,
+    fontSize: 13,
+    fontWeight: "600"
+  },
+  statDivider: {
+    width: 1,
+    alignSelf: "stretch"
+  },
+  chart: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    gap: 8
+  },
+  chartColumn: {
+    flex: 1,
+    alignItems: "center",
+    gap: 4
+  },
+  chartValue: {
+    fontSize: 12,
+    fontWeight: "700",
+    fontVariant: ["tabular-nums"]
+  },
+  chartTrack: {
+    width: "100%",
+    maxWidth: 28,
+    height: CHART_HEIGHT,
+    borderRadius: 8,
+    justifyContent: "flex-end",
+    overflow: "hidden"
+  },
+  chartFill: {
+    width: "100%",
+    borderRadius: 8
+  },
+  chartLabel: {
+    fontSize: 11,
+    fontWeight: "600"
+  },
+  splitBar: {
+    height: 14,
+    borderRadius: 7,
+    flexDirection: "row",
+    overflow: "hidden"
+  },
+  splitOnTime: {
+    backgroundColor: "#1BBF84"
+  },
+  splitLate: {
+    backgroundColor: "#E0A43A"
+  },
+  legendRow: {
+    marginTop: 10,
+    flexDirection: "row",
+    gap: 16
+  },
+  legendItem: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 6
+  },
+  legendDot: {
+    width: 10,
+    height: 10,
+    borderRadius: 5
+  },
+  legendText: {
+    fontSize: 13,
+    fontWeight: "600"
+  },
+  hintText: {
+    marginTop: 6,
+    fontSize: 12,
+    fontWeight: "500"
+  },
+  missedHeader: {
+    flexDirection: "row",
+    alignItems: "flex-start",
+    justifyContent: "space-between"
+  },
+  linkText: {
+    fontSize: 13,
+    fontWeight: "700"
+  },
+  missedRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+    paddingVertical: 10,
+    borderTopWidth: 1
+  },
+  missedPrayer: {
+    fontSize: 15,
+    fontWeight: "700"
+  },
+  missedDate: {
+    marginTop: 2,
+    fontSize: 12,
+    fontWeight: "500"
+  },
+  qazaButton: {
+    borderRadius: 10,
+    borderWidth: 1,
+    paddingHorizontal: 12,
+    paddingVertical: 8
+  },
+  qazaButtonText: {
+    fontSize: 13,
+    fontWeight: "700"
+  },
+  disabled: {
+    opacity: 0.5
+  },
+  loadingWrap: {
+    paddingVertical: 32,
+    alignItems: "center",
+    gap: 10
+  },
+  loadingText: {
+    fontSize: 14,
+    fontWeight: "600",
+    textAlign: "center"
+  },
+  retryBtn: {
+    borderRadius: 10,
+    backgroundColor: "#2B8CEE",
+    paddingHorizontal: 16,
+    paddingVertical: 10
+  },
+  retryText: {
+    color: "#FFFFFF",
+    fontSize: 14,
+    fontWeight: "700"
+  }
+});
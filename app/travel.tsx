@@ -0,0 +1,401 @@
+import { Ionicons } from "@expo/vector-icons";
+import { useFocusEffect } from "@react-navigation/native";
+import { useRouter } from "expo-router";
+import { useCallback, useState } from "react";
+import { EaseView } from "react-native-ease";
+import { ActivityIndicator, Pressable, ScrollView, StyleSheet, Switch, Text, View } from "react-native";
+import { SafeAreaView } from "react-native-safe-area-context";
+import {
+  easeEnterTransition,
+  easeInitialFade,
+  easeInitialLift,
+  easeStateTransition,
+  easeVisibleFade,
+  easeVisibleLift
+} from "@/animation/ease";
+import { useMotionTransition } from "@/animation/useReducedMotion";
+import { AppBackground } from "@/components/AppBackground";
+import { StatusChip } from "@/components/StatusChip";
+import { useI18n } from "@/i18n/I18nProvider";
+import { resolveLocationPreferCache } from "@/services/location";
+import { replanAll } from "@/services/notifications";
+import { getSettings, saveSettings } from "@/services/storage";
+import {
+  endTravel,
+  getDistanceFromHomeKm,
+  getTravelHome,
+  locateTraveler,
+  setTravelHome,
+  TRAVEL_DISTANCE_OPTIONS
+} from "@/services/travel";
+import { Settings, TravelPlace, TravelSettings } from "@/types/prayer";
+import { useAppTheme } from "@/theme/ThemeProvider";
+
+export default function TravelScreen() {
+  const router = useRouter();
+  const { t, localeTag } = useI18n();
+  const { colors, resolvedTheme } = useAppTheme();
+  const isLight = resolvedTheme === "light";
+  const enterTransition = useMotionTransition(easeEnterTransition);
+  const stateTransition = useMotionTransition(easeStateTransition);
+
+  const [settings, setSettings] = useState<Settings | null>(null);
+  const [position, setPosition] = useState<TravelPlace | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  const load = useCallback(async () => {
+    setSettings(await getSettings());
+    setPosition(await locateTraveler().catch(() => null));
+  }, []);
+
+  useFocusEffect(
+    useCallback(() => {
+      void load();
+    }, [load])
+  );
+
+  const save = useCallback(async (updated: Settings, replan: boolean) => {
+    setSettings(updated);
+    setSaving(true);
+    try {
+      await saveSettings(updated);
+      if (replan) {
+        const location = await resolveLocationPreferCache(updated);
+        await replanAll({
+          lat: location.lat,
+          lon: location.lon,
+          methodId: updated.methodId,
+          settings: updated
+        });
+      }
+    } catch {
+      // The preference is saved; notifications catch up on the next replan.
+    } finally {
+      setSaving(false);
+    }
+  }, []);
+
+  const updateTravel = useCallback(
+    (patch: Partial<TravelSettings>) => {
+      if (settings) {
+        void save({ ...settings, travel: { ...settings.travel, ...patch } }, false);
+      }
+    },
+    [save, settings]
+  );
+
+  const onUseHere = useCallback(() => {
+    if (settings && position) {
+      void save(setTravelHome(settings, position), false);
+    }
+  }, [position, save, settings]);
+
+  const onEndTravel = useCallback(() => {
+    if (settings) {
+      void save(endTravel(settings), true);
+    }
+  }, [save, settings]);
+
+  const chipStyle = (selected: boolean) => [
+    styles.chip,
+    { borderColor: colors.cardBorder },
+    selected && { backgroundColor: colors.accent, borderColor: colors.accent },
+    saving && styles.chipDisabled
+  ];
+
+  const home = settings ? getTravelHome(settings) : null;
+  const distanceKm = settings && position ? getDistanceFromHomeKm(settings, position) : null;
+  const active = settings?.travel.active ?? null;
+
+  return (
+    <SafeAreaView style={[styles.safeArea, { backgroundColor: colors.background }]}>
+      <View style={styles.container}>
+        <AppBackground />
+
+        <EaseView initialAnimate={easeInitialLift} animate={easeVisibleLift} transition={enterTransition}>
+          <View style={styles.headerRow}>
+            <Pressable
+              onPress={() => router.back()}
+              hitSlop={8}
+              style={[styles.circleButton, isLight ? styles.circleButtonLight : null]}
+            >
+              <Ionicons name="arrow-back" size={24} color={colors.textPrimary} />
+            </Pressable>
+            <Text style={[styles.headerTitle, { color: colors.textPrimary }]}>{t("travel.title")}</Text>
+            <View style={styles.headerSpacer} />
+          </View>
+        </EaseView>
+
+        {!settings ? (
+          <View style={styles.loadingWrap}>
+            <ActivityIndicator color="#2B8CEE" size="small" />
+          </View>
+        ) : (
+          <ScrollView contentContainerStyle={styles.listContent} showsVerticalScrollIndicator={false}>
+            <EaseView initialAnimate={easeInitialFade} animate={easeVisibleFade} transition={stateTransition}>
+              <View style={styles.metaRow}>
+                <Text style={[styles.metaText, { color: colors.textSecondary }]} numberOfLines={2}>
+                  {active
+                    ? t("travel.since", {
+                        place: active.place.label,
+                        date: new Date(active.since).toLocaleDateString(localeTag, { day: "numeric", month: "short" })
+                      })
+                    : distanceKm !== null
+                      ? t("travel.distance_now", { km: Math.round(distanceKm) })
+                      : t("travel.subtitle")}
+                </Text>
+                <StatusChip
+                  label={active ? t("travel.status_traveling") : t("travel.status_home")}
+                  tone={active ? "warning" : "success"}
+                />
+              </View>
+            </EaseView>
+
+            {active ? (
+              <View style={[styles.card, { backgroundColor: colors.card, borderColor: colors.cardBorder }]}>
+                <View style={styles.switchRow}>
+                  <View style={styles.switchTextBlock}>
+                    <Text style={[styles.switchTitle, { color: colors.textPrimary }]}>{t("travel.end")}</Text>
+                    <Text style={[styles.switchSub, { color: colors.textSecondary }]}>
+                      {settings.locationMode === "manual" && home
+                        ? t("travel.end_desc_manual", { home: home.label })
+                        : t("travel.end_desc")}
+                    </Text>
+                  </View>
+                  <Pressable style={[styles.actionBtn, saving && styles.chipDisabled]} onPress={onEndTravel}>
+                    <Text style={styles.actionLabel}>{t("travel.end_button")}</Text>
+                  </Pressable>
+                </View>
+              </View>
+            ) : null}
+
+            <View
+              style={[styles.card, styles.cardPadded, { backgroundColor: colors.card, borderColor: colors.cardBorder }]}
+            >
+              <View style={[styles.switchRow, styles.switchRowTop]}>
+                <View style={styles.switchTextBlock}>
+                  <Text style={[styles.switchTitle, { color: colors.textPrimary }]}>{t("travel.detect")}</Text>
+                  <Text style={[styles.switchSub, { color: colors.textSecondary }]}>
+                    {t("travel.detect_desc", { km: settings.travel.distanceKm })}
+                  </Text>
+                </View>
+                <Switch
+                  value={settings.travel.detect}
+                  onValueChange={(value) => updateTravel({ detect: value })}
+                  disabled={saving}
+                />
+              </View>
+              <Text style={[styles.cardLabel, { color: colors.textSecondary }]}>{t("travel.distance")}</Text>
+              <View style={styles.chipRow}>
+                {TRAVEL_DISTANCE_OPTIONS.map((option) => {
+                  const selected = settings.travel.distanceKm === option;
+                  return (
+                    <Pressable
+                      key={option}
+                      style={chipStyle(selected)}
+                      onPress={() => updateTravel({ distanceKm: option })}
+                      disabled={saving}
+                    >
+                      <Text style={[styles.chipText, { color: selected ? "#F2F8FF" : colors.textPrimary }]}>
+                        {t("travel.km", { km: option })}
+                      </Text>
+                    </Pressable>
+                  );
+                })}
+              </View>
+            </View>
+
+            <View style={[styles.card, { backgroundColor: colors.card, borderColor: colors.cardBorder }]}>
+              <View style={styles.switchRow}>
+                <View style={styles.switchTextBlock}>
+                  <Text style={[styles.switchTitle, { color: colors.textPrimary }]}>{t("travel.combine")}</Text>
+                  <Text style={[styles.switchSub, { color: colors.textSecondary }]}>{t("travel.combine_desc")}</Text>
+                </View>
+                <Switch
+                  value={settings.travel.combineHints}
+                  onValueChange={(value) => updateTravel({ combineHints: value })}
+                  disabled={saving}
+                />
+              </View>
+            </View>
+
+            <View
+              style={[styles.card, styles.cardPadded, { backgroundColor: colors.card, borderColor: colors.cardBorder }]}
+            >
+              <Text style={[styles.cardLabel, { color: colors.textSecondary }]}>{t("travel.home")}</Text>
+              <Text style={[styles.switchTitle, { color: colors.textPrimary }]} numberOfLines={2}>
+                {home?.label ?? t("travel.home_unset")}
+              </Text>
+              <Text style={[styles.switchSub, styles.homeNote, { color: colors.textSecondary }]}>
+                {settings.locationMode === "manual" ? t("travel.home_manual") : t("travel.home_gps")}
+              </Text>
+              {settings.locationMode === "gps" && !active ? (
+                <Pressable
+                  style={[
+                    styles.readRow,
+                    { borderTopColor: colors.cardBorder },
+                    (!position || saving) && styles.chipDisabled
+                  ]}
+                  onPress={onUseHere}
+                  disabled={!position || saving}
+                >
+                  <Text style={[styles.linkText, { color: colors.accent }]}>
+                    {position ? t("travel.use_here", { place: position.label }) : t("travel.no_position")}
+                  </Text>
+                  <Ionicons name="locate" size={18} color={colors.textSecondary} />
+                </Pressable>
+              ) : null}
+            </View>
+          </ScrollView>
+        )}
+      </View>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  safeArea: {
+    flex: 1
+  },
+  container: {
+    flex: 1,
+    width: "100%",
+    maxWidth: 860,
+    alignSelf: "center",
+    paddingHorizontal: 20,
+    paddingTop: 10
+  },
+  headerRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between"
+  },
+  circleButton: {
+    width: 48,
+    height: 48,
+    borderRadius: 24,
+    alignItems: "center",
+    justifyContent: "center",
+    backgroundColor: "rgba(22,44,68,0.9)",
+    borderWidth: 1,
+    borderColor: "rgba(77,117,153,0.35)"
+  },
+  circleButtonLight: {
+    backgroundColor: "#EAF2FC",
+    borderColor: "#BFD4EA"
+  },
+  headerTitle: {
+    fontSize: 22,
+    fontWeight: "800"
+  },
+  headerSpacer: {
+    width: 48
+  },
+  metaRow: {
+    marginTop: 12,
+    marginBottom: 12,
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+    gap: 10
+  },
+  metaText: {
+    flex: 1,
+    fontSize: 14,
+    fontWeight: "600"
+  },
+  listContent: {
+    paddingBottom: 40
+  },
+  card: {
+    borderRadius: 18,
+    borderWidth: 1,
+    paddingHorizontal: 14,
+    marginBottom: 16,
+    overflow: "hidden"
+  },
+  cardPadded: {
+    paddingTop: 12
+  },
+  cardLabel: {
+    fontSize: 12,
+    fontWeight: "700",
+    letterSpacing: 0.8,
+    marginBottom: 8
+  },
+  chipRow: {
+    flexDirection: "row",
+    gap: 8,
+    marginBottom: 14
+  },
+  chip: {
+    flex: 1,
+    minHeight: 38,
+    borderRadius: 10,
+    borderWidth: 1,
+    alignItems: "center",
+    justifyContent: "center",
+    paddingHorizontal: 6
+  },
+  chipDisabled: {
+    opacity: 0.5
+  },
+  chipText: {
+    fontSize: 13,
+    fontWeight: "700"
+  },
+  switchRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+    gap: 12,
+    paddingVertical: 12
+  },
+  switchRowTop: {
+    paddingTop: 0
+  },
+  switchTextBlock: {
+    flex: 1
+  },
+  switchTitle: {
+    fontSize: 15,
+    fontWeight: "700"
+  },
+  switchSub: {
+    marginTop: 2,
+    fontSize: 12,
+    fontWeight: "500"
+  },
+  homeNote: {
+    marginBottom: 12
+  },
+  actionBtn: {
+    borderRadius: 10,
+    backgroundColor: "#2B8CEE",
+    paddingHorizontal: 14,
+    paddingVertical: 8
+  },
+  actionLabel: {
+    color: "#FFFFFF",
+    fontSize: 13,
+    fontWeight: "700"
+  },
+  linkText: {
+    flex: 1,
+    fontSize: 14,
+    fontWeight: "700"
+  },
+  readRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+    gap: 10,
+    paddingVertical: 12,
+    borderTopWidth: 1
+  },
+  loadingWrap: {
+    paddingVertical: 32,
+    alignItems: "center",
+    gap: 10
+  }
+});
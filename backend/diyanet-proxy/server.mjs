@@ -17,6 +17,14 @@ const COORDINATE_TIMINGS_FALLBACK_ENABLED = String(process.env.COORDINATE_TIMING
   .trim()
   .toLowerCase() !== "false";
 
+// Aladhan latitudeAdjustmentMethod values for the high-latitude rules the app can select.
+const highLatitudeAdjustmentMethods = {
+  middle_of_night: 1,
+  one_seventh: 2,
+  angle_based: 3
+};
+const DEFAULT_HIGH_LATITUDE_RULE = "angle_based";
+
 let tokenState = null; // { token: string, expMs: number }
 let citiesState = null; // { items: Array<City>, atMs: number }
 const timingsCache = new Map(); // key -> { payload, expMs }
@@ -311,6 +319,7 @@ async function handleRequest(req, res) {
     const cityQuery = String(url.searchParams.get("city") || "").trim();
     const countryQuery = String(url.searchParams.get("country") || "").trim();
     const countryCodeQuery = String(url.searchParams.get("countryCode") || "").trim().toUpperCase();
+    const highLatitudeRule = normalizeHighLatitudeRule(url.searchParams.get("highLatitudeRule"));
 
     if (!Number.isFinite(lat) || !Number.isFinite(lon)) {
       sendJson(res, 400, { error: "Invalid lat/lon" });
@@ -329,7 +338,8 @@ async function handleRequest(req, res) {
       cityId: cityIdParam,
       city: cityQuery,
       country: countryQuery,
-      countryCode: countryCodeQuery
+      countryCode: countryCodeQuery,
+      highLatitudeRule
     });
     const cached = getCachedTimingsResponse(requestCacheKey);
     if (cached) {
@@ -459,7 +469,7 @@ async function handleRequest(req, res) {
       return;
     }
 
-    const coordinateFallback = await tryCoordinateMonthlyFallback({ lat, lon, year, month });
+    const coordinateFallback = await tryCoordinateMonthlyFallback({ lat, lon, year, month, highLatitudeRule });
     if (coordinateFallback?.days && Object.keys(coordinateFallback.days).length > 0) {
       const payload = {
         year,
@@ -506,6 +516,7 @@ async function handleRequest(req, res) {
   const cityQuery = String(url.searchParams.get("city") || "").trim();
   const countryQuery = String(url.searchParams.get("country") || "").trim();
   const countryCodeQuery = String(url.searchParams.get("countryCode") || "").trim().toUpperCase();
+  const highLatitudeRule = normalizeHighLatitudeRule(url.searchParams.get("highLatitudeRule"));
 
   if (!Number.isFinite(lat) || !Number.isFinite(lon)) {
     sendJson(res, 400, { error: "Invalid lat/lon" });
@@ -523,7 +534,8 @@ async function handleRequest(req, res) {
     cityId: cityIdParam,
     city: cityQuery,
     country: countryQuery,
-    countryCode: countryCodeQuery
+    countryCode: countryCodeQuery,
+    highLatitudeRule
   });
   const cached = getCachedTimingsResponse(requestCacheKey);
   if (cached) {
@@ -611,7 +623,7 @@ async function handleRequest(req, res) {
       return;
     }
 
-    const coordinateFallback = await tryCoordinateFallback({ lat, lon, dateKey });
+    const coordinateFallback = await tryCoordinateFallback({ lat, lon, dateKey, highLatitudeRule });
     if (coordinateFallback?.times) {
       const payload = {
         dateKey,
@@ -728,7 +740,7 @@ async function handleRequest(req, res) {
     return;
   }
 
-  const coordinateFallback = await tryCoordinateFallback({ lat, lon, dateKey });
+  const coordinateFallback = await tryCoordinateFallback({ lat, lon, dateKey, highLatitudeRule });
   if (coordinateFallback?.times) {
     const payload = {
       dateKey,
@@ -1530,6 +1542,7 @@ async function tryCoordinateFallback(params) {
     provider: "aladhan",
     method: 13,
     school: 1,
+    highLatitudeRule: params.highLatitudeRule,
     lat: params.lat,
     lon: params.lon,
     date: params.dateKey
@@ -1542,7 +1555,9 @@ async function tryCoordinateFallback(params) {
   try {
     const url = `${ALADHAN_BASE}/timings/${encodeURIComponent(params.dateKey)}?latitude=${encodeURIComponent(
       params.lat
-    )}&longitude=${encodeURIComponent(params.lon)}&method=13&school=1`;
+    )}&longitude=${encodeURIComponent(params.lon)}&method=13&school=1&latitudeAdjustmentMethod=${
+      highLatitudeAdjustmentMethods[params.highLatitudeRule]
+    }`;
     const response = await fetchWithTimeout(url, { headers: { Accept: "application/json" } });
     const payload = await safeJson(response);
     const times = mapAladhanTimings(payload?.data?.timings);
@@ -1564,6 +1579,7 @@ async function tryCoordinateMonthlyFallback(params) {
     provider: "aladhan",
     method: 13,
     school: 1,
+    highLatitudeRule: params.highLatitudeRule,
     lat: params.lat,
     lon: params.lon,
     year: params.year,
@@ -1577,7 +1593,9 @@ async function tryCoordinateMonthlyFallback(params) {
   try {
     const url = `${ALADHAN_BASE}/calendar?latitude=${encodeURIComponent(params.lat)}&longitude=${encodeURIComponent(
       params.lon
-    )}&method=13&school=1&month=${encodeURIComponent(params.month)}&year=${encodeURIComponent(params.year)}`;
+    )}&method=13&school=1&latitudeAdjustmentMethod=${
+      highLatitudeAdjustmentMethods[params.highLatitudeRule]
+    }&month=${encodeURIComponent(params.month)}&year=${encodeURIComponent(params.year)}`;
     const response = await fetchWithTimeout(url, { headers: { Accept: "application/json" } });
     const payload = await safeJson(response);
     const rows = Array.isArray(payload?.data) ? payload.data : [];
@@ -2840,7 +2858,8 @@ function buildRequestCacheKey(input) {
     Number.isFinite(input.cityId) && input.cityId > 0 ? `cid:${Number(input.cityId)}` : "cid:none",
     `city:${normalizeText(input.city || "")}`,
     `country:${normalizeText(input.country || "")}`,
-    `cc:${normalizeText(input.countryCode || "")}`
+    `cc:${normalizeText(input.countryCode || "")}`,
+    `hl:${input.highLatitudeRule}`
   ].join("|");
 }
 
@@ -2854,7 +2873,8 @@ function buildMonthlyRequestCacheKey(input) {
     Number.isFinite(input.cityId) && input.cityId > 0 ? `cid:${Number(input.cityId)}` : "cid:none",
     `city:${normalizeText(input.city || "")}`,
     `country:${normalizeText(input.country || "")}`,
-    `cc:${normalizeText(input.countryCode || "")}`
+    `cc:${normalizeText(input.countryCode || "")}`,
+    `hl:${input.highLatitudeRule}`
   ].join("|");
 }
 
@@ -3073,6 +3093,11 @@ function normalizeText(value) {
     .replace(/[^a-z0-9]/g, "");
 }
 
+function normalizeHighLatitudeRule(raw) {
+  const value = String(raw || "").trim().toLowerCase();
+  return Object.prototype.hasOwnProperty.call(highLatitudeAdjustmentMethods, value) ? value : DEFAULT_HIGH_LATITUDE_RULE;
+}
+
 function normalizeLang(raw) {
   const base = String(raw || "en")
     .split(",")[0]
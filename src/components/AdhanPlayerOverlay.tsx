@@ -0,0 +1,176 @@
+import { useEffect, useState } from "react";
+import { Pressable, StyleSheet, Text, View } from "react-native";
+import { Ionicons } from "@expo/vector-icons";
+import { useFonts } from "expo-font";
+import { EaseView } from "react-native-ease";
+import { useSafeAreaInsets } from "react-native-safe-area-context";
+import { easeEnterTransition, easeInitialLift, easeVisibleLift } from "@/animation/ease";
+import { useMotionTransition } from "@/animation/useReducedMotion";
+import {
+  AdhanPlaybackState,
+  dismissAdhanPlayback,
+  getAdhanPlaybackState,
+  stopAdhanPlayback,
+  subscribeAdhanPlayback
+} from "@/services/adhanPlayer";
+import { useI18n } from "@/i18n/I18nProvider";
+import { useAppTheme } from "@/theme/ThemeProvider";
+
+// The dua after the adhan (Sahih al-Bukhari 614).
+const DUA_ARABIC =
+  "اللَّهُمَّ رَبَّ هَذِهِ الدَّعْوَةِ التَّامَّةِ، وَالصَّلَاةِ الْقَائِمَةِ، آتِ مُحَمَّدًا الْوَسِيلَةَ وَالْفَضِيلَةَ، " +
+  "وَابْعَثْهُ مَقَامًا مَحْمُودًا الَّذِي وَعَدْتَهُ";
+
+/** Stays above every screen while the full adhan plays, and shows the dua until it is closed. */
+export function AdhanPlayerOverlay() {
+  const { t, prayerName } = useI18n();
+  const { colors, resolvedTheme } = useAppTheme();
+  const insets = useSafeAreaInsets();
+  const isLight = resolvedTheme === "light";
+  const enterTransition = useMotionTransition(easeEnterTransition);
+  const [state, setState] = useState<AdhanPlaybackState>(getAdhanPlaybackState);
+  const [fontsLoaded] = useFonts({
+    QuranArabic: require("../../assets/fonts/NotoNaskhArabic-Regular.ttf")
+  });
+
+  useEffect(() => subscribeAdhanPlayback(setState), []);
+
+  if (state.status === "idle") {
+    return null;
+  }
+
+  const playing = state.status === "playing";
+
+  return (
+    <View style={[styles.wrap, { paddingBottom: insets.bottom + 12 }]} pointerEvents="box-none">
+      <EaseView initialAnimate={easeInitialLift} animate={easeVisibleLift} transition={enterTransition}>
+        <View
+          style={[
+            styles.card,
+            { backgroundColor: colors.card, borderColor: colors.cardBorder },
+            isLight ? styles.cardShadowLight : null
+          ]}
+        >
+          <View style={styles.header}>
+            <View style={[styles.icon, { backgroundColor: isLight ? "#E3F6EE" : "#193D33" }]}>
+              <Ionicons name={playing ? "volume-high" : "checkmark"} size={20} color="#4CC99A" />
+            </View>
+            <View style={styles.headerText}>
+              <Text style={[styles.title, { color: colors.textPrimary }]}>
+                {state.prayer ? t("adhan_player.title", { prayer: prayerName(state.prayer) }) : t("alert.full_adhan")}
+              </Text>
+              <Text style={[styles.subtitle, { color: colors.textSecondary }]}>
+                {playing ? t("adhan_player.playing") : t("adhan_player.finished")}
+              </Text>
+            </View>
+            <Pressable
+              style={[styles.button, { backgroundColor: playing ? colors.accent : isLight ? "#EAF2FC" : "#1B2D41" }]}
+              onPress={() => void (playing ? stopAdhanPlayback() : dismissAdhanPlayback())}
+              accessibilityRole="button"
+            >
+              <Ionicons name={playing ? "stop" : "close"} size={16} color={playing ? "#FFFFFF" : colors.textPrimary} />
+              <Text style={[styles.buttonText, { color: playing ? "#FFFFFF" : colors.textPrimary }]}>
+                {playing ? t("adhan_player.stop") : t("adhan_player.close")}
+              </Text>
+            </Pressable>
+          </View>
+
+          <View style={[styles.dua, { borderTopColor: colors.cardBorder }]}>
+            <Text style={[styles.duaLabel, { color: colors.textSecondary }]}>{t("adhan_player.dua_title")}</Text>
+            <Text
+              style={[
+                styles.duaArabic,
+                { color: colors.textPrimary },
+                fontsLoaded ? { fontFamily: "QuranArabic" } : null
+              ]}
+            >
+              {DUA_ARABIC}
+            </Text>
+            <Text style={[styles.duaMeaning, { color: colors.textSecondary }]}>{t("adhan_player.dua_meaning")}</Text>
+          </View>
+        </View>
+      </EaseView>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  wrap: {
+    position: "absolute",
+    left: 0,
+    right: 0,
+    bottom: 0,
+    paddingHorizontal: 12
+  },
+  card: {
+    borderRadius: 20,
+    borderWidth: 1,
+    padding: 14
+  },
+  cardShadowLight: {
+    shadowColor: "#1E3D5C",
+    shadowOpacity: 0.12,
+    shadowRadius: 16,
+    shadowOffset: { width: 0, height: 6 },
+    elevation: 6
+  },
+  header: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 12
+  },
+  icon: {
+    width: 40,
+    height: 40,
+    borderRadius: 12,
+    alignItems: "center",
+    justifyContent: "center"
+  },
+  headerText: {
+    flex: 1,
+    minWidth: 0
+  },
+  title: {
+    fontSize: 16,
+    fontWeight: "700"
+  },
+  subtitle: {
+    marginTop: 2,
+    fontSize: 13
+  },
+  button: {
+    height: 36,
+    borderRadius: 12,
+    paddingHorizontal: 12,
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 6
+  },
+  buttonText: {
+    fontSize: 14,
+    fontWeight: "700"
+  },
+  dua: {
+    marginTop: 12,
+    paddingTop: 12,
+    borderTopWidth: 1
+  },
+  duaLabel: {
+    fontSize: 12,
+    fontWeight: "700",
+    textTransform: "uppercase",
+    letterSpacing: 0.6
+  },
+  duaArabic: {
+    marginTop: 8,
+    fontSize: 20,
+    lineHeight: 36,
+    textAlign: "right",
+    writingDirection: "rtl"
+  },
+  duaMeaning: {
+    marginTop: 6,
+    fontSize: 13,
+    lineHeight: 19
+  }
+});
@@ -7,6 +7,8 @@ export type CompassConfidence = {
   status: CompassConfidenceStatus;
   fieldStrength: number | null;
   headingStdDev: number | null;
+  // The field is far outside what the Earth alone produces: metal, magnets or electronics nearby.
+  interference: boolean;
   messageKey: string;
   debug?: { samples: number };
 };
@@ -19,6 +21,35 @@ type UseCompassConfidenceArgs = {
 const WINDOW_SIZE = 14;
 const MAGNETOMETER_INTERVAL_MS = 150;
 
+// Earth's field is roughly 25-65 uT at the surface; beyond the outer bounds something else dominates.
+const FIELD_GOOD_MIN = 25;
+const FIELD_GOOD_MAX = 65;
+const FIELD_BAD_MIN = 15;
+const FIELD_BAD_MAX = 85;
+const STD_GOOD_MAX = 12;
+const STD_BAD_MIN = 25;
+
+function isInterference(fieldStrength: number | null): boolean {
+  return fieldStrength != null && (fieldStrength < FIELD_BAD_MIN || fieldStrength > FIELD_BAD_MAX);
+}
+
+/** 0-1: how far the field strength and heading spread have settled into the "good" range. */
+export function getCalibrationScore(fieldStrength: number | null, headingStdDev: number | null): number {
+  if (fieldStrength == null || headingStdDev == null) {
+    return 0;
+  }
+
+  let fieldScore = 1;
+  if (fieldStrength < FIELD_GOOD_MIN) {
+    fieldScore = (fieldStrength - FIELD_BAD_MIN) / (FIELD_GOOD_MIN - FIELD_BAD_MIN);
+  } else if (fieldStrength > FIELD_GOOD_MAX) {
+    fieldScore = (FIELD_BAD_MAX - fieldStrength) / (FIELD_BAD_MAX - FIELD_GOOD_MAX);
+  }
+  const stdScore = headingStdDev <= STD_GOOD_MAX ? 1 : (STD_BAD_MIN - headingStdDev) / (STD_BAD_MIN - STD_GOOD_MAX);
+
+  return Math.max(0, Math.min(1, fieldScore, stdScore));
+}
+
 function normalizeDegrees(value: number): number {
   const v = value % 360;
   return v < 0 ? v + 360 : v;
@@ -158,18 +189,20 @@ export function useCompassConfidence({ headingDeg, enabled }: UseCompassConfiden
       return "meh";
     }
 
-    const fieldBad = fieldStrength < 15 || fieldStrength > 85;
-    const fieldMeh = (fieldStrength >= 15 && fieldStrength < 25) || (fieldStrength > 65 && fieldStrength <= 85);
+    const fieldBad = isInterference(fieldStrength);
+    const fieldMeh =
+      (fieldStrength >= FIELD_BAD_MIN && fieldStrength < FIELD_GOOD_MIN) ||
+      (fieldStrength > FIELD_GOOD_MAX && fieldStrength <= FIELD_BAD_MAX);
 
-    if (fieldBad || headingStdDev > 25) {
+    if (fieldBad || headingStdDev > STD_BAD_MIN) {
       return "bad";
     }
 
-    if (fieldMeh || (headingStdDev > 12 && headingStdDev <= 25)) {
+    if (fieldMeh || (headingStdDev > STD_GOOD_MAX && headingStdDev <= STD_BAD_MIN)) {
       return "meh";
     }
 
-    if (headingStdDev <= 12 && fieldStrength >= 25 && fieldStrength <= 65) {
+    if (headingStdDev <= STD_GOOD_MAX && fieldStrength >= FIELD_GOOD_MIN && fieldStrength <= FIELD_GOOD_MAX) {
       return "good";
     }
 
@@ -206,6 +239,7 @@ export function useCompassConfidence({ headingDeg, enabled }: UseCompassConfiden
     status,
     fieldStrength,
     headingStdDev,
+    interference: enabled && isInterference(fieldStrength),
     messageKey,
     debug: {
       samples: Math.max(magSamplesCount, headingSamplesCount)
@@ -40,6 +40,20 @@ export const translations: Record<AppLanguage, TranslationDict> = {
     "menu.continue_reading.title": "Continue reading",
     "menu.monthly.title": "Monthly Overview",
     "menu.monthly.subtitle": "View prayer times by month",
+    "menu.ramadan.title": "Ramadan",
+    "menu.ramadan.subtitle": "Imsak, iftar and the 30-day timetable",
+    "menu.hijri_calendar.title": "Hijri Calendar",
+    "menu.hijri_calendar.subtitle": "Islamic months, holy days and kandil nights",
+    "menu.jumuah.title": "Jumu'ah",
+    "menu.jumuah.subtitle": "Friday prayer and al-Kahf reminders",
+    "menu.iqamah.title": "Iqamah Times",
+    "menu.iqamah.subtitle": "Congregation times of your mosque",
+    "menu.travel.title": "Travel Mode",
+    "menu.travel.subtitle": "Musafir times with qasr and jam' hints",
+    "menu.locations.title": "Saved Locations",
+    "menu.locations.subtitle": "Quick switching between places",
+    "menu.tracker.title": "Prayer Tracker",
+    "menu.tracker.subtitle": "Streaks, weekly and monthly progress",
     "menu.source_check.title": "Source Check",
     "menu.source_check.subtitle": "Verify prayer time source and cache",
     "favorites.title": "Favorites",
@@ -102,6 +116,10 @@ export const translations: Record<AppLanguage, TranslationDict> = {
     "home.fetching_prayers": "Fetching prayer times...",
     "home.live_loaded": "Live data loaded.",
     "home.cache_loaded": "Loaded from cache.",
+    "home.fallback_loaded": "Configured source unavailable, showing {{provider}} times.",
+    "home.provider_aladhan": "Aladhan",
+    "home.provider_diyanet": "Diyanet",
+    "home.provider_astronomical": "on-device",
     "home.api_cache_fallback": "API unavailable, using cache.",
     "home.location_cache_fallback": "Location unavailable, showing latest cache.",
     "home.no_data_permission": "No location or cache data available. Grant location permission in Settings.",
@@ -121,6 +139,62 @@ export const translations: Record<AppLanguage, TranslationDict> = {
     "home.source_cache_old": "Old cache",
     "home.source_needs_check": "Check source",
     "home.coming_up": "COMING UP",
+    "home.qasr_hint": "Qasr: 2 rak'ahs",
+    "home.jam_hint": "Can combine with {{prayer}}",
+    "home.iqamah": "Iqamah {{time}}",
+    "home.travel_offer_title": "{{km}} km from home",
+    "home.travel_offer_body": "Switch to travel mode and use prayer times for {{place}}?",
+    "home.travel_switch": "Switch",
+    "home.travel_not_now": "Not now",
+    "home.travel_active": "Traveling in {{place}}",
+    "home.travel_active_meta": "Qasr hints are on. Tap for travel settings.",
+    "travel.title": "Travel Mode",
+    "travel.subtitle": "Notices when you travel away from home and adjusts your prayer times.",
+    "travel.since": "Traveling in {{place}} since {{date}}",
+    "travel.distance_now": "You are {{km}} km from home.",
+    "travel.status_traveling": "Traveling",
+    "travel.status_home": "At home",
+    "travel.end": "End travel",
+    "travel.end_desc": "Travel mode also ends by itself when you return home.",
+    "travel.end_desc_manual": "Prayer times go back to {{home}}. This also happens by itself when you return.",
+    "travel.end_button": "End",
+    "travel.detect": "Detect travel",
+    "travel.detect_desc": "Offers travel mode when you are more than {{km}} km from home.",
+    "travel.distance": "DISTANCE FROM HOME",
+    "travel.km": "{{km}} km",
+    "travel.combine": "Combining hints (jam')",
+    "travel.combine_desc": "Shows which prayers may be combined. Not every school allows this while traveling.",
+    "travel.home": "HOME",
+    "travel.home_unset": "Not set yet",
+    "travel.home_manual": "In manual mode your home is the city chosen in Settings.",
+    "travel.home_gps": "Set automatically from your first location; you can change it here.",
+    "travel.use_here": "Use {{place}} as home",
+    "travel.no_position": "Location access is needed to set a home",
+    "home.switch_location": "Switch location",
+    "home.location_gps": "Current location (GPS)",
+    "home.manage_locations": "Manage locations",
+    "home.watch_next": "{{place}}: {{prayer}} {{time}} · in {{countdown}}",
+    "home.watch_next_tomorrow": "{{place}}: {{prayer}} {{time}} tomorrow · in {{countdown}}",
+    "locations.title": "Saved Locations",
+    "locations.subtitle": "Switch between places from the home screen and keep their times offline.",
+    "locations.count": "{{count}}/{{max}}",
+    "locations.empty": "No saved locations yet.",
+    "locations.hint": "Tap the method line to pin the current calculation method to a place. The eye shows that place's next prayer on the home screen.",
+    "locations.method_default": "Uses your current method",
+    "locations.method_own": "Own method: {{method}}",
+    "locations.watch": "Watch next prayer",
+    "locations.add": "ADD A LOCATION",
+    "locations.add_current": "Save {{name}}",
+    "locations.limit": "You can save up to {{max}} locations. Remove one to add another.",
+    "locations.remove": "Remove",
+    "locations.remove_title": "Remove location?",
+    "locations.remove_body": "{{name}} will be removed from your saved locations.",
+    "home.ramadan_suhoor_in": "Suhoor ends in {{time}}",
+    "home.ramadan_iftar_in": "Iftar in {{time}}",
+    "home.ramadan_day_times": "Ramadan day {{day}} • Imsak {{imsak}} • Iftar {{iftar}}",
+    "home.ramadan_times": "Imsak {{imsak}} • Iftar {{iftar}}",
+    "home.extra_times": "Additional times",
+    "home.mark_prayed": "Mark {{prayer}} as prayed",
 
     "settings.title": "App Settings",
     "settings.appearance": "APPEARANCE",
@@ -138,9 +212,20 @@ export const translations: Record<AppLanguage, TranslationDict> = {
     "settings.lang_tr": "Turkish",
     "settings.dark": "Dark",
     "settings.light": "Light",
-    "settings.hanafi_only": "Hanafi Only",
-    "settings.asr_fixed": "Asr method (fixed)",
     "settings.calculation_method": "Calculation Method",
+    "settings.asr_school": "Asr calculation",
+    "settings.asr_school_standard": "Standard",
+    "settings.asr_school_hanafi": "Hanafi",
+    "settings.asr_school_standard_desc": "Shafi, Maliki, Hanbali: shadow length equals object",
+    "settings.asr_school_hanafi_desc": "Hanafi: shadow length is twice the object",
+    "settings.asr_school_diyanet": "Diyanet publishes its own Asr time",
+    "settings.high_latitude": "High-latitude rule",
+    "settings.high_latitude_angle_based": "Angle-based",
+    "settings.high_latitude_one_seventh": "One-seventh",
+    "settings.high_latitude_middle_of_night": "Middle of the night",
+    "settings.high_latitude_angle_based_desc": "Fajr and Isha take a share of the night based on the twilight angle",
+    "settings.high_latitude_one_seventh_desc": "Fajr and Isha stay within one seventh of the night",
+    "settings.high_latitude_middle_of_night_desc": "Fajr and Isha stay within half of the night",
     "settings.gps_connected": "GPS Connected",
     "settings.mode": "Mode",
     "settings.mode_manual": "Manual city",
@@ -174,6 +259,14 @@ export const translations: Record<AppLanguage, TranslationDict> = {
     "settings.saved_body": "Settings saved and notifications replanned.",
     "settings.replan_failed": "Saved settings, but notification replan failed: {{error}}",
     "settings.mins_before": "{{mins}} mins",
+    "settings.extra_times": "ADDITIONAL TIMES",
+    "settings.extra_times_show": "SHOW",
+    "settings.extra_times_notify": "Notify",
+    "settings.extra_times_desc_Imsak": "Start of the fast, before Fajr",
+    "settings.extra_times_desc_Duha": "Ishraq/Duha prayer may begin",
+    "settings.extra_times_desc_Istiwa": "Sun at its zenith; no prayer until Dhuhr",
+    "settings.extra_times_desc_Midnight": "Halfway between Maghrib and Fajr",
+    "settings.extra_times_desc_LastThird": "Best time for Tahajjud",
     "settings.mosques_section": "Mosque Finder",
     "settings.mosques_title": "Mosque Finder",
     "settings.mosques_subtitle": "Affects distance/ETA calculations",
@@ -214,6 +307,10 @@ export const translations: Record<AppLanguage, TranslationDict> = {
     "source_check.cache_partial": "Cache will be refreshed",
     "source_check.provider_diyanet": "Diyanet Official API",
     "source_check.provider_aladhan": "Aladhan method {{method}}",
+    "source_check.provider_astronomical": "On-device calculation (method {{method}})",
+    "source_check.asr_school": "Asr school",
+    "source_check.asr_school_diyanet": "As published by Diyanet",
+    "source_check.tune_offsets": "Minute adjustments",
     "source_check.today_title": "Today",
     "source_check.tomorrow_title": "Tomorrow",
     "source_check.refresh": "Check Again",
@@ -237,8 +334,30 @@ export const translations: Record<AppLanguage, TranslationDict> = {
     "source_check.sanity_coordinate_fallback_body": "The proxy used coordinate-based fallback data. Compare with Diyanet if times look unexpected.",
     "source_check.sanity_regional_fallback_title": "Nearby Diyanet city used",
     "source_check.sanity_regional_fallback_body": "This location is matched to {{city}} around {{distance}} km away.",
+    "source_check.sanity_astronomical_title": "Calculated on this device",
+    "source_check.sanity_astronomical_body": "These times are calculated from the sun's position without a network connection. Local mosque times may differ by a few minutes.",
+    "source_check.sanity_astronomical_fallback_title": "Offline calculation used",
+    "source_check.sanity_astronomical_fallback_body": "Both online sources were unreachable and nothing was cached, so these times were calculated on this device. Refresh when you are back online.",
+    "source_check.high_latitude": "High-latitude rule",
+    "source_check.sanity_high_latitude_title": "High-latitude rule applied",
+    "source_check.sanity_high_latitude_body_angle_based": "The sun barely sets this far north, so Fajr and Isha were limited with the angle-based rule. Long Fajr or Isha gaps and larger day-to-day jumps are expected.",
+    "source_check.sanity_high_latitude_body_one_seventh": "The sun barely sets this far north, so Fajr and Isha were limited to one seventh of the night. Long Fajr or Isha gaps and larger day-to-day jumps are expected.",
+    "source_check.sanity_high_latitude_body_middle_of_night": "The sun barely sets this far north, so Fajr and Isha were limited to the middle of the night. Long Fajr or Isha gaps and larger day-to-day jumps are expected.",
     "source_check.sanity_day_jump_title": "Large day-to-day jump",
     "source_check.sanity_day_jump_body": "{{prayer}} changes by {{minutes}} minutes compared with tomorrow.",
+    "source_check.mode_overview": "Overview",
+    "source_check.mode_compare": "Compare sources",
+    "source_check.compare_title": "Source comparison",
+    "source_check.compare_body": "Today's times from Diyanet and several Aladhan methods for the same location. Differences are measured against your active source.",
+    "source_check.compare_threshold": "Highlight differences over",
+    "source_check.compare_minutes": "{{minutes}} min",
+    "source_check.compare_loading": "Fetching all sources...",
+    "source_check.compare_agree": "All sources agree within {{minutes}} min",
+    "source_check.compare_differ": "{{prayers}} differ by more than {{minutes}} min",
+    "source_check.compare_active": "Active source",
+    "source_check.compare_reference": "Reference",
+    "source_check.compare_failed": "Unavailable",
+    "source_check.compare_use": "Use",
 
     "alerts.title": "Alerts",
     "alerts.subtitle": "Tap a prayer to open notification preferences.",
@@ -249,9 +368,12 @@ export const translations: Record<AppLanguage, TranslationDict> = {
     "alerts.mins_before": "{{mins}} mins before",
     "alerts.sound_on": "Sound on",
     "alerts.sound_off": "Silent",
+    "alerts.end_warning": "warns {{mins}}m before end",
     "alerts.summary_title": "Notification status",
     "alerts.active_summary": "{{active}} of {{total}} prayers active",
     "alerts.scheduled_summary": "{{scheduled}} reminders scheduled on this device",
+    "alerts.horizon_summary": "Covered until {{until}} ({{pending}}/{{budget}} slots)",
+    "alerts.pending_summary": "{{pending}}/{{budget}} notification slots in use",
     "alerts.schedule_checking": "Checking scheduled reminders",
     "alerts.check_schedule": "Check planning",
     "alerts.checking_schedule": "Checking...",
@@ -265,6 +387,8 @@ export const translations: Record<AppLanguage, TranslationDict> = {
     "alert.configure_for": "Configure how you're notified for {{prayer}}",
     "alert.sound_audio": "SOUND & AUDIO",
     "alert.play_sound": "Play Sound",
+    "alert.full_adhan": "Full Adhan",
+    "alert.full_adhan_help": "Plays the complete adhan when the alert arrives while the app is open, or when you open it.",
     "alert.alert_tone": "Alert Tone",
     "alert.tone_adhan": "Adhan",
     "alert.tone_beep": "Beep",
@@ -273,6 +397,11 @@ export const translations: Record<AppLanguage, TranslationDict> = {
     "alert.vibration": "Vibration",
     "alert.test_notification": "Test Notification",
     "alert.test_help": "Send a test notification to check your volume and vibration preferences.",
+    "alert.today": "TODAY",
+    "alert.prayer_log": "Prayer log",
+    "alert.log_prayed": "Prayed",
+    "alert.log_missed": "Missed",
+    "alert.prayer_log_help": "Saved right away and counted in the prayer tracker. Tap again to clear.",
     "alert.inline_saving": "Saving preferences",
     "alert.inline_saved": "Preferences saved",
     "alert.inline_test_sent": "Test notification scheduled",
@@ -282,9 +411,87 @@ export const translations: Record<AppLanguage, TranslationDict> = {
     "alert.inline_preview_stopped": "Preview stopped",
     "alert.inline_preview_unavailable": "System beep preview is not available here",
     "alert.inline_preview_error": "Preview could not be played",
+    "tones.Adhan": "Adhan",
+    "tones.Beep": "Beep",
+    "tones.custom_length": "Imported · {{seconds}} s",
+    "tones.custom_trimmed": "Imported · trimmed to {{seconds}} s",
+    "tones.custom_missing": "Imported tone",
+    "tones.import": "Import WAV file",
+    "tones.import_hint_ios": "For a Makkah, Madinah, Istanbul or Fajr adhan, import a recording of it. WAV files only. Longer recordings are trimmed to {{seconds}} seconds, the longest sound iOS plays for a notification.",
+    "tones.import_hint_android": "For a Makkah, Madinah, Istanbul or Fajr adhan, import a recording of it. WAV files only, trimmed to {{seconds}} seconds. Android plays the system sound for imported tones and the full tone when you open the alert.",
+    "tones.imported": "Tone imported",
+    "tones.imported_trimmed": "Tone imported and trimmed to {{seconds}} s",
+    "tones.import_failed": "This file could not be imported. Choose an uncompressed WAV file.",
+    "tones.delete": "Delete",
+    "tones.delete_title": "Delete tone?",
+    "tones.delete_message": "\"{{name}}\" will be removed. Prayers using it switch back to the default adhan.",
+    "adhan_player.title": "Adhan for {{prayer}}",
+    "adhan_player.playing": "Playing the full adhan",
+    "adhan_player.finished": "The adhan has ended",
+    "adhan_player.stop": "Stop",
+    "adhan_player.close": "Close",
+    "adhan_player.dua_title": "Dua after the adhan",
+    "adhan_player.dua_meaning": "O Allah, Lord of this perfect call and the prayer about to be established, grant Muhammad al-Wasilah and al-Fadilah, and raise him to the praised station that You have promised him.",
+    "quiet.title": "Quiet Rules",
+    "quiet.subtitle": "Alerts still appear, but without sound while a rule applies.",
+    "quiet.hours": "Quiet hours",
+    "quiet.hours_desc": "No sound between {{start}} and {{end}}.",
+    "quiet.start": "FROM",
+    "quiet.end": "UNTIL",
+    "quiet.except": "KEEP SOUND FOR",
+    "quiet.mosque": "Silent in mosque",
+    "quiet.mosque_desc": "Alerts go silent when your last known location is at one of your favorite mosques.",
+    "quiet.radius": "DISTANCE FROM MOSQUE",
+    "quiet.meters": "{{meters}} m",
+    "quiet.mosque_near": "At {{name}} now",
+    "quiet.mosque_not_near": "Not at a favorite mosque",
+    "quiet.mosque_no_favorites": "No favorite mosques yet",
+    "quiet.manage_favorites": "Favorite mosques ({{count}})",
+    "quiet.summary_hours": "Quiet {{start}}–{{end}}",
+    "quiet.summary_mosque": "Silent in mosque",
+    "quiet.summary_off": "No quiet rules",
+    "notification_log.title": "Notification Log",
+    "notification_log.row_meta": "What was scheduled and what arrived",
+    "notification_log.subtitle": "Scheduled alerts compared with when they arrived.",
+    "notification_log.loading": "Loading notification log...",
+    "notification_log.error": "The notification log could not be loaded.",
+    "notification_log.status_ok": "Last replan OK",
+    "notification_log.status_error": "Last replan failed",
+    "notification_log.status_empty": "No replans yet",
+    "notification_log.export": "Export",
+    "notification_log.export_failed": "The log could not be shared from this device.",
+    "notification_log.clear": "Clear",
+    "notification_log.clear_title": "Clear notification log?",
+    "notification_log.clear_body": "All recorded replans and deliveries are removed. Scheduled alerts stay as they are.",
+    "notification_log.deliveries": "DELIVERED",
+    "notification_log.deliveries_empty": "No alerts recorded yet.",
+    "notification_log.scheduled_delivered": "Scheduled {{scheduled}} • arrived {{delivered}}",
+    "notification_log.delivered": "Arrived {{delivered}}",
+    "notification_log.from_tray": "Found in notification tray",
+    "notification_log.opened": "Opened",
+    "notification_log.on_time": "On time",
+    "notification_log.late": "{{mins}} min late",
+    "notification_log.early": "{{mins}} min early",
+    "notification_log.not_scheduled": "No schedule",
+    "notification_log.replans": "REPLANS",
+    "notification_log.replans_empty": "No replans recorded yet.",
+    "notification_log.replan_counts": "{{scheduled}}/{{budget}} scheduled • {{skipped}} skipped",
+    "notification_log.replan_error": "Error: {{message}}",
+    "notification_log.trigger_app_open": "App opened",
+    "notification_log.trigger_settings": "Settings changed",
+    "notification_log.trigger_background": "Background refresh",
+    "notification_log.skip_past": "Time passed",
+    "notification_log.skip_disabled": "Alert off",
+    "notification_log.skip_duplicate": "Duplicate",
+    "notification_log.skip_budget": "Over system limit",
     "alert.alert_offset": "Alert Offset",
     "alert.at_prayer_time": "At prayer time",
     "alert.mins_before": "{{mins}} mins before",
+    "alert.end_warning": "Before Time Ends",
+    "alert.end_warning_off": "Off",
+    "alert.end_warning_mins": "{{mins}} mins before end",
+    "alert.end_warning_until": "{{prayer}} ends when {{next}} begins",
+    "alert.end_warning_midnight": "{{prayer}}'s preferred time ends at midnight",
     "alert.reset_default": "Reset to Default",
     "alert.save_preferences": "Save Preferences",
     "alert.test_sent_title": "Test sent",
@@ -303,6 +510,17 @@ export const translations: Record<AppLanguage, TranslationDict> = {
     "methods.inline_applying": "Applying method",
     "methods.inline_diyanet_selected": "Diyanet Official API selected",
     "methods.inline_method_selected": "Method {{id}} selected",
+    "methods.astronomical_offline": "On-device calculation",
+    "methods.astronomical_offline_desc": "Works offline with the angles of {{method}}",
+    "methods.astronomical_active": "On-device calculation is active",
+    "methods.inline_astronomical_selected": "On-device calculation selected",
+    "methods.tune_title": "Minute adjustments",
+    "methods.tune_none": "No adjustments",
+    "methods.tune_hint": "Shift each prayer by up to {{max}} minutes to match your local mosque. Applies to every source.",
+    "methods.tune_minutes": "{{value}} min",
+    "methods.tune_reset": "Reset",
+    "methods.tune_apply": "Apply",
+    "methods.inline_tune_applying": "Applying adjustments",
 
     "qibla.title": "Qibla",
     "qibla.gps_connected": "GPS Connected",
@@ -313,6 +531,7 @@ export const translations: Record<AppLanguage, TranslationDict> = {
     "qibla.permission_error": "Location access is required to determine Qibla from your position.",
     "qibla.load_error": "Unable to load Qibla right now: {{error}}",
     "qibla.bearing": "Qibla: {{deg}}deg",
+    "qibla.distance": "{{km}} km to the Kaaba",
     "qibla.live_on": "Live compass: ON",
     "qibla.live_off": "Live compass: OFF (fallback)",
     "qibla.guidance.title": "Direction guidance",
@@ -334,12 +553,89 @@ export const translations: Record<AppLanguage, TranslationDict> = {
     "qibla.confidence.good": "Compass is stable.",
     "qibla.confidence.meh": "Move your phone in a figure-8 to calibrate.",
     "qibla.confidence.bad": "Avoid metal/magnets and try again.",
+    "qibla.declination_east": "Magnetic declination here is {{deg}}° east.",
+    "qibla.declination_west": "Magnetic declination here is {{deg}}° west.",
+    "qibla.heading_true": "Your phone reports true north.",
+    "qibla.heading_corrected": "The compass is corrected to true north.",
+    "qibla.heading_magnetic": "The compass shows magnetic north.",
+    "qibla.cross_check_ok": "Matches the Aladhan Qibla ({{diff}}° apart).",
+    "qibla.cross_check_off": "Aladhan reports a Qibla {{diff}}° away from this one.",
+    "qibla.mode_compass": "Compass",
+    "qibla.mode_sun": "Sun",
+    "qibla.sun.title": "Sun finder",
+    "qibla.sun.position": "Sun at {{azimuth}}° azimuth, {{altitude}}° above the horizon",
+    "qibla.sun.below_horizon": "The sun is too low right now. Use the compass or wait for daylight.",
+    "qibla.sun.ahead": "Face the sun: the Qibla is straight ahead.",
+    "qibla.sun.behind": "Turn your back to the sun: your shadow points to the Qibla.",
+    "qibla.sun.keep_left": "Keep the sun {{deg}}° to your left.",
+    "qibla.sun.keep_right": "Keep the sun {{deg}}° to your right.",
+    "qibla.sun.shadow_left": "Your shadow then falls {{deg}}° to your left.",
+    "qibla.sun.shadow_right": "Your shadow then falls {{deg}}° to your right.",
+    "qibla.sun.alignments": "Today's alignments",
+    "qibla.sun.toward": "Sun stands over the Qibla",
+    "qibla.sun.away": "Shadows point to the Qibla",
+    "qibla.sun.no_alignments": "The sun does not line up with the Qibla here today.",
+    "qibla.sun.calibration_hint": "At these moments the sun or a shadow shows the exact Qibla, which is a good time to check the compass.",
+    "qibla.sun.try": "Use the sun instead",
+    "qibla.calibration.open": "Calibrate compass",
+    "qibla.calibration.poor": "The last calibration on this phone did not settle, so the compass is flagged sooner.",
+    "qibla.calibration.interference": "Recent calibrations picked up magnetic interference. Check for a magnetic case or mount.",
+    "qibla.calibration.stale": "This compass has not been calibrated for a while.",
+    "calibration.title": "Compass Calibration",
+    "calibration.step_move": "Move your phone in a figure-eight",
+    "calibration.step_move_desc": "Tilt and turn it through every direction, like the animation, until the first half of the bar fills.",
+    "calibration.step_settle": "Now hold it flat and still",
+    "calibration.step_settle_desc": "Keep the phone level, screen up, while the readings settle.",
+    "calibration.step_done": "Compass calibrated",
+    "calibration.step_done_desc": "The readings are stable and within the expected range.",
+    "calibration.unavailable": "The compass is not available",
+    "calibration.readings": "Field {{field}} µT · heading spread {{spread}}°",
+    "calibration.interference": "Magnetic interference",
+    "calibration.interference_desc": "The field is far stronger or weaker than the Earth's. Move away from metal, magnets, speakers and laptops, and remove magnetic cases.",
+    "calibration.restart": "Start over",
+    "calibration.finish": "Finish now",
+    "calibration.done": "Done",
+    "calibration.history": "PREVIOUS CALIBRATIONS",
+    "calibration.history_interference": "Interference detected",
+    "calibration.quality_good": "Good",
+    "calibration.quality_meh": "Fair",
+    "calibration.quality_bad": "Poor",
 
     "notifications.title": "Prayer time",
     "notifications.body_at_time": "It's time for {{prayer}}.",
     "notifications.body_at_time_with_location": "It's time for {{prayer}} in {{location}}.",
+    "notifications.body_snoozed": "Reminder: {{prayer}}.",
+    "notifications.title_end_warning": "Time is running out",
+    "notifications.body_end_warning": "{{prayer}} ends in {{mins}} minutes ({{time}}).",
+    "notifications.body_end_warning_midnight": "The preferred time for {{prayer}} ends at midnight ({{time}}), in {{mins}} minutes.",
+    "notifications.action_snooze": "Snooze {{mins}} min",
+    "notifications.action_prayed": "I prayed",
+    "notifications.action_qaza": "Missed – add to qaza",
     "notifications.body_offset": "{{prayer}} in {{mins}} minutes.",
     "notifications.body_offset_with_location": "{{prayer}} in {{location}} in {{mins}} minutes.",
+    "notifications.body_iqamah": "{{prayer}} in congregation at {{mosque}} starts now.",
+    "notifications.body_iqamah_offset": "{{prayer}} in congregation at {{mosque}} starts in {{mins}} minutes.",
+    "notifications.title_suhoor": "Suhoor",
+    "notifications.title_iftar": "Iftar",
+    "notifications.body_suhoor": "Suhoor ends in {{mins}} minutes (imsak {{time}}).",
+    "notifications.body_imsak": "Imsak {{time}}: the fast begins now.",
+    "notifications.body_iftar": "It's time for iftar ({{time}}).",
+    "notifications.body_extra_Imsak": "Imsak has begun ({{time}}). Stop eating and drinking.",
+    "notifications.body_extra_Duha": "Duha time has started ({{time}}).",
+    "notifications.body_extra_Istiwa": "Istiwa ({{time}}): avoid praying until Dhuhr.",
+    "notifications.body_extra_Midnight": "Islamic midnight ({{time}}). Pray Isha before it if you haven't yet.",
+    "notifications.body_extra_LastThird": "The last third of the night has started ({{time}}).",
+    "notifications.jumuah_prayer": "Jumu'ah",
+    "notifications.title_jumuah_leave": "Time to leave for Jumu'ah",
+    "notifications.body_jumuah_walk": "Walk to {{mosque}} takes about {{mins}} min. Khutbah starts at {{time}}.",
+    "notifications.body_jumuah_drive": "Drive to {{mosque}} takes about {{mins}} min. Khutbah starts at {{time}}.",
+    "notifications.title_kahf": "Surah al-Kahf",
+    "notifications.body_kahf": "It's Friday. Tap to read Surah al-Kahf.",
+    "extra_times.Imsak": "Imsak",
+    "extra_times.Duha": "Duha",
+    "extra_times.Istiwa": "Istiwa",
+    "extra_times.Midnight": "Midnight",
+    "extra_times.LastThird": "Last third",
 
     "mosques.title": "Mosques",
     "mosques.subtitle": "Find mosques nearby based on your current location.",
@@ -364,6 +660,33 @@ export const translations: Record<AppLanguage, TranslationDict> = {
     "mosques.search_placeholder": "Search mosque...",
     "mosques.filter_all": "All",
     "mosques.filter_favorites": "Favorites only",
+    "mosques.filter_women": "Women's area",
+    "mosques.filter_wheelchair": "Wheelchair accessible",
+    "mosques.empty_no_filter": "No mosques nearby have this recorded in OpenStreetMap.",
+    "mosques.details_action": "Details",
+    "mosques.details_close": "Close",
+    "mosques.details_hours": "Opening hours",
+    "mosques.open_now": "Open now",
+    "mosques.closed_now": "Closed now",
+    "mosques.closed": "Closed",
+    "mosques.details_address": "Address",
+    "mosques.details_denomination": "Denomination",
+    "mosques.denomination_sunni": "Sunni",
+    "mosques.denomination_shia": "Shia",
+    "mosques.denomination_ibadi": "Ibadi",
+    "mosques.denomination_ahmadiyya": "Ahmadiyya",
+    "mosques.details_website": "Website",
+    "mosques.details_phone": "Phone",
+    "mosques.details_women": "Women's area",
+    "mosques.details_wheelchair": "Wheelchair access",
+    "mosques.wheelchair_yes": "Accessible",
+    "mosques.wheelchair_limited": "Partly accessible",
+    "mosques.wheelchair_no": "Not accessible",
+    "mosques.details_parking": "Parking",
+    "mosques.details_yes": "Yes",
+    "mosques.details_no": "No",
+    "mosques.details_none": "OpenStreetMap has no further details for this mosque yet.",
+    "mosques.details_source": "Details from OpenStreetMap contributors.",
     "mosques.empty_no_mosques": "No mosques found within {{radius}} km.",
     "mosques.empty_no_favorites": "No favorite mosques found.",
     "mosques.empty_no_search": "No results for your search.",
@@ -401,6 +724,11 @@ export const translations: Record<AppLanguage, TranslationDict> = {
     "monthly.asr": "Asr",
     "monthly.maghrib": "Maghrib",
     "monthly.isha": "Isha",
+    "monthly.extra_Imsak": "Imsak",
+    "monthly.extra_Duha": "Duha",
+    "monthly.extra_Istiwa": "Istiwa",
+    "monthly.extra_Midnight": "Midn.",
+    "monthly.extra_LastThird": "⅓ night",
     "monthly.source": "Source: {{source}}",
     "monthly.available_count": "{{available}}/{{total}} days available",
     "monthly.network_count": "{{count}} live",
@@ -414,6 +742,167 @@ export const translations: Record<AppLanguage, TranslationDict> = {
     "monthly.close": "Close",
     "monthly.refresh": "Refresh month",
     "monthly.partialError": "Some days could not be loaded. Try refreshing.",
+    "monthly.export": "Export",
+    "monthly.export_title": "Export {{year}} timetable",
+    "monthly.export_body": "Builds all 12 months for your current location and settings, then opens the share sheet.",
+    "monthly.export_pdf": "Printable PDF",
+    "monthly.export_csv": "Spreadsheet (CSV)",
+    "monthly.export_ics": "Calendar (.ics)",
+    "monthly.export_progress": "Preparing month {{done}} of {{total}}...",
+    "monthly.export_empty": "No prayer times could be loaded for this year. Check your connection and try again.",
+    "monthly.export_failed": "Export failed. Please try again.",
+    "monthly.export_document_title": "Prayer times {{year}}",
+    "monthly.export_generated": "Generated {{date}}",
+    "monthly.export_date": "Date",
+    "ramadan.title": "Ramadan",
+    "ramadan.range": "Ramadan {{year}} AH • {{start}} – {{end}}",
+    "ramadan.status_active": "Ramadan mode on",
+    "ramadan.status_upcoming": "Upcoming",
+    "ramadan.mode": "RAMADAN MODE",
+    "ramadan.mode_auto": "Automatic",
+    "ramadan.mode_on": "Always on",
+    "ramadan.mode_off": "Off",
+    "ramadan.imsak_margin": "IMSAK BEFORE FAJR",
+    "ramadan.imsak_margin_diyanet": "Diyanet's Fajr time already is imsak, so no margin is subtracted.",
+    "ramadan.minutes": "{{mins}} min",
+    "ramadan.suhoor_reminder": "SUHOOR REMINDER",
+    "ramadan.reminder_off": "Off",
+    "ramadan.at_imsak": "At imsak",
+    "ramadan.minutes_before": "{{mins}} min before",
+    "ramadan.iftar_reminder": "Iftar notification",
+    "ramadan.iftar_reminder_desc": "Alert at Maghrib while Ramadan mode is on",
+    "ramadan.available_count": "{{available}}/{{total}} days available",
+    "ramadan.col_day": "Day",
+    "ramadan.col_date": "Date",
+    "ramadan.col_imsak": "Imsak",
+    "ramadan.col_iftar": "Iftar",
+    "ramadan.loading": "Building Ramadan timetable...",
+    "ramadan.error": "The Ramadan timetable could not be loaded.",
+    "hijri.title": "Hijri Calendar",
+    "hijri.events_this_month": "OCCASIONS THIS MONTH",
+    "hijri.no_events": "No occasions in this month.",
+    "hijri.adjustment": "HIJRI DATE ADJUSTMENT",
+    "hijri.adjustment_desc": "Shift the Hijri date to match local moon sighting. Applies to the home header, this calendar and Ramadan mode.",
+    "hijri.adjustment_none": "0",
+    "hijri.adjustment_days": "{{days}} d",
+    "hijri.show_kandils": "Kandil nights",
+    "hijri.show_kandils_desc": "Show Regaib, Miraç, Berat and Mevlid kandils",
+    "hijri.event_islamic_new_year": "Islamic New Year",
+    "hijri.event_ashura": "Day of Ashura",
+    "hijri.event_mawlid": "Mawlid an-Nabi",
+    "hijri.event_mawlid_kandil": "Mevlid Kandili (evening)",
+    "hijri.event_regaib_kandil": "Regaib Kandili (evening)",
+    "hijri.event_miraj_kandil": "Miraç Kandili (evening)",
+    "hijri.event_berat_kandil": "Berat Kandili (evening)",
+    "hijri.event_ramadan_start": "First day of Ramadan",
+    "hijri.event_laylat_al_qadr": "Laylat al-Qadr (evening)",
+    "hijri.event_eid_al_fitr": "Eid al-Fitr",
+    "hijri.event_arafah": "Day of Arafah",
+    "hijri.event_eid_al_adha": "Eid al-Adha",
+    "hijri_months.1": "Muharram",
+    "hijri_months.2": "Safar",
+    "hijri_months.3": "Rabi al-Awwal",
+    "hijri_months.4": "Rabi al-Akhir",
+    "hijri_months.5": "Jumada al-Ula",
+    "hijri_months.6": "Jumada al-Akhirah",
+    "hijri_months.7": "Rajab",
+    "hijri_months.8": "Sha'ban",
+    "hijri_months.9": "Ramadan",
+    "hijri_months.10": "Shawwal",
+    "hijri_months.11": "Dhu al-Qadah",
+    "hijri_months.12": "Dhu al-Hijjah",
+    "jumuah.title": "Jumu'ah",
+    "jumuah.loading": "Loading Friday times...",
+    "jumuah.error": "Could not load Jumu'ah settings.",
+    "jumuah.next_plan": "{{date}}: leave at {{leave}}, khutbah {{khutbah}}",
+    "jumuah.next_plan_unavailable": "Pick a default mosque to plan your Friday.",
+    "jumuah.next_plan_away": "No leave reminder while you are away from your default mosque.",
+    "jumuah.status_on": "On",
+    "jumuah.status_off": "Off",
+    "jumuah.enabled": "Jumu'ah reminders",
+    "jumuah.enabled_desc": "Remind me when to leave for my default mosque on Fridays",
+    "jumuah.mosque": "DEFAULT MOSQUE",
+    "jumuah.travel_walk": "About {{mins}} min walking",
+    "jumuah.travel_drive": "About {{mins}} min driving",
+    "jumuah.travel_unknown": "Travel time not available yet",
+    "jumuah.travel_away": "Too far away to plan the trip",
+    "jumuah.change_mosque": "Change",
+    "jumuah.no_mosque": "No default mosque yet. Mark one as default in Mosques.",
+    "jumuah.choose_mosque": "Choose a mosque",
+    "jumuah.khutbah_time": "KHUTBAH TIME",
+    "jumuah.earlier": "5 minutes earlier",
+    "jumuah.later": "5 minutes later",
+    "jumuah.khutbah_custom": "Set for this mosque",
+    "jumuah.khutbah_dhuhr": "Using Dhuhr time",
+    "jumuah.use_dhuhr": "Use Dhuhr time",
+    "jumuah.leave_buffer": "EXTRA TIME BEFORE KHUTBAH",
+    "jumuah.kahf_reminder": "Surah al-Kahf reminder",
+    "jumuah.kahf_reminder_desc": "Friday morning reminder that opens the surah",
+    "jumuah.read_kahf": "Read Surah al-Kahf",
+    "iqamah.title": "Iqamah Times",
+    "iqamah.loading": "Loading iqamah times...",
+    "iqamah.error": "Could not load the iqamah times.",
+    "iqamah.no_mosque": "No default mosque",
+    "iqamah.no_mosque_desc": "Iqamah times belong to your default mosque. Mark one as default in Mosques first.",
+    "iqamah.status_set": "Timetable set",
+    "iqamah.status_empty": "No timetable",
+    "iqamah.show_on_home": "Show on home screen",
+    "iqamah.show_on_home_desc": "Show the iqamah next to each prayer time",
+    "iqamah.notify_at_iqamah": "Alert at iqamah",
+    "iqamah.notify_at_iqamah_desc": "Prayer alerts and reminders follow the iqamah instead of the adhan",
+    "iqamah.timetable": "TIMETABLE",
+    "iqamah.rule_none": "Not set",
+    "iqamah.rule_offset": "{{mins}} min after adhan",
+    "iqamah.rule_fixed": "Fixed at {{time}}",
+    "iqamah.rule_with_overrides": "{{rule}} • {{count}} day(s) differ",
+    "iqamah.adhan_at": "Adhan {{time}}",
+    "iqamah.every_day": "Every day",
+    "iqamah.mode_none": "Not set",
+    "iqamah.mode_same": "As every day",
+    "iqamah.mode_offset": "After adhan",
+    "iqamah.mode_fixed": "Fixed time",
+    "iqamah.offset_unit": "minutes after adhan",
+    "iqamah.fixed_unit": "fixed time",
+    "iqamah.import": "IMPORT",
+    "iqamah.import_desc": "Paste a link to a JSON or CSV timetable shared by your mosque, the link from its QR code, or the timetable itself.",
+    "iqamah.import_placeholder": "https://... or timetable text",
+    "iqamah.import_button": "Import",
+    "iqamah.choose_file": "Choose file",
+    "iqamah.refresh_from": "Refresh from {{url}}",
+    "iqamah.imported": "Timetable saved for {{mosque}}",
+    "iqamah.import_failed": "This timetable could not be read",
+    "iqamah.replace_title": "Replace timetable?",
+    "iqamah.replace_body": "The imported times replace the current timetable for {{mosque}}.",
+    "iqamah.replace": "Replace",
+    "iqamah.link_title": "Import iqamah times?",
+    "iqamah.link_body": "Save the iqamah times from {{source}} for {{mosque}}?",
+    "iqamah.link_body_named": "Save the iqamah times of {{from}}, from {{source}}, for {{mosque}}?",
+    "iqamah.link_source_shared": "a shared link",
+    "iqamah.share_file": "Share as file",
+    "iqamah.share_link": "Share as link (for a QR code)",
+    "iqamah.share_failed": "Sharing is not available right now",
+    "iqamah.clear": "Clear timetable",
+    "iqamah.clear_title": "Clear timetable?",
+    "iqamah.clear_body": "All iqamah times for {{mosque}} will be removed.",
+    "tracker.title": "Prayer Tracker",
+    "tracker.empty": "Tick prayers on the home screen to start tracking",
+    "tracker.streak_summary": "Current streak: {{count}} days",
+    "tracker.load_failed": "Could not load the prayer log.",
+    "tracker.current_streak": "Current streak",
+    "tracker.best_streak": "Best streak",
+    "tracker.this_week": "THIS WEEK",
+    "tracker.monthly": "MONTHLY COMPLETION",
+    "tracker.punctuality": "ON TIME VS LATE (LAST {{days}} DAYS)",
+    "tracker.on_time": "On time: {{count}}",
+    "tracker.late": "Late: {{count}}",
+    "tracker.punctuality_empty": "No prayers logged with known prayer times yet.",
+    "tracker.punctuality_unknown": "{{count}} prayers could not be checked because their prayer times are not cached.",
+    "tracker.punctuality_hint": "A prayer ticked here counts at the moment you tick it; one marked as prayed from a notification counts at the notification's time.",
+    "tracker.missed": "MISSED PRAYERS",
+    "tracker.missed_empty": "No missed prayers waiting to be added to qaza.",
+    "tracker.add_to_qaza": "Add to qaza",
+    "tracker.add_all_to_qaza": "Add all to qaza",
+    "tracker.how_to_log": "On the home screen, tap the circle next to a prayer once it has started to mark it as prayed, or long-press to log it as missed. A prayer counts as on time when it is ticked before the next prayer time begins.",
     "quran.title": "Quran",
     "quran.subtitle": "Read surahs with Turkish translation",
     "quran.loading": "Loading Quran...",
@@ -613,6 +1102,20 @@ export const translations: Record<AppLanguage, TranslationDict> = {
     "menu.continue_reading.title": "Verder lezen",
     "menu.monthly.title": "Maandoverzicht",
     "menu.monthly.subtitle": "Bekijk gebedstijden per maand",
+    "menu.ramadan.title": "Ramadan",
+    "menu.ramadan.subtitle": "Imsak, iftar en het rooster voor 30 dagen",
+    "menu.hijri_calendar.title": "Hijri-kalender",
+    "menu.hijri_calendar.subtitle": "Islamitische maanden, heilige dagen en kandilnachten",
+    "menu.jumuah.title": "Vrijdaggebed",
+    "menu.jumuah.subtitle": "Herinneringen voor Jumu'ah en al-Kahf",
+    "menu.iqamah.title": "Iqamah-tijden",
+    "menu.iqamah.subtitle": "Gebedstijden in jouw moskee",
+    "menu.travel.title": "Reismodus",
+    "menu.travel.subtitle": "Tijden voor de musafir met qasr- en jam'-hints",
+    "menu.locations.title": "Opgeslagen locaties",
+    "menu.locations.subtitle": "Snel wisselen tussen plaatsen",
+    "menu.tracker.title": "Gebedstracker",
+    "menu.tracker.subtitle": "Reeksen, wekelijkse en maandelijkse voortgang",
     "menu.source_check.title": "Broncontrole",
     "menu.source_check.subtitle": "Controleer bron en cache van gebedstijden",
     "favorites.title": "Favorieten",
@@ -675,6 +1178,10 @@ export const translations: Record<AppLanguage, TranslationDict> = {
     "home.fetching_prayers": "Gebedstijden ophalen...",
     "home.live_loaded": "Live data geladen.",
     "home.cache_loaded": "Uit cache geladen.",
+    "home.fallback_loaded": "Ingestelde bron niet bereikbaar, tijden van {{provider}} getoond.",
+    "home.provider_aladhan": "Aladhan",
+    "home.provider_diyanet": "Diyanet",
+    "home.provider_astronomical": "op apparaat",
     "home.api_cache_fallback": "API niet bereikbaar, cache gebruikt.",
     "home.location_cache_fallback": "Locatie niet beschikbaar, laatste cache getoond.",
     "home.no_data_permission": "Geen locatie- of cachedata beschikbaar. Geef locatietoestemming in Instellingen.",
@@ -694,6 +1201,62 @@ export const translations: Record<AppLanguage, TranslationDict> = {
     "home.source_cache_old": "Oude cache",
     "home.source_needs_check": "Bron controleren",
     "home.coming_up": "BINNENKORT",
+    "home.qasr_hint": "Qasr: 2 rak'ahs",
+    "home.jam_hint": "Samen te voegen met {{prayer}}",
+    "home.iqamah": "Iqamah {{time}}",
+    "home.travel_offer_title": "{{km}} km van huis",
+    "home.travel_offer_body": "Reismodus aanzetten en gebedstijden voor {{place}} gebruiken?",
+    "home.travel_switch": "Aanzetten",
+    "home.travel_not_now": "Niet nu",
+    "home.travel_active": "Op reis in {{place}}",
+    "home.travel_active_meta": "Qasr-hints staan aan. Tik voor reisinstellingen.",
+    "travel.title": "Reismodus",
+    "travel.subtitle": "Merkt op wanneer je van huis weg reist en past je gebedstijden aan.",
+    "travel.since": "Op reis in {{place}} sinds {{date}}",
+    "travel.distance_now": "Je bent {{km}} km van huis.",
+    "travel.status_traveling": "Op reis",
+    "travel.status_home": "Thuis",
+    "travel.end": "Reis beëindigen",
+    "travel.end_desc": "De reismodus stopt ook vanzelf als je weer thuis bent.",
+    "travel.end_desc_manual": "Gebedstijden gaan terug naar {{home}}. Dit gebeurt ook vanzelf als je terug bent.",
+    "travel.end_button": "Stoppen",
+    "travel.detect": "Reis herkennen",
+    "travel.detect_desc": "Biedt de reismodus aan als je meer dan {{km}} km van huis bent.",
+    "travel.distance": "AFSTAND VAN HUIS",
+    "travel.km": "{{km}} km",
+    "travel.combine": "Hints voor samenvoegen (jam')",
+    "travel.combine_desc": "Toont welke gebeden samengevoegd mogen worden. Niet elke school staat dit toe op reis.",
+    "travel.home": "THUIS",
+    "travel.home_unset": "Nog niet ingesteld",
+    "travel.home_manual": "In handmatige modus is je thuis de stad die je in Instellingen hebt gekozen.",
+    "travel.home_gps": "Automatisch ingesteld vanaf je eerste locatie; je kunt het hier wijzigen.",
+    "travel.use_here": "{{place}} als thuis gebruiken",
+    "travel.no_position": "Locatietoegang is nodig om een thuis in te stellen",
+    "home.switch_location": "Locatie wisselen",
+    "home.location_gps": "Huidige locatie (GPS)",
+    "home.manage_locations": "Locaties beheren",
+    "home.watch_next": "{{place}}: {{prayer}} {{time}} · over {{countdown}}",
+    "home.watch_next_tomorrow": "{{place}}: {{prayer}} morgen {{time}} · over {{countdown}}",
+    "locations.title": "Opgeslagen locaties",
+    "locations.subtitle": "Wissel vanaf het startscherm tussen plaatsen en houd hun tijden offline beschikbaar.",
+    "locations.count": "{{count}}/{{max}}",
+    "locations.empty": "Nog geen opgeslagen locaties.",
+    "locations.hint": "Tik op de methoderegel om de huidige rekenmethode aan een plaats te koppelen. Het oog toont het volgende gebed van die plaats op het startscherm.",
+    "locations.method_default": "Gebruikt je huidige methode",
+    "locations.method_own": "Eigen methode: {{method}}",
+    "locations.watch": "Volgend gebed volgen",
+    "locations.add": "LOCATIE TOEVOEGEN",
+    "locations.add_current": "{{name}} opslaan",
+    "locations.limit": "Je kunt maximaal {{max}} locaties opslaan. Verwijder er een om een nieuwe toe te voegen.",
+    "locations.remove": "Verwijderen",
+    "locations.remove_title": "Locatie verwijderen?",
+    "locations.remove_body": "{{name}} wordt uit je opgeslagen locaties verwijderd.",
+    "home.ramadan_suhoor_in": "Suhoor eindigt over {{time}}",
+    "home.ramadan_iftar_in": "Iftar over {{time}}",
+    "home.ramadan_day_times": "Ramadan dag {{day}} • Imsak {{imsak}} • Iftar {{iftar}}",
+    "home.ramadan_times": "Imsak {{imsak}} • Iftar {{iftar}}",
+    "home.extra_times": "Extra tijden",
+    "home.mark_prayed": "Markeer {{prayer}} als gebeden",
 
     "settings.title": "App instellingen",
     "settings.appearance": "WEERGAVE",
@@ -711,9 +1274,20 @@ export const translations: Record<AppLanguage, TranslationDict> = {
     "settings.lang_tr": "Turks",
     "settings.dark": "Donker",
     "settings.light": "Licht",
-    "settings.hanafi_only": "Alleen Hanafi",
-    "settings.asr_fixed": "Asr methode (vast)",
     "settings.calculation_method": "Berekeningsmethode",
+    "settings.asr_school": "Asr-berekening",
+    "settings.asr_school_standard": "Standaard",
+    "settings.asr_school_hanafi": "Hanafi",
+    "settings.asr_school_standard_desc": "Shafi, Maliki, Hanbali: schaduw even lang als het object",
+    "settings.asr_school_hanafi_desc": "Hanafi: schaduw twee keer zo lang als het object",
+    "settings.asr_school_diyanet": "Diyanet publiceert een eigen Asr-tijd",
+    "settings.high_latitude": "Regel voor hoge breedtegraad",
+    "settings.high_latitude_angle_based": "Hoekgebaseerd",
+    "settings.high_latitude_one_seventh": "Een zevende",
+    "settings.high_latitude_middle_of_night": "Midden van de nacht",
+    "settings.high_latitude_angle_based_desc": "Fajr en Isha krijgen een deel van de nacht op basis van de schemerhoek",
+    "settings.high_latitude_one_seventh_desc": "Fajr en Isha blijven binnen een zevende van de nacht",
+    "settings.high_latitude_middle_of_night_desc": "Fajr en Isha blijven binnen de helft van de nacht",
     "settings.gps_connected": "GPS verbonden",
     "settings.mode": "Modus",
     "settings.mode_manual": "Handmatige stad",
@@ -747,6 +1321,14 @@ export const translations: Record<AppLanguage, TranslationDict> = {
     "settings.saved_body": "Instellingen opgeslagen en meldingen opnieuw gepland.",
     "settings.replan_failed": "Instellingen opgeslagen, maar opnieuw plannen van meldingen mislukte: {{error}}",
     "settings.mins_before": "{{mins}} min",
+    "settings.extra_times": "EXTRA TIJDEN",
+    "settings.extra_times_show": "TONEN",
+    "settings.extra_times_notify": "Melding",
+    "settings.extra_times_desc_Imsak": "Begin van het vasten, vóór Fajr",
+    "settings.extra_times_desc_Duha": "Ishraq/Duha-gebed mag beginnen",
+    "settings.extra_times_desc_Istiwa": "Zon in het zenit; geen gebed tot Dhuhr",
+    "settings.extra_times_desc_Midnight": "Halverwege Maghrib en Fajr",
+    "settings.extra_times_desc_LastThird": "Beste tijd voor Tahajjud",
     "settings.mosques_section": "Moskee-vinder",
     "settings.mosques_title": "Moskee-vinder",
     "settings.mosques_subtitle": "Beïnvloedt afstand/ETA berekeningen",
@@ -787,6 +1369,10 @@ export const translations: Record<AppLanguage, TranslationDict> = {
     "source_check.cache_partial": "Cache wordt ververst",
     "source_check.provider_diyanet": "Diyanet officiële API",
     "source_check.provider_aladhan": "Aladhan methode {{method}}",
+    "source_check.provider_astronomical": "Berekening op apparaat (methode {{method}})",
+    "source_check.asr_school": "Asr-school",
+    "source_check.asr_school_diyanet": "Zoals gepubliceerd door Diyanet",
+    "source_check.tune_offsets": "Minuutcorrecties",
     "source_check.today_title": "Vandaag",
     "source_check.tomorrow_title": "Morgen",
     "source_check.refresh": "Opnieuw controleren",
@@ -810,8 +1396,30 @@ export const translations: Record<AppLanguage, TranslationDict> = {
     "source_check.sanity_coordinate_fallback_body": "De proxy gebruikte coordinaten-gebaseerde fallbackdata. Vergelijk met Diyanet als tijden vreemd lijken.",
     "source_check.sanity_regional_fallback_title": "Dichtbijgelegen Diyanet-stad gebruikt",
     "source_check.sanity_regional_fallback_body": "Deze locatie is gekoppeld aan {{city}}, ongeveer {{distance}} km verderop.",
+    "source_check.sanity_astronomical_title": "Berekend op dit apparaat",
+    "source_check.sanity_astronomical_body": "Deze tijden worden zonder netwerkverbinding berekend uit de stand van de zon. Tijden van de lokale moskee kunnen enkele minuten afwijken.",
+    "source_check.sanity_astronomical_fallback_title": "Offline berekening gebruikt",
+    "source_check.sanity_astronomical_fallback_body": "Beide online bronnen waren onbereikbaar en er was niets in de cache, daarom zijn deze tijden op dit apparaat berekend. Vernieuw zodra je weer online bent.",
+    "source_check.high_latitude": "Regel voor hoge breedtegraad",
+    "source_check.sanity_high_latitude_title": "Regel voor hoge breedtegraad toegepast",
+    "source_check.sanity_high_latitude_body_angle_based": "De zon gaat hier nauwelijks onder, daarom zijn Fajr en Isha begrensd met de hoekgebaseerde regel. Lange Fajr- of Isha-intervallen en grotere sprongen per dag zijn te verwachten.",
+    "source_check.sanity_high_latitude_body_one_seventh": "De zon gaat hier nauwelijks onder, daarom zijn Fajr en Isha begrensd tot een zevende van de nacht. Lange Fajr- of Isha-intervallen en grotere sprongen per dag zijn te verwachten.",
+    "source_check.sanity_high_latitude_body_middle_of_night": "De zon gaat hier nauwelijks onder, daarom zijn Fajr en Isha begrensd tot het midden van de nacht. Lange Fajr- of Isha-intervallen en grotere sprongen per dag zijn te verwachten.",
     "source_check.sanity_day_jump_title": "Grote dag-op-dag sprong",
     "source_check.sanity_day_jump_body": "{{prayer}} verandert {{minutes}} minuten ten opzichte van morgen.",
+    "source_check.mode_overview": "Overzicht",
+    "source_check.mode_compare": "Bronnen vergelijken",
+    "source_check.compare_title": "Bronvergelijking",
+    "source_check.compare_body": "De tijden van vandaag van Diyanet en meerdere Aladhan-methodes voor dezelfde locatie. Verschillen worden gemeten ten opzichte van je actieve bron.",
+    "source_check.compare_threshold": "Markeer verschillen boven",
+    "source_check.compare_minutes": "{{minutes}} min",
+    "source_check.compare_loading": "Alle bronnen ophalen...",
+    "source_check.compare_agree": "Alle bronnen wijken minder dan {{minutes}} min af",
+    "source_check.compare_differ": "{{prayers}} wijken meer dan {{minutes}} min af",
+    "source_check.compare_active": "Actieve bron",
+    "source_check.compare_reference": "Referentie",
+    "source_check.compare_failed": "Niet beschikbaar",
+    "source_check.compare_use": "Gebruik",
 
     "alerts.title": "Meldingen",
     "alerts.subtitle": "Tik op een gebed om notificatie-instellingen te openen.",
@@ -822,9 +1430,12 @@ export const translations: Record<AppLanguage, TranslationDict> = {
     "alerts.mins_before": "{{mins}} min ervoor",
     "alerts.sound_on": "Geluid aan",
     "alerts.sound_off": "Stil",
+    "alerts.end_warning": "waarschuwt {{mins}} min voor einde",
     "alerts.summary_title": "Notificatiestatus",
     "alerts.active_summary": "{{active}} van {{total}} gebeden actief",
     "alerts.scheduled_summary": "{{scheduled}} herinneringen gepland op dit toestel",
+    "alerts.horizon_summary": "Gedekt tot {{until}} ({{pending}}/{{budget}} plekken)",
+    "alerts.pending_summary": "{{pending}}/{{budget}} meldingsplekken in gebruik",
     "alerts.schedule_checking": "Geplande herinneringen controleren",
     "alerts.check_schedule": "Planning controleren",
     "alerts.checking_schedule": "Controleren...",
@@ -838,6 +1449,8 @@ export const translations: Record<AppLanguage, TranslationDict> = {
     "alert.configure_for": "Stel in hoe je meldingen ontvangt voor {{prayer}}",
     "alert.sound_audio": "GELUID & AUDIO",
     "alert.play_sound": "Geluid afspelen",
+    "alert.full_adhan": "Volledige adhan",
+    "alert.full_adhan_help": "Speelt de volledige adhan af als de melding binnenkomt terwijl de app open is, of als je hem opent.",
     "alert.alert_tone": "Meldingsgeluid",
     "alert.tone_adhan": "Adhan",
     "alert.tone_beep": "Piep",
@@ -846,6 +1459,11 @@ export const translations: Record<AppLanguage, TranslationDict> = {
     "alert.vibration": "Trillen",
     "alert.test_notification": "Test notificatie",
     "alert.test_help": "Stuur een testmelding om volume en trillen te controleren.",
+    "alert.today": "VANDAAG",
+    "alert.prayer_log": "Gebedslogboek",
+    "alert.log_prayed": "Gebeden",
+    "alert.log_missed": "Gemist",
+    "alert.prayer_log_help": "Wordt meteen opgeslagen en telt mee in de gebedstracker. Tik nogmaals om te wissen.",
     "alert.inline_saving": "Voorkeuren opslaan",
     "alert.inline_saved": "Voorkeuren opgeslagen",
     "alert.inline_test_sent": "Testmelding ingepland",
@@ -855,9 +1473,87 @@ export const translations: Record<AppLanguage, TranslationDict> = {
     "alert.inline_preview_stopped": "Voorbeeld gestopt",
     "alert.inline_preview_unavailable": "Systeem piep kan hier niet worden voorbeluisterd",
     "alert.inline_preview_error": "Voorbeeld kon niet worden afgespeeld",
+    "tones.Adhan": "Adhan",
+    "tones.Beep": "Piep",
+    "tones.custom_length": "Geïmporteerd · {{seconds}} s",
+    "tones.custom_trimmed": "Geïmporteerd · ingekort tot {{seconds}} s",
+    "tones.custom_missing": "Geïmporteerde toon",
+    "tones.import": "WAV-bestand importeren",
+    "tones.import_hint_ios": "Voor een adhan uit Mekka, Medina of Istanbul of een Fajr-adhan importeer je een opname ervan. Alleen WAV-bestanden. Langere opnames worden ingekort tot {{seconds}} seconden, het langste geluid dat iOS voor een melding afspeelt.",
+    "tones.import_hint_android": "Voor een adhan uit Mekka, Medina of Istanbul of een Fajr-adhan importeer je een opname ervan. Alleen WAV-bestanden, ingekort tot {{seconds}} seconden. Android speelt het systeemgeluid af voor geïmporteerde tonen en de volledige toon wanneer je de melding opent.",
+    "tones.imported": "Toon geïmporteerd",
+    "tones.imported_trimmed": "Toon geïmporteerd en ingekort tot {{seconds}} s",
+    "tones.import_failed": "Dit bestand kon niet worden geïmporteerd. Kies een ongecomprimeerd WAV-bestand.",
+    "tones.delete": "Verwijderen",
+    "tones.delete_title": "Toon verwijderen?",
+    "tones.delete_message": "\"{{name}}\" wordt verwijderd. Gebeden die deze toon gebruiken, gaan terug naar de standaard adhan.",
+    "adhan_player.title": "Adhan voor {{prayer}}",
+    "adhan_player.playing": "Volledige adhan wordt afgespeeld",
+    "adhan_player.finished": "De adhan is afgelopen",
+    "adhan_player.stop": "Stoppen",
+    "adhan_player.close": "Sluiten",
+    "adhan_player.dua_title": "Dua na de adhan",
+    "adhan_player.dua_meaning": "O Allah, Heer van deze volmaakte oproep en het gebed dat verricht gaat worden, schenk Mohammed al-Wasilah en al-Fadilah, en verhef hem tot de geprezen positie die U hem hebt beloofd.",
+    "quiet.title": "Stilteregels",
+    "quiet.subtitle": "Meldingen verschijnen nog steeds, maar zonder geluid zolang een regel geldt.",
+    "quiet.hours": "Stille uren",
+    "quiet.hours_desc": "Geen geluid tussen {{start}} en {{end}}.",
+    "quiet.start": "VAN",
+    "quiet.end": "TOT",
+    "quiet.except": "GELUID BEHOUDEN VOOR",
+    "quiet.mosque": "Stil in de moskee",
+    "quiet.mosque_desc": "Meldingen worden stil als je laatst bekende locatie bij een van je favoriete moskeeën is.",
+    "quiet.radius": "AFSTAND TOT MOSKEE",
+    "quiet.meters": "{{meters}} m",
+    "quiet.mosque_near": "Nu bij {{name}}",
+    "quiet.mosque_not_near": "Niet bij een favoriete moskee",
+    "quiet.mosque_no_favorites": "Nog geen favoriete moskeeën",
+    "quiet.manage_favorites": "Favoriete moskeeën ({{count}})",
+    "quiet.summary_hours": "Stil {{start}}–{{end}}",
+    "quiet.summary_mosque": "Stil in de moskee",
+    "quiet.summary_off": "Geen stilteregels",
+    "notification_log.title": "Meldingenlog",
+    "notification_log.row_meta": "Wat gepland was en wat aankwam",
+    "notification_log.subtitle": "Geplande meldingen vergeleken met wanneer ze aankwamen.",
+    "notification_log.loading": "Meldingenlog laden...",
+    "notification_log.error": "Het meldingenlog kon niet worden geladen.",
+    "notification_log.status_ok": "Laatste planning OK",
+    "notification_log.status_error": "Laatste planning mislukt",
+    "notification_log.status_empty": "Nog geen planning",
+    "notification_log.export": "Exporteren",
+    "notification_log.export_failed": "Het log kon niet worden gedeeld vanaf dit apparaat.",
+    "notification_log.clear": "Wissen",
+    "notification_log.clear_title": "Meldingenlog wissen?",
+    "notification_log.clear_body": "Alle vastgelegde planningen en leveringen worden verwijderd. Geplande meldingen blijven staan.",
+    "notification_log.deliveries": "AANGEKOMEN",
+    "notification_log.deliveries_empty": "Nog geen meldingen vastgelegd.",
+    "notification_log.scheduled_delivered": "Gepland {{scheduled}} • aangekomen {{delivered}}",
+    "notification_log.delivered": "Aangekomen {{delivered}}",
+    "notification_log.from_tray": "Gevonden in meldingencentrum",
+    "notification_log.opened": "Geopend",
+    "notification_log.on_time": "Op tijd",
+    "notification_log.late": "{{mins}} min te laat",
+    "notification_log.early": "{{mins}} min te vroeg",
+    "notification_log.not_scheduled": "Geen planning",
+    "notification_log.replans": "PLANNINGEN",
+    "notification_log.replans_empty": "Nog geen planningen vastgelegd.",
+    "notification_log.replan_counts": "{{scheduled}}/{{budget}} gepland • {{skipped}} overgeslagen",
+    "notification_log.replan_error": "Fout: {{message}}",
+    "notification_log.trigger_app_open": "App geopend",
+    "notification_log.trigger_settings": "Instellingen gewijzigd",
+    "notification_log.trigger_background": "Achtergrondverversing",
+    "notification_log.skip_past": "Tijd voorbij",
+    "notification_log.skip_disabled": "Melding uit",
+    "notification_log.skip_duplicate": "Dubbel",
+    "notification_log.skip_budget": "Boven systeemlimiet",
     "alert.alert_offset": "Meldingstijd",
     "alert.at_prayer_time": "Op gebedstijd",
     "alert.mins_before": "{{mins}} min ervoor",
+    "alert.end_warning": "Voor het einde",
+    "alert.end_warning_off": "Uit",
+    "alert.end_warning_mins": "{{mins}} min voor einde",
+    "alert.end_warning_until": "{{prayer}} eindigt als {{next}} begint",
+    "alert.end_warning_midnight": "De voorkeurstijd van {{prayer}} eindigt om middernacht",
     "alert.reset_default": "Reset naar standaard",
     "alert.save_preferences": "Voorkeuren opslaan",
     "alert.test_sent_title": "Test verstuurd",
@@ -876,6 +1572,17 @@ export const translations: Record<AppLanguage, TranslationDict> = {
     "methods.inline_applying": "Methode toepassen",
     "methods.inline_diyanet_selected": "Diyanet Officiele API geselecteerd",
     "methods.inline_method_selected": "Methode {{id}} geselecteerd",
+    "methods.astronomical_offline": "Berekening op apparaat",
+    "methods.astronomical_offline_desc": "Werkt offline met de hoeken van {{method}}",
+    "methods.astronomical_active": "Berekening op apparaat is actief",
+    "methods.inline_astronomical_selected": "Berekening op apparaat geselecteerd",
+    "methods.tune_title": "Minuutcorrecties",
+    "methods.tune_none": "Geen correcties",
+    "methods.tune_hint": "Verschuif elk gebed met maximaal {{max}} minuten zodat het overeenkomt met je lokale moskee. Geldt voor elke bron.",
+    "methods.tune_minutes": "{{value}} min",
+    "methods.tune_reset": "Herstellen",
+    "methods.tune_apply": "Toepassen",
+    "methods.inline_tune_applying": "Correcties toepassen",
 
     "qibla.title": "Qibla",
     "qibla.gps_connected": "GPS verbonden",
@@ -886,6 +1593,7 @@ export const translations: Record<AppLanguage, TranslationDict> = {
     "qibla.permission_error": "Locatietoegang is nodig om Qibla vanaf jouw positie te bepalen.",
     "qibla.load_error": "Qibla kan nu niet worden geladen: {{error}}",
     "qibla.bearing": "Qibla: {{deg}}deg",
+    "qibla.distance": "{{km}} km tot de Kaaba",
     "qibla.live_on": "Live kompas: AAN",
     "qibla.live_off": "Live kompas: UIT (fallback)",
     "qibla.guidance.title": "Richtinghulp",
@@ -907,12 +1615,89 @@ export const translations: Record<AppLanguage, TranslationDict> = {
     "qibla.confidence.good": "Kompas is stabiel.",
     "qibla.confidence.meh": "Beweeg je telefoon in een 8-vorm om te kalibreren.",
     "qibla.confidence.bad": "Vermijd metaal/magneten en probeer opnieuw.",
+    "qibla.declination_east": "De magnetische declinatie is hier {{deg}}° oost.",
+    "qibla.declination_west": "De magnetische declinatie is hier {{deg}}° west.",
+    "qibla.heading_true": "Je telefoon geeft het geografische noorden door.",
+    "qibla.heading_corrected": "Het kompas is gecorrigeerd naar het geografische noorden.",
+    "qibla.heading_magnetic": "Het kompas toont het magnetische noorden.",
+    "qibla.cross_check_ok": "Komt overeen met de Qibla van Aladhan ({{diff}}° verschil).",
+    "qibla.cross_check_off": "Aladhan geeft een Qibla die {{diff}}° afwijkt.",
+    "qibla.mode_compass": "Kompas",
+    "qibla.mode_sun": "Zon",
+    "qibla.sun.title": "Zonzoeker",
+    "qibla.sun.position": "Zon op {{azimuth}}° azimut, {{altitude}}° boven de horizon",
+    "qibla.sun.below_horizon": "De zon staat nu te laag. Gebruik het kompas of wacht op daglicht.",
+    "qibla.sun.ahead": "Kijk naar de zon: de Qibla ligt recht voor je.",
+    "qibla.sun.behind": "Draai je rug naar de zon: je schaduw wijst naar de Qibla.",
+    "qibla.sun.keep_left": "Houd de zon {{deg}}° aan je linkerkant.",
+    "qibla.sun.keep_right": "Houd de zon {{deg}}° aan je rechterkant.",
+    "qibla.sun.shadow_left": "Je schaduw valt dan {{deg}}° naar links.",
+    "qibla.sun.shadow_right": "Je schaduw valt dan {{deg}}° naar rechts.",
+    "qibla.sun.alignments": "Uitlijningen vandaag",
+    "qibla.sun.toward": "Zon staat boven de Qibla",
+    "qibla.sun.away": "Schaduwen wijzen naar de Qibla",
+    "qibla.sun.no_alignments": "De zon staat hier vandaag niet in lijn met de Qibla.",
+    "qibla.sun.calibration_hint": "Op deze momenten tonen de zon of een schaduw de exacte Qibla, een goed moment om het kompas te controleren.",
+    "qibla.sun.try": "Gebruik de zon",
+    "qibla.calibration.open": "Kompas kalibreren",
+    "qibla.calibration.poor": "De laatste kalibratie op deze telefoon kwam niet tot rust, dus het kompas wordt eerder gemarkeerd.",
+    "qibla.calibration.interference": "Recente kalibraties vingen magnetische storing op. Controleer of je hoesje of houder magnetisch is.",
+    "qibla.calibration.stale": "Dit kompas is al een tijd niet gekalibreerd.",
+    "calibration.title": "Kompas kalibreren",
+    "calibration.step_move": "Beweeg je telefoon in een acht",
+    "calibration.step_move_desc": "Kantel en draai hem in alle richtingen, zoals de animatie, tot de eerste helft van de balk vol is.",
+    "calibration.step_settle": "Houd hem nu plat en stil",
+    "calibration.step_settle_desc": "Houd de telefoon waterpas met het scherm omhoog terwijl de metingen tot rust komen.",
+    "calibration.step_done": "Kompas gekalibreerd",
+    "calibration.step_done_desc": "De metingen zijn stabiel en binnen het verwachte bereik.",
+    "calibration.unavailable": "Het kompas is niet beschikbaar",
+    "calibration.readings": "Veld {{field}} µT · spreiding {{spread}}°",
+    "calibration.interference": "Magnetische storing",
+    "calibration.interference_desc": "Het veld is veel sterker of zwakker dan dat van de aarde. Ga weg bij metaal, magneten, speakers en laptops en haal magnetische hoesjes weg.",
+    "calibration.restart": "Opnieuw",
+    "calibration.finish": "Nu afronden",
+    "calibration.done": "Klaar",
+    "calibration.history": "EERDERE KALIBRATIES",
+    "calibration.history_interference": "Storing gedetecteerd",
+    "calibration.quality_good": "Goed",
+    "calibration.quality_meh": "Redelijk",
+    "calibration.quality_bad": "Slecht",
 
     "notifications.title": "Gebedstijd",
     "notifications.body_at_time": "Het is tijd voor {{prayer}}.",
     "notifications.body_at_time_with_location": "Het is tijd voor {{prayer}} in {{location}}.",
+    "notifications.body_snoozed": "Herinnering: {{prayer}}.",
+    "notifications.title_end_warning": "De tijd loopt af",
+    "notifications.body_end_warning": "{{prayer}} eindigt over {{mins}} minuten ({{time}}).",
+    "notifications.body_end_warning_midnight": "De voorkeurstijd voor {{prayer}} eindigt om middernacht ({{time}}), over {{mins}} minuten.",
+    "notifications.action_snooze": "Snooze {{mins}} min",
+    "notifications.action_prayed": "Ik heb gebeden",
+    "notifications.action_qaza": "Gemist – toevoegen aan qaza",
     "notifications.body_offset": "{{prayer}} over {{mins}} minuten.",
     "notifications.body_offset_with_location": "{{prayer}} in {{location}} over {{mins}} minuten.",
+    "notifications.body_iqamah": "Het gezamenlijke {{prayer}}-gebed in {{mosque}} begint nu.",
+    "notifications.body_iqamah_offset": "Het gezamenlijke {{prayer}}-gebed in {{mosque}} begint over {{mins}} minuten.",
+    "notifications.title_suhoor": "Suhoor",
+    "notifications.title_iftar": "Iftar",
+    "notifications.body_suhoor": "Suhoor eindigt over {{mins}} minuten (imsak {{time}}).",
+    "notifications.body_imsak": "Imsak {{time}}: het vasten begint nu.",
+    "notifications.body_iftar": "Het is tijd voor iftar ({{time}}).",
+    "notifications.body_extra_Imsak": "Imsak is begonnen ({{time}}). Stop met eten en drinken.",
+    "notifications.body_extra_Duha": "De tijd voor Duha is begonnen ({{time}}).",
+    "notifications.body_extra_Istiwa": "Istiwa ({{time}}): bid niet tot Dhuhr.",
+    "notifications.body_extra_Midnight": "Islamitische middernacht ({{time}}). Bid Isha ervoor als je dat nog niet hebt gedaan.",
+    "notifications.body_extra_LastThird": "Het laatste derde van de nacht is begonnen ({{time}}).",
+    "notifications.jumuah_prayer": "Vrijdaggebed",
+    "notifications.title_jumuah_leave": "Tijd om te vertrekken voor het vrijdaggebed",
+    "notifications.body_jumuah_walk": "Lopen naar {{mosque}} duurt ongeveer {{mins}} min. De khutbah begint om {{time}}.",
+    "notifications.body_jumuah_drive": "Rijden naar {{mosque}} duurt ongeveer {{mins}} min. De khutbah begint om {{time}}.",
+    "notifications.title_kahf": "Soera al-Kahf",
+    "notifications.body_kahf": "Het is vrijdag. Tik om soera al-Kahf te lezen.",
+    "extra_times.Imsak": "Imsak",
+    "extra_times.Duha": "Duha",
+    "extra_times.Istiwa": "Istiwa",
+    "extra_times.Midnight": "Middernacht",
+    "extra_times.LastThird": "Laatste derde",
 
     "mosques.title": "Moskeeën",
     "mosques.subtitle": "Vind moskeeën in de buurt op basis van je huidige locatie.",
@@ -937,6 +1722,33 @@ export const translations: Record<AppLanguage, TranslationDict> = {
     "mosques.search_placeholder": "Zoek moskee...",
     "mosques.filter_all": "Alle",
     "mosques.filter_favorites": "Alleen favorieten",
+    "mosques.filter_women": "Vrouwenruimte",
+    "mosques.filter_wheelchair": "Rolstoeltoegankelijk",
+    "mosques.empty_no_filter": "Geen moskeeën in de buurt waarvoor dit in OpenStreetMap staat.",
+    "mosques.details_action": "Details",
+    "mosques.details_close": "Sluiten",
+    "mosques.details_hours": "Openingstijden",
+    "mosques.open_now": "Nu open",
+    "mosques.closed_now": "Nu gesloten",
+    "mosques.closed": "Gesloten",
+    "mosques.details_address": "Adres",
+    "mosques.details_denomination": "Stroming",
+    "mosques.denomination_sunni": "Soennitisch",
+    "mosques.denomination_shia": "Sjiitisch",
+    "mosques.denomination_ibadi": "Ibadi",
+    "mosques.denomination_ahmadiyya": "Ahmadiyya",
+    "mosques.details_website": "Website",
+    "mosques.details_phone": "Telefoon",
+    "mosques.details_women": "Vrouwenruimte",
+    "mosques.details_wheelchair": "Rolstoeltoegang",
+    "mosques.wheelchair_yes": "Toegankelijk",
+    "mosques.wheelchair_limited": "Deels toegankelijk",
+    "mosques.wheelchair_no": "Niet toegankelijk",
+    "mosques.details_parking": "Parkeren",
+    "mosques.details_yes": "Ja",
+    "mosques.details_no": "Nee",
+    "mosques.details_none": "OpenStreetMap heeft nog geen verdere details over deze moskee.",
+    "mosques.details_source": "Details van OpenStreetMap-bijdragers.",
     "mosques.empty_no_mosques": "Geen moskeeën gevonden binnen {{radius}} km.",
     "mosques.empty_no_favorites": "Geen favoriete moskeeën gevonden.",
     "mosques.empty_no_search": "Geen resultaten voor je zoekopdracht.",
@@ -974,6 +1786,11 @@ export const translations: Record<AppLanguage, TranslationDict> = {
     "monthly.asr": "Asr",
     "monthly.maghrib": "Maghrib",
     "monthly.isha": "Isha",
+    "monthly.extra_Imsak": "Imsak",
+    "monthly.extra_Duha": "Duha",
+    "monthly.extra_Istiwa": "Istiwa",
+    "monthly.extra_Midnight": "Midd.",
+    "monthly.extra_LastThird": "⅓ nacht",
     "monthly.source": "Bron: {{source}}",
     "monthly.available_count": "{{available}}/{{total}} dagen beschikbaar",
     "monthly.network_count": "{{count}} live",
@@ -987,6 +1804,167 @@ export const translations: Record<AppLanguage, TranslationDict> = {
     "monthly.close": "Sluiten",
     "monthly.refresh": "Ververs maand",
     "monthly.partialError": "Sommige dagen konden niet worden geladen. Probeer te verversen.",
+    "monthly.export": "Exporteren",
+    "monthly.export_title": "Rooster {{year}} exporteren",
+    "monthly.export_body": "Stelt alle 12 maanden samen voor je huidige locatie en instellingen en opent daarna het deelmenu.",
+    "monthly.export_pdf": "Afdrukbare PDF",
+    "monthly.export_csv": "Spreadsheet (CSV)",
+    "monthly.export_ics": "Agenda (.ics)",
+    "monthly.export_progress": "Maand {{done}} van {{total}} voorbereiden...",
+    "monthly.export_empty": "Er konden geen gebedstijden voor dit jaar worden geladen. Controleer je verbinding en probeer opnieuw.",
+    "monthly.export_failed": "Exporteren mislukt. Probeer het opnieuw.",
+    "monthly.export_document_title": "Gebedstijden {{year}}",
+    "monthly.export_generated": "Gegenereerd op {{date}}",
+    "monthly.export_date": "Datum",
+    "ramadan.title": "Ramadan",
+    "ramadan.range": "Ramadan {{year}} AH • {{start}} – {{end}}",
+    "ramadan.status_active": "Ramadanmodus aan",
+    "ramadan.status_upcoming": "Binnenkort",
+    "ramadan.mode": "RAMADANMODUS",
+    "ramadan.mode_auto": "Automatisch",
+    "ramadan.mode_on": "Altijd aan",
+    "ramadan.mode_off": "Uit",
+    "ramadan.imsak_margin": "IMSAK VOOR FAJR",
+    "ramadan.imsak_margin_diyanet": "De Fajr-tijd van Diyanet is al imsak, dus er gaat geen marge af.",
+    "ramadan.minutes": "{{mins}} min",
+    "ramadan.suhoor_reminder": "SUHOOR-HERINNERING",
+    "ramadan.reminder_off": "Uit",
+    "ramadan.at_imsak": "Bij imsak",
+    "ramadan.minutes_before": "{{mins}} min vooraf",
+    "ramadan.iftar_reminder": "Iftar-melding",
+    "ramadan.iftar_reminder_desc": "Melding bij Maghrib zolang de ramadanmodus aan staat",
+    "ramadan.available_count": "{{available}}/{{total}} dagen beschikbaar",
+    "ramadan.col_day": "Dag",
+    "ramadan.col_date": "Datum",
+    "ramadan.col_imsak": "Imsak",
+    "ramadan.col_iftar": "Iftar",
+    "ramadan.loading": "Ramadanrooster opbouwen...",
+    "ramadan.error": "Het ramadanrooster kon niet worden geladen.",
+    "hijri.title": "Hijri-kalender",
+    "hijri.events_this_month": "GEBEURTENISSEN DEZE MAAND",
+    "hijri.no_events": "Geen bijzondere dagen deze maand.",
+    "hijri.adjustment": "HIJRI-DATUMCORRECTIE",
+    "hijri.adjustment_desc": "Verschuif de Hijri-datum naar de lokale maanwaarneming. Geldt voor de startpagina, deze kalender en de ramadanmodus.",
+    "hijri.adjustment_none": "0",
+    "hijri.adjustment_days": "{{days}} d",
+    "hijri.show_kandils": "Kandilnachten",
+    "hijri.show_kandils_desc": "Toon Regaib, Miraç, Berat en Mevlid kandil",
+    "hijri.event_islamic_new_year": "Islamitisch nieuwjaar",
+    "hijri.event_ashura": "Dag van Ashura",
+    "hijri.event_mawlid": "Mawlid an-Nabi",
+    "hijri.event_mawlid_kandil": "Mevlid Kandili (avond)",
+    "hijri.event_regaib_kandil": "Regaib Kandili (avond)",
+    "hijri.event_miraj_kandil": "Miraç Kandili (avond)",
+    "hijri.event_berat_kandil": "Berat Kandili (avond)",
+    "hijri.event_ramadan_start": "Eerste dag van de ramadan",
+    "hijri.event_laylat_al_qadr": "Laylat al-Qadr (avond)",
+    "hijri.event_eid_al_fitr": "Suikerfeest (Eid al-Fitr)",
+    "hijri.event_arafah": "Dag van Arafah",
+    "hijri.event_eid_al_adha": "Offerfeest (Eid al-Adha)",
+    "hijri_months.1": "Muharram",
+    "hijri_months.2": "Safar",
+    "hijri_months.3": "Rabi al-Awwal",
+    "hijri_months.4": "Rabi al-Akhir",
+    "hijri_months.5": "Jumada al-Ula",
+    "hijri_months.6": "Jumada al-Akhirah",
+    "hijri_months.7": "Rajab",
+    "hijri_months.8": "Sha'ban",
+    "hijri_months.9": "Ramadan",
+    "hijri_months.10": "Shawwal",
+    "hijri_months.11": "Dhu al-Qadah",
+    "hijri_months.12": "Dhu al-Hijjah",
+    "jumuah.title": "Vrijdaggebed",
+    "jumuah.loading": "Vrijdagtijden laden...",
+    "jumuah.error": "Instellingen voor het vrijdaggebed konden niet worden geladen.",
+    "jumuah.next_plan": "{{date}}: vertrek om {{leave}}, khutbah {{khutbah}}",
+    "jumuah.next_plan_unavailable": "Kies een standaardmoskee om je vrijdag te plannen.",
+    "jumuah.next_plan_away": "Geen vertrekherinnering zolang je niet bij je standaardmoskee in de buurt bent.",
+    "jumuah.status_on": "Aan",
+    "jumuah.status_off": "Uit",
+    "jumuah.enabled": "Herinneringen vrijdaggebed",
+    "jumuah.enabled_desc": "Herinner me op vrijdag wanneer ik naar mijn standaardmoskee moet vertrekken",
+    "jumuah.mosque": "STANDAARDMOSKEE",
+    "jumuah.travel_walk": "Ongeveer {{mins}} min lopen",
+    "jumuah.travel_drive": "Ongeveer {{mins}} min rijden",
+    "jumuah.travel_unknown": "Reistijd nog niet beschikbaar",
+    "jumuah.travel_away": "Te ver weg om de reis te plannen",
+    "jumuah.change_mosque": "Wijzigen",
+    "jumuah.no_mosque": "Nog geen standaardmoskee. Stel er een in via Moskeeën.",
+    "jumuah.choose_mosque": "Kies een moskee",
+    "jumuah.khutbah_time": "TIJD KHUTBAH",
+    "jumuah.earlier": "5 minuten eerder",
+    "jumuah.later": "5 minuten later",
+    "jumuah.khutbah_custom": "Ingesteld voor deze moskee",
+    "jumuah.khutbah_dhuhr": "Dhuhr-tijd wordt gebruikt",
+    "jumuah.use_dhuhr": "Dhuhr-tijd gebruiken",
+    "jumuah.leave_buffer": "EXTRA TIJD VÓÓR DE KHUTBAH",
+    "jumuah.kahf_reminder": "Herinnering soera al-Kahf",
+    "jumuah.kahf_reminder_desc": "Herinnering op vrijdagochtend die de soera opent",
+    "jumuah.read_kahf": "Soera al-Kahf lezen",
+    "iqamah.title": "Iqamah-tijden",
+    "iqamah.loading": "Iqamah-tijden laden...",
+    "iqamah.error": "De iqamah-tijden konden niet worden geladen.",
+    "iqamah.no_mosque": "Geen standaardmoskee",
+    "iqamah.no_mosque_desc": "Iqamah-tijden horen bij je standaardmoskee. Markeer eerst een moskee als standaard in Moskeeën.",
+    "iqamah.status_set": "Rooster ingesteld",
+    "iqamah.status_empty": "Geen rooster",
+    "iqamah.show_on_home": "Tonen op beginscherm",
+    "iqamah.show_on_home_desc": "Toon de iqamah naast elke gebedstijd",
+    "iqamah.notify_at_iqamah": "Melding bij iqamah",
+    "iqamah.notify_at_iqamah_desc": "Gebedsmeldingen en herinneringen volgen de iqamah in plaats van de adhan",
+    "iqamah.timetable": "ROOSTER",
+    "iqamah.rule_none": "Niet ingesteld",
+    "iqamah.rule_offset": "{{mins}} min na de adhan",
+    "iqamah.rule_fixed": "Vast om {{time}}",
+    "iqamah.rule_with_overrides": "{{rule}} • {{count}} dag(en) anders",
+    "iqamah.adhan_at": "Adhan {{time}}",
+    "iqamah.every_day": "Elke dag",
+    "iqamah.mode_none": "Niet ingesteld",
+    "iqamah.mode_same": "Zoals elke dag",
+    "iqamah.mode_offset": "Na de adhan",
+    "iqamah.mode_fixed": "Vaste tijd",
+    "iqamah.offset_unit": "minuten na de adhan",
+    "iqamah.fixed_unit": "vaste tijd",
+    "iqamah.import": "IMPORTEREN",
+    "iqamah.import_desc": "Plak een link naar een JSON- of CSV-rooster van je moskee, de link uit de QR-code of het rooster zelf.",
+    "iqamah.import_placeholder": "https://... of roostertekst",
+    "iqamah.import_button": "Importeren",
+    "iqamah.choose_file": "Bestand kiezen",
+    "iqamah.refresh_from": "Vernieuwen vanaf {{url}}",
+    "iqamah.imported": "Rooster opgeslagen voor {{mosque}}",
+    "iqamah.import_failed": "Dit rooster kon niet worden gelezen",
+    "iqamah.replace_title": "Rooster vervangen?",
+    "iqamah.replace_body": "De geïmporteerde tijden vervangen het huidige rooster van {{mosque}}.",
+    "iqamah.replace": "Vervangen",
+    "iqamah.link_title": "Iqamah-tijden importeren?",
+    "iqamah.link_body": "De iqamah-tijden van {{source}} opslaan voor {{mosque}}?",
+    "iqamah.link_body_named": "De iqamah-tijden van {{from}}, via {{source}}, opslaan voor {{mosque}}?",
+    "iqamah.link_source_shared": "een gedeelde link",
+    "iqamah.share_file": "Delen als bestand",
+    "iqamah.share_link": "Delen als link (voor een QR-code)",
+    "iqamah.share_failed": "Delen is nu niet beschikbaar",
+    "iqamah.clear": "Rooster wissen",
+    "iqamah.clear_title": "Rooster wissen?",
+    "iqamah.clear_body": "Alle iqamah-tijden van {{mosque}} worden verwijderd.",
+    "tracker.title": "Gebedstracker",
+    "tracker.empty": "Vink gebeden aan op het startscherm om te beginnen",
+    "tracker.streak_summary": "Huidige reeks: {{count}} dagen",
+    "tracker.load_failed": "Het gebedslogboek kon niet worden geladen.",
+    "tracker.current_streak": "Huidige reeks",
+    "tracker.best_streak": "Beste reeks",
+    "tracker.this_week": "DEZE WEEK",
+    "tracker.monthly": "MAANDELIJKSE VOLTOOIING",
+    "tracker.punctuality": "OP TIJD VS LAAT (LAATSTE {{days}} DAGEN)",
+    "tracker.on_time": "Op tijd: {{count}}",
+    "tracker.late": "Laat: {{count}}",
+    "tracker.punctuality_empty": "Nog geen gebeden gelogd met bekende gebedstijden.",
+    "tracker.punctuality_unknown": "{{count}} gebeden konden niet worden gecontroleerd omdat de gebedstijden niet in de cache staan.",
+    "tracker.punctuality_hint": "Een gebed dat je hier afvinkt telt op het moment van afvinken; een gebed dat je vanuit een melding als gebeden markeert telt op het tijdstip van de melding.",
+    "tracker.missed": "GEMISTE GEBEDEN",
+    "tracker.missed_empty": "Geen gemiste gebeden die nog aan qaza moeten worden toegevoegd.",
+    "tracker.add_to_qaza": "Toevoegen aan qaza",
+    "tracker.add_all_to_qaza": "Alles toevoegen aan qaza",
+    "tracker.how_to_log": "Tik op het startscherm op het rondje naast een gebed zodra het begonnen is om het als gebeden te markeren, of houd het ingedrukt om het als gemist te loggen. Een gebed telt als op tijd wanneer het is afgevinkt voordat de volgende gebedstijd begint.",
     "quran.title": "Koran",
     "quran.subtitle": "Lees soera's met Turkse vertaling",
     "quran.loading": "Koran wordt geladen...",
@@ -1186,6 +2164,20 @@ export const translations: Record<AppLanguage, TranslationDict> = {
     "menu.continue_reading.title": "Okumaya devam et",
     "menu.monthly.title": "Aylık Özet",
     "menu.monthly.subtitle": "Namaz vakitlerini aylık görüntüle",
+    "menu.ramadan.title": "Ramazan",
+    "menu.ramadan.subtitle": "İmsak, iftar ve 30 günlük imsakiye",
+    "menu.hijri_calendar.title": "Hicri Takvim",
+    "menu.hijri_calendar.subtitle": "Hicri aylar, mübarek günler ve kandiller",
+    "menu.jumuah.title": "Cuma",
+    "menu.jumuah.subtitle": "Cuma namazı ve Kehf suresi hatırlatmaları",
+    "menu.iqamah.title": "Kamet Vakitleri",
+    "menu.iqamah.subtitle": "Caminizdeki cemaat vakitleri",
+    "menu.travel.title": "Seferi Mod",
+    "menu.travel.subtitle": "Kasr ve cem ipuçlarıyla misafir vakitleri",
+    "menu.locations.title": "Kayıtlı Konumlar",
+    "menu.locations.subtitle": "Yerler arasında hızlı geçiş",
+    "menu.tracker.title": "Namaz Takibi",
+    "menu.tracker.subtitle": "Seriler, haftalık ve aylık ilerleme",
     "menu.source_check.title": "Kaynak kontrolü",
     "menu.source_check.subtitle": "Namaz vakti kaynağını ve önbelleği kontrol et",
     "favorites.title": "Favoriler",
@@ -1248,6 +2240,10 @@ export const translations: Record<AppLanguage, TranslationDict> = {
     "home.fetching_prayers": "Namaz vakitleri alınıyor...",
     "home.live_loaded": "Canlı veri yüklendi.",
     "home.cache_loaded": "Önbellekten yüklendi.",
+    "home.fallback_loaded": "Seçilen kaynağa ulaşılamadı, {{provider}} vakitleri gösteriliyor.",
+    "home.provider_aladhan": "Aladhan",
+    "home.provider_diyanet": "Diyanet",
+    "home.provider_astronomical": "cihazda hesaplama",
     "home.api_cache_fallback": "API ulaşılamadı, önbellek kullanıldı.",
     "home.location_cache_fallback": "Konum yok, son önbellek gösteriliyor.",
     "home.no_data_permission": "Konum veya önbellek verisi yok. Ayarlar'dan konum izni verin.",
@@ -1267,6 +2263,62 @@ export const translations: Record<AppLanguage, TranslationDict> = {
     "home.source_cache_old": "Eski önbellek",
     "home.source_needs_check": "Kaynağı kontrol et",
     "home.coming_up": "SIRADAKİ",
+    "home.qasr_hint": "Kasr: 2 rekât",
+    "home.jam_hint": "{{prayer}} ile birleştirilebilir",
+    "home.iqamah": "Kamet {{time}}",
+    "home.travel_offer_title": "Evden {{km}} km uzaktasınız",
+    "home.travel_offer_body": "Seferi moda geçilip {{place}} için namaz vakitleri kullanılsın mı?",
+    "home.travel_switch": "Geç",
+    "home.travel_not_now": "Şimdi değil",
+    "home.travel_active": "{{place}} seferindesiniz",
+    "home.travel_active_meta": "Kasr ipuçları açık. Seferi ayarları için dokunun.",
+    "travel.title": "Seferi Mod",
+    "travel.subtitle": "Evden uzağa seyahat ettiğinizi fark eder ve namaz vakitlerini uyarlar.",
+    "travel.since": "{{date}} tarihinden beri {{place}} seferindesiniz",
+    "travel.distance_now": "Evden {{km}} km uzaktasınız.",
+    "travel.status_traveling": "Seferi",
+    "travel.status_home": "Evde",
+    "travel.end": "Seferi bitir",
+    "travel.end_desc": "Seferi mod, eve döndüğünüzde kendiliğinden de biter.",
+    "travel.end_desc_manual": "Namaz vakitleri {{home}} konumuna döner. Döndüğünüzde bu kendiliğinden de olur.",
+    "travel.end_button": "Bitir",
+    "travel.detect": "Seferi algıla",
+    "travel.detect_desc": "Evden {{km}} km'den fazla uzaklaştığınızda seferi modu önerir.",
+    "travel.distance": "EVDEN UZAKLIK",
+    "travel.km": "{{km}} km",
+    "travel.combine": "Cem ipuçları",
+    "travel.combine_desc": "Hangi namazların birleştirilebileceğini gösterir. Her mezhep seferde buna izin vermez.",
+    "travel.home": "EV",
+    "travel.home_unset": "Henüz ayarlanmadı",
+    "travel.home_manual": "Manuel modda eviniz Ayarlar'da seçtiğiniz şehirdir.",
+    "travel.home_gps": "İlk konumunuzdan otomatik ayarlanır; buradan değiştirebilirsiniz.",
+    "travel.use_here": "{{place}} konumunu ev olarak kullan",
+    "travel.no_position": "Ev ayarlamak için konum izni gerekir",
+    "home.switch_location": "Konum değiştir",
+    "home.location_gps": "Mevcut konum (GPS)",
+    "home.manage_locations": "Konumları yönet",
+    "home.watch_next": "{{place}}: {{prayer}} {{time}} · {{countdown}} sonra",
+    "home.watch_next_tomorrow": "{{place}}: yarın {{prayer}} {{time}} · {{countdown}} sonra",
+    "locations.title": "Kayıtlı Konumlar",
+    "locations.subtitle": "Ana ekrandan yerler arasında geçiş yapın ve vakitlerini çevrimdışı saklayın.",
+    "locations.count": "{{count}}/{{max}}",
+    "locations.empty": "Henüz kayıtlı konum yok.",
+    "locations.hint": "Mevcut hesaplama yöntemini bir yere sabitlemek için yöntem satırına dokunun. Göz simgesi o yerin sıradaki namazını ana ekranda gösterir.",
+    "locations.method_default": "Mevcut yönteminizi kullanır",
+    "locations.method_own": "Kendi yöntemi: {{method}}",
+    "locations.watch": "Sıradaki namazı izle",
+    "locations.add": "KONUM EKLE",
+    "locations.add_current": "{{name}} kaydet",
+    "locations.limit": "En fazla {{max}} konum kaydedebilirsiniz. Yenisini eklemek için birini kaldırın.",
+    "locations.remove": "Kaldır",
+    "locations.remove_title": "Konum kaldırılsın mı?",
+    "locations.remove_body": "{{name}} kayıtlı konumlarınızdan kaldırılacak.",
+    "home.ramadan_suhoor_in": "Sahurun bitmesine {{time}}",
+    "home.ramadan_iftar_in": "İftara {{time}}",
+    "home.ramadan_day_times": "Ramazan'ın {{day}}. günü • İmsak {{imsak}} • İftar {{iftar}}",
+    "home.ramadan_times": "İmsak {{imsak}} • İftar {{iftar}}",
+    "home.extra_times": "Ek vakitler",
+    "home.mark_prayed": "{{prayer}} namazını kılındı olarak işaretle",
 
     "settings.title": "Uygulama ayarları",
     "settings.appearance": "GÖRÜNÜM",
@@ -1284,9 +2336,20 @@ export const translations: Record<AppLanguage, TranslationDict> = {
     "settings.lang_tr": "Türkçe",
     "settings.dark": "Koyu",
     "settings.light": "Açık",
-    "settings.hanafi_only": "Sadece Hanefi",
-    "settings.asr_fixed": "Asr yöntemi (sabit)",
     "settings.calculation_method": "Hesaplama yöntemi",
+    "settings.asr_school": "İkindi hesabı",
+    "settings.asr_school_standard": "Standart",
+    "settings.asr_school_hanafi": "Hanefi",
+    "settings.asr_school_standard_desc": "Şafii, Maliki, Hanbeli: gölge boyu cismin boyu kadar",
+    "settings.asr_school_hanafi_desc": "Hanefi: gölge boyu cismin iki katı",
+    "settings.asr_school_diyanet": "Diyanet kendi ikindi vaktini yayınlar",
+    "settings.high_latitude": "Yüksek enlem kuralı",
+    "settings.high_latitude_angle_based": "Açıya göre",
+    "settings.high_latitude_one_seventh": "Yedide bir",
+    "settings.high_latitude_middle_of_night": "Gecenin yarısı",
+    "settings.high_latitude_angle_based_desc": "İmsak ve yatsı, alacakaranlık açısına göre gecenin bir bölümünü alır",
+    "settings.high_latitude_one_seventh_desc": "İmsak ve yatsı gecenin yedide biri içinde kalır",
+    "settings.high_latitude_middle_of_night_desc": "İmsak ve yatsı gecenin yarısı içinde kalır",
     "settings.gps_connected": "GPS bağlı",
     "settings.mode": "Mod",
     "settings.mode_manual": "Manuel şehir",
@@ -1320,6 +2383,14 @@ export const translations: Record<AppLanguage, TranslationDict> = {
     "settings.saved_body": "Ayarlar kaydedildi ve bildirimler yeniden planlandı.",
     "settings.replan_failed": "Ayarlar kaydedildi ama bildirim yeniden planlama başarısız: {{error}}",
     "settings.mins_before": "{{mins}} dk",
+    "settings.extra_times": "EK VAKİTLER",
+    "settings.extra_times_show": "GÖSTER",
+    "settings.extra_times_notify": "Bildirim",
+    "settings.extra_times_desc_Imsak": "Orucun başlangıcı, sabahtan önce",
+    "settings.extra_times_desc_Duha": "İşrak/Kuşluk namazı başlar",
+    "settings.extra_times_desc_Istiwa": "Güneş tepede; öğleye kadar namaz kılınmaz",
+    "settings.extra_times_desc_Midnight": "Akşam ile sabah arasının yarısı",
+    "settings.extra_times_desc_LastThird": "Teheccüd için en faziletli vakit",
     "settings.mosques_section": "Cami bulucu",
     "settings.mosques_title": "Cami bulucu",
     "settings.mosques_subtitle": "Mesafe/ETA hesaplamalarını etkiler",
@@ -1360,6 +2431,10 @@ export const translations: Record<AppLanguage, TranslationDict> = {
     "source_check.cache_partial": "Önbellek yenilenecek",
     "source_check.provider_diyanet": "Diyanet resmi API",
     "source_check.provider_aladhan": "Aladhan metodu {{method}}",
+    "source_check.provider_astronomical": "Cihazda hesaplama (yöntem {{method}})",
+    "source_check.asr_school": "İkindi mezhebi",
+    "source_check.asr_school_diyanet": "Diyanet'in yayınladığı gibi",
+    "source_check.tune_offsets": "Dakika düzeltmeleri",
     "source_check.today_title": "Bugün",
     "source_check.tomorrow_title": "Yarın",
     "source_check.refresh": "Tekrar kontrol et",
@@ -1383,8 +2458,30 @@ export const translations: Record<AppLanguage, TranslationDict> = {
     "source_check.sanity_coordinate_fallback_body": "Proxy koordinat bazlı yedek veri kullandı. Vakitler garip görünüyorsa Diyanet ile karşılaştırın.",
     "source_check.sanity_regional_fallback_title": "Yakındaki Diyanet şehri kullanıldı",
     "source_check.sanity_regional_fallback_body": "Bu konum yaklaşık {{distance}} km uzaklıktaki {{city}} ile eşleşti.",
+    "source_check.sanity_astronomical_title": "Bu cihazda hesaplandı",
+    "source_check.sanity_astronomical_body": "Bu vakitler internet bağlantısı olmadan güneşin konumundan hesaplanır. Yerel cami vakitleri birkaç dakika farklı olabilir.",
+    "source_check.sanity_astronomical_fallback_title": "Çevrimdışı hesaplama kullanıldı",
+    "source_check.sanity_astronomical_fallback_body": "İki çevrimiçi kaynağa da ulaşılamadı ve önbellekte veri yoktu; bu yüzden vakitler bu cihazda hesaplandı. Tekrar çevrimiçi olduğunuzda yenileyin.",
+    "source_check.high_latitude": "Yüksek enlem kuralı",
+    "source_check.sanity_high_latitude_title": "Yüksek enlem kuralı uygulandı",
+    "source_check.sanity_high_latitude_body_angle_based": "Bu enlemde güneş neredeyse batmadığı için imsak ve yatsı açıya göre kuralla sınırlandı. Uzun imsak veya yatsı aralıkları ve günler arası büyük farklar beklenir.",
+    "source_check.sanity_high_latitude_body_one_seventh": "Bu enlemde güneş neredeyse batmadığı için imsak ve yatsı gecenin yedide biriyle sınırlandı. Uzun imsak veya yatsı aralıkları ve günler arası büyük farklar beklenir.",
+    "source_check.sanity_high_latitude_body_middle_of_night": "Bu enlemde güneş neredeyse batmadığı için imsak ve yatsı gecenin yarısıyla sınırlandı. Uzun imsak veya yatsı aralıkları ve günler arası büyük farklar beklenir.",
     "source_check.sanity_day_jump_title": "Günler arası büyük fark",
     "source_check.sanity_day_jump_body": "{{prayer}} yarına göre {{minutes}} dakika değişiyor.",
+    "source_check.mode_overview": "Genel bakış",
+    "source_check.mode_compare": "Kaynakları karşılaştır",
+    "source_check.compare_title": "Kaynak karşılaştırması",
+    "source_check.compare_body": "Aynı konum için Diyanet ve birkaç Aladhan yönteminin bugünkü vakitleri. Farklar etkin kaynağınıza göre hesaplanır.",
+    "source_check.compare_threshold": "Şu kadar farkı vurgula",
+    "source_check.compare_minutes": "{{minutes}} dk",
+    "source_check.compare_loading": "Tüm kaynaklar alınıyor...",
+    "source_check.compare_agree": "Tüm kaynaklar {{minutes}} dk içinde uyumlu",
+    "source_check.compare_differ": "{{prayers}} {{minutes}} dk'dan fazla farklı",
+    "source_check.compare_active": "Etkin kaynak",
+    "source_check.compare_reference": "Referans",
+    "source_check.compare_failed": "Kullanılamıyor",
+    "source_check.compare_use": "Kullan",
 
     "alerts.title": "Uyarılar",
     "alerts.subtitle": "Bildirim tercihlerini açmak için bir namaza dokunun.",
@@ -1395,9 +2492,12 @@ export const translations: Record<AppLanguage, TranslationDict> = {
     "alerts.mins_before": "{{mins}} dk önce",
     "alerts.sound_on": "Ses açık",
     "alerts.sound_off": "Sessiz",
+    "alerts.end_warning": "bitişten {{mins}} dk önce uyarır",
     "alerts.summary_title": "Bildirim durumu",
     "alerts.active_summary": "{{total}} namazdan {{active}} tanesi aktif",
     "alerts.scheduled_summary": "Bu cihazda {{scheduled}} hatırlatma planlandı",
+    "alerts.horizon_summary": "{{until}} tarihine kadar planlandı ({{pending}}/{{budget}} yer)",
+    "alerts.pending_summary": "{{pending}}/{{budget}} bildirim yeri kullanımda",
     "alerts.schedule_checking": "Planlanan hatırlatmalar kontrol ediliyor",
     "alerts.check_schedule": "Planlamayı kontrol et",
     "alerts.checking_schedule": "Kontrol ediliyor...",
@@ -1411,6 +2511,8 @@ export const translations: Record<AppLanguage, TranslationDict> = {
     "alert.configure_for": "{{prayer}} için nasıl bildirim alacağınızı ayarlayın",
     "alert.sound_audio": "SES & AUDIO",
     "alert.play_sound": "Ses çal",
+    "alert.full_adhan": "Tam ezan",
+    "alert.full_adhan_help": "Bildirim uygulama açıkken geldiğinde veya bildirimi açtığınızda ezanın tamamını çalar.",
     "alert.alert_tone": "Uyarı sesi",
     "alert.tone_adhan": "Adhan",
     "alert.tone_beep": "Bip",
@@ -1419,6 +2521,11 @@ export const translations: Record<AppLanguage, TranslationDict> = {
     "alert.vibration": "Titreşim",
     "alert.test_notification": "Test bildirimi",
     "alert.test_help": "Ses ve titreşimi kontrol etmek için test bildirimi gönderin.",
+    "alert.today": "BUGÜN",
+    "alert.prayer_log": "Namaz kaydı",
+    "alert.log_prayed": "Kılındı",
+    "alert.log_missed": "Kaçırıldı",
+    "alert.prayer_log_help": "Hemen kaydedilir ve namaz takibinde sayılır. Temizlemek için tekrar dokunun.",
     "alert.inline_saving": "Tercihler kaydediliyor",
     "alert.inline_saved": "Tercihler kaydedildi",
     "alert.inline_test_sent": "Test bildirimi planlandı",
@@ -1428,9 +2535,87 @@ export const translations: Record<AppLanguage, TranslationDict> = {
     "alert.inline_preview_stopped": "Önizleme durduruldu",
     "alert.inline_preview_unavailable": "Sistem bip sesi burada önizlenemiyor",
     "alert.inline_preview_error": "Önizleme çalınamadı",
+    "tones.Adhan": "Ezan",
+    "tones.Beep": "Bip",
+    "tones.custom_length": "İçe aktarıldı · {{seconds}} sn",
+    "tones.custom_trimmed": "İçe aktarıldı · {{seconds}} sn'ye kısaltıldı",
+    "tones.custom_missing": "İçe aktarılan ses",
+    "tones.import": "WAV dosyası içe aktar",
+    "tones.import_hint_ios": "Mekke, Medine, İstanbul veya sabah ezanı için bir kaydını içe aktarın. Yalnızca WAV dosyaları. Daha uzun kayıtlar, iOS'un bildirim için çaldığı en uzun süre olan {{seconds}} saniyeye kısaltılır.",
+    "tones.import_hint_android": "Mekke, Medine, İstanbul veya sabah ezanı için bir kaydını içe aktarın. Yalnızca WAV dosyaları, {{seconds}} saniyeye kısaltılır. Android içe aktarılan sesler için sistem sesini, bildirimi açtığınızda ise sesin tamamını çalar.",
+    "tones.imported": "Ses içe aktarıldı",
+    "tones.imported_trimmed": "Ses içe aktarıldı ve {{seconds}} sn'ye kısaltıldı",
+    "tones.import_failed": "Bu dosya içe aktarılamadı. Sıkıştırılmamış bir WAV dosyası seçin.",
+    "tones.delete": "Sil",
+    "tones.delete_title": "Ses silinsin mi?",
+    "tones.delete_message": "\"{{name}}\" kaldırılacak. Bu sesi kullanan vakitler varsayılan ezana döner.",
+    "adhan_player.title": "{{prayer}} ezanı",
+    "adhan_player.playing": "Ezanın tamamı okunuyor",
+    "adhan_player.finished": "Ezan sona erdi",
+    "adhan_player.stop": "Durdur",
+    "adhan_player.close": "Kapat",
+    "adhan_player.dua_title": "Ezan duası",
+    "adhan_player.dua_meaning": "Allah'ım! Bu eksiksiz davetin ve kılınacak namazın Rabbi! Muhammed'e vesileyi ve fazileti ver, onu vaat ettiğin Makam-ı Mahmud'a ulaştır.",
+    "quiet.title": "Sessiz kurallar",
+    "quiet.subtitle": "Bir kural geçerliyken bildirimler yine gelir, ancak sessizdir.",
+    "quiet.hours": "Sessiz saatler",
+    "quiet.hours_desc": "{{start}} ile {{end}} arasında ses yok.",
+    "quiet.start": "BAŞLANGIÇ",
+    "quiet.end": "BİTİŞ",
+    "quiet.except": "SESLİ KALSIN",
+    "quiet.mosque": "Camide sessiz",
+    "quiet.mosque_desc": "Son bilinen konumunuz favori camilerinizden birindeyse bildirimler sessize alınır.",
+    "quiet.radius": "CAMİYE MESAFE",
+    "quiet.meters": "{{meters}} m",
+    "quiet.mosque_near": "Şu an {{name}} yakınında",
+    "quiet.mosque_not_near": "Favori bir camide değil",
+    "quiet.mosque_no_favorites": "Henüz favori cami yok",
+    "quiet.manage_favorites": "Favori camiler ({{count}})",
+    "quiet.summary_hours": "Sessiz {{start}}–{{end}}",
+    "quiet.summary_mosque": "Camide sessiz",
+    "quiet.summary_off": "Sessiz kural yok",
+    "notification_log.title": "Bildirim Günlüğü",
+    "notification_log.row_meta": "Planlananlar ve gelenler",
+    "notification_log.subtitle": "Planlanan bildirimler, geldikleri zamanla karşılaştırılır.",
+    "notification_log.loading": "Bildirim günlüğü yükleniyor...",
+    "notification_log.error": "Bildirim günlüğü yüklenemedi.",
+    "notification_log.status_ok": "Son planlama başarılı",
+    "notification_log.status_error": "Son planlama başarısız",
+    "notification_log.status_empty": "Henüz planlama yok",
+    "notification_log.export": "Dışa aktar",
+    "notification_log.export_failed": "Günlük bu cihazdan paylaşılamadı.",
+    "notification_log.clear": "Temizle",
+    "notification_log.clear_title": "Bildirim günlüğü temizlensin mi?",
+    "notification_log.clear_body": "Kaydedilen tüm planlamalar ve teslimatlar silinir. Planlanmış bildirimler olduğu gibi kalır.",
+    "notification_log.deliveries": "GELENLER",
+    "notification_log.deliveries_empty": "Henüz kaydedilmiş bildirim yok.",
+    "notification_log.scheduled_delivered": "Planlanan {{scheduled}} • gelen {{delivered}}",
+    "notification_log.delivered": "Geldi {{delivered}}",
+    "notification_log.from_tray": "Bildirim merkezinde bulundu",
+    "notification_log.opened": "Açıldı",
+    "notification_log.on_time": "Zamanında",
+    "notification_log.late": "{{mins}} dk geç",
+    "notification_log.early": "{{mins}} dk erken",
+    "notification_log.not_scheduled": "Plan yok",
+    "notification_log.replans": "PLANLAMALAR",
+    "notification_log.replans_empty": "Henüz kaydedilmiş planlama yok.",
+    "notification_log.replan_counts": "{{scheduled}}/{{budget}} planlandı • {{skipped}} atlandı",
+    "notification_log.replan_error": "Hata: {{message}}",
+    "notification_log.trigger_app_open": "Uygulama açıldı",
+    "notification_log.trigger_settings": "Ayarlar değişti",
+    "notification_log.trigger_background": "Arka plan yenileme",
+    "notification_log.skip_past": "Vakit geçti",
+    "notification_log.skip_disabled": "Bildirim kapalı",
+    "notification_log.skip_duplicate": "Yinelenen",
+    "notification_log.skip_budget": "Sistem sınırının üstünde",
     "alert.alert_offset": "Uyarı zamanı",
     "alert.at_prayer_time": "Namaz vaktinde",
     "alert.mins_before": "{{mins}} dk önce",
+    "alert.end_warning": "Vakit çıkmadan",
+    "alert.end_warning_off": "Kapalı",
+    "alert.end_warning_mins": "Bitişten {{mins}} dk önce",
+    "alert.end_warning_until": "{{prayer}} vakti {{next}} girince çıkar",
+    "alert.end_warning_midnight": "{{prayer}} için tercih edilen vakit gece yarısı biter",
     "alert.reset_default": "Varsayılana dön",
     "alert.save_preferences": "Tercihleri kaydet",
     "alert.test_sent_title": "Test gönderildi",
@@ -1449,6 +2634,17 @@ export const translations: Record<AppLanguage, TranslationDict> = {
     "methods.inline_applying": "Yöntem uygulanıyor",
     "methods.inline_diyanet_selected": "Diyanet Resmi API seçili",
     "methods.inline_method_selected": "Yöntem {{id}} seçili",
+    "methods.astronomical_offline": "Cihazda hesaplama",
+    "methods.astronomical_offline_desc": "{{method}} açılarıyla çevrimdışı çalışır",
+    "methods.astronomical_active": "Cihazda hesaplama aktif",
+    "methods.inline_astronomical_selected": "Cihazda hesaplama seçili",
+    "methods.tune_title": "Dakika düzeltmeleri",
+    "methods.tune_none": "Düzeltme yok",
+    "methods.tune_hint": "Her vakti yerel caminize uyacak şekilde en fazla {{max}} dakika kaydırın. Tüm kaynaklara uygulanır.",
+    "methods.tune_minutes": "{{value}} dk",
+    "methods.tune_reset": "Sıfırla",
+    "methods.tune_apply": "Uygula",
+    "methods.inline_tune_applying": "Düzeltmeler uygulanıyor",
 
     "qibla.title": "Kıble",
     "qibla.gps_connected": "GPS bağlı",
@@ -1459,6 +2655,7 @@ export const translations: Record<AppLanguage, TranslationDict> = {
     "qibla.permission_error": "Qibla yönü için konum izni gerekli.",
     "qibla.load_error": "Qibla şimdi yüklenemiyor: {{error}}",
     "qibla.bearing": "Kıble: {{deg}}deg",
+    "qibla.distance": "Kâbe'ye {{km}} km",
     "qibla.live_on": "Canlı pusula: AÇIK",
     "qibla.live_off": "Canlı pusula: KAPALI (fallback)",
     "qibla.guidance.title": "Yön yardımı",
@@ -1480,12 +2677,89 @@ export const translations: Record<AppLanguage, TranslationDict> = {
     "qibla.confidence.good": "Pusula stabil.",
     "qibla.confidence.meh": "Kalibrasyon için telefonu 8 çizerek hareket ettirin.",
     "qibla.confidence.bad": "Metal/mıknatıstan uzak durup tekrar deneyin.",
+    "qibla.declination_east": "Burada manyetik sapma {{deg}}° doğu.",
+    "qibla.declination_west": "Burada manyetik sapma {{deg}}° batı.",
+    "qibla.heading_true": "Telefonunuz coğrafi kuzeyi bildiriyor.",
+    "qibla.heading_corrected": "Pusula coğrafi kuzeye göre düzeltildi.",
+    "qibla.heading_magnetic": "Pusula manyetik kuzeyi gösteriyor.",
+    "qibla.cross_check_ok": "Aladhan kıblesiyle uyuşuyor ({{diff}}° fark).",
+    "qibla.cross_check_off": "Aladhan bu kıbleden {{diff}}° farklı bir yön bildiriyor.",
+    "qibla.mode_compass": "Pusula",
+    "qibla.mode_sun": "Güneş",
+    "qibla.sun.title": "Güneşle kıble",
+    "qibla.sun.position": "Güneş {{azimuth}}° azimutta, ufkun {{altitude}}° üzerinde",
+    "qibla.sun.below_horizon": "Güneş şu an çok alçakta. Pusulayı kullanın ya da gün ışığını bekleyin.",
+    "qibla.sun.ahead": "Güneşe dönün: kıble tam önünüzde.",
+    "qibla.sun.behind": "Sırtınızı güneşe verin: gölgeniz kıbleyi gösterir.",
+    "qibla.sun.keep_left": "Güneşi {{deg}}° solunuzda tutun.",
+    "qibla.sun.keep_right": "Güneşi {{deg}}° sağınızda tutun.",
+    "qibla.sun.shadow_left": "Gölgeniz o zaman {{deg}}° sola düşer.",
+    "qibla.sun.shadow_right": "Gölgeniz o zaman {{deg}}° sağa düşer.",
+    "qibla.sun.alignments": "Bugünkü hizalanmalar",
+    "qibla.sun.toward": "Güneş kıble yönünde",
+    "qibla.sun.away": "Gölgeler kıbleyi gösteriyor",
+    "qibla.sun.no_alignments": "Güneş bugün burada kıbleyle hizalanmıyor.",
+    "qibla.sun.calibration_hint": "Bu anlarda güneş veya gölge tam kıbleyi gösterir; pusulayı kontrol etmek için iyi bir zamandır.",
+    "qibla.sun.try": "Bunun yerine güneşi kullan",
+    "qibla.calibration.open": "Pusulayı kalibre et",
+    "qibla.calibration.poor": "Bu telefondaki son kalibrasyon oturmadı, bu yüzden pusula daha erken uyarılır.",
+    "qibla.calibration.interference": "Son kalibrasyonlarda manyetik parazit algılandı. Mıknatıslı kılıf veya tutucu olup olmadığını kontrol edin.",
+    "qibla.calibration.stale": "Bu pusula bir süredir kalibre edilmedi.",
+    "calibration.title": "Pusula Kalibrasyonu",
+    "calibration.step_move": "Telefonunuzu sekiz çizerek hareket ettirin",
+    "calibration.step_move_desc": "Animasyondaki gibi her yöne eğip çevirin; çubuğun ilk yarısı dolana kadar devam edin.",
+    "calibration.step_settle": "Şimdi düz ve sabit tutun",
+    "calibration.step_settle_desc": "Ölçümler otururken telefonu ekran yukarı bakacak şekilde düz tutun.",
+    "calibration.step_done": "Pusula kalibre edildi",
+    "calibration.step_done_desc": "Ölçümler sabit ve beklenen aralıkta.",
+    "calibration.unavailable": "Pusula kullanılamıyor",
+    "calibration.readings": "Alan {{field}} µT · yön sapması {{spread}}°",
+    "calibration.interference": "Manyetik parazit",
+    "calibration.interference_desc": "Alan, Dünya'nınkinden çok daha güçlü veya zayıf. Metal, mıknatıs, hoparlör ve dizüstü bilgisayarlardan uzaklaşın, mıknatıslı kılıfları çıkarın.",
+    "calibration.restart": "Baştan başla",
+    "calibration.finish": "Şimdi bitir",
+    "calibration.done": "Tamam",
+    "calibration.history": "ÖNCEKİ KALİBRASYONLAR",
+    "calibration.history_interference": "Parazit algılandı",
+    "calibration.quality_good": "İyi",
+    "calibration.quality_meh": "Orta",
+    "calibration.quality_bad": "Zayıf",
 
     "notifications.title": "Namaz vakti",
     "notifications.body_at_time": "{{prayer}} vakti geldi.",
     "notifications.body_at_time_with_location": "{{location}} için {{prayer}} vakti geldi.",
+    "notifications.body_snoozed": "Hatırlatma: {{prayer}}.",
+    "notifications.title_end_warning": "Vakit daralıyor",
+    "notifications.body_end_warning": "{{prayer}} vakti {{mins}} dakika sonra çıkıyor ({{time}}).",
+    "notifications.body_end_warning_midnight": "{{prayer}} için tercih edilen vakit gece yarısı ({{time}}), {{mins}} dakika sonra bitiyor.",
+    "notifications.action_snooze": "{{mins}} dk ertele",
+    "notifications.action_prayed": "Kıldım",
+    "notifications.action_qaza": "Kaçırdım – kazaya ekle",
     "notifications.body_offset": "{{prayer}} için {{mins}} dakika kaldı.",
     "notifications.body_offset_with_location": "{{location}} için {{prayer}} vaktine {{mins}} dakika kaldı.",
+    "notifications.body_iqamah": "{{mosque}}: {{prayer}} cemaati şimdi başlıyor.",
+    "notifications.body_iqamah_offset": "{{mosque}}: {{prayer}} cemaati {{mins}} dakika sonra başlıyor.",
+    "notifications.title_suhoor": "Sahur",
+    "notifications.title_iftar": "İftar",
+    "notifications.body_suhoor": "Sahurun bitmesine {{mins}} dakika kaldı (imsak {{time}}).",
+    "notifications.body_imsak": "İmsak {{time}}: oruç şimdi başlıyor.",
+    "notifications.body_iftar": "İftar vakti geldi ({{time}}).",
+    "notifications.body_extra_Imsak": "İmsak vakti girdi ({{time}}). Yeme içme sona erdi.",
+    "notifications.body_extra_Duha": "Kuşluk vakti girdi ({{time}}).",
+    "notifications.body_extra_Istiwa": "İstiva ({{time}}): öğleye kadar namaz kılmayın.",
+    "notifications.body_extra_Midnight": "Gece yarısı ({{time}}). Yatsıyı kılmadıysanız bundan önce kılın.",
+    "notifications.body_extra_LastThird": "Gecenin son üçte biri başladı ({{time}}).",
+    "notifications.jumuah_prayer": "Cuma",
+    "notifications.title_jumuah_leave": "Cuma namazı için yola çıkma vakti",
+    "notifications.body_jumuah_walk": "{{mosque}} yürüyerek yaklaşık {{mins}} dk. Hutbe {{time}}'da başlıyor.",
+    "notifications.body_jumuah_drive": "{{mosque}} arabayla yaklaşık {{mins}} dk. Hutbe {{time}}'da başlıyor.",
+    "notifications.title_kahf": "Kehf Suresi",
+    "notifications.body_kahf": "Bugün Cuma. Kehf Suresi'ni okumak için dokunun.",
+    "extra_times.Imsak": "İmsak",
+    "extra_times.Duha": "Kuşluk",
+    "extra_times.Istiwa": "İstiva",
+    "extra_times.Midnight": "Gece yarısı",
+    "extra_times.LastThird": "Son üçte bir",
 
     "mosques.title": "Camiler",
     "mosques.subtitle": "Mevcut konumuna göre yakındaki camileri bul.",
@@ -1510,6 +2784,33 @@ export const translations: Record<AppLanguage, TranslationDict> = {
     "mosques.search_placeholder": "Cami ara...",
     "mosques.filter_all": "Tümü",
     "mosques.filter_favorites": "Sadece favoriler",
+    "mosques.filter_women": "Kadınlar bölümü",
+    "mosques.filter_wheelchair": "Tekerlekli sandalyeye uygun",
+    "mosques.empty_no_filter": "Yakında OpenStreetMap'te bu bilgisi olan cami yok.",
+    "mosques.details_action": "Ayrıntılar",
+    "mosques.details_close": "Kapat",
+    "mosques.details_hours": "Açılış saatleri",
+    "mosques.open_now": "Şu an açık",
+    "mosques.closed_now": "Şu an kapalı",
+    "mosques.closed": "Kapalı",
+    "mosques.details_address": "Adres",
+    "mosques.details_denomination": "Mezhep",
+    "mosques.denomination_sunni": "Sünni",
+    "mosques.denomination_shia": "Şii",
+    "mosques.denomination_ibadi": "İbadi",
+    "mosques.denomination_ahmadiyya": "Ahmediyye",
+    "mosques.details_website": "Web sitesi",
+    "mosques.details_phone": "Telefon",
+    "mosques.details_women": "Kadınlar bölümü",
+    "mosques.details_wheelchair": "Tekerlekli sandalye erişimi",
+    "mosques.wheelchair_yes": "Erişilebilir",
+    "mosques.wheelchair_limited": "Kısmen erişilebilir",
+    "mosques.wheelchair_no": "Erişilemez",
+    "mosques.details_parking": "Otopark",
+    "mosques.details_yes": "Evet",
+    "mosques.details_no": "Hayır",
+    "mosques.details_none": "OpenStreetMap'te bu cami hakkında henüz başka ayrıntı yok.",
+    "mosques.details_source": "Ayrıntılar OpenStreetMap katkıcılarından.",
     "mosques.empty_no_mosques": "{{radius}} km içinde cami bulunamadı.",
     "mosques.empty_no_favorites": "Favori cami bulunamadı.",
     "mosques.empty_no_search": "Araman için sonuç bulunamadı.",
@@ -1547,6 +2848,11 @@ export const translations: Record<AppLanguage, TranslationDict> = {
     "monthly.asr": "İkindi",
     "monthly.maghrib": "Akşam",
     "monthly.isha": "Yatsı",
+    "monthly.extra_Imsak": "İmsak",
+    "monthly.extra_Duha": "Kuşluk",
+    "monthly.extra_Istiwa": "İstiva",
+    "monthly.extra_Midnight": "G.yarısı",
+    "monthly.extra_LastThird": "Son ⅓",
     "monthly.source": "Kaynak: {{source}}",
     "monthly.available_count": "{{available}}/{{total}} gün mevcut",
     "monthly.network_count": "{{count}} canlı",
@@ -1560,6 +2866,167 @@ export const translations: Record<AppLanguage, TranslationDict> = {
     "monthly.close": "Kapat",
     "monthly.refresh": "Ayı yenile",
     "monthly.partialError": "Bazı günler yüklenemedi. Lütfen yeniden deneyin.",
+    "monthly.export": "Dışa aktar",
+    "monthly.export_title": "{{year}} vakit çizelgesini dışa aktar",
+    "monthly.export_body": "Mevcut konumun ve ayarların için 12 ayın tamamını hazırlar, ardından paylaşım menüsünü açar.",
+    "monthly.export_pdf": "Yazdırılabilir PDF",
+    "monthly.export_csv": "Tablo (CSV)",
+    "monthly.export_ics": "Takvim (.ics)",
+    "monthly.export_progress": "{{total}} aydan {{done}}. ay hazırlanıyor...",
+    "monthly.export_empty": "Bu yıl için namaz vakitleri yüklenemedi. Bağlantını kontrol edip tekrar dene.",
+    "monthly.export_failed": "Dışa aktarma başarısız oldu. Lütfen tekrar dene.",
+    "monthly.export_document_title": "Namaz vakitleri {{year}}",
+    "monthly.export_generated": "Oluşturulma: {{date}}",
+    "monthly.export_date": "Tarih",
+    "ramadan.title": "Ramazan",
+    "ramadan.range": "Ramazan {{year}} • {{start}} – {{end}}",
+    "ramadan.status_active": "Ramazan modu açık",
+    "ramadan.status_upcoming": "Yaklaşıyor",
+    "ramadan.mode": "RAMAZAN MODU",
+    "ramadan.mode_auto": "Otomatik",
+    "ramadan.mode_on": "Her zaman açık",
+    "ramadan.mode_off": "Kapalı",
+    "ramadan.imsak_margin": "İMSAK (SABAHTAN ÖNCE)",
+    "ramadan.imsak_margin_diyanet": "Diyanet'in sabah vakti zaten imsak vaktidir, bu yüzden pay düşülmez.",
+    "ramadan.minutes": "{{mins}} dk",
+    "ramadan.suhoor_reminder": "SAHUR HATIRLATICISI",
+    "ramadan.reminder_off": "Kapalı",
+    "ramadan.at_imsak": "İmsakta",
+    "ramadan.minutes_before": "{{mins}} dk önce",
+    "ramadan.iftar_reminder": "İftar bildirimi",
+    "ramadan.iftar_reminder_desc": "Ramazan modu açıkken akşam vaktinde bildirim",
+    "ramadan.available_count": "{{available}}/{{total}} gün mevcut",
+    "ramadan.col_day": "Gün",
+    "ramadan.col_date": "Tarih",
+    "ramadan.col_imsak": "İmsak",
+    "ramadan.col_iftar": "İftar",
+    "ramadan.loading": "İmsakiye hazırlanıyor...",
+    "ramadan.error": "İmsakiye yüklenemedi.",
+    "hijri.title": "Hicri Takvim",
+    "hijri.events_this_month": "BU AYIN MÜBAREK GÜNLERİ",
+    "hijri.no_events": "Bu ay mübarek gün veya gece yok.",
+    "hijri.adjustment": "HİCRİ TARİH DÜZELTMESİ",
+    "hijri.adjustment_desc": "Hicri tarihi yerel hilal gözlemine göre kaydır. Ana sayfa başlığı, bu takvim ve Ramazan modu için geçerlidir.",
+    "hijri.adjustment_none": "0",
+    "hijri.adjustment_days": "{{days}} g",
+    "hijri.show_kandils": "Kandil geceleri",
+    "hijri.show_kandils_desc": "Regaib, Miraç, Berat ve Mevlid kandillerini göster",
+    "hijri.event_islamic_new_year": "Hicri Yılbaşı",
+    "hijri.event_ashura": "Aşure Günü",
+    "hijri.event_mawlid": "Mevlid-i Nebi",
+    "hijri.event_mawlid_kandil": "Mevlid Kandili",
+    "hijri.event_regaib_kandil": "Regaib Kandili",
+    "hijri.event_miraj_kandil": "Miraç Kandili",
+    "hijri.event_berat_kandil": "Berat Kandili",
+    "hijri.event_ramadan_start": "Ramazan Başlangıcı",
+    "hijri.event_laylat_al_qadr": "Kadir Gecesi",
+    "hijri.event_eid_al_fitr": "Ramazan Bayramı",
+    "hijri.event_arafah": "Arefe (Kurban)",
+    "hijri.event_eid_al_adha": "Kurban Bayramı",
+    "hijri_months.1": "Muharrem",
+    "hijri_months.2": "Safer",
+    "hijri_months.3": "Rebiülevvel",
+    "hijri_months.4": "Rebiülahir",
+    "hijri_months.5": "Cemaziyelevvel",
+    "hijri_months.6": "Cemaziyelahir",
+    "hijri_months.7": "Recep",
+    "hijri_months.8": "Şaban",
+    "hijri_months.9": "Ramazan",
+    "hijri_months.10": "Şevval",
+    "hijri_months.11": "Zilkade",
+    "hijri_months.12": "Zilhicce",
+    "jumuah.title": "Cuma",
+    "jumuah.loading": "Cuma vakitleri yükleniyor...",
+    "jumuah.error": "Cuma ayarları yüklenemedi.",
+    "jumuah.next_plan": "{{date}}: {{leave}}'da çık, hutbe {{khutbah}}",
+    "jumuah.next_plan_unavailable": "Cumayı planlamak için varsayılan bir cami seçin.",
+    "jumuah.next_plan_away": "Varsayılan caminizden uzaktayken çıkış hatırlatıcısı gönderilmez.",
+    "jumuah.status_on": "Açık",
+    "jumuah.status_off": "Kapalı",
+    "jumuah.enabled": "Cuma hatırlatmaları",
+    "jumuah.enabled_desc": "Cuma günleri varsayılan camime ne zaman çıkmam gerektiğini hatırlat",
+    "jumuah.mosque": "VARSAYILAN CAMİ",
+    "jumuah.travel_walk": "Yürüyerek yaklaşık {{mins}} dk",
+    "jumuah.travel_drive": "Arabayla yaklaşık {{mins}} dk",
+    "jumuah.travel_unknown": "Yol süresi henüz bilinmiyor",
+    "jumuah.travel_away": "Yolculuğu planlamak için çok uzak",
+    "jumuah.change_mosque": "Değiştir",
+    "jumuah.no_mosque": "Henüz varsayılan cami yok. Camiler ekranından birini varsayılan yapın.",
+    "jumuah.choose_mosque": "Cami seç",
+    "jumuah.khutbah_time": "HUTBE SAATİ",
+    "jumuah.earlier": "5 dakika erken",
+    "jumuah.later": "5 dakika geç",
+    "jumuah.khutbah_custom": "Bu cami için ayarlandı",
+    "jumuah.khutbah_dhuhr": "Öğle vakti kullanılıyor",
+    "jumuah.use_dhuhr": "Öğle vaktini kullan",
+    "jumuah.leave_buffer": "HUTBEDEN ÖNCE EK SÜRE",
+    "jumuah.kahf_reminder": "Kehf Suresi hatırlatması",
+    "jumuah.kahf_reminder_desc": "Cuma sabahı sureyi açan hatırlatma",
+    "jumuah.read_kahf": "Kehf Suresi'ni oku",
+    "iqamah.title": "Kamet Vakitleri",
+    "iqamah.loading": "Kamet vakitleri yükleniyor...",
+    "iqamah.error": "Kamet vakitleri yüklenemedi.",
+    "iqamah.no_mosque": "Varsayılan cami yok",
+    "iqamah.no_mosque_desc": "Kamet vakitleri varsayılan caminize aittir. Önce Camiler bölümünde bir camiyi varsayılan yapın.",
+    "iqamah.status_set": "Çizelge hazır",
+    "iqamah.status_empty": "Çizelge yok",
+    "iqamah.show_on_home": "Ana ekranda göster",
+    "iqamah.show_on_home_desc": "Kamet vaktini her namaz vaktinin yanında göster",
+    "iqamah.notify_at_iqamah": "Kamette bildir",
+    "iqamah.notify_at_iqamah_desc": "Namaz bildirimleri ve hatırlatmalar ezan yerine kamet vaktine göre gelir",
+    "iqamah.timetable": "ÇİZELGE",
+    "iqamah.rule_none": "Ayarlanmadı",
+    "iqamah.rule_offset": "Ezandan {{mins}} dk sonra",
+    "iqamah.rule_fixed": "Sabit {{time}}",
+    "iqamah.rule_with_overrides": "{{rule}} • {{count}} gün farklı",
+    "iqamah.adhan_at": "Ezan {{time}}",
+    "iqamah.every_day": "Her gün",
+    "iqamah.mode_none": "Ayarlanmadı",
+    "iqamah.mode_same": "Her günkü gibi",
+    "iqamah.mode_offset": "Ezandan sonra",
+    "iqamah.mode_fixed": "Sabit saat",
+    "iqamah.offset_unit": "dakika, ezandan sonra",
+    "iqamah.fixed_unit": "sabit saat",
+    "iqamah.import": "İÇE AKTAR",
+    "iqamah.import_desc": "Caminizin paylaştığı JSON veya CSV çizelgesinin bağlantısını, QR kodundaki bağlantıyı ya da çizelgenin kendisini yapıştırın.",
+    "iqamah.import_placeholder": "https://... veya çizelge metni",
+    "iqamah.import_button": "İçe aktar",
+    "iqamah.choose_file": "Dosya seç",
+    "iqamah.refresh_from": "{{url}} adresinden yenile",
+    "iqamah.imported": "{{mosque}} için çizelge kaydedildi",
+    "iqamah.import_failed": "Bu çizelge okunamadı",
+    "iqamah.replace_title": "Çizelge değiştirilsin mi?",
+    "iqamah.replace_body": "İçe aktarılan vakitler {{mosque}} için mevcut çizelgenin yerini alır.",
+    "iqamah.replace": "Değiştir",
+    "iqamah.link_title": "Kamet vakitleri içe aktarılsın mı?",
+    "iqamah.link_body": "{{source}} kaynağındaki kamet vakitleri {{mosque}} için kaydedilsin mi?",
+    "iqamah.link_body_named": "{{from}} için paylaşılan kamet vakitleri ({{source}}) {{mosque}} için kaydedilsin mi?",
+    "iqamah.link_source_shared": "paylaşılan bir bağlantı",
+    "iqamah.share_file": "Dosya olarak paylaş",
+    "iqamah.share_link": "Bağlantı olarak paylaş (QR kod için)",
+    "iqamah.share_failed": "Paylaşım şu anda kullanılamıyor",
+    "iqamah.clear": "Çizelgeyi temizle",
+    "iqamah.clear_title": "Çizelge temizlensin mi?",
+    "iqamah.clear_body": "{{mosque}} için tüm kamet vakitleri silinecek.",
+    "tracker.title": "Namaz Takibi",
+    "tracker.empty": "Takibe başlamak için ana ekranda namazları işaretleyin",
+    "tracker.streak_summary": "Güncel seri: {{count}} gün",
+    "tracker.load_failed": "Namaz kaydı yüklenemedi.",
+    "tracker.current_streak": "Güncel seri",
+    "tracker.best_streak": "En iyi seri",
+    "tracker.this_week": "BU HAFTA",
+    "tracker.monthly": "AYLIK TAMAMLAMA",
+    "tracker.punctuality": "VAKTİNDE / GEÇ (SON {{days}} GÜN)",
+    "tracker.on_time": "Vaktinde: {{count}}",
+    "tracker.late": "Geç: {{count}}",
+    "tracker.punctuality_empty": "Vakitleri bilinen kayıtlı namaz henüz yok.",
+    "tracker.punctuality_unknown": "Vakitleri önbellekte olmadığı için {{count}} namaz kontrol edilemedi.",
+    "tracker.punctuality_hint": "Burada işaretlenen namaz, işaretlediğiniz an sayılır; bildirimden kılındı olarak işaretlenen namaz ise bildirimin saatinde sayılır.",
+    "tracker.missed": "KAÇIRILAN NAMAZLAR",
+    "tracker.missed_empty": "Kazaya eklenmeyi bekleyen kaçırılmış namaz yok.",
+    "tracker.add_to_qaza": "Kazaya ekle",
+    "tracker.add_all_to_qaza": "Tümünü kazaya ekle",
+    "tracker.how_to_log": "Ana ekranda vakti girmiş bir namazın yanındaki daireye dokunarak kılındı olarak işaretleyin veya kaçırıldı olarak kaydetmek için basılı tutun. Bir namaz, sonraki vakit girmeden işaretlendiyse vaktinde sayılır.",
     "quran.title": "Kur'an",
     "quran.subtitle": "Sureleri Türkçe mealle oku",
     "quran.loading": "Kur'an yükleniyor...",
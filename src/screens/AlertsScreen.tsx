@@ -25,7 +25,7 @@ type PermissionState = "unknown" | "granted" | "needed";
 export default function AlertsScreen({ showBackButton = false }: AlertsScreenProps) {
   const router = useRouter();
   const { colors, resolvedTheme } = useAppTheme();
-  const { t, prayerName } = useI18n();
+  const { t, prayerName, localeTag } = useI18n();
   const isLight = resolvedTheme === "light";
   const enterTransition = useMotionTransition(easeEnterTransition);
   const pressTransition = useMotionTransition(easePressTransition);
@@ -196,11 +196,26 @@ export default function AlertsScreen({ showBackButton = false }: AlertsScreenPro
       const timing =
         item.minutesBefore === 0 ? t("alert.at_prayer_time") : t("alerts.mins_before", { mins: item.minutesBefore });
       const sound = item.playSound ? t("alerts.sound_on") : t("alerts.sound_off");
-      return `${timing} • ${sound}`;
+      const endWarning =
+        item.endWarningMinutes > 0 ? ` • ${t("alerts.end_warning", { mins: item.endWarningMinutes })}` : "";
+      return `${timing} • ${sound}${endWarning}`;
     },
     [settings, t]
   );
 
+  const quietMeta = useMemo(() => {
+    if (!settings) {
+      return t("alerts.loading");
+    }
+    const rules = [
+      settings.quiet.hours.enabled
+        ? t("quiet.summary_hours", { start: settings.quiet.hours.start, end: settings.quiet.hours.end })
+        : null,
+      settings.quiet.mosque.enabled ? t("quiet.summary_mosque") : null
+    ].filter(Boolean);
+    return rules.length > 0 ? rules.join(" • ") : t("quiet.summary_off");
+  }, [settings, t]);
+
   return (
     <SafeAreaView style={[styles.safeArea, { backgroundColor: colors.background }]}>
       <View style={styles.container}>
@@ -251,6 +266,26 @@ export default function AlertsScreen({ showBackButton = false }: AlertsScreenPro
                         ? t("alerts.scheduled_summary", { scheduled: scheduleSummary.total })
                         : t("alerts.schedule_checking")}
                     </Text>
+                    {scheduleSummary && scheduleSummary.pending > 0 ? (
+                      <Text style={[styles.summaryBody, { color: colors.textSecondary }]}>
+                        {scheduleSummary.coveredUntil
+                          ? t("alerts.horizon_summary", {
+                              until: new Date(scheduleSummary.coveredUntil).toLocaleString(localeTag, {
+                                weekday: "short",
+                                day: "numeric",
+                                month: "short",
+                                hour: "2-digit",
+                                minute: "2-digit"
+                              }),
+                              pending: scheduleSummary.pending,
+                              budget: scheduleSummary.budget
+                            })
+                          : t("alerts.pending_summary", {
+                              pending: scheduleSummary.pending,
+                              budget: scheduleSummary.budget
+                            })}
+                      </Text>
+                    ) : null}
                   </View>
                 </View>
                 <StatusChip
@@ -321,6 +356,40 @@ export default function AlertsScreen({ showBackButton = false }: AlertsScreenPro
               </EaseView>
             );
           })}
+          <Pressable
+            style={[styles.row, { backgroundColor: colors.card, borderColor: colors.cardBorder }]}
+            onPress={() => router.push("/quiet" as never)}
+          >
+            <View style={styles.left}>
+              <View style={[styles.iconWrap, { backgroundColor: isLight ? "#EEE9FF" : "#352159" }]}>
+                <Ionicons name="moon" size={18} color="#C797FF" />
+              </View>
+              <View>
+                <Text style={[styles.prayer, isLight ? { color: "#1A2E45" } : null]}>{t("quiet.title")}</Text>
+                <Text style={[styles.meta, isLight ? { color: "#4E647C" } : null]}>{quietMeta}</Text>
+              </View>
+            </View>
+            <Ionicons name="chevron-forward" size={18} color={isLight ? "#617990" : "#8EA4BF"} />
+          </Pressable>
+          <Pressable
+            style={[styles.row, { backgroundColor: colors.card, borderColor: colors.cardBorder }]}
+            onPress={() => router.push("/notification-log" as never)}
+          >
+            <View style={styles.left}>
+              <View style={[styles.iconWrap, { backgroundColor: isLight ? "#E4F1FF" : "#173553" }]}>
+                <Ionicons name="list" size={18} color="#5AA8FF" />
+              </View>
+              <View>
+                <Text style={[styles.prayer, isLight ? { color: "#1A2E45" } : null]}>
+                  {t("notification_log.title")}
+                </Text>
+                <Text style={[styles.meta, isLight ? { color: "#4E647C" } : null]}>
+                  {t("notification_log.row_meta")}
+                </Text>
+              </View>
+            </View>
+            <Ionicons name="chevron-forward" size={18} color={isLight ? "#617990" : "#8EA4BF"} />
+          </Pressable>
         </ScrollView>
       </View>
     </SafeAreaView>
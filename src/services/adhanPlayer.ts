@@ -1,28 +1,70 @@
 import { Audio, AVPlaybackStatus } from "expo-av";
+import { getTonePreviewSource, isCustomTone } from "@/services/toneLibrary";
+import { NotificationTone, PrayerName } from "@/types/prayer";
+
+export interface AdhanPlaybackState {
+  // "finished" keeps the player on screen for the dua until it is closed.
+  status: "idle" | "playing" | "finished";
+  prayer: PrayerName | null;
+}
+
+type AdhanPlaybackListener = (state: AdhanPlaybackState) => void;
 
 let currentSound: Audio.Sound | null = null;
+let playbackState: AdhanPlaybackState = { status: "idle", prayer: null };
+const listeners = new Set<AdhanPlaybackListener>();
+// A notification that started the adhan in the foreground must not restart it when it is tapped.
+const playedNotificationIds = new Set<string>();
+
+function setPlaybackState(next: AdhanPlaybackState): void {
+  playbackState = next;
+  listeners.forEach((listener) => listener(next));
+}
+
+export function getAdhanPlaybackState(): AdhanPlaybackState {
+  return playbackState;
+}
+
+export function subscribeAdhanPlayback(listener: AdhanPlaybackListener): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
 
 async function cleanupCurrentSound(): Promise<void> {
   if (!currentSound) {
     return;
   }
 
+  const sound = currentSound;
+  currentSound = null;
+
   try {
-    await currentSound.stopAsync();
+    await sound.stopAsync();
   } catch {
     // Ignore cleanup errors.
   }
 
   try {
-    await currentSound.unloadAsync();
+    await sound.unloadAsync();
   } catch {
     // Ignore cleanup errors.
   }
-
-  currentSound = null;
 }
 
-export async function playFullAdhan(): Promise<void> {
+/** Imported tones play their own file; every bundled recitation is followed by the full adhan. */
+export async function playFullAdhan(
+  tone?: NotificationTone,
+  options?: { prayer?: PrayerName; notificationId?: string }
+): Promise<void> {
+  if (options?.notificationId) {
+    if (playedNotificationIds.has(options.notificationId)) {
+      return;
+    }
+    playedNotificationIds.add(options.notificationId);
+  }
+
   await cleanupCurrentSound();
 
   await Audio.setAudioModeAsync({
@@ -30,23 +72,34 @@ export async function playFullAdhan(): Promise<void> {
     staysActiveInBackground: false
   });
 
+  const customSource = tone && isCustomTone(tone) ? getTonePreviewSource(tone) : null;
   const { sound } = await Audio.Sound.createAsync(
-    require("../../assets/sounds/majid_al_hamthany.wav"),
+    customSource ?? require("../../assets/sounds/majid_al_hamthany.wav"),
     { shouldPlay: true }
   );
 
   currentSound = sound;
+  setPlaybackState({ status: "playing", prayer: options?.prayer ?? null });
   sound.setOnPlaybackStatusUpdate((status: AVPlaybackStatus) => {
     if (!status.isLoaded) {
       return;
     }
-    if (status.didJustFinish) {
+    if (status.didJustFinish && currentSound === sound) {
       void cleanupCurrentSound();
+      setPlaybackState({ ...playbackState, status: "finished" });
     }
   });
 }
 
+/** Stops the sound but leaves the player open on the dua. */
 export async function stopAdhanPlayback(): Promise<void> {
   await cleanupCurrentSound();
+  if (playbackState.status === "playing") {
+    setPlaybackState({ ...playbackState, status: "finished" });
+  }
 }
 
+export async function dismissAdhanPlayback(): Promise<void> {
+  await cleanupCurrentSound();
+  setPlaybackState({ status: "idle", prayer: null });
+}
@@ -1,8 +1,13 @@
-import { PrayerName, Timings } from "@/types/prayer";
+import { appliesHighLatitudeRule, HighLatitudeRule, PrayerName, Timings } from "@/types/prayer";
 import { fetchJson } from "@/services/http";
 
 const BASE_URL = "https://api.aladhan.com/v1";
 const REQUIRED_PRAYERS: PrayerName[] = ["Fajr", "Sunrise", "Dhuhr", "Asr", "Maghrib", "Isha"];
+const LATITUDE_ADJUSTMENT_METHODS: Record<HighLatitudeRule, number> = {
+  middle_of_night: 1,
+  one_seventh: 2,
+  angle_based: 3
+};
 
 function toDateKey(date: Date): string {
   const day = String(date.getDate()).padStart(2, "0");
@@ -30,7 +35,8 @@ export async function getTimingsByCoordinates(
   lon: number,
   methodId: number,
   school: 0 | 1 = 1,
-  tuneCsv?: string
+  tuneCsv?: string,
+  highLatitudeRule?: HighLatitudeRule
 ): Promise<Timings> {
   const dateKey = toDateKey(date);
   const params = new URLSearchParams({
@@ -42,6 +48,9 @@ export async function getTimingsByCoordinates(
   if (tuneCsv) {
     params.set("tune", tuneCsv);
   }
+  if (highLatitudeRule) {
+    params.set("latitudeAdjustmentMethod", String(LATITUDE_ADJUSTMENT_METHODS[highLatitudeRule]));
+  }
 
   const url = `${BASE_URL}/timings/${dateKey}?${params.toString()}`;
   const payload = await fetchJson<any>(url, { timeoutMs: 9000, retries: 2, retryDelayMs: 700 });
@@ -61,6 +70,8 @@ export async function getTimingsByCoordinates(
     dateKey,
     timezone,
     times,
-    source: "aladhan"
+    source: "aladhan",
+    // Aladhan does not say whether the rule moved Fajr or Isha; only tag the times where it could have.
+    highLatitudeRule: appliesHighLatitudeRule(lat) ? highLatitudeRule : undefined
   };
 }
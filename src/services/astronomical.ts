@@ -0,0 +1,228 @@
+import { getFallbackMethodById } from "@/services/methods";
+import { AsrSchool, HighLatitudeRule, PrayerName, Timings } from "@/types/prayer";
+import { getTimeZoneOffsetMinutes } from "@/utils/time";
+
+const SUNRISE_SUNSET_ANGLE = 0.833;
+const DEFAULT_FAJR_ANGLE = 18;
+const DEFAULT_ISHA_ANGLE = 17;
+
+type AngleOrMinutes = { kind: "angle"; value: number } | { kind: "minutes"; value: number };
+
+export interface AstronomicalParams {
+  fajrAngle: number;
+  isha: AngleOrMinutes;
+  asrShadowFactor: number;
+  highLatitudeRule: HighLatitudeRule;
+}
+
+export interface AstronomicalResult {
+  times: Record<PrayerName, string>;
+  highLatitudeAdjusted: boolean;
+}
+
+function toDateKey(date: Date): string {
+  const day = String(date.getDate()).padStart(2, "0");
+  const month = String(date.getMonth() + 1).padStart(2, "0");
+  const year = date.getFullYear();
+  return `${day}-${month}-${year}`;
+}
+
+const dtr = (deg: number) => (deg * Math.PI) / 180;
+const rtd = (rad: number) => (rad * 180) / Math.PI;
+const sin = (deg: number) => Math.sin(dtr(deg));
+const cos = (deg: number) => Math.cos(dtr(deg));
+const tan = (deg: number) => Math.tan(dtr(deg));
+const arcsin = (value: number) => rtd(Math.asin(value));
+const arccos = (value: number) => rtd(Math.acos(value));
+const arctan2 = (y: number, x: number) => rtd(Math.atan2(y, x));
+const arccot = (value: number) => rtd(Math.atan(1 / value));
+
+function fixRange(value: number, range: number): number {
+  const fixed = value - range * Math.floor(value / range);
+  return fixed < 0 ? fixed + range : fixed;
+}
+
+function julianDate(year: number, month: number, day: number): number {
+  let y = year;
+  let m = month;
+  if (m <= 2) {
+    y -= 1;
+    m += 12;
+  }
+  const a = Math.floor(y / 100);
+  const b = 2 - a + Math.floor(a / 4);
+  return Math.floor(365.25 * (y + 4716)) + Math.floor(30.6001 * (m + 1)) + day + b - 1524.5;
+}
+
+export function sunPosition(jd: number): { declination: number; equationOfTime: number } {
+  const d = jd - 2451545.0;
+  const g = fixRange(357.529 + 0.98560028 * d, 360);
+  const q = fixRange(280.459 + 0.98564736 * d, 360);
+  const l = fixRange(q + 1.915 * sin(g) + 0.02 * sin(2 * g), 360);
+  const e = 23.439 - 0.00000036 * d;
+
+  const rightAscension = arctan2(cos(e) * sin(l), cos(l)) / 15;
+  return {
+    declination: arcsin(sin(e) * sin(l)),
+    equationOfTime: q / 15 - fixRange(rightAscension, 24)
+  };
+}
+
+function parseMethodValue(raw: string | number | undefined): AngleOrMinutes | null {
+  if (typeof raw === "number" && Number.isFinite(raw)) {
+    return { kind: "angle", value: raw };
+  }
+  if (typeof raw !== "string") {
+    return null;
+  }
+  const value = parseFloat(raw);
+  if (!Number.isFinite(value)) {
+    return null;
+  }
+  return /min/i.test(raw) ? { kind: "minutes", value } : { kind: "angle", value };
+}
+
+export function resolveAstronomicalParams(
+  methodId: number,
+  asrSchool: AsrSchool,
+  highLatitudeRule: HighLatitudeRule
+): AstronomicalParams {
+  const method = getFallbackMethodById(methodId);
+  const fajr = parseMethodValue(method?.params.Fajr);
+  const isha = parseMethodValue(method?.params.Isha);
+
+  return {
+    fajrAngle: fajr?.kind === "angle" ? fajr.value : DEFAULT_FAJR_ANGLE,
+    isha: isha ?? { kind: "angle", value: DEFAULT_ISHA_ANGLE },
+    asrShadowFactor: asrSchool === "hanafi" ? 2 : 1,
+    highLatitudeRule
+  };
+}
+
+function nightPortion(rule: HighLatitudeRule, angle: number): number {
+  if (rule === "angle_based") {
+    return angle / 60;
+  }
+  if (rule === "one_seventh") {
+    return 1 / 7;
+  }
+  return 1 / 2;
+}
+
+function formatHHmm(hours: number): string {
+  const totalMinutes = Math.round(fixRange(hours, 24) * 60) % (24 * 60);
+  const hh = Math.floor(totalMinutes / 60);
+  const mm = totalMinutes % 60;
+  return `${String(hh).padStart(2, "0")}:${String(mm).padStart(2, "0")}`;
+}
+
+export function calculateAstronomicalTimes(
+  date: Date,
+  lat: number,
+  lon: number,
+  params: AstronomicalParams,
+  timeZone?: string
+): AstronomicalResult {
+  const jDate = julianDate(date.getFullYear(), date.getMonth() + 1, date.getDate()) - lon / (15 * 24);
+  // The place's offset at noon that day, so daylight saving follows the place rather than the device.
+  const noon = new Date(Date.UTC(date.getFullYear(), date.getMonth(), date.getDate(), 12));
+  const timezoneHours = getTimeZoneOffsetMinutes(noon, timeZone) / 60;
+
+  const midDay = (dayPortion: number) => fixRange(12 - sunPosition(jDate + dayPortion).equationOfTime, 24);
+  const sunAngleTime = (angle: number, dayPortion: number, counterClockwise = false) => {
+    const { declination } = sunPosition(jDate + dayPortion);
+    const noon = midDay(dayPortion);
+    const t = arccos((-sin(angle) - sin(declination) * sin(lat)) / (cos(declination) * cos(lat))) / 15;
+    return noon + (counterClockwise ? -t : t);
+  };
+  const asrTime = (factor: number, dayPortion: number) => {
+    const { declination } = sunPosition(jDate + dayPortion);
+    const angle = -arccot(factor + tan(Math.abs(lat - declination)));
+    return sunAngleTime(angle, dayPortion);
+  };
+
+  const compute = (guess: Record<PrayerName, number>) => {
+    const portion = (hours: number) => hours / 24;
+    return {
+      Fajr: sunAngleTime(params.fajrAngle, portion(guess.Fajr), true),
+      Sunrise: sunAngleTime(SUNRISE_SUNSET_ANGLE, portion(guess.Sunrise), true),
+      Dhuhr: midDay(portion(guess.Dhuhr)),
+      Asr: asrTime(params.asrShadowFactor, portion(guess.Asr)),
+      Maghrib: sunAngleTime(SUNRISE_SUNSET_ANGLE, portion(guess.Maghrib)),
+      Isha:
+        params.isha.kind === "angle" ? sunAngleTime(params.isha.value, portion(guess.Isha)) : Number.NaN
+    };
+  };
+
+  // Two passes: the first uses rough guesses, the second re-evaluates the sun at the estimated times.
+  const first = compute({ Fajr: 5, Sunrise: 6, Dhuhr: 12, Asr: 13, Maghrib: 18, Isha: 18 });
+  const refined = compute(
+    Object.fromEntries(
+      Object.entries(first).map(([prayer, value]) => [prayer, Number.isFinite(value) ? value : 12])
+    ) as Record<PrayerName, number>
+  );
+
+  if (!Number.isFinite(refined.Sunrise) || !Number.isFinite(refined.Maghrib)) {
+    throw new Error("Sun does not rise or set at this location today.");
+  }
+
+  if (params.isha.kind === "minutes") {
+    refined.Isha = refined.Maghrib + params.isha.value / 60;
+  }
+
+  // When the sun never reaches (or only barely reaches) the twilight angle, e.g. summer at high
+  // latitudes, limit Fajr and Isha to the portion of the night given by the selected rule.
+  const night = 24 - (refined.Maghrib - refined.Sunrise);
+  let highLatitudeAdjusted = false;
+  const fajrPortion = nightPortion(params.highLatitudeRule, params.fajrAngle) * night;
+  if (!Number.isFinite(refined.Fajr) || refined.Sunrise - refined.Fajr > fajrPortion) {
+    refined.Fajr = refined.Sunrise - fajrPortion;
+    highLatitudeAdjusted = true;
+  }
+  if (params.isha.kind === "angle") {
+    const ishaPortion = nightPortion(params.highLatitudeRule, params.isha.value) * night;
+    if (!Number.isFinite(refined.Isha) || refined.Isha - refined.Maghrib > ishaPortion) {
+      refined.Isha = refined.Maghrib + ishaPortion;
+      highLatitudeAdjusted = true;
+    }
+  }
+
+  const offset = timezoneHours - lon / 15;
+  return {
+    times: {
+      Fajr: formatHHmm(refined.Fajr + offset),
+      Sunrise: formatHHmm(refined.Sunrise + offset),
+      Dhuhr: formatHHmm(refined.Dhuhr + offset),
+      Asr: formatHHmm(refined.Asr + offset),
+      Maghrib: formatHHmm(refined.Maghrib + offset),
+      Isha: formatHHmm(refined.Isha + offset)
+    },
+    highLatitudeAdjusted
+  };
+}
+
+export async function getTimingsByCoordinates(
+  date: Date,
+  lat: number,
+  lon: number,
+  methodId: number,
+  asrSchool: AsrSchool,
+  highLatitudeRule: HighLatitudeRule,
+  timeZone?: string
+): Promise<Timings> {
+  const { times, highLatitudeAdjusted } = calculateAstronomicalTimes(
+    date,
+    lat,
+    lon,
+    resolveAstronomicalParams(methodId, asrSchool, highLatitudeRule),
+    timeZone
+  );
+
+  return {
+    dateKey: toDateKey(date),
+    timezone: timeZone ?? Intl.DateTimeFormat().resolvedOptions().timeZone,
+    times,
+    source: "astronomical",
+    highLatitudeRule: highLatitudeAdjusted ? highLatitudeRule : undefined
+  };
+}
@@ -0,0 +1,33 @@
+import { CompassCalibrationRecord } from "@/services/storage";
+
+// Phone magnetometers drift with temperature and nearby magnets; an old calibration says little.
+const CALIBRATION_STALE_DAYS = 30;
+// Rotation the user should cover (about two full figure-eights) before the readings are judged.
+export const CALIBRATION_ROTATION_DEG = 540;
+
+export type CalibrationAdviceReason = "poor" | "interference" | "stale";
+
+/**
+ * Whether the Qibla screen should ask for calibration as soon as the compass looks questionable,
+ * rather than waiting for it to turn unstable.
+ */
+export function getCalibrationAdvice(
+  history: CompassCalibrationRecord[],
+  now: Date = new Date()
+): CalibrationAdviceReason | null {
+  const latest = history[history.length - 1];
+  if (!latest) {
+    return null;
+  }
+  if (latest.quality !== "good") {
+    return "poor";
+  }
+  // Interference in two of the last three runs points at the phone's surroundings or case.
+  if (history.slice(-3).filter((record) => record.interference).length >= 2) {
+    return "interference";
+  }
+  if (now.getTime() - latest.at > CALIBRATION_STALE_DAYS * 24 * 60 * 60 * 1000) {
+    return "stale";
+  }
+  return null;
+}
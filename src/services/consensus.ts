@@ -0,0 +1,163 @@
+import { getFallbackMethodById } from "@/services/methods";
+import { getTimingsBySettings } from "@/services/prayerTimes";
+import { analyzeTimingsSanity, timeToMinutes, TimingSanityIssue } from "@/services/timingValidation";
+import { evaluateTimingTrust, TimingTrust } from "@/services/timingTrust";
+import { PRAYER_NAMES, PrayerName, Settings, Timings, TimingsProvider } from "@/types/prayer";
+import { getTomorrow } from "@/utils/time";
+
+const COMPARISON_METHOD_IDS = [13, 3, 2, 4];
+
+export type ConsensusCandidate = {
+  key: string;
+  provider: Extract<TimingsProvider, "aladhan" | "diyanet">;
+  methodId: number;
+  methodName: string | null;
+  active: boolean;
+};
+
+export type ConsensusRow = {
+  candidate: ConsensusCandidate;
+  timings: Timings | null;
+  error: string | null;
+  sanityIssues: TimingSanityIssue[];
+  trust: TimingTrust;
+  diffs: Partial<Record<PrayerName, number>>;
+};
+
+export type ConsensusResult = {
+  rows: ConsensusRow[];
+  referenceKey: string | null;
+  fetchedAt: string;
+};
+
+function candidateSettings(settings: Settings, candidate: ConsensusCandidate): Settings {
+  return {
+    ...settings,
+    timingsProvider: candidate.provider,
+    methodId: candidate.provider === "diyanet" ? settings.methodId : candidate.methodId
+  };
+}
+
+export function buildConsensusCandidates(settings: Settings): ConsensusCandidate[] {
+  const methodIds =
+    settings.timingsProvider === "aladhan" && !COMPARISON_METHOD_IDS.includes(settings.methodId)
+      ? [settings.methodId, ...COMPARISON_METHOD_IDS]
+      : COMPARISON_METHOD_IDS;
+
+  return [
+    {
+      key: "diyanet",
+      provider: "diyanet",
+      methodId: settings.methodId,
+      methodName: null,
+      active: settings.timingsProvider === "diyanet"
+    },
+    ...methodIds.map((methodId) => ({
+      key: `aladhan:${methodId}`,
+      provider: "aladhan" as const,
+      methodId,
+      methodName:
+        getFallbackMethodById(methodId)?.name ??
+        (settings.timingsProvider === "aladhan" && settings.methodId === methodId ? settings.methodName : null),
+      active: settings.timingsProvider === "aladhan" && settings.methodId === methodId
+    }))
+  ];
+}
+
+/** Signed minute difference that stays within half a day, so 23:58 vs 00:03 is +5 rather than -1435. */
+export function minutesBetween(from: string, to: string): number | null {
+  const fromMinutes = timeToMinutes(from);
+  const toMinutes = timeToMinutes(to);
+  if (fromMinutes === null || toMinutes === null) {
+    return null;
+  }
+  let diff = toMinutes - fromMinutes;
+  if (diff > 12 * 60) {
+    diff -= 24 * 60;
+  } else if (diff < -12 * 60) {
+    diff += 24 * 60;
+  }
+  return diff;
+}
+
+/**
+ * Fetches the same date and location from Diyanet and several Aladhan methods in parallel and
+ * diffs every prayer against the active source (or the first source that answered).
+ */
+export async function fetchConsensusTimings(params: {
+  date: Date;
+  location: { lat: number; lon: number };
+  locationLabel?: string;
+  settings: Settings;
+}): Promise<ConsensusResult> {
+  const candidates = buildConsensusCandidates(params.settings);
+  const tomorrow = getTomorrow(params.date);
+  const fetchedAt = new Date().toISOString();
+
+  const settled = await Promise.allSettled(
+    candidates.map(async (candidate) => {
+      const settings = candidateSettings(params.settings, candidate);
+      const [today, nextDay] = await Promise.all([
+        getTimingsBySettings(params.date, params.location.lat, params.location.lon, settings, params.locationLabel),
+        getTimingsBySettings(tomorrow, params.location.lat, params.location.lon, settings, params.locationLabel).catch(
+          () => null
+        )
+      ]);
+      return { today, nextDay };
+    })
+  );
+
+  const rows: ConsensusRow[] = settled.map((outcome, index) => {
+    const candidate = candidates[index];
+    if (outcome.status === "rejected") {
+      return {
+        candidate,
+        timings: null,
+        error: outcome.reason instanceof Error ? outcome.reason.message : String(outcome.reason),
+        sanityIssues: [],
+        trust: "unknown",
+        diffs: {}
+      };
+    }
+
+    const sanityIssues = analyzeTimingsSanity({
+      timings: outcome.value.today,
+      nextDayTimings: outcome.value.nextDay,
+      provider: candidate.provider
+    });
+    return {
+      candidate,
+      timings: outcome.value.today,
+      error: null,
+      sanityIssues,
+      trust: evaluateTimingTrust({
+        source: "api",
+        lastUpdated: fetchedAt,
+        hasWarnings: sanityIssues.some((issue) => issue.severity === "error" || issue.severity === "warning")
+      }),
+      diffs: {}
+    };
+  });
+
+  const reference =
+    rows.find((row) => row.candidate.active && row.timings) ?? rows.find((row) => row.timings) ?? null;
+  if (reference?.timings) {
+    for (const row of rows) {
+      if (!row.timings) {
+        continue;
+      }
+      for (const prayer of PRAYER_NAMES) {
+        const diff = minutesBetween(reference.timings.times[prayer], row.timings.times[prayer]);
+        if (diff !== null) {
+          row.diffs[prayer] = diff;
+        }
+      }
+    }
+  }
+
+  return {
+    rows,
+    referenceKey: reference?.candidate.key ?? null,
+    fetchedAt
+  };
+}
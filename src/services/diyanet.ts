@@ -1,4 +1,4 @@
-import { PrayerName, Timings } from "@/types/prayer";
+import { appliesHighLatitudeRule, HighLatitudeRule, PrayerName, Timings } from "@/types/prayer";
 import { fetchJson } from "@/services/http";
 
 const REQUIRED_PRAYERS: PrayerName[] = ["Fajr", "Sunrise", "Dhuhr", "Asr", "Maghrib", "Isha"];
@@ -156,7 +156,8 @@ export async function getTimingsByCoordinates(
   date: Date,
   lat: number,
   lon: number,
-  cityHint?: string
+  cityHint?: string,
+  highLatitudeRule?: HighLatitudeRule
 ): Promise<Timings> {
   const baseUrlRaw = process.env.EXPO_PUBLIC_DIYANET_PROXY_URL?.trim() || DEFAULT_DIYANET_PROXY_URL;
 
@@ -174,6 +175,9 @@ export async function getTimingsByCoordinates(
   if (hint.country) {
     url.searchParams.set("country", hint.country);
   }
+  if (highLatitudeRule) {
+    url.searchParams.set("highLatitudeRule", highLatitudeRule);
+  }
 
   const forcedCityId = toFiniteNumber(process.env.EXPO_PUBLIC_DIYANET_FORCE_CITY_ID);
   const runtimeCityId = runtimeCityIdByLocation.get(runtimeKey) ?? null;
@@ -202,9 +206,9 @@ export async function getTimingsByCoordinates(
     runtimeCityIdByLocation.set(runtimeKey, resolvedCityId);
   }
 
+  const source = typeof payload?.source === "string" ? payload.source : "diyanet-proxy";
   if (__DEV__) {
     const cityId = resolvedCityId;
-    const source = typeof payload?.source === "string" ? payload.source : "diyanet-proxy";
     console.log(
       `[diyanet] source=${source} cityId=${cityId ?? "unknown"} date=${dateKey} times=${JSON.stringify(times)}`
     );
@@ -214,7 +218,9 @@ export async function getTimingsByCoordinates(
     dateKey,
     timezone: Intl.DateTimeFormat().resolvedOptions().timeZone,
     times,
-    source: typeof payload?.source === "string" ? payload.source : "diyanet-proxy",
+    source,
+    highLatitudeRule:
+      source.includes("coordinate-fallback") && appliesHighLatitudeRule(lat) ? highLatitudeRule : undefined,
     cityId: resolvedCityId,
     citySource: typeof payload?.citySource === "string" ? payload.citySource : null,
     cityDistanceKm,
@@ -228,7 +234,8 @@ export async function getMonthlyTimingsByCoordinates(
   month: number,
   lat: number,
   lon: number,
-  cityHint?: string
+  cityHint?: string,
+  highLatitudeRule?: HighLatitudeRule
 ): Promise<Record<string, Timings>> {
   const runtimeKey = locationRuntimeKey(lat, lon);
   const baseUrlRaw = process.env.EXPO_PUBLIC_DIYANET_PROXY_URL?.trim() || DEFAULT_DIYANET_PROXY_URL;
@@ -246,6 +253,9 @@ export async function getMonthlyTimingsByCoordinates(
   if (hint.country) {
     url.searchParams.set("country", hint.country);
   }
+  if (highLatitudeRule) {
+    url.searchParams.set("highLatitudeRule", highLatitudeRule);
+  }
 
   const forcedCityId = toFiniteNumber(process.env.EXPO_PUBLIC_DIYANET_FORCE_CITY_ID);
   const runtimeCityId = runtimeCityIdByLocation.get(runtimeKey) ?? null;
@@ -274,12 +284,17 @@ export async function getMonthlyTimingsByCoordinates(
   }
 
   const timezone = Intl.DateTimeFormat().resolvedOptions().timeZone;
+  const source = typeof payload?.source === "string" ? payload.source : "diyanet-proxy";
+  const coordinateFallback = typeof payload?.source === "string" && payload.source.includes("coordinate-fallback");
+  const highLatitudeTagged = coordinateFallback && appliesHighLatitudeRule(lat);
   const mapped: Record<string, Timings> = {};
   for (const dateKey of keys) {
     mapped[dateKey] = {
       dateKey,
       timezone,
-      times: monthly[dateKey]
+      times: monthly[dateKey],
+      source,
+      highLatitudeRule: highLatitudeTagged ? highLatitudeRule : undefined
     };
   }
 
@@ -0,0 +1,57 @@
+import { getImsakTime } from "@/services/ramadan";
+import { timeToMinutes } from "@/services/timingValidation";
+import { EXTRA_TIME_NAMES, ExtraTimeName, Settings, Timings } from "@/types/prayer";
+import { parsePrayerTimeForDate, shiftTimeHHmm } from "@/utils/time";
+
+// Duha/Ishraq starts once the sun has cleared the horizon; zawal is the short window before Dhuhr.
+export const DUHA_MINUTES_AFTER_SUNRISE = 20;
+export const ISTIWA_MINUTES_BEFORE_DHUHR = 10;
+
+export type ExtraTimes = Record<ExtraTimeName, string>;
+
+const NIGHT_EXTRA_TIMES: ExtraTimeName[] = ["Midnight", "LastThird"];
+
+/**
+ * Resolves the secondary times for one day from the (tuned) prayer times, the same way for every
+ * provider. The night runs from Maghrib to the next Fajr, so Midnight is its middle and the last
+ * third starts two thirds in; provider values are not used because they follow their own
+ * definition (Aladhan defaults to sunset-to-sunrise) and ignore tune offsets. Imsak always comes
+ * from getImsakTime so the home screen, Ramadan mode and notifications agree.
+ */
+export function resolveExtraTimes(params: {
+  timings: Timings;
+  nextDayTimings: Timings | null;
+  settings: Pick<Settings, "ramadan">;
+}): ExtraTimes {
+  const { times } = params.timings;
+  const maghrib = timeToMinutes(times.Maghrib) ?? 0;
+  // Without tomorrow's timings, today's Fajr is a close enough stand-in for the next dawn.
+  const nextFajr = timeToMinutes(params.nextDayTimings?.times.Fajr ?? times.Fajr) ?? 0;
+  const nightMinutes = nextFajr + 24 * 60 - maghrib;
+
+  return {
+    Imsak: getImsakTime(params.timings, params.settings.ramadan),
+    Duha: shiftTimeHHmm(times.Sunrise, DUHA_MINUTES_AFTER_SUNRISE),
+    Istiwa: shiftTimeHHmm(times.Dhuhr, -ISTIWA_MINUTES_BEFORE_DHUHR),
+    Midnight: shiftTimeHHmm(times.Maghrib, nightMinutes / 2),
+    LastThird: shiftTimeHHmm(times.Maghrib, (nightMinutes * 2) / 3)
+  };
+}
+
+export function getEnabledExtraTimeNames(settings: Pick<Settings, "extraTimes">): ExtraTimeName[] {
+  return EXTRA_TIME_NAMES.filter((name) => settings.extraTimes[name].enabled);
+}
+
+/**
+ * Moment of an extra time for the day it belongs to. Night times that fall after 00:00 are still
+ * part of the evening that started at Maghrib, so they land on the following calendar date.
+ */
+export function getExtraTimeDate(date: Date, timings: Timings, name: ExtraTimeName, time: string): Date {
+  const at = parsePrayerTimeForDate(date, time);
+  const minutes = timeToMinutes(time) ?? 0;
+  const maghrib = timeToMinutes(timings.times.Maghrib) ?? 0;
+  if (NIGHT_EXTRA_TIMES.includes(name) && minutes < maghrib) {
+    at.setDate(at.getDate() + 1);
+  }
+  return at;
+}
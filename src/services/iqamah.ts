@@ -0,0 +1,264 @@
+import {
+  IqamahPrayerSchedule,
+  IqamahRule,
+  IqamahSchedule,
+  Settings,
+  TRACKED_PRAYERS,
+  TrackedPrayer
+} from "@/types/prayer";
+import { haversineDistanceKm } from "@/utils/geo";
+import { parsePrayerTimeForDate, shiftTimeHHmm } from "@/utils/time";
+
+// Monday first, the same day codes as OSM opening hours.
+export const IQAMAH_DAY_CODES = ["Mo", "Tu", "We", "Th", "Fr", "Sa", "Su"];
+// Mosques rarely wait longer than this after the adhan; larger values are almost always a typo.
+export const MAX_IQAMAH_OFFSET_MINUTES = 90;
+// Farther than this from the default mosque, the user is not praying there and the adhan is the better target.
+export const IQAMAH_MOSQUE_RADIUS_KM = 25;
+const TIME_PATTERN = /^([01]?\d|2[0-3]):([0-5]\d)$/;
+const OFFSET_PATTERN = /^\+?(\d{1,2})$/;
+
+function emptyPrayerSchedule(): IqamahPrayerSchedule {
+  return { rule: null, weekdays: IQAMAH_DAY_CODES.map(() => null) };
+}
+
+export function createEmptyIqamahSchedule(): IqamahSchedule {
+  return {
+    prayers: TRACKED_PRAYERS.reduce((acc, prayer) => {
+      acc[prayer] = emptyPrayerSchedule();
+      return acc;
+    }, {} as IqamahSchedule["prayers"]),
+    sourceUrl: null,
+    sourceMosque: null,
+    updatedAt: Date.now()
+  };
+}
+
+/** Reads "13:30" as a fixed time and "+15" (or "15") as minutes after the adhan. */
+export function parseIqamahRule(value: unknown): IqamahRule | null {
+  if (typeof value === "number") {
+    return parseIqamahRule(String(value));
+  }
+  if (value && typeof value === "object") {
+    const row = value as Record<string, unknown>;
+    if (row.kind === "fixed") {
+      return parseIqamahRule(row.time);
+    }
+    return row.kind === "offset" ? parseIqamahRule(`+${row.minutes}`) : null;
+  }
+  if (typeof value !== "string") {
+    return null;
+  }
+  const trimmed = value.trim();
+  const time = TIME_PATTERN.exec(trimmed);
+  if (time) {
+    return { kind: "fixed", time: `${time[1].padStart(2, "0")}:${time[2]}` };
+  }
+  const offset = OFFSET_PATTERN.exec(trimmed);
+  if (offset && Number(offset[1]) <= MAX_IQAMAH_OFFSET_MINUTES) {
+    return { kind: "offset", minutes: Number(offset[1]) };
+  }
+  return null;
+}
+
+export function formatIqamahRule(rule: IqamahRule): string {
+  return rule.kind === "fixed" ? rule.time : `+${rule.minutes}`;
+}
+
+function toPrayer(value: string): TrackedPrayer | null {
+  const name = value.trim().toLowerCase();
+  return TRACKED_PRAYERS.find((prayer) => prayer.toLowerCase() === name) ?? null;
+}
+
+/** Restores a stored timetable; rules that no longer parse are dropped rather than failing the whole schedule. */
+export function sanitizeIqamahSchedule(value: unknown): IqamahSchedule | null {
+  if (!value || typeof value !== "object") {
+    return null;
+  }
+  const row = value as Record<string, unknown>;
+  const prayers = row.prayers && typeof row.prayers === "object" ? (row.prayers as Record<string, unknown>) : {};
+  const schedule = createEmptyIqamahSchedule();
+  for (const prayer of TRACKED_PRAYERS) {
+    const stored = prayers[prayer];
+    const entry = stored && typeof stored === "object" ? (stored as Record<string, unknown>) : {};
+    const weekdays = Array.isArray(entry.weekdays) ? (entry.weekdays as unknown[]) : [];
+    schedule.prayers[prayer] = {
+      rule: parseIqamahRule(entry.rule),
+      weekdays: IQAMAH_DAY_CODES.map((_, day) => parseIqamahRule(weekdays[day]))
+    };
+  }
+  schedule.sourceUrl = typeof row.sourceUrl === "string" ? row.sourceUrl : null;
+  schedule.sourceMosque = typeof row.sourceMosque === "string" ? row.sourceMosque : null;
+  schedule.updatedAt = typeof row.updatedAt === "number" ? row.updatedAt : Date.now();
+  return schedule;
+}
+
+export function hasIqamahRules(schedule: IqamahSchedule | null | undefined): schedule is IqamahSchedule {
+  return Boolean(
+    schedule &&
+      TRACKED_PRAYERS.some(
+        (prayer) => schedule.prayers[prayer].rule || schedule.prayers[prayer].weekdays.some(Boolean)
+      )
+  );
+}
+
+/**
+ * Whether the default mosque's timetable applies where the user is. At home it always does; on a trip or at a
+ * saved location only while the mosque is within reach of the position the times are for.
+ */
+export function appliesMosqueIqamah(
+  settings: Settings,
+  mosque: { lat: number; lon: number },
+  location: { lat: number; lon: number } | null
+): boolean {
+  if (!settings.travel.active && !settings.activeLocationId) {
+    return true;
+  }
+  return (
+    location !== null &&
+    haversineDistanceKm(location.lat, location.lon, mosque.lat, mosque.lon) <= IQAMAH_MOSQUE_RADIUS_KM
+  );
+}
+
+export function getIqamahRule(schedule: IqamahSchedule, prayer: TrackedPrayer, date: Date): IqamahRule | null {
+  const entry = schedule.prayers[prayer];
+  return entry.weekdays[(date.getDay() + 6) % 7] ?? entry.rule;
+}
+
+/**
+ * The congregation time for `prayer` on `date` as "HH:mm". Returns null when there is no rule, or
+ * when a fixed time falls before the adhan: the timetable is out of date for that day and the
+ * adhan is the better guess.
+ */
+export function resolveIqamahTime(
+  schedule: IqamahSchedule | null | undefined,
+  prayer: TrackedPrayer,
+  date: Date,
+  adhanTime: string
+): string | null {
+  const rule = schedule ? getIqamahRule(schedule, prayer, date) : null;
+  if (!rule) {
+    return null;
+  }
+  if (rule.kind === "offset") {
+    return shiftTimeHHmm(adhanTime, rule.minutes);
+  }
+  return rule.time >= adhanTime ? rule.time : null;
+}
+
+/** The iqamah as a date; an offset that runs past midnight lands on the next day. */
+export function getIqamahDate(
+  schedule: IqamahSchedule | null | undefined,
+  prayer: TrackedPrayer,
+  date: Date,
+  adhanTime: string
+): Date | null {
+  const time = resolveIqamahTime(schedule, prayer, date, adhanTime);
+  if (!time) {
+    return null;
+  }
+  const at = parsePrayerTimeForDate(date, time);
+  return time < adhanTime ? new Date(at.getTime() + 24 * 60 * 60 * 1000) : at;
+}
+
+function applyCells(schedule: IqamahSchedule, prayer: TrackedPrayer, cells: Record<string, unknown>): void {
+  const entry = schedule.prayers[prayer];
+  for (const [key, value] of Object.entries(cells)) {
+    if (value === "" || value === null || value === undefined) {
+      continue;
+    }
+    const rule = parseIqamahRule(value);
+    if (!rule) {
+      throw new Error(`Invalid iqamah rule for ${prayer}: ${String(value)}`);
+    }
+    const day = IQAMAH_DAY_CODES.findIndex((code) => code.toLowerCase() === key.trim().toLowerCase());
+    if (day >= 0) {
+      entry.weekdays[day] = rule;
+    } else if (key.trim().toLowerCase() === "default") {
+      entry.rule = rule;
+    } else {
+      throw new Error(`Unknown iqamah column: ${key}`);
+    }
+  }
+}
+
+function parseJsonImport(text: string): IqamahSchedule {
+  const parsed = JSON.parse(text);
+  const prayers = parsed?.prayers ?? parsed;
+  if (!prayers || typeof prayers !== "object") {
+    throw new Error("Iqamah timetable has no prayers.");
+  }
+  const schedule = createEmptyIqamahSchedule();
+  schedule.sourceMosque = typeof parsed?.mosque === "string" && parsed.mosque.trim() ? parsed.mosque.trim() : null;
+  for (const [name, value] of Object.entries(prayers as Record<string, unknown>)) {
+    const prayer = toPrayer(name);
+    if (!prayer) {
+      continue;
+    }
+    const isCells = value !== null && typeof value === "object" && !("kind" in value);
+    applyCells(schedule, prayer, isCells ? (value as Record<string, unknown>) : { default: value });
+  }
+  return schedule;
+}
+
+// Spreadsheets in many European locales export with semicolons, so both separators are accepted.
+function parseCsvImport(text: string): IqamahSchedule {
+  const lines = text
+    .split(/\r?\n/)
+    .map((line) => line.trim())
+    .filter(Boolean);
+  const separator = lines[0]?.includes(";") && !lines[0].includes(",") ? ";" : ",";
+  const rows = lines.map((line) => line.split(separator).map((cell) => cell.trim().replace(/^"|"$/g, "")));
+  const hasHeader = rows[0]?.[0]?.toLowerCase() === "prayer";
+  const columns = hasHeader ? rows[0].slice(1) : ["default", ...IQAMAH_DAY_CODES];
+
+  const schedule = createEmptyIqamahSchedule();
+  for (const row of hasHeader ? rows.slice(1) : rows) {
+    const prayer = toPrayer(row[0] ?? "");
+    if (!prayer) {
+      throw new Error(`Unknown prayer in iqamah timetable: ${row[0]}`);
+    }
+    applyCells(
+      schedule,
+      prayer,
+      Object.fromEntries(columns.map((column, index) => [column, row[index + 1] ?? ""]))
+    );
+  }
+  return schedule;
+}
+
+/**
+ * Reads a shared timetable, either JSON ({"mosque": "...", "prayers": {"Fajr": "+20", "Dhuhr": {"default":
+ * "13:30", "Fr": "13:45"}}}) or CSV with the columns prayer, default, Mo ... Su. The JSON mosque name is kept as
+ * `sourceMosque`. Throws when nothing usable is found.
+ */
+export function parseIqamahImport(text: string, sourceUrl: string | null = null): IqamahSchedule {
+  // trim() also drops the byte order mark some spreadsheet exports start with.
+  const trimmed = text.trim();
+  const schedule = trimmed.startsWith("{") ? parseJsonImport(trimmed) : parseCsvImport(trimmed);
+  if (!hasIqamahRules(schedule)) {
+    throw new Error("Iqamah timetable has no usable times.");
+  }
+  return { ...schedule, sourceUrl, updatedAt: Date.now() };
+}
+
+export function toIqamahExport(schedule: IqamahSchedule, mosqueName: string | null) {
+  const prayers: Record<string, Record<string, string>> = {};
+  for (const prayer of TRACKED_PRAYERS) {
+    const entry = schedule.prayers[prayer];
+    const cells: Record<string, string> = entry.rule ? { default: formatIqamahRule(entry.rule) } : {};
+    entry.weekdays.forEach((rule, day) => {
+      if (rule) {
+        cells[IQAMAH_DAY_CODES[day]] = formatIqamahRule(rule);
+      }
+    });
+    if (Object.keys(cells).length > 0) {
+      prayers[prayer] = cells;
+    }
+  }
+  return { mosque: mosqueName, prayers };
+}
+
+export function buildIqamahJson(schedule: IqamahSchedule, mosqueName: string | null): string {
+  return JSON.stringify(toIqamahExport(schedule, mosqueName), null, 2);
+}
@@ -0,0 +1,81 @@
+import * as DocumentPicker from "expo-document-picker";
+import { File, Paths } from "expo-file-system";
+import * as Linking from "expo-linking";
+import * as Sharing from "expo-sharing";
+import { buildIqamahJson, parseIqamahImport, toIqamahExport } from "@/services/iqamah";
+import { IqamahSchedule } from "@/types/prayer";
+
+const FETCH_TIMEOUT_MS = 9000;
+
+export async function fetchIqamahSchedule(url: string): Promise<IqamahSchedule> {
+  const controller = new AbortController();
+  const timeout = setTimeout(() => controller.abort(), FETCH_TIMEOUT_MS);
+  try {
+    const response = await fetch(url, { signal: controller.signal });
+    if (!response.ok) {
+      throw new Error(`HTTP ${response.status}`);
+    }
+    return parseIqamahImport(await response.text(), url);
+  } finally {
+    clearTimeout(timeout);
+  }
+}
+
+/** Lets the user pick a JSON or CSV file. Returns null when the picker is cancelled. */
+export async function pickIqamahScheduleFile(): Promise<IqamahSchedule | null> {
+  const result = await DocumentPicker.getDocumentAsync({
+    type: ["application/json", "text/csv", "text/comma-separated-values", "text/plain"],
+    copyToCacheDirectory: true,
+    multiple: false
+  });
+  if (result.canceled || result.assets.length === 0) {
+    return null;
+  }
+  return parseIqamahImport(await new File(result.assets[0].uri).text());
+}
+
+/**
+ * Pasted text may be a link to a timetable, an app link (as printed in a mosque's QR code) or the
+ * timetable itself.
+ */
+export async function importIqamahFromText(text: string): Promise<IqamahSchedule> {
+  const trimmed = text.trim();
+  if (/^https?:\/\//i.test(trimmed)) {
+    return fetchIqamahSchedule(trimmed);
+  }
+  if (trimmed.includes("://")) {
+    const { queryParams } = Linking.parse(trimmed);
+    if (typeof queryParams?.url === "string") {
+      return fetchIqamahSchedule(queryParams.url);
+    }
+    if (typeof queryParams?.data === "string") {
+      return parseIqamahImport(queryParams.data);
+    }
+  }
+  return parseIqamahImport(trimmed);
+}
+
+/** An app link carrying the whole timetable, short enough to print as a QR code. */
+export function buildIqamahLink(schedule: IqamahSchedule, mosqueName: string | null): string {
+  return Linking.createURL("iqamah", {
+    queryParams: { data: JSON.stringify(toIqamahExport(schedule, mosqueName)) }
+  });
+}
+
+export async function shareIqamahSchedule(params: {
+  schedule: IqamahSchedule;
+  mosqueName: string | null;
+  dialogTitle: string;
+}): Promise<void> {
+  if (!(await Sharing.isAvailableAsync())) {
+    throw new Error("Sharing is not available on this device.");
+  }
+  const file = new File(Paths.cache, "iqamah.json");
+  file.create({ overwrite: true });
+  file.write(buildIqamahJson(params.schedule, params.mosqueName));
+  await Sharing.shareAsync(file.uri, {
+    mimeType: "application/json",
+    UTI: "public.json",
+    dialogTitle: params.dialogTitle
+  });
+}
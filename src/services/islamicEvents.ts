@@ -0,0 +1,76 @@
+import { getHijriDateParts } from "@/utils/hijri";
+
+export type IslamicEventKind = "holiday" | "holy_day" | "holy_night" | "kandil";
+
+export type IslamicEventKey =
+  | "islamic_new_year"
+  | "ashura"
+  | "mawlid"
+  | "mawlid_kandil"
+  | "regaib_kandil"
+  | "miraj_kandil"
+  | "berat_kandil"
+  | "ramadan_start"
+  | "laylat_al_qadr"
+  | "eid_al_fitr"
+  | "arafah"
+  | "eid_al_adha";
+
+export interface IslamicEvent {
+  key: IslamicEventKey;
+  kind: IslamicEventKind;
+}
+
+// Hijri month/day of fixed occasions. Kandil nights start at Maghrib of the listed Gregorian day,
+// which is why they sit one day before the Hijri date they are named after.
+const FIXED_EVENTS: Array<IslamicEvent & { month: number; day: number }> = [
+  { key: "islamic_new_year", kind: "holy_day", month: 1, day: 1 },
+  { key: "ashura", kind: "holy_day", month: 1, day: 10 },
+  { key: "mawlid_kandil", kind: "kandil", month: 3, day: 11 },
+  { key: "mawlid", kind: "holy_day", month: 3, day: 12 },
+  { key: "miraj_kandil", kind: "kandil", month: 7, day: 26 },
+  { key: "berat_kandil", kind: "kandil", month: 8, day: 14 },
+  { key: "ramadan_start", kind: "holy_day", month: 9, day: 1 },
+  { key: "laylat_al_qadr", kind: "holy_night", month: 9, day: 26 },
+  { key: "eid_al_fitr", kind: "holiday", month: 10, day: 1 },
+  { key: "arafah", kind: "holy_day", month: 12, day: 9 },
+  { key: "eid_al_adha", kind: "holiday", month: 12, day: 10 }
+];
+
+const RAJAB_MONTH = 7;
+
+/**
+ * Regaib is the Thursday night before the first Friday of Rajab, so it can fall on the last day
+ * of Jumada al-Akhirah when Rajab starts on a Friday.
+ */
+function isRegaibKandil(date: Date, adjustmentDays: number): boolean {
+  if (date.getDay() !== 4) {
+    return false;
+  }
+  const friday = new Date(date);
+  friday.setDate(friday.getDate() + 1);
+  const fridayParts = getHijriDateParts(friday, adjustmentDays);
+  return fridayParts?.month === RAJAB_MONTH && fridayParts.day <= 7;
+}
+
+export function getIslamicEvents(
+  date: Date,
+  adjustmentDays = 0,
+  options?: { includeKandils?: boolean }
+): IslamicEvent[] {
+  const parts = getHijriDateParts(date, adjustmentDays);
+  if (!parts) {
+    return [];
+  }
+
+  const includeKandils = options?.includeKandils !== false;
+  const events: IslamicEvent[] = FIXED_EVENTS.filter(
+    (event) =>
+      event.month === parts.month && event.day === parts.day && (includeKandils || event.kind !== "kandil")
+  ).map(({ key, kind }) => ({ key, kind }));
+
+  if (includeKandils && isRegaibKandil(date, adjustmentDays)) {
+    events.unshift({ key: "regaib_kandil", kind: "kandil" });
+  }
+  return events;
+}
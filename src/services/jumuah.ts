@@ -0,0 +1,67 @@
+import { appliesMosqueIqamah } from "@/services/iqamah";
+import { estimateTravelMinutes } from "@/services/mosqueService";
+import { DefaultMosque, TravelMode } from "@/types/mosque";
+import { JumuahSettings, Settings, Timings } from "@/types/prayer";
+import { haversineDistanceKm } from "@/utils/geo";
+import { parsePrayerTimeForDate } from "@/utils/time";
+
+export const KAHF_SURAH_ID = 18;
+
+export interface JumuahPlan {
+  khutbahTime: string;
+  khutbahAt: Date;
+  // True when no khutbah time was entered for the mosque and Dhuhr is used instead.
+  usesDhuhr: boolean;
+  travelMinutes: number;
+  leaveAt: Date;
+}
+
+export function isFriday(date: Date): boolean {
+  return date.getDay() === 5;
+}
+
+export function getNextFriday(from: Date): Date {
+  const value = new Date(from.getFullYear(), from.getMonth(), from.getDate(), 12, 0, 0, 0);
+  value.setDate(value.getDate() + ((5 - value.getDay() + 7) % 7));
+  return value;
+}
+
+export function getKhutbahTime(jumuah: JumuahSettings, mosque: DefaultMosque | null): string | null {
+  return mosque ? jumuah.khutbahTimes[mosque.id] ?? null : null;
+}
+
+/**
+ * Whether a leave reminder for the default mosque makes sense: never on a trip, and otherwise under
+ * the same reach rule as the mosque's iqamah times.
+ */
+export function canReachJumuahMosque(
+  settings: Settings,
+  mosque: DefaultMosque,
+  origin: { lat: number; lon: number } | null
+): boolean {
+  return !settings.travel.active && appliesMosqueIqamah(settings, mosque, origin);
+}
+
+/**
+ * Works out when to leave for the default mosque on a Friday. Travel time uses the distance from
+ * `origin` when known, otherwise the distance stored when the mosque was made the default.
+ */
+export function getJumuahPlan(params: {
+  date: Date;
+  timings: Timings;
+  jumuah: JumuahSettings;
+  mosque: DefaultMosque;
+  travelMode: TravelMode;
+  origin?: { lat: number; lon: number } | null;
+}): JumuahPlan {
+  const entered = getKhutbahTime(params.jumuah, params.mosque);
+  const khutbahTime = entered ?? params.timings.times.Dhuhr;
+  const khutbahAt = parsePrayerTimeForDate(params.date, khutbahTime);
+  const distanceKm = params.origin
+    ? haversineDistanceKm(params.origin.lat, params.origin.lon, params.mosque.lat, params.mosque.lon)
+    : params.mosque.distanceKm;
+  const travelMinutes = estimateTravelMinutes(distanceKm, params.travelMode);
+  const leaveAt = new Date(khutbahAt.getTime() - (travelMinutes + params.jumuah.leaveBufferMinutes) * 60 * 1000);
+
+  return { khutbahTime, khutbahAt, usesDhuhr: !entered, travelMinutes, leaveAt };
+}
@@ -1,5 +1,6 @@
 import * as Location from "expo-location";
 import { fetchJson } from "@/services/http";
+import { getLatestCachedLocation } from "@/services/storage";
 import { Settings } from "@/types/prayer";
 
 export async function getCurrentLocation(): Promise<{ lat: number; lon: number }> {
@@ -18,6 +19,26 @@ export async function getCurrentLocation(): Promise<{ lat: number; lon: number }
   };
 }
 
+/**
+ * The device position without showing a permission prompt; null when location access was never granted.
+ * Works in manual mode too, where the timings do not use the device position.
+ */
+export async function getPassiveLocation(): Promise<{ lat: number; lon: number } | null> {
+  const { status } = await Location.getForegroundPermissionsAsync();
+  if (status !== "granted") {
+    return null;
+  }
+
+  const position =
+    (await Location.getLastKnownPositionAsync({ maxAge: 30 * 60 * 1000 })) ??
+    (await Location.getCurrentPositionAsync({ accuracy: Location.Accuracy.Balanced }));
+
+  return {
+    lat: position.coords.latitude,
+    lon: position.coords.longitude
+  };
+}
+
 function firstNonEmpty(values: Array<string | null | undefined>): string | null {
   for (const value of values) {
     if (value && value.trim().length > 0) {
@@ -70,7 +91,9 @@ export async function getCurrentLocationDetails(): Promise<{ lat: number; lon: n
   }
 }
 
-export async function geocodeCityQuery(query: string): Promise<{ lat: number; lon: number; label: string }> {
+export async function geocodeCityQuery(
+  query: string
+): Promise<{ lat: number; lon: number; label: string; timeZone?: string }> {
   const trimmed = query.trim();
   if (!trimmed) {
     throw new Error("Please enter a city name.");
@@ -94,7 +117,9 @@ export async function geocodeCityQuery(query: string): Promise<{ lat: number; lo
   return {
     lat: first.latitude,
     lon: first.longitude,
-    label
+    label,
+    // Only iOS reports the time zone of a reverse-geocoded place.
+    ...(entry?.timezone ? { timeZone: entry.timezone } : {})
   };
 }
 
@@ -103,6 +128,8 @@ export interface CitySuggestion {
   label: string;
   lat: number;
   lon: number;
+  // Only Open-Meteo reports the place's time zone.
+  timeZone?: string;
 }
 
 function normalizeLocaleTag(localeTag?: string): string {
@@ -169,7 +196,8 @@ async function fetchOpenMeteoSuggestions(trimmed: string, localeTag?: string): P
         query: trimmed,
         label: buildSuggestionLabel(city, state, country, String(item?.name || trimmed)),
         lat,
-        lon
+        lon,
+        ...(typeof item?.timezone === "string" ? { timeZone: item.timezone } : {})
       } as CitySuggestion;
     })
     .filter((item): item is CitySuggestion => item !== null);
@@ -278,3 +306,19 @@ export async function resolveLocationForSettings(settings: Settings): Promise<{
 
   return getCurrentLocationDetails();
 }
+
+/**
+ * Like resolveLocationForSettings, but reuses the last GPS fix before asking for a new one.
+ * Suited to secondary screens that should open instantly and work offline.
+ */
+export async function resolveLocationPreferCache(
+  settings: Settings
+): Promise<{ lat: number; lon: number; label: string }> {
+  if (settings.locationMode !== "manual") {
+    const cachedLocation = await getLatestCachedLocation();
+    if (cachedLocation && cachedLocation.mode === "gps") {
+      return { lat: cachedLocation.lat, lon: cachedLocation.lon, label: cachedLocation.label };
+    }
+  }
+  return resolveLocationForSettings(settings);
+}
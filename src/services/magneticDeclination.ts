@@ -0,0 +1,145 @@
+// World Magnetic Model 2025 (NOAA/BGS), main field and secular variation truncated at degree 8.
+// The model is valid from late 2024 through 2029; swap in the next release once it is published.
+// The dropped high-degree terms are crustal detail worth well under a degree of declination
+// away from the poles, which is far below what a phone magnetometer can resolve.
+const MODEL_EPOCH = 2025.0;
+const MAX_DEGREE = 8;
+
+// [n, m, g, h, gDot, hDot] in nT and nT/year.
+const COEFFICIENTS: [number, number, number, number, number, number][] = [
+  [1, 0, -29351.8, 0.0, 12.0, 0.0],
+  [1, 1, -1410.8, 4545.4, 9.7, -21.5],
+  [2, 0, -2556.6, 0.0, -11.6, 0.0],
+  [2, 1, 2951.1, -3133.6, -5.2, -27.7],
+  [2, 2, 1649.3, -815.1, -8.0, -12.1],
+  [3, 0, 1361.0, 0.0, -1.3, 0.0],
+  [3, 1, -2404.1, -56.6, -4.2, 4.0],
+  [3, 2, 1243.8, 237.5, 0.4, -0.3],
+  [3, 3, 453.6, -549.5, -15.6, -4.1],
+  [4, 0, 895.0, 0.0, -1.6, 0.0],
+  [4, 1, 799.5, 278.6, -2.4, -1.1],
+  [4, 2, 55.7, -133.9, -6.0, 4.1],
+  [4, 3, -281.1, 212.0, 5.6, 1.6],
+  [4, 4, 12.1, -375.6, -7.0, -4.4],
+  [5, 0, -233.2, 0.0, 0.6, 0.0],
+  [5, 1, 368.9, 45.4, 1.4, -0.5],
+  [5, 2, 187.2, 220.2, 0.0, 2.2],
+  [5, 3, -138.7, -122.9, 0.6, 0.4],
+  [5, 4, -142.0, 43.0, 2.2, 1.7],
+  [5, 5, 20.9, 106.1, 0.9, 1.9],
+  [6, 0, 64.4, 0.0, -0.2, 0.0],
+  [6, 1, 63.8, -18.4, -0.4, 0.3],
+  [6, 2, 76.9, 16.8, 0.9, -1.6],
+  [6, 3, -115.7, 48.8, 1.2, -0.4],
+  [6, 4, -40.9, -59.8, -0.9, 0.9],
+  [6, 5, 14.9, 10.9, 0.3, 0.7],
+  [6, 6, -60.7, 72.7, 0.9, 0.9],
+  [7, 0, 79.5, 0.0, 0.0, 0.0],
+  [7, 1, -77.0, -48.9, -0.1, 0.6],
+  [7, 2, -8.8, -14.4, -0.1, 0.5],
+  [7, 3, 59.3, -1.0, 0.5, -0.8],
+  [7, 4, 15.8, 23.4, -0.1, 0.0],
+  [7, 5, 2.5, -7.4, -0.8, -1.0],
+  [7, 6, -11.1, -25.1, -0.8, 0.6],
+  [7, 7, 14.2, -2.3, 0.8, -0.2],
+  [8, 0, 23.2, 0.0, -0.1, 0.0],
+  [8, 1, 10.8, 7.1, 0.2, -0.2],
+  [8, 2, -17.5, -12.6, 0.0, 0.5],
+  [8, 3, 2.0, 11.4, 0.5, -0.4],
+  [8, 4, -21.7, -9.7, -0.1, 0.4],
+  [8, 5, 16.9, 12.7, 0.3, -0.5],
+  [8, 6, 15.0, 0.7, 0.2, -0.6],
+  [8, 7, -16.8, -5.2, 0.0, 0.3],
+  [8, 8, 0.9, 3.9, 0.2, 0.2]
+];
+
+const REFERENCE_RADIUS_KM = 6371.2;
+const WGS84_A_KM = 6378.137;
+const WGS84_F = 1 / 298.257223563;
+const WGS84_E2 = WGS84_F * (2 - WGS84_F);
+
+const dtr = (deg: number) => (deg * Math.PI) / 180;
+const rtd = (rad: number) => (rad * 180) / Math.PI;
+
+function grid<T>(fill: T): T[][] {
+  return Array.from({ length: MAX_DEGREE + 1 }, () => new Array<T>(MAX_DEGREE + 1).fill(fill));
+}
+
+// Factors that turn Gauss-normalized Legendre functions into Schmidt semi-normalized ones.
+const SCHMIDT = (() => {
+  const factors = grid(0);
+  factors[0][0] = 1;
+  for (let n = 1; n <= MAX_DEGREE; n += 1) {
+    factors[n][0] = (factors[n - 1][0] * (2 * n - 1)) / n;
+    for (let m = 1; m <= n; m += 1) {
+      factors[n][m] = factors[n][m - 1] * Math.sqrt(((n - m + 1) * (m === 1 ? 2 : 1)) / (n + m));
+    }
+  }
+  return factors;
+})();
+
+function decimalYear(date: Date): number {
+  const year = date.getUTCFullYear();
+  const start = Date.UTC(year, 0, 1);
+  const end = Date.UTC(year + 1, 0, 1);
+  return year + (date.getTime() - start) / (end - start);
+}
+
+/**
+ * Magnetic declination at sea level in degrees, positive when magnetic north lies east of true north.
+ * Add it to a magnetic heading to get a true heading.
+ */
+export function getMagneticDeclination(lat: number, lon: number, date: Date = new Date()): number {
+  const years = decimalYear(date) - MODEL_EPOCH;
+
+  // Geodetic latitude on the WGS84 ellipsoid to geocentric spherical coordinates.
+  const phi = dtr(Math.max(-89.999, Math.min(89.999, lat)));
+  const primeVertical = WGS84_A_KM / Math.sqrt(1 - WGS84_E2 * Math.sin(phi) ** 2);
+  const p = primeVertical * Math.cos(phi);
+  const z = primeVertical * (1 - WGS84_E2) * Math.sin(phi);
+  const radius = Math.sqrt(p * p + z * z);
+  const phiPrime = Math.asin(z / radius);
+
+  const cosTheta = Math.sin(phiPrime);
+  const sinTheta = Math.cos(phiPrime);
+  const lambda = dtr(lon);
+
+  const legendre = grid(0);
+  const legendreDerivative = grid(0);
+  legendre[0][0] = 1;
+  for (let n = 1; n <= MAX_DEGREE; n += 1) {
+    for (let m = 0; m <= n; m += 1) {
+      if (m === n) {
+        legendre[n][m] = sinTheta * legendre[n - 1][m - 1];
+        legendreDerivative[n][m] = sinTheta * legendreDerivative[n - 1][m - 1] + cosTheta * legendre[n - 1][m - 1];
+      } else {
+        const k = n > 1 ? ((n - 1) ** 2 - m ** 2) / ((2 * n - 1) * (2 * n - 3)) : 0;
+        const twoBack = n > 1 ? legendre[n - 2][m] : 0;
+        const twoBackDerivative = n > 1 ? legendreDerivative[n - 2][m] : 0;
+        legendre[n][m] = cosTheta * legendre[n - 1][m] - k * twoBack;
+        legendreDerivative[n][m] =
+          cosTheta * legendreDerivative[n - 1][m] - sinTheta * legendre[n - 1][m] - k * twoBackDerivative;
+      }
+    }
+  }
+
+  let north = 0;
+  let east = 0;
+  let down = 0;
+  for (const [n, m, g0, h0, gDot, hDot] of COEFFICIENTS) {
+    const scale = (REFERENCE_RADIUS_KM / radius) ** (n + 2) * SCHMIDT[n][m];
+    const g = g0 + gDot * years;
+    const h = h0 + hDot * years;
+    const cosM = Math.cos(m * lambda);
+    const sinM = Math.sin(m * lambda);
+
+    north += scale * (g * cosM + h * sinM) * legendreDerivative[n][m];
+    east += (scale * m * (g * sinM - h * cosM) * legendre[n][m]) / sinTheta;
+    down -= scale * (n + 1) * (g * cosM + h * sinM) * legendre[n][m];
+  }
+
+  // Tilt the north component back from the geocentric to the geodetic frame.
+  const tilt = phiPrime - phi;
+  const geodeticNorth = north * Math.cos(tilt) - down * Math.sin(tilt);
+  return rtd(Math.atan2(east, geodeticNorth));
+}
@@ -67,6 +67,10 @@ export function summarizeMethodParams(params: Record<string, string | number>):
   return chunks.length > 0 ? chunks.join(", ") : "No params available";
 }
 
+export function getFallbackMethodById(methodId: number): MethodItem | null {
+  return FALLBACK_METHODS.find((item) => item.id === methodId) ?? null;
+}
+
 export async function fetchMethods(): Promise<MethodItem[]> {
   try {
     const response = await fetch(`${BASE_URL}/methods`);
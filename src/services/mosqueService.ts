@@ -1,6 +1,7 @@
 import { buildMosquesCacheKey, getCachedJson, saveCachedJson } from "@/services/storage";
 import { fetchJson } from "@/services/http";
-import { Mosque } from "@/types/mosque";
+import { parseOpeningHours } from "@/services/openingHours";
+import { Mosque, MosqueAccess, TravelMode } from "@/types/mosque";
 import { haversineDistanceKm } from "@/utils/geo";
 
 const OVERPASS_URL = "https://overpass-api.de/api/interpreter";
@@ -10,6 +11,15 @@ const OVERPASS_RETRY_DELAYS_MS = [1000, 2000];
 const UNKNOWN_MOSQUE_NAME = "Moskee (onbekend)";
 const inFlightMosqueRequests = new Map<string, Promise<GetMosquesResult>>();
 
+export const TRAVEL_SPEEDS_KMH: Record<TravelMode, number> = {
+  walk: 5,
+  drive: 30
+};
+
+export function estimateTravelMinutes(distanceKm: number, travelMode: TravelMode): number {
+  return Math.max(1, Math.ceil((distanceKm / TRAVEL_SPEEDS_KMH[travelMode]) * 60));
+}
+
 type GetMosquesParams = {
   lat: number;
   lon: number;
@@ -46,6 +56,50 @@ function normalizeMosqueName(tags?: Record<string, string>): string {
   return rawName.length > 0 ? rawName : UNKNOWN_MOSQUE_NAME;
 }
 
+function readTag(tags: Record<string, string> | undefined, ...keys: string[]): string | null {
+  for (const key of keys) {
+    const value = tags?.[key]?.trim();
+    if (value) {
+      return value;
+    }
+  }
+  return null;
+}
+
+// Free-text and unusual values ("only", "unknown", opening times) say nothing reliable either way.
+function readYesNo(value: string | null): boolean | null {
+  if (value === "yes" || value === "designated" || value === "separate") {
+    return true;
+  }
+  return value === "no" ? false : null;
+}
+
+function buildAddress(tags?: Record<string, string>): string | null {
+  const full = readTag(tags, "addr:full");
+  if (full) {
+    return full;
+  }
+  const street = [readTag(tags, "addr:street"), readTag(tags, "addr:housenumber")].filter(Boolean).join(" ");
+  const city = [readTag(tags, "addr:postcode"), readTag(tags, "addr:city")].filter(Boolean).join(" ");
+  return [street, city].filter(Boolean).join(", ") || null;
+}
+
+function readWheelchair(tags?: Record<string, string>): MosqueAccess | null {
+  const value = readTag(tags, "wheelchair");
+  if (value === "yes" || value === "designated") {
+    return "yes";
+  }
+  if (value === "limited" || value === "no") {
+    return value;
+  }
+  return null;
+}
+
+// OSM has no single tag for a women's prayer area; these are the ones mappers use on mosques.
+function readWomenArea(tags?: Record<string, string>): boolean | null {
+  return readYesNo(readTag(tags, "women", "female"));
+}
+
 function getElementCoordinates(element: OverpassElement): { lat: number; lon: number } | null {
   if (typeof element.lat === "number" && typeof element.lon === "number") {
     return { lat: element.lat, lon: element.lon };
@@ -74,13 +128,22 @@ function mapOverpassElementsToMosques(elements: OverpassElement[], userLat: numb
     seenIds.add(id);
 
     const distanceKm = haversineDistanceKm(userLat, userLon, coords.lat, coords.lon);
+    const openingHours = readTag(element.tags, "opening_hours");
     mosques.push({
       id,
       name: normalizeMosqueName(element.tags),
       lat: coords.lat,
       lon: coords.lon,
       distanceKm: Number(distanceKm.toFixed(3)),
-      lastUpdated: now
+      lastUpdated: now,
+      address: buildAddress(element.tags),
+      denomination: readTag(element.tags, "denomination"),
+      website: readTag(element.tags, "website", "contact:website", "url"),
+      phone: readTag(element.tags, "phone", "contact:phone"),
+      wheelchair: readWheelchair(element.tags),
+      womenArea: readWomenArea(element.tags),
+      parking: readYesNo(readTag(element.tags, "parking")),
+      openingHours: openingHours ? parseOpeningHours(openingHours) : null
     });
   }
 
@@ -0,0 +1,109 @@
+import * as Notifications from "expo-notifications";
+import * as TaskManager from "expo-task-manager";
+import { AppLanguage } from "@/i18n/translations";
+import { translate } from "@/i18n/I18nProvider";
+import {
+  cancelPrayerFollowUps,
+  PRAYER_DUE_CATEGORY,
+  PRAYER_REMINDER_CATEGORY,
+  SNOOZE_MINUTES,
+  snoozePrayerNotification
+} from "@/services/notifications";
+import { recordNotificationResponse } from "@/services/notificationAudit";
+import { isTrackedPrayer, markPrayer, transferMissedToQaza } from "@/services/prayerTracker";
+import { PrayerName } from "@/types/prayer";
+
+export const NOTIFICATION_ACTION_TASK = "notification-action";
+
+const SNOOZE_ACTION = "snooze";
+const PRAYED_ACTION = "prayed";
+const QAZA_ACTION = "qaza";
+
+// Responses can reach both the listener and the background task; this keeps one run per response.
+const handledResponses = new Set<string>();
+
+/** Registers the action buttons; call again when the app language changes so the titles follow. */
+export async function registerNotificationActionCategories(language: AppLanguage): Promise<void> {
+  const snooze: Notifications.NotificationAction = {
+    identifier: SNOOZE_ACTION,
+    buttonTitle: translate(language, "notifications.action_snooze", { mins: SNOOZE_MINUTES }),
+    options: { opensAppToForeground: false }
+  };
+
+  await Notifications.setNotificationCategoryAsync(PRAYER_REMINDER_CATEGORY, [snooze]);
+  await Notifications.setNotificationCategoryAsync(PRAYER_DUE_CATEGORY, [
+    snooze,
+    {
+      identifier: PRAYED_ACTION,
+      buttonTitle: translate(language, "notifications.action_prayed"),
+      options: { opensAppToForeground: false }
+    },
+    {
+      identifier: QAZA_ACTION,
+      buttonTitle: translate(language, "notifications.action_qaza"),
+      options: { opensAppToForeground: false, isDestructive: true }
+    }
+  ]);
+}
+
+/**
+ * Runs a notification action button without bringing the app to the foreground. Returns false for
+ * plain taps, which keep their usual handling (adhan playback, deep links).
+ */
+export async function handleNotificationAction(response: Notifications.NotificationResponse): Promise<boolean> {
+  const { actionIdentifier, notification } = response;
+  if (![SNOOZE_ACTION, PRAYED_ACTION, QAZA_ACTION].includes(actionIdentifier)) {
+    return false;
+  }
+
+  const request = notification.request;
+  const responseKey = `${request.identifier}:${actionIdentifier}`;
+  if (handledResponses.has(responseKey)) {
+    return true;
+  }
+  handledResponses.add(responseKey);
+  await recordNotificationResponse(response).catch(() => {
+    // The audit log is best effort.
+  });
+
+  const data = (request.content.data ?? {}) as { prayer?: PrayerName; dateKey?: string };
+  if (actionIdentifier === SNOOZE_ACTION) {
+    await snoozePrayerNotification(request);
+  } else if (data.prayer && data.dateKey) {
+    await cancelPrayerFollowUps(data.prayer, data.dateKey);
+    if (isTrackedPrayer(data.prayer)) {
+      if (actionIdentifier === QAZA_ACTION) {
+        await transferMissedToQaza(data.dateKey, data.prayer);
+      } else {
+        // Answering "prayed" later still means it was prayed around the alert, not at the tap.
+        await markPrayer(data.dateKey, data.prayer, "prayed", Math.min(notification.date, Date.now()));
+      }
+    }
+  }
+
+  await Notifications.dismissNotificationAsync(request.identifier).catch(() => {
+    // Already dismissed by the system.
+  });
+  return true;
+}
+
+// Android delivers background action presses to this task, also when the app was killed.
+TaskManager.defineTask<Notifications.NotificationTaskPayload>(NOTIFICATION_ACTION_TASK, async ({ data, error }) => {
+  if (error || !data || !("actionIdentifier" in data)) {
+    return;
+  }
+  try {
+    await handleNotificationAction(data);
+  } catch (taskError) {
+    if (__DEV__) {
+      console.log(`[notifications] action task failed error=${String(taskError)}`);
+    }
+  }
+});
+
+export async function registerNotificationActionTask(): Promise<void> {
+  if (await TaskManager.isTaskRegisteredAsync(NOTIFICATION_ACTION_TASK)) {
+    return;
+  }
+  await Notifications.registerTaskAsync(NOTIFICATION_ACTION_TASK);
+}
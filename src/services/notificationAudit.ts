@@ -0,0 +1,210 @@
+import * as Notifications from "expo-notifications";
+import { File, Paths } from "expo-file-system";
+import * as Sharing from "expo-sharing";
+import {
+  appendDeliveryAudit,
+  AuditPlannedItem,
+  DeliveryAuditEntry,
+  getNotificationAudit,
+  NotificationAudit
+} from "@/services/storage";
+
+export interface DeliveryComparison {
+  identifier: string;
+  kind: string;
+  dedupeKey: string | null;
+  scheduledAt: number | null;
+  // First time the app saw the notification: received in the foreground, or found in the tray later.
+  deliveredAt: number;
+  // The tray reports the OS delivery time; a foreground receive is exact.
+  source: "received" | "presented";
+  delayMs: number | null;
+  tappedAt: number | null;
+}
+
+type AuditData = {
+  prayer?: string;
+  intent?: string;
+  ramadan?: string;
+  extra?: string;
+  jumuah?: string;
+  dedupeKey?: string;
+  triggerAt?: number;
+};
+
+/** Short label for what a notification was for, e.g. "Asr:at_time" or "ramadan:iftar". */
+export function describeNotificationKind(data: Record<string, unknown> | null | undefined): string {
+  const value = (data ?? {}) as AuditData;
+  if (value.prayer && value.intent) {
+    return `${value.prayer}:${value.intent}`;
+  }
+  if (value.ramadan) {
+    return `ramadan:${value.ramadan}`;
+  }
+  if (value.extra) {
+    return `extra:${value.extra}`;
+  }
+  if (value.jumuah) {
+    return `jumuah:${value.jumuah}`;
+  }
+  return "other";
+}
+
+export function toAuditPlannedItem(entry: {
+  dedupeKey: string;
+  triggerAt: Date;
+  content: Notifications.NotificationContentInput;
+}): AuditPlannedItem {
+  const sound = entry.content.sound;
+  return {
+    dedupeKey: entry.dedupeKey,
+    triggerAt: entry.triggerAt.getTime(),
+    kind: describeNotificationKind(entry.content.data),
+    sound: typeof sound === "string" ? sound : sound ? "default" : null
+  };
+}
+
+function toDeliveryEntry(
+  notification: Notifications.Notification,
+  event: DeliveryAuditEntry["event"],
+  at: number,
+  action?: string
+): DeliveryAuditEntry {
+  const data = (notification.request.content.data ?? {}) as AuditData;
+  return {
+    identifier: notification.request.identifier,
+    event,
+    at,
+    dedupeKey: typeof data.dedupeKey === "string" ? data.dedupeKey : null,
+    triggerAt: typeof data.triggerAt === "number" ? data.triggerAt : null,
+    title: notification.request.content.title,
+    ...(action ? { action } : {})
+  };
+}
+
+export async function recordNotificationReceived(notification: Notifications.Notification): Promise<void> {
+  await appendDeliveryAudit([toDeliveryEntry(notification, "received", Date.now())]);
+}
+
+// One tap can be reported by the response listener and by the last-response hook; it is recorded once.
+const recordedResponseKeys = new Set<string>();
+
+export async function recordNotificationResponse(response: Notifications.NotificationResponse): Promise<void> {
+  const action =
+    response.actionIdentifier === Notifications.DEFAULT_ACTION_IDENTIFIER ? undefined : response.actionIdentifier;
+  const key = `${response.notification.request.identifier}:${action ?? ""}`;
+  if (recordedResponseKeys.has(key)) {
+    return;
+  }
+  recordedResponseKeys.add(key);
+  await appendDeliveryAudit([toDeliveryEntry(response.notification, "tapped", Date.now(), action)]);
+}
+
+/**
+ * Alerts that arrive while the app is closed never reach a listener. The ones still in the
+ * notification tray carry their delivery time, so they are recorded whenever the app looks.
+ */
+export async function syncPresentedNotifications(): Promise<void> {
+  const presented = await Notifications.getPresentedNotificationsAsync();
+  const audit = await getNotificationAudit();
+  const received = new Set(
+    audit.deliveries.filter((item) => item.event === "received").map((item) => item.identifier)
+  );
+  await appendDeliveryAudit(
+    presented
+      .filter((notification) => !received.has(notification.request.identifier))
+      .map((notification) => toDeliveryEntry(notification, "presented", notification.date))
+  );
+}
+
+/** Pairs every delivered notification with the time it was scheduled for, newest first. */
+export function compareDeliveries(audit: NotificationAudit): DeliveryComparison[] {
+  const kinds = new Map<string, string>();
+  for (const replan of audit.replans) {
+    for (const item of replan.scheduled) {
+      kinds.set(item.dedupeKey, item.kind);
+    }
+  }
+
+  const tapped = new Map<string, number>();
+  for (const item of audit.deliveries) {
+    if (item.event === "tapped" && !tapped.has(item.identifier)) {
+      tapped.set(item.identifier, item.at);
+    }
+  }
+
+  const rows = new Map<string, DeliveryComparison>();
+  for (const item of audit.deliveries) {
+    if (item.event === "tapped" || rows.has(item.identifier)) {
+      continue;
+    }
+    rows.set(item.identifier, {
+      identifier: item.identifier,
+      kind: (item.dedupeKey && kinds.get(item.dedupeKey)) || item.title || "other",
+      dedupeKey: item.dedupeKey,
+      scheduledAt: item.triggerAt,
+      deliveredAt: item.at,
+      source: item.event,
+      delayMs: item.triggerAt !== null ? item.at - item.triggerAt : null,
+      tappedAt: tapped.get(item.identifier) ?? null
+    });
+  }
+  return [...rows.values()].sort((a, b) => b.deliveredAt - a.deliveredAt);
+}
+
+function formatStamp(value: number | null): string {
+  return value === null ? "-" : new Date(value).toISOString();
+}
+
+function formatCoordinate(value: number | null): string {
+  return value === null ? "?" : value.toFixed(3);
+}
+
+export function buildNotificationAuditText(audit: NotificationAudit, header: string[]): string {
+  const lines = [...header, `Exported: ${new Date().toISOString()}`, ""];
+
+  lines.push("== Deliveries (scheduled -> delivered) ==");
+  for (const row of compareDeliveries(audit)) {
+    const delay = row.delayMs === null ? "?" : `${Math.round(row.delayMs / 1000)}s`;
+    lines.push(
+      `${formatStamp(row.scheduledAt)} -> ${formatStamp(row.deliveredAt)} (${row.source}, delay ${delay}) ` +
+        `${row.kind} key=${row.dedupeKey ?? "-"}${row.tappedAt ? ` tapped=${formatStamp(row.tappedAt)}` : ""}`
+    );
+  }
+  lines.push("");
+
+  for (const replan of [...audit.replans].reverse()) {
+    const location = `${replan.locationMode}:${formatCoordinate(replan.lat)},${formatCoordinate(replan.lon)}`;
+    lines.push(
+      `== Replan ${formatStamp(replan.at)} trigger=${replan.trigger} provider=${replan.provider} ` +
+        `method=${replan.methodId} location=${location} ` +
+        `scheduled=${replan.scheduled.length}/${replan.budget} skipped=${replan.skipped.length} ==`
+    );
+    if (replan.error) {
+      lines.push(`error: ${replan.error}`);
+    }
+    for (const item of replan.scheduled) {
+      lines.push(`+ ${formatStamp(item.triggerAt)} ${item.kind} sound=${item.sound ?? "none"} key=${item.dedupeKey}`);
+    }
+    for (const item of replan.skipped) {
+      lines.push(`- ${formatStamp(item.triggerAt)} ${item.reason} key=${item.dedupeKey}`);
+    }
+    lines.push("");
+  }
+
+  return lines.join("\n");
+}
+
+export async function shareNotificationAudit(text: string, dialogTitle: string): Promise<void> {
+  if (!(await Sharing.isAvailableAsync())) {
+    throw new Error("Sharing is not available on this device.");
+  }
+  const file = new File(Paths.cache, "notification-log.txt");
+  file.create({ overwrite: true });
+  file.write(text);
+  await Sharing.shareAsync(file.uri, {
+    mimeType: "text/plain",
+    UTI: "public.plain-text",
+    dialogTitle
+  });
+}
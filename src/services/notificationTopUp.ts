@@ -0,0 +1,69 @@
+import * as BackgroundTask from "expo-background-task";
+import * as TaskManager from "expo-task-manager";
+import { resolveLocationPreferCache } from "@/services/location";
+import { NOTIFICATION_HORIZON_DAYS, replanAll } from "@/services/notifications";
+import { getSettings } from "@/services/storage";
+import { getRangeTimings } from "@/services/timingsCache";
+
+export const NOTIFICATION_TOP_UP_TASK = "notification-top-up";
+
+// The OS decides the real cadence; this is only the lower bound between runs.
+const TOP_UP_MINIMUM_INTERVAL_MINUTES = 6 * 60;
+
+/**
+ * Fills the timings cache for the notification horizon and replans, so alerts keep coming when the
+ * app is not opened for days. Uses the last known location because background GPS is unavailable.
+ */
+export async function topUpNotifications(): Promise<void> {
+  const settings = await getSettings();
+  const location = await resolveLocationPreferCache(settings);
+  await getRangeTimings({
+    start: new Date(),
+    days: NOTIFICATION_HORIZON_DAYS,
+    location: { lat: location.lat, lon: location.lon },
+    locationLabel: location.label,
+    settings,
+    fetchMissing: true
+  });
+  await replanAll({
+    lat: location.lat,
+    lon: location.lon,
+    methodId: settings.methodId,
+    settings,
+    trigger: "background"
+  });
+}
+
+// Tasks must be defined at module scope so the OS can run them before any screen mounts.
+TaskManager.defineTask(NOTIFICATION_TOP_UP_TASK, async () => {
+  try {
+    await topUpNotifications();
+    return BackgroundTask.BackgroundTaskResult.Success;
+  } catch (error) {
+    if (__DEV__) {
+      console.log(`[notifications] background top-up failed error=${String(error)}`);
+    }
+    return BackgroundTask.BackgroundTaskResult.Failed;
+  }
+});
+
+export async function registerNotificationTopUpTask(): Promise<void> {
+  const status = await BackgroundTask.getStatusAsync();
+  if (status !== BackgroundTask.BackgroundTaskStatus.Available) {
+    return;
+  }
+  if (await TaskManager.isTaskRegisteredAsync(NOTIFICATION_TOP_UP_TASK)) {
+    return;
+  }
+  try {
+    await BackgroundTask.registerTaskAsync(NOTIFICATION_TOP_UP_TASK, {
+      minimumInterval: TOP_UP_MINIMUM_INTERVAL_MINUTES
+    });
+  } catch (error) {
+    // iOS refuses the task when the build lacks the "processing" background mode or the
+    // BGTaskScheduler identifier; alerts are then only topped up when the app is opened.
+    if (__DEV__) {
+      console.log(`[notifications] background top-up registration failed error=${String(error)}`);
+    }
+  }
+}
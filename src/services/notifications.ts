@@ -1,17 +1,46 @@
 import * as Notifications from "expo-notifications";
+import { Platform } from "react-native";
 import { AppLanguage } from "@/i18n/translations";
 import { getPreferredLanguage, translate, translatePrayerName } from "@/i18n/I18nProvider";
+import { getExtraTimeDate, resolveExtraTimes } from "@/services/extraTimes";
+import { appliesMosqueIqamah, getIqamahDate } from "@/services/iqamah";
+import { canReachJumuahMosque, getJumuahPlan, isFriday, KAHF_SURAH_ID } from "@/services/jumuah";
 import { getLocationName } from "@/services/location";
-import { getTodayTomorrowTimings } from "@/services/timingsCache";
+import { toAuditPlannedItem } from "@/services/notificationAudit";
+import { getPreferredWindowEndName, isTrackedPrayer } from "@/services/prayerTracker";
+import { getQuietContext, getQuietReason, QuietContext, QuietReason } from "@/services/quietRules";
+import { getImsakTime, isRamadanActive, RamadanPhase } from "@/services/ramadan";
+import {
+  appendReplanAudit,
+  AuditSkippedItem,
+  getDefaultMosque,
+  getMosquesSettings,
+  getPrayerLog,
+  PrayerLog,
+  ReplanAuditEntry,
+  ReplanTrigger
+} from "@/services/storage";
+import { getToneNotificationSound } from "@/services/toneLibrary";
+import { getRangeTimings, getTodayTomorrowTimings } from "@/services/timingsCache";
 import { getDateKey, getTomorrow, parsePrayerTimeForDate } from "@/utils/time";
-import { PRAYER_NAMES, PrayerNotificationSetting, Settings, Timings } from "@/types/prayer";
+import {
+  EXTRA_TIME_NAMES,
+  ExtraTimeName,
+  PRAYER_NAMES,
+  PrayerName,
+  PrayerNotificationSetting,
+  Settings,
+  Timings
+} from "@/types/prayer";
+import { DefaultMosque, TravelMode } from "@/types/mosque";
 
 Notifications.setNotificationHandler({
   handleNotification: async (notification) => {
-    const data = (notification.request.content.data ?? {}) as { playSound?: boolean };
+    const data = (notification.request.content.data ?? {}) as PrayerNotificationData;
     return {
-      // Sound is a user preference only; silent prayer alerts must still be shown.
-      shouldPlaySound: data.playSound !== false,
+      // Sound is a user preference only; silent prayer alerts must still be shown. The short clip is
+      // skipped when the app plays the full adhan for this alert instead.
+      shouldPlaySound: data.playSound !== false && !shouldPlayFullAdhan(data),
       shouldSetBadge: false,
       shouldShowBanner: true,
       shouldShowList: true
@@ -37,14 +66,28 @@ let replanQueue: Promise<void> = Promise.resolve();
 let lastAppliedSignature = "";
 let lastAppliedAt = 0;
 
-type ScheduledIntent = "offset" | "at_time";
-const ADHAN_SOUND_FILE = "adhan_short.wav";
+type ScheduledIntent = "offset" | "at_time" | "snooze" | "end_warning";
+
+// Alerts at prayer time offer snooze, "I prayed" and "missed"; reminders before a prayer only snooze.
+export const PRAYER_DUE_CATEGORY = "prayer-due";
+export const PRAYER_REMINDER_CATEGORY = "prayer-reminder";
+export const SNOOZE_MINUTES = 10;
+
+// iOS only keeps the 64 soonest pending local notifications; Android alarms are capped per app too.
+export const NOTIFICATION_BUDGET = Platform.OS === "ios" ? 64 : 120;
+export const NOTIFICATION_HORIZON_DAYS = 14;
 
 export interface PrayerNotificationScheduleSummary {
   total: number;
   atTime: number;
   offset: number;
+  endWarning: number;
   byPrayer: Record<(typeof PRAYER_NAMES)[number], number>;
+  // All pending alerts from this app (prayers, Ramadan, extra times, Jumu'ah) against the OS budget.
+  pending: number;
+  budget: number;
+  // Trigger time of the last pending alert, i.e. how far ahead alerts are covered.
+  coveredUntil: string | null;
 }
 
 export async function getPrayerNotificationScheduleSummary(): Promise<PrayerNotificationScheduleSummary> {
@@ -55,26 +98,37 @@ export async function getPrayerNotificationScheduleSummary(): Promise<PrayerNoti
   const scheduled = await Notifications.getAllScheduledNotificationsAsync();
   let atTime = 0;
   let offset = 0;
+  let endWarning = 0;
+  let coveredUntil = 0;
 
   for (const request of scheduled) {
-    const data = (request.content.data ?? {}) as { prayer?: string; intent?: ScheduledIntent };
-    if (!PRAYER_NAMES.includes(data.prayer as (typeof PRAYER_NAMES)[number])) {
+    const data = (request.content.data ?? {}) as { prayer?: string; intent?: ScheduledIntent; triggerAt?: number };
+    if (typeof data.triggerAt === "number") {
+      coveredUntil = Math.max(coveredUntil, data.triggerAt);
+    }
+    if (!PRAYER_NAMES.includes(data.prayer as (typeof PRAYER_NAMES)[number]) || data.intent === "snooze") {
       continue;
     }
 
     byPrayer[data.prayer as (typeof PRAYER_NAMES)[number]] += 1;
     if (data.intent === "offset") {
       offset += 1;
+    } else if (data.intent === "end_warning") {
+      endWarning += 1;
     } else {
       atTime += 1;
     }
   }
 
   return {
-    total: atTime + offset,
+    total: atTime + offset + endWarning,
     atTime,
     offset,
-    byPrayer
+    endWarning,
+    byPrayer,
+    pending: scheduled.length,
+    budget: NOTIFICATION_BUDGET,
+    coveredUntil: coveredUntil > 0 ? new Date(coveredUntil).toISOString() : null
   };
 }
 
@@ -98,7 +152,12 @@ export function resolveNotificationSound(
   if (!playSound) {
     return false;
   }
-  return tone === "Adhan" ? ADHAN_SOUND_FILE : "default";
+  return getToneNotificationSound(tone) ?? "default";
+}
+
+interface JumuahContext {
+  mosque: DefaultMosque | null;
+  travelMode: TravelMode;
 }
 
 function createReplanSignature(params: {
@@ -106,6 +165,8 @@ function createReplanSignature(params: {
   lon: number;
   methodId: number;
   settings: Settings;
+  jumuahContext: JumuahContext;
+  quietContext: QuietContext;
 }): string {
   const roundedLat = Number(params.lat.toFixed(4));
   const roundedLon = Number(params.lon.toFixed(4));
@@ -114,6 +175,22 @@ function createReplanSignature(params: {
     lon: roundedLon,
     provider: params.settings.timingsProvider,
     methodId: params.methodId,
+    asrSchool: params.settings.asrSchool,
+    tuneOffsets: params.settings.tuneOffsets,
+    highLatitudeRule: params.settings.highLatitudeRule,
+    ramadan: params.settings.ramadan,
+    hijriAdjustmentDays: params.settings.hijriAdjustmentDays,
+    extraTimes: params.settings.extraTimes,
+    jumuah: params.settings.jumuah,
+    defaultMosqueId: params.jumuahContext.mosque?.id ?? null,
+    iqamah:
+      params.settings.iqamah.notifyAtIqamah && params.jumuahContext.mosque
+        ? params.settings.iqamah.schedules[params.jumuahContext.mosque.id] ?? null
+        : null,
+    travelMode: params.jumuahContext.travelMode,
+    quiet: params.settings.quiet,
+    quietMosqueId: params.quietContext.mosque?.id ?? null,
+    quietPresenceUntil: params.quietContext.presenceUntil,
     locationMode: params.settings.locationMode,
     manualLocation: params.settings.manualLocation
       ? {
@@ -122,14 +199,18 @@ function createReplanSignature(params: {
           lon: Number(params.settings.manualLocation.lon.toFixed(4))
         }
       : null,
+    // Trigger dates are built in the device zone, so crossing into another zone needs a new plan.
+    timeZone: Intl.DateTimeFormat().resolvedOptions().timeZone,
     prayers: PRAYER_NAMES.map((prayer) => {
       const setting = params.settings.prayerNotifications[prayer];
       return {
         prayer,
         enabled: setting.enabled,
         minutesBefore: setting.minutesBefore,
+        endWarningMinutes: setting.endWarningMinutes,
         playSound: setting.playSound,
         tone: setting.tone,
+        fullAdhan: setting.fullAdhan,
         volume: setting.volume,
         vibration: setting.vibration
       };
@@ -137,7 +218,65 @@ function createReplanSignature(params: {
   });
 }
 
-async function scheduleOne(params: {
+interface PlannedNotification {
+  dedupeKey: string;
+  triggerAt: Date;
+  content: Notifications.NotificationContentInput;
+}
+
+/**
+ * Notifications collected for a replan before anything is handed to the OS. Keeping them in one
+ * list lets the budget go to the nearest alerts first, whatever kind they are.
+ */
+interface NotificationPlan {
+  keys: Set<string>;
+  entries: PlannedNotification[];
+  // Kept for the audit log, so a missing alert can be traced back to why it was left out.
+  skipped: AuditSkippedItem[];
+}
+
+function createNotificationPlan(keys: Set<string> = new Set()): NotificationPlan {
+  return { keys, entries: [], skipped: [] };
+}
+
+function addToPlan(plan: NotificationPlan, entry: PlannedNotification): boolean {
+  if (entry.triggerAt.getTime() <= Date.now() || plan.keys.has(entry.dedupeKey)) {
+    plan.skipped.push({
+      dedupeKey: entry.dedupeKey,
+      triggerAt: entry.triggerAt.getTime(),
+      reason: plan.keys.has(entry.dedupeKey) ? "duplicate" : "past"
+    });
+    return false;
+  }
+  plan.keys.add(entry.dedupeKey);
+  plan.entries.push({
+    ...entry,
+    content: {
+      ...entry.content,
+      data: { ...entry.content.data, triggerAt: entry.triggerAt.getTime() }
+    }
+  });
+  return true;
+}
+
+/** Hands the nearest `budget` entries to the OS and returns the ones that were scheduled. */
+async function schedulePlan(plan: NotificationPlan, budget: number): Promise<PlannedNotification[]> {
+  const selected = [...plan.entries]
+    .sort((a, b) => a.triggerAt.getTime() - b.triggerAt.getTime())
+    .slice(0, Math.max(0, budget));
+  for (const entry of selected) {
+    await Notifications.scheduleNotificationAsync({
+      content: entry.content,
+      trigger: {
+        type: Notifications.SchedulableTriggerInputTypes.DATE,
+        date: entry.triggerAt
+      }
+    });
+  }
+  return selected;
+}
+
+function planOne(params: {
   triggerAt: Date;
   prayer: (typeof PRAYER_NAMES)[number];
   dateKey: string;
@@ -145,16 +284,19 @@ async function scheduleOne(params: {
   minutesBefore: number;
   playSound: boolean;
   tone: PrayerNotificationSetting["tone"];
+  fullAdhan: boolean;
   vibration: boolean;
+  // Set when a quiet rule silenced the alert; `playSound` is already false then.
+  quiet?: QuietReason | null;
+  // For "end_warning": when the prayer's preferred time runs out.
+  windowEnd?: { time: string; midnight: boolean };
+  // Set when the alert aims at the congregation at this mosque instead of the adhan.
+  iqamahMosque?: string | null;
   language: AppLanguage;
   locationLabel?: string | null;
-  dedupeSet: Set<string>;
-}): Promise<void> {
-  const now = Date.now();
-  if (params.triggerAt.getTime() <= now) {
-    return;
-  }
-
+  prayerLabel?: string;
+  plan: NotificationPlan;
+}): boolean {
   const dedupeKey = [
     params.dateKey,
     params.prayer,
@@ -163,34 +305,50 @@ async function scheduleOne(params: {
     params.triggerAt.getTime()
   ].join(":");
 
-  if (params.dedupeSet.has(dedupeKey)) {
-    return;
-  }
-  params.dedupeSet.add(dedupeKey);
-
-  const prayerLabel = translatePrayerName(params.language, params.prayer);
+  const prayerLabel = params.prayerLabel ?? translatePrayerName(params.language, params.prayer);
+  const endWarningKey = params.windowEnd?.midnight
+    ? "notifications.body_end_warning_midnight"
+    : "notifications.body_end_warning";
+  const iqamahKey = params.intent === "offset" ? "notifications.body_iqamah_offset" : "notifications.body_iqamah";
   const body =
-    params.intent === "offset"
-      ? params.locationLabel
-        ? translate(params.language, "notifications.body_offset_with_location", {
+    params.intent === "end_warning"
+      ? translate(params.language, endWarningKey, {
+          prayer: prayerLabel,
+          mins: params.minutesBefore,
+          time: params.windowEnd?.time ?? ""
+        })
+      : params.iqamahMosque
+        ? translate(params.language, iqamahKey, {
             prayer: prayerLabel,
             mins: params.minutesBefore,
-            location: params.locationLabel
-          })
-        : translate(params.language, "notifications.body_offset", {
-            prayer: prayerLabel,
-            mins: params.minutesBefore
-          })
-      : params.locationLabel
-        ? translate(params.language, "notifications.body_at_time_with_location", {
-            prayer: prayerLabel,
-            location: params.locationLabel
+            mosque: params.iqamahMosque
           })
-        : translate(params.language, "notifications.body_at_time", { prayer: prayerLabel });
-
-  await Notifications.scheduleNotificationAsync({
+        : params.intent === "offset"
+          ? params.locationLabel
+            ? translate(params.language, "notifications.body_offset_with_location", {
+                prayer: prayerLabel,
+                mins: params.minutesBefore,
+                location: params.locationLabel
+              })
+            : translate(params.language, "notifications.body_offset", {
+                prayer: prayerLabel,
+                mins: params.minutesBefore
+              })
+          : params.locationLabel
+            ? translate(params.language, "notifications.body_at_time_with_location", {
+                prayer: prayerLabel,
+                location: params.locationLabel
+              })
+            : translate(params.language, "notifications.body_at_time", { prayer: prayerLabel });
+
+  return addToPlan(params.plan, {
+    dedupeKey,
+    triggerAt: params.triggerAt,
     content: {
-      title: translate(params.language, "notifications.title"),
+      title: translate(
+        params.language,
+        params.intent === "end_warning" ? "notifications.title_end_warning" : "notifications.title"
+      ),
       body,
       data: {
         prayer: params.prayer,
@@ -199,66 +357,511 @@ async function scheduleOne(params: {
         minutesBefore: params.minutesBefore,
         playSound: params.playSound,
         tone: params.tone,
+        fullAdhan: params.fullAdhan,
         vibration: params.vibration,
+        quiet: params.quiet ?? null,
+        dedupeKey
+      },
+      sound: resolveNotificationSound(params.playSound, params.tone),
+      categoryIdentifier:
+        (params.intent === "at_time" || params.intent === "end_warning") && params.prayer !== "Sunrise"
+          ? PRAYER_DUE_CATEGORY
+          : PRAYER_REMINDER_CATEGORY
+    }
+  });
+}
+
+export interface PrayerNotificationData {
+  prayer?: PrayerName;
+  dateKey?: string;
+  intent?: ScheduledIntent;
+  minutesBefore?: number;
+  playSound?: boolean;
+  tone?: PrayerNotificationSetting["tone"];
+  fullAdhan?: boolean;
+  vibration?: boolean;
+  quiet?: QuietReason | null;
+  triggerAt?: number;
+}
+
+/** The full adhan only follows the alert at the prayer time itself, never reminders or snoozes. */
+export function shouldPlayFullAdhan(data: PrayerNotificationData): boolean {
+  return data.intent === "at_time" && data.fullAdhan === true && data.playSound !== false;
+}
+
+/**
+ * Schedules a one-off follow-up for a prayer alert. The dedupe key follows the prayer alerts (with
+ * the "snooze" intent), so pressing snooze twice on the same alert only schedules one follow-up.
+ */
+export async function snoozePrayerNotification(request: Notifications.NotificationRequest): Promise<boolean> {
+  const data = (request.content.data ?? {}) as PrayerNotificationData;
+  if (!data.prayer || !PRAYER_NAMES.includes(data.prayer) || !data.dateKey) {
+    return false;
+  }
+
+  const base = typeof data.triggerAt === "number" ? Math.max(data.triggerAt, Date.now()) : Date.now();
+  const triggerAt = new Date(Math.ceil(base / 60_000) * 60_000 + SNOOZE_MINUTES * 60 * 1000);
+  const dedupeKey = [data.dateKey, data.prayer, "snooze", SNOOZE_MINUTES, triggerAt.getTime()].join(":");
+  const pending = await Notifications.getAllScheduledNotificationsAsync();
+  const keys = new Set(pending.map((item) => String(item.content.data?.dedupeKey ?? "")));
+
+  const language = await getPreferredLanguage();
+  const plan = createNotificationPlan(keys);
+  const added = addToPlan(plan, {
+    dedupeKey,
+    triggerAt,
+    content: {
+      title: request.content.title ?? translate(language, "notifications.title"),
+      body: translate(language, "notifications.body_snoozed", {
+        prayer: translatePrayerName(language, data.prayer)
+      }),
+      data: {
+        prayer: data.prayer,
+        dateKey: data.dateKey,
+        intent: "snooze",
+        minutesBefore: SNOOZE_MINUTES,
+        playSound: data.playSound !== false,
+        tone: data.tone ?? "Beep",
+        vibration: data.vibration !== false,
         dedupeKey
       },
-      sound: resolveNotificationSound(params.playSound, params.tone)
-    },
-    trigger: {
-      type: Notifications.SchedulableTriggerInputTypes.DATE,
-      date: params.triggerAt
+      sound: resolveNotificationSound(data.playSound !== false, data.tone ?? "Beep"),
+      categoryIdentifier: request.content.categoryIdentifier ?? PRAYER_REMINDER_CATEGORY
+    }
+  });
+  if (added) {
+    await schedulePlan(plan, 1);
+  }
+  return added;
+}
+
+/**
+ * Drops follow-ups that are still pending for a prayer (snoozes and the end-of-time warning), e.g.
+ * once it has been marked as prayed.
+ */
+export async function cancelPrayerFollowUps(prayer: PrayerName, dateKey: string): Promise<void> {
+  const pending = await Notifications.getAllScheduledNotificationsAsync();
+  for (const request of pending) {
+    const data = (request.content.data ?? {}) as PrayerNotificationData;
+    const followUp = data.intent === "snooze" || data.intent === "end_warning";
+    if (followUp && data.prayer === prayer && data.dateKey === dateKey) {
+      await Notifications.cancelScheduledNotificationAsync(request.identifier);
+    }
+  }
+}
+
+/** Snoozed alerts are not derived from settings, so a replan carries them over instead of dropping them. */
+async function planPendingSnoozes(plan: NotificationPlan): Promise<void> {
+  const pending = await Notifications.getAllScheduledNotificationsAsync().catch(() => []);
+  for (const request of pending) {
+    const data = (request.content.data ?? {}) as PrayerNotificationData & { dedupeKey?: string };
+    if (data.intent !== "snooze" || typeof data.triggerAt !== "number" || !data.dedupeKey) {
+      continue;
     }
+    addToPlan(plan, {
+      dedupeKey: data.dedupeKey,
+      triggerAt: new Date(data.triggerAt),
+      content: {
+        title: request.content.title,
+        body: request.content.body,
+        data: request.content.data,
+        // The OS reports custom sounds only as "custom", so the file is resolved from the tone again.
+        sound: resolveNotificationSound(data.playSound !== false, data.tone ?? "Beep"),
+        categoryIdentifier: request.content.categoryIdentifier ?? undefined
+      }
+    });
+  }
+}
+
+/** Plans the suhoor reminder (before imsak) and the iftar alert (at Maghrib) for one day. */
+function planRamadanForDay(params: {
+  date: Date;
+  timings: Timings;
+  settings: Settings;
+  language: AppLanguage;
+  quietContext: QuietContext;
+  plan: NotificationPlan;
+}): void {
+  const ramadan = params.settings.ramadan;
+  if (!isRamadanActive(ramadan, params.date, params.settings.hijriAdjustmentDays)) {
+    return;
+  }
+
+  const entries: Array<{ phase: RamadanPhase; triggerAt: Date; body: string; prayer: PrayerName }> = [];
+  if (ramadan.suhoorReminder) {
+    const imsak = getImsakTime(params.timings, ramadan);
+    const imsakAt = parsePrayerTimeForDate(params.date, imsak);
+    entries.push({
+      phase: "suhoor",
+      triggerAt: new Date(imsakAt.getTime() - ramadan.suhoorMinutesBefore * 60 * 1000),
+      body:
+        ramadan.suhoorMinutesBefore > 0
+          ? translate(params.language, "notifications.body_suhoor", { mins: ramadan.suhoorMinutesBefore, time: imsak })
+          : translate(params.language, "notifications.body_imsak", { time: imsak }),
+      prayer: "Fajr"
+    });
+  }
+  if (ramadan.iftarReminder) {
+    entries.push({
+      phase: "iftar",
+      triggerAt: parsePrayerTimeForDate(params.date, params.timings.times.Maghrib),
+      body: translate(params.language, "notifications.body_iftar", { time: params.timings.times.Maghrib }),
+      prayer: "Maghrib"
+    });
+  }
+
+  for (const entry of entries) {
+    const dedupeKey = [params.timings.dateKey, "ramadan", entry.phase, entry.triggerAt.getTime()].join(":");
+    const sound = params.settings.prayerNotifications[entry.prayer];
+    const quiet = getQuietReason(params.quietContext, entry.prayer, entry.triggerAt);
+    const playSound = sound.playSound && !quiet;
+    addToPlan(params.plan, {
+      dedupeKey,
+      triggerAt: entry.triggerAt,
+      content: {
+        title: translate(params.language, `notifications.title_${entry.phase}`),
+        body: entry.body,
+        data: {
+          ramadan: entry.phase,
+          dateKey: params.timings.dateKey,
+          playSound,
+          tone: sound.tone,
+          vibration: sound.vibration,
+          quiet,
+          dedupeKey
+        },
+        sound: resolveNotificationSound(playSound, sound.tone)
+      }
+    });
+  }
+}
+
+// Extra time alerts borrow sound and vibration from the prayer they sit next to, always as a short beep.
+const EXTRA_TIME_SOUND_PRAYER: Record<ExtraTimeName, PrayerName> = {
+  Imsak: "Fajr",
+  Duha: "Sunrise",
+  Istiwa: "Dhuhr",
+  Midnight: "Isha",
+  LastThird: "Isha"
+};
+
+/** Plans alerts for the optional extra times that have notifications switched on. */
+function planExtraTimesForDay(params: {
+  date: Date;
+  timings: Timings;
+  nextDayTimings: Timings | null;
+  settings: Settings;
+  language: AppLanguage;
+  quietContext: QuietContext;
+  plan: NotificationPlan;
+}): void {
+  const names = EXTRA_TIME_NAMES.filter((name) => params.settings.extraTimes[name].notify);
+  if (names.length === 0) {
+    return;
+  }
+
+  const extraTimes = resolveExtraTimes({
+    timings: params.timings,
+    nextDayTimings: params.nextDayTimings,
+    settings: params.settings
   });
+
+  for (const name of names) {
+    const time = extraTimes[name];
+    const triggerAt = getExtraTimeDate(params.date, params.timings, name, time);
+    const dedupeKey = [params.timings.dateKey, "extra", name, triggerAt.getTime()].join(":");
+    const prayer = EXTRA_TIME_SOUND_PRAYER[name];
+    const sound = params.settings.prayerNotifications[prayer];
+    const quiet = getQuietReason(params.quietContext, prayer, triggerAt);
+    const playSound = sound.playSound && !quiet;
+    addToPlan(params.plan, {
+      dedupeKey,
+      triggerAt,
+      content: {
+        title: translate(params.language, `extra_times.${name}`),
+        body: translate(params.language, `notifications.body_extra_${name}`, { time }),
+        data: {
+          extra: name,
+          dateKey: params.timings.dateKey,
+          playSound,
+          tone: "Beep",
+          vibration: sound.vibration,
+          quiet,
+          dedupeKey
+        },
+        sound: resolveNotificationSound(playSound, "Beep")
+      }
+    });
+  }
 }
 
-export async function schedulePrayerNotificationsForDay(
+function jumuahPrayerLabel(
+  prayer: PrayerName,
   date: Date,
-  timings: Timings,
   settings: Settings,
-  dedupeSet: Set<string>
-): Promise<void> {
-  const language = await getPreferredLanguage();
-  let locationLabel =
-    settings.locationMode === "manual" ? toNotificationLocationLabel(settings.manualLocation?.label) : null;
+  language: AppLanguage
+): string | undefined {
+  return prayer === "Dhuhr" && settings.jumuah.enabled && isFriday(date)
+    ? translate(language, "notifications.jumuah_prayer")
+    : undefined;
+}
+
+/**
+ * Friday-only alerts: a reminder to leave for the default mosque in time for the khutbah, and an
+ * optional morning reminder to read Surah al-Kahf that opens the surah when tapped.
+ */
+function planJumuahForDay(params: {
+  date: Date;
+  timings: Timings;
+  settings: Settings;
+  context: JumuahContext;
+  origin: { lat: number; lon: number } | null;
+  language: AppLanguage;
+  quietContext: QuietContext;
+  plan: NotificationPlan;
+}): void {
+  const jumuah = params.settings.jumuah;
+  if (!jumuah.enabled || !isFriday(params.date)) {
+    return;
+  }
+
+  const sound = params.settings.prayerNotifications.Dhuhr;
+  const entries: Array<{ kind: "leave" | "kahf"; triggerAt: Date; title: string; body: string; url?: string }> = [];
+  if (params.context.mosque && canReachJumuahMosque(params.settings, params.context.mosque, params.origin)) {
+    const plan = getJumuahPlan({
+      date: params.date,
+      timings: params.timings,
+      jumuah,
+      mosque: params.context.mosque,
+      travelMode: params.context.travelMode,
+      origin: params.origin
+    });
+    entries.push({
+      kind: "leave",
+      triggerAt: plan.leaveAt,
+      title: translate(params.language, "notifications.title_jumuah_leave"),
+      body: translate(
+        params.language,
+        params.context.travelMode === "walk" ? "notifications.body_jumuah_walk" : "notifications.body_jumuah_drive",
+        { mosque: params.context.mosque.name, mins: plan.travelMinutes, time: plan.khutbahTime }
+      )
+    });
+  }
+  if (jumuah.kahfReminder) {
+    entries.push({
+      kind: "kahf",
+      triggerAt: parsePrayerTimeForDate(params.date, jumuah.kahfReminderTime),
+      title: translate(params.language, "notifications.title_kahf"),
+      body: translate(params.language, "notifications.body_kahf"),
+      url: `/quran/${KAHF_SURAH_ID}`
+    });
+  }
+
+  for (const entry of entries) {
+    const dedupeKey = [params.timings.dateKey, "jumuah", entry.kind, entry.triggerAt.getTime()].join(":");
+    const quiet = getQuietReason(params.quietContext, "Dhuhr", entry.triggerAt);
+    const playSound = sound.playSound && !quiet;
+    addToPlan(params.plan, {
+      dedupeKey,
+      triggerAt: entry.triggerAt,
+      content: {
+        title: entry.title,
+        body: entry.body,
+        data: {
+          jumuah: entry.kind,
+          dateKey: params.timings.dateKey,
+          playSound,
+          tone: "Beep",
+          vibration: sound.vibration,
+          quiet,
+          dedupeKey,
+          ...(entry.url ? { url: entry.url } : {})
+        },
+        sound: resolveNotificationSound(playSound, "Beep")
+      }
+    });
+  }
+}
+
+/** Plans every alert that belongs to one day: prayers, Ramadan, extra times and Jumu'ah. */
+function planDay(params: {
+  date: Date;
+  timings: Timings;
+  nextDayTimings: Timings | null;
+  settings: Settings;
+  language: AppLanguage;
+  locationLabel: string | null;
+  jumuahContext: JumuahContext;
+  quietContext: QuietContext;
+  // Prayers already logged for the day get no end-of-time warning.
+  prayerLog: PrayerLog;
+  origin: { lat: number; lon: number } | null;
+  plan: NotificationPlan;
+}): void {
+  const { date, timings, settings, language, plan } = params;
+  const { mosque } = params.jumuahContext;
+  const iqamahMosque =
+    settings.iqamah.notifyAtIqamah && mosque && appliesMosqueIqamah(settings, mosque, params.origin) ? mosque : null;
+  const iqamahSchedule = iqamahMosque ? settings.iqamah.schedules[iqamahMosque.id] : null;
   for (const prayer of PRAYER_NAMES) {
     const prayerSetting = settings.prayerNotifications[prayer];
     if (!prayerSetting?.enabled) {
+      plan.skipped.push({
+        dedupeKey: [timings.dateKey, prayer, "disabled"].join(":"),
+        triggerAt: parsePrayerTimeForDate(date, timings.times[prayer]).getTime(),
+        reason: "disabled"
+      });
       continue;
     }
 
     const prayerAt = parsePrayerTimeForDate(date, timings.times[prayer]);
+    const prayerLabel = jumuahPrayerLabel(prayer, date, settings, language);
+    // With an iqamah for this prayer, the alert and its reminder aim at the congregation instead.
+    const iqamahAt = isTrackedPrayer(prayer)
+      ? getIqamahDate(iqamahSchedule, prayer, date, timings.times[prayer])
+      : null;
+    const targetAt = iqamahAt ?? prayerAt;
+    const targetMosque = iqamahAt ? iqamahMosque?.name : null;
 
     if (prayerSetting.minutesBefore > 0) {
-      const beforeAt = new Date(prayerAt.getTime() - prayerSetting.minutesBefore * 60 * 1000);
-      await scheduleOne({
-        triggerAt: beforeAt,
+      const triggerAt = new Date(targetAt.getTime() - prayerSetting.minutesBefore * 60 * 1000);
+      const quiet = getQuietReason(params.quietContext, prayer, triggerAt);
+      planOne({
+        triggerAt,
         prayer,
         dateKey: timings.dateKey,
         intent: "offset",
         minutesBefore: prayerSetting.minutesBefore,
-        playSound: prayerSetting.playSound,
+        playSound: prayerSetting.playSound && !quiet,
         tone: prayerSetting.tone,
+        fullAdhan: prayerSetting.fullAdhan,
         vibration: prayerSetting.vibration,
+        quiet,
         language,
-        locationLabel,
-        dedupeSet
+        locationLabel: params.locationLabel,
+        prayerLabel,
+        iqamahMosque: targetMosque,
+        plan
       });
     }
 
-    await scheduleOne({
-      triggerAt: prayerAt,
+    const quiet = getQuietReason(params.quietContext, prayer, targetAt);
+    planOne({
+      triggerAt: targetAt,
       prayer,
       dateKey: timings.dateKey,
       intent: "at_time",
       minutesBefore: prayerSetting.minutesBefore,
-      playSound: prayerSetting.playSound,
+      playSound: prayerSetting.playSound && !quiet,
       tone: prayerSetting.tone,
+      // The adhan has long been called by the time the congregation starts.
+      fullAdhan: prayerSetting.fullAdhan && !iqamahAt,
       vibration: prayerSetting.vibration,
+      quiet,
       language,
-      locationLabel,
-      dedupeSet
+      locationLabel: params.locationLabel,
+      prayerLabel,
+      iqamahMosque: targetMosque,
+      plan
     });
+
+    const logged = isTrackedPrayer(prayer) && Boolean(params.prayerLog[timings.dateKey]?.[prayer]);
+    if (prayerSetting.endWarningMinutes > 0 && isTrackedPrayer(prayer) && !logged) {
+      const endName = getPreferredWindowEndName(prayer);
+      const endTime =
+        endName === "Midnight"
+          ? resolveExtraTimes({ timings, nextDayTimings: params.nextDayTimings, settings }).Midnight
+          : timings.times[endName];
+      const endAt =
+        endName === "Midnight"
+          ? getExtraTimeDate(date, timings, "Midnight", endTime)
+          : parsePrayerTimeForDate(date, endTime);
+      const warningAt = new Date(endAt.getTime() - prayerSetting.endWarningMinutes * 60 * 1000);
+      // A window shorter than the warning lead (e.g. a very short Fajr) gets no warning.
+      if (warningAt > prayerAt) {
+        const warningQuiet = getQuietReason(params.quietContext, prayer, warningAt);
+        planOne({
+          triggerAt: warningAt,
+          prayer,
+          dateKey: timings.dateKey,
+          intent: "end_warning",
+          minutesBefore: prayerSetting.endWarningMinutes,
+          playSound: prayerSetting.playSound && !warningQuiet,
+          tone: prayerSetting.tone,
+          fullAdhan: false,
+          vibration: prayerSetting.vibration,
+          quiet: warningQuiet,
+          windowEnd: { time: endTime, midnight: endName === "Midnight" },
+          language,
+          prayerLabel,
+          plan
+        });
+      }
+    }
   }
+
+  // The quiet rules silence these alerts the same way as the prayer alerts they sit next to.
+  const { quietContext } = params;
+  planRamadanForDay({ date, timings, settings, language, quietContext, plan });
+  planExtraTimesForDay({
+    date,
+    timings,
+    nextDayTimings: params.nextDayTimings,
+    settings,
+    language,
+    quietContext,
+    plan
+  });
+  planJumuahForDay({
+    date,
+    timings,
+    settings,
+    context: params.jumuahContext,
+    origin: params.origin,
+    language,
+    quietContext,
+    plan
+  });
+}
+
+function createReplanAuditEntry(params: {
+  lat: number | null;
+  lon: number | null;
+  settings: Settings;
+  trigger: ReplanTrigger;
+}): ReplanAuditEntry {
+  return {
+    id: `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+    at: Date.now(),
+    trigger: params.trigger,
+    provider: params.settings.timingsProvider,
+    methodId: params.settings.methodId,
+    locationMode: params.settings.locationMode,
+    lat: params.lat === null ? null : Number(params.lat.toFixed(3)),
+    lon: params.lon === null ? null : Number(params.lon.toFixed(3)),
+    budget: NOTIFICATION_BUDGET,
+    scheduled: [],
+    skipped: []
+  };
+}
+
+/** Stores what a replan handed to the OS and what it left out; entries beyond the budget count as skipped. */
+async function recordReplan(
+  entry: ReplanAuditEntry,
+  plan: NotificationPlan,
+  scheduled: PlannedNotification[]
+): Promise<void> {
+  const scheduledKeys = new Set(scheduled.map((item) => item.dedupeKey));
+  const overBudget: AuditSkippedItem[] = plan.entries
+    .filter((item) => !scheduledKeys.has(item.dedupeKey))
+    .map((item) => ({ dedupeKey: item.dedupeKey, triggerAt: item.triggerAt.getTime(), reason: "budget" }));
+  await appendReplanAudit({
+    ...entry,
+    scheduled: scheduled.map(toAuditPlannedItem),
+    skipped: [...plan.skipped, ...overBudget]
+  }).catch(() => {
+    // The audit log is best effort and must never block scheduling.
+  });
 }
 
 async function replanAllOnce(params: {
@@ -266,13 +869,20 @@ async function replanAllOnce(params: {
   lon: number;
   methodId: number;
   settings: Settings;
+  trigger: ReplanTrigger;
 }): Promise<void> {
   const granted = await registerForLocalNotifications();
   if (!granted) {
     return;
   }
 
-  const signature = createReplanSignature(params);
+  const [defaultMosque, mosquesSettings, quietContext] = await Promise.all([
+    getDefaultMosque(),
+    getMosquesSettings(),
+    getQuietContext(params.settings.quiet)
+  ]);
+  const jumuahContext: JumuahContext = { mosque: defaultMosque, travelMode: mosquesSettings.travelMode };
+  const signature = createReplanSignature({ ...params, jumuahContext, quietContext });
   if (signature === lastAppliedSignature && Date.now() - lastAppliedAt < 10_000) {
     const hasEnabledPrayer = PRAYER_NAMES.some((prayer) => params.settings.prayerNotifications[prayer]?.enabled);
     const summary = await getPrayerNotificationScheduleSummary().catch(() => null);
@@ -281,16 +891,7 @@ async function replanAllOnce(params: {
     }
   }
 
-  await cancelAllScheduled();
-
   const today = new Date();
-  const tomorrow = getTomorrow(today);
-  const stats = {
-    scheduled: 0,
-    atTime: 0,
-    offset: 0
-  };
-
   const resolved = await getTodayTomorrowTimings({
     today,
     location: { lat: params.lat, lon: params.lon },
@@ -298,8 +899,24 @@ async function replanAllOnce(params: {
     forceRefresh: false,
     rangeDays: 2
   });
-  const todayTimings = resolved.today;
-  const tomorrowTimings = resolved.tomorrow;
+  if (resolved.today.dateKey !== getDateKey(today)) {
+    throw new Error("Today timings date mismatch.");
+  }
+
+  // Days after tomorrow come from the cache only; the background top-up keeps that cache filled.
+  const laterRows = await getRangeTimings({
+    start: getTomorrow(getTomorrow(today)),
+    days: NOTIFICATION_HORIZON_DAYS - 2,
+    location: { lat: params.lat, lon: params.lon },
+    settings: params.settings,
+    fetchMissing: false
+  }).catch(() => []);
+  const days: Array<{ date: Date; timings: Timings | null }> = [
+    { date: today, timings: resolved.today },
+    { date: getTomorrow(today), timings: resolved.tomorrow },
+    ...laterRows.map((row) => ({ date: row.date, timings: row.timings }))
+  ];
+
   let locationLabel =
     params.settings.locationMode === "manual"
       ? toNotificationLocationLabel(params.settings.manualLocation?.label)
@@ -313,73 +930,63 @@ async function replanAllOnce(params: {
     }
   }
 
-  if (todayTimings.dateKey !== getDateKey(today)) {
-    throw new Error("Today timings date mismatch.");
-  }
-
-  const dedupeSet = new Set<string>();
   const language = await getPreferredLanguage();
-  const scheduleWithStats = async (date: Date, timings: Timings) => {
-    for (const prayer of PRAYER_NAMES) {
-      const prayerSetting = params.settings.prayerNotifications[prayer];
-      if (!prayerSetting?.enabled) {
-        continue;
-      }
-
-      const prayerAt = parsePrayerTimeForDate(date, timings.times[prayer]);
-      const beforeAt = new Date(prayerAt.getTime() - prayerSetting.minutesBefore * 60 * 1000);
-
-      const beforeCount = dedupeSet.size;
-      if (prayerSetting.minutesBefore > 0) {
-        await scheduleOne({
-          triggerAt: beforeAt,
-          prayer,
-          dateKey: timings.dateKey,
-          intent: "offset",
-          minutesBefore: prayerSetting.minutesBefore,
-          playSound: prayerSetting.playSound,
-          tone: prayerSetting.tone,
-          vibration: prayerSetting.vibration,
-          language,
-          locationLabel,
-          dedupeSet
-        });
-        if (dedupeSet.size > beforeCount) {
-          stats.scheduled += 1;
-          stats.offset += 1;
-        }
-      }
-
-      const beforeAtTimeCount = dedupeSet.size;
-      await scheduleOne({
-        triggerAt: prayerAt,
-        prayer,
-        dateKey: timings.dateKey,
-        intent: "at_time",
-        minutesBefore: prayerSetting.minutesBefore,
-        playSound: prayerSetting.playSound,
-        tone: prayerSetting.tone,
-        vibration: prayerSetting.vibration,
-        language,
-        locationLabel,
-        dedupeSet
-      });
-      if (dedupeSet.size > beforeAtTimeCount) {
-        stats.scheduled += 1;
-        stats.atTime += 1;
-      }
+  const prayerLog = await getPrayerLog();
+  const plan = createNotificationPlan();
+  days.forEach((day, index) => {
+    if (!day.timings) {
+      return;
     }
-  };
-  await scheduleWithStats(today, todayTimings);
-  await scheduleWithStats(tomorrow, tomorrowTimings);
+    planDay({
+      date: day.date,
+      timings: day.timings,
+      nextDayTimings: days[index + 1]?.timings ?? null,
+      settings: params.settings,
+      language,
+      locationLabel,
+      jumuahContext,
+      quietContext,
+      prayerLog,
+      origin: { lat: params.lat, lon: params.lon },
+      plan
+    });
+  });
+
+  await planPendingSnoozes(plan);
+  await cancelAllScheduled();
+  const scheduled = await schedulePlan(plan, NOTIFICATION_BUDGET);
+  await recordReplan(createReplanAuditEntry(params), plan, scheduled);
 
   lastAppliedSignature = signature;
   lastAppliedAt = Date.now();
 
   if (__DEV__) {
+    const count = (key: string) => scheduled.filter((entry) => entry.content.data?.[key] !== undefined).length;
+    const offset = scheduled.filter((entry) => entry.content.data?.intent === "offset").length;
+    const horizon = scheduled.length > 0 ? scheduled[scheduled.length - 1].triggerAt.toISOString() : "none";
     console.log(
-      `[notifications] replanned total=${stats.scheduled} at_time=${stats.atTime} offset=${stats.offset} provider=${params.settings.timingsProvider} method=${params.methodId}`
+      `[notifications] replanned total=${scheduled.length}/${plan.entries.length} budget=${NOTIFICATION_BUDGET} ` +
+        `at_time=${count("intent") - offset} offset=${offset} ramadan=${count("ramadan")} extra=${count("extra")} ` +
+        `jumuah=${count("jumuah")} horizon=${horizon} provider=${params.settings.timingsProvider} method=${params.methodId}`
+    );
+  }
+}
+
+async function replanAllRecorded(params: {
+  lat: number;
+  lon: number;
+  methodId: number;
+  settings: Settings;
+  trigger: ReplanTrigger;
+}): Promise<void> {
+  try {
+    await replanAllOnce(params);
+  } catch (error) {
+    const entry = createReplanAuditEntry(params);
+    await appendReplanAudit({ ...entry, error: error instanceof Error ? error.message : String(error) }).catch(
+      () => undefined
     );
+    throw error;
   }
 }
 
@@ -388,10 +995,13 @@ export function replanAll(params: {
   lon: number;
   methodId: number;
   settings: Settings;
+  // Recorded in the notification log; defaults to a settings change.
+  trigger?: ReplanTrigger;
 }): Promise<void> {
+  const recorded = { ...params, trigger: params.trigger ?? "settings" };
   replanQueue = replanQueue.then(
-    () => replanAllOnce(params),
-    () => replanAllOnce(params)
+    () => replanAllRecorded(recorded),
+    () => replanAllRecorded(recorded)
   );
   return replanQueue;
 }
@@ -0,0 +1,106 @@
+import { OpeningHours, TimeRange } from "@/types/mosque";
+
+const DAY_CODES = ["Mo", "Tu", "We", "Th", "Fr", "Sa", "Su"];
+const DAY_PATTERN = "(?:Mo|Tu|We|Th|Fr|Sa|Su)";
+const DAY_SPAN = `${DAY_PATTERN}(?:-${DAY_PATTERN})?`;
+const DAYS_SELECTOR = new RegExp(`^(${DAY_SPAN}(?:,${DAY_SPAN})*)\\s+(.+)$`);
+const TIME_RANGE = /^(\d{1,2}):(\d{2})\s*-\s*(\d{1,2}):(\d{2})$/;
+
+function parseDays(selector: string): number[] {
+  const days = new Set<number>();
+  for (const part of selector.split(",")) {
+    const [from, to] = part.split("-").map((code) => DAY_CODES.indexOf(code));
+    if (to === undefined) {
+      days.add(from);
+      continue;
+    }
+    // Ranges may wrap around the week, e.g. Sa-Mo.
+    for (let day = from; ; day = (day + 1) % 7) {
+      days.add(day);
+      if (day === to) {
+        break;
+      }
+    }
+  }
+  return [...days];
+}
+
+function parseTimes(value: string): TimeRange[] | null {
+  if (value === "off" || value === "closed") {
+    return [];
+  }
+  const ranges: TimeRange[] = [];
+  for (const part of value.split(",")) {
+    const match = TIME_RANGE.exec(part.trim());
+    if (!match) {
+      return null;
+    }
+    const start = Number(match[1]) * 60 + Number(match[2]);
+    let end = Number(match[3]) * 60 + Number(match[4]);
+    if (start > 1440 || end > 1440) {
+      return null;
+    }
+    if (end <= start) {
+      end += 1440;
+    }
+    ranges.push({ start, end });
+  }
+  return ranges;
+}
+
+/**
+ * Reads the common subset of the OSM opening_hours syntax: "24/7" and semicolon-separated
+ * weekday rules such as "Mo-Fr 09:00-12:00,13:00-17:00; Su off". Later rules override earlier
+ * ones for the days they name, as in the full specification.
+ */
+export function parseOpeningHours(raw: string): OpeningHours {
+  const trimmed = raw.trim();
+  const week: TimeRange[][] = DAY_CODES.map(() => []);
+
+  for (const rule of trimmed.split(";").map((item) => item.trim()).filter(Boolean)) {
+    if (rule === "24/7") {
+      for (let day = 0; day < 7; day += 1) {
+        week[day] = [{ start: 0, end: 1440 }];
+      }
+      continue;
+    }
+
+    const selector = DAYS_SELECTOR.exec(rule);
+    const days = selector ? parseDays(selector[1]) : DAY_CODES.map((_, day) => day);
+    const ranges = parseTimes(selector ? selector[2] : rule);
+    if (!ranges) {
+      return { raw: trimmed, week: null };
+    }
+    for (const day of days) {
+      week[day] = ranges;
+    }
+  }
+
+  return { raw: trimmed, week };
+}
+
+/** Whether the place is open at `date`; null when the hours could not be read. */
+export function isOpenAt(hours: OpeningHours, date: Date): boolean | null {
+  if (!hours.week) {
+    return null;
+  }
+  const day = (date.getDay() + 6) % 7;
+  const minutes = date.getHours() * 60 + date.getMinutes();
+  const previous = hours.week[(day + 6) % 7];
+  return (
+    hours.week[day].some((range) => minutes >= range.start && minutes < range.end) ||
+    previous.some((range) => minutes + 1440 >= range.start && minutes + 1440 < range.end)
+  );
+}
+
+function formatMinutes(value: number): string {
+  const minutes = value % 1440;
+  return `${String(Math.floor(minutes / 60)).padStart(2, "0")}:${String(minutes % 60).padStart(2, "0")}`;
+}
+
+export function formatTimeRange(range: TimeRange): string {
+  if (range.start === 0 && range.end === 1440) {
+    return "00:00-24:00";
+  }
+  return `${formatMinutes(range.start)}-${formatMinutes(range.end)}`;
+}
@@ -1,6 +1,56 @@
 import { getTimingsByCoordinates as getAladhanTimings } from "@/services/aladhan";
+import { getTimingsByCoordinates as getAstronomicalTimings } from "@/services/astronomical";
 import { getTimingsByCoordinates as getDiyanetTimings } from "@/services/diyanet";
-import { Settings, Timings } from "@/types/prayer";
+import { AsrSchool, PRAYER_NAMES, Settings, Timings, TuneOffsets } from "@/types/prayer";
+import { shiftTimeHHmm } from "@/utils/time";
+
+const DIYANET_TURKEY_METHOD_ID = 13;
+// Diyanet publishes the first-shadow (asr-ı evvel) Asr, which matches the standard school.
+const DIYANET_ASR_SCHOOL: AsrSchool = "standard";
+
+function toAladhanSchool(asrSchool: AsrSchool): 0 | 1 {
+  return asrSchool === "hanafi" ? 1 : 0;
+}
+
+function resolveCityHint(settings: Settings, cityHintOverride?: string): string | undefined {
+  return settings.locationMode === "manual" ? settings.manualLocation?.label : cityHintOverride;
+}
+
+/**
+ * The on-device calculation in the place's own time zone. With GPS the device is at the place, so
+ * its zone is right; a chosen city may be elsewhere and carries its zone when it is known.
+ */
+function getOnDeviceTimings(
+  date: Date,
+  lat: number,
+  lon: number,
+  settings: Settings,
+  methodId = settings.methodId,
+  asrSchool = settings.asrSchool
+): Promise<Timings> {
+  const timeZone = settings.locationMode === "manual" ? settings.manualLocation?.timeZone : undefined;
+  return getAstronomicalTimings(date, lat, lon, methodId, asrSchool, settings.highLatitudeRule, timeZone);
+}
+
+/**
+ * Shifts provider times by the user's per-prayer minute offsets. Runs after every provider so
+ * Aladhan, Diyanet and the on-device calculation are tuned the same way before validation.
+ */
+export function applyTuneOffsets(timings: Timings, tuneOffsets: TuneOffsets): Timings {
+  const applied = PRAYER_NAMES.filter((prayer) => tuneOffsets[prayer] !== 0);
+  if (applied.length === 0) {
+    return timings;
+  }
+
+  const times = { ...timings.times };
+  const offsets: Partial<TuneOffsets> = {};
+  for (const prayer of applied) {
+    times[prayer] = shiftTimeHHmm(times[prayer], tuneOffsets[prayer]);
+    offsets[prayer] = tuneOffsets[prayer];
+  }
+
+  return { ...timings, times, tuneOffsets: offsets };
+}
 
 export async function getTimingsBySettings(
   date: Date,
@@ -8,11 +58,92 @@ export async function getTimingsBySettings(
   lon: number,
   settings: Settings,
   cityHintOverride?: string
+): Promise<Timings> {
+  return applyTuneOffsets(
+    await getProviderTimings(date, lat, lon, settings, cityHintOverride),
+    settings.tuneOffsets
+  );
+}
+
+async function getProviderTimings(
+  date: Date,
+  lat: number,
+  lon: number,
+  settings: Settings,
+  cityHintOverride?: string
+): Promise<Timings> {
+  if (settings.timingsProvider === "astronomical") {
+    return getOnDeviceTimings(date, lat, lon, settings);
+  }
+
+  if (settings.timingsProvider === "diyanet") {
+    return getDiyanetTimings(date, lat, lon, resolveCityHint(settings, cityHintOverride), settings.highLatitudeRule);
+  }
+
+  return getAladhanTimings(
+    date,
+    lat,
+    lon,
+    settings.methodId,
+    toAladhanSchool(settings.asrSchool),
+    undefined,
+    settings.highLatitudeRule
+  );
+}
+
+/**
+ * Used after the configured provider failed and nothing is cached: tries the other network
+ * provider first and only then calculates the times on the device.
+ */
+export async function getFallbackTimingsBySettings(
+  date: Date,
+  lat: number,
+  lon: number,
+  settings: Settings,
+  cityHintOverride?: string
+): Promise<Timings> {
+  return applyTuneOffsets(
+    await getFallbackProviderTimings(date, lat, lon, settings, cityHintOverride),
+    settings.tuneOffsets
+  );
+}
+
+async function getFallbackProviderTimings(
+  date: Date,
+  lat: number,
+  lon: number,
+  settings: Settings,
+  cityHintOverride?: string
 ): Promise<Timings> {
   if (settings.timingsProvider === "diyanet") {
-    const cityHint = settings.locationMode === "manual" ? settings.manualLocation?.label : cityHintOverride;
-    return getDiyanetTimings(date, lat, lon, cityHint);
+    try {
+      return await getAladhanTimings(
+        date,
+        lat,
+        lon,
+        DIYANET_TURKEY_METHOD_ID,
+        toAladhanSchool(DIYANET_ASR_SCHOOL),
+        undefined,
+        settings.highLatitudeRule
+      );
+    } catch {
+      return getOnDeviceTimings(date, lat, lon, settings, DIYANET_TURKEY_METHOD_ID, DIYANET_ASR_SCHOOL);
+    }
+  }
+
+  if (settings.timingsProvider === "aladhan") {
+    try {
+      return await getDiyanetTimings(
+        date,
+        lat,
+        lon,
+        resolveCityHint(settings, cityHintOverride),
+        settings.highLatitudeRule
+      );
+    } catch {
+      return getOnDeviceTimings(date, lat, lon, settings);
+    }
   }
 
-  return getAladhanTimings(date, lat, lon, settings.methodId, 1);
+  return getOnDeviceTimings(date, lat, lon, settings);
 }
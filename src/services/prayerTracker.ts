@@ -0,0 +1,240 @@
+import {
+  appendQazaEvent,
+  getPrayerLog,
+  PrayerLog,
+  PrayerLogStatus,
+  QazaKey,
+  setPrayerLogEntry
+} from "@/services/storage";
+import { PrayerName, Timings, TRACKED_PRAYERS, TrackedPrayer } from "@/types/prayer";
+import { getDateKey, getTomorrow, parseDateKey, parsePrayerTimeForDate } from "@/utils/time";
+
+export const QAZA_KEY_BY_PRAYER: Record<TrackedPrayer, QazaKey> = {
+  Fajr: "fajr",
+  Dhuhr: "dhuhr",
+  Asr: "asr",
+  Maghrib: "maghrib",
+  Isha: "isha"
+};
+
+// A prayer is on time until the next time starts; Fajr ends at sunrise and Isha at the next Fajr.
+const WINDOW_END: Record<TrackedPrayer, PrayerName> = {
+  Fajr: "Sunrise",
+  Dhuhr: "Asr",
+  Asr: "Maghrib",
+  Maghrib: "Isha",
+  Isha: "Fajr"
+};
+
+export interface DayCompletion {
+  dateKey: string;
+  date: Date;
+  prayed: number;
+  missed: number;
+}
+
+export interface MonthCompletion {
+  month: Date;
+  prayed: number;
+  // Prayers that could have been logged: days since logging started, up to today.
+  possible: number;
+}
+
+export interface PunctualityBreakdown {
+  onTime: number;
+  late: number;
+  // Prayed entries for days without cached prayer times.
+  unknown: number;
+}
+
+export interface MissedPrayer {
+  dateKey: string;
+  date: Date;
+  prayer: TrackedPrayer;
+}
+
+export function isTrackedPrayer(prayer: PrayerName): prayer is TrackedPrayer {
+  return TRACKED_PRAYERS.includes(prayer as TrackedPrayer);
+}
+
+export function getPrayerWindowEnd(
+  date: Date,
+  timings: Timings,
+  prayer: TrackedPrayer,
+  nextDayTimings: Timings | null
+): Date | null {
+  if (prayer === "Isha") {
+    return nextDayTimings ? parsePrayerTimeForDate(getTomorrow(date), nextDayTimings.times.Fajr) : null;
+  }
+  return parsePrayerTimeForDate(date, timings.times[WINDOW_END[prayer]]);
+}
+
+/** End of the preferred time, used by the end-of-time warning: Isha's runs until midnight, not Fajr. */
+export function getPreferredWindowEndName(prayer: TrackedPrayer): PrayerName | "Midnight" {
+  return prayer === "Isha" ? "Midnight" : WINDOW_END[prayer];
+}
+
+/**
+ * Ticks (or clears, with `null`) a prayer. A missed prayer that was already moved to qaza keeps that mark.
+ * `prayedAt` records when the prayer was prayed, when that is known to differ from the tick.
+ */
+export async function markPrayer(
+  dateKey: string,
+  prayer: TrackedPrayer,
+  status: PrayerLogStatus | null,
+  prayedAt?: number
+): Promise<PrayerLog> {
+  const log = await getPrayerLog();
+  const previous = log[dateKey]?.[prayer];
+  if (!status) {
+    return setPrayerLogEntry(dateKey, prayer, null);
+  }
+  return setPrayerLogEntry(dateKey, prayer, {
+    status,
+    at: Date.now(),
+    prayedAt: status === "prayed" ? prayedAt : undefined,
+    qazaTransferred: status === "missed" ? previous?.qazaTransferred : undefined
+  });
+}
+
+/**
+ * Adds a missed prayer to the qaza counters and logs it as missed. The qaza event id is derived from
+ * the day and prayer, so the tracker and the notification action can never count it twice.
+ */
+export async function transferMissedToQaza(dateKey: string, prayer: TrackedPrayer): Promise<PrayerLog> {
+  const key = QAZA_KEY_BY_PRAYER[prayer];
+  await appendQazaEvent(
+    {
+      id: `missed-${dateKey}-${key}`,
+      type: "inc",
+      at: Date.now(),
+      prayerKey: key,
+      delta: { [key]: 1 }
+    },
+    (state) => ({ ...state, remaining: { ...state.remaining, [key]: state.remaining[key] + 1 } })
+  );
+
+  const previous = (await getPrayerLog())[dateKey]?.[prayer];
+  return setPrayerLogEntry(dateKey, prayer, {
+    status: "missed",
+    at: previous?.status === "missed" ? previous.at : Date.now(),
+    qazaTransferred: true
+  });
+}
+
+function countStatus(log: PrayerLog, dateKey: string, status: PrayerLogStatus): number {
+  const day = log[dateKey] ?? {};
+  return TRACKED_PRAYERS.filter((prayer) => day[prayer]?.status === status).length;
+}
+
+function isCompleteDay(log: PrayerLog, dateKey: string): boolean {
+  return countStatus(log, dateKey, "prayed") === TRACKED_PRAYERS.length;
+}
+
+function addDays(date: Date, days: number): Date {
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate() + days, 0, 0, 0, 0);
+}
+
+/** Per-day counts for `days` days ending at `end`, oldest first. */
+export function getDailyCompletion(log: PrayerLog, end: Date, days: number): DayCompletion[] {
+  return Array.from({ length: days }, (_, index) => {
+    const date = addDays(end, index - days + 1);
+    const dateKey = getDateKey(date);
+    return {
+      dateKey,
+      date,
+      prayed: countStatus(log, dateKey, "prayed"),
+      missed: countStatus(log, dateKey, "missed")
+    };
+  });
+}
+
+/**
+ * Streaks count days on which all five prayers were ticked. Today does not break the current streak
+ * while it is still in progress.
+ */
+export function getStreaks(log: PrayerLog, today: Date): { current: number; best: number } {
+  let current = 0;
+  let cursor = isCompleteDay(log, getDateKey(today)) ? today : addDays(today, -1);
+  while (isCompleteDay(log, getDateKey(cursor))) {
+    current += 1;
+    cursor = addDays(cursor, -1);
+  }
+
+  let best = 0;
+  let run = 0;
+  let previous: Date | null = null;
+  const completeDays = Object.keys(log)
+    .filter((dateKey) => isCompleteDay(log, dateKey))
+    .map(parseDateKey)
+    .sort((a, b) => a.getTime() - b.getTime());
+  for (const date of completeDays) {
+    run = previous && getDateKey(addDays(previous, 1)) === getDateKey(date) ? run + 1 : 1;
+    best = Math.max(best, run);
+    previous = date;
+  }
+
+  return { current, best: Math.max(best, current) };
+}
+
+export function getMonthlyCompletion(log: PrayerLog, today: Date, months: number): MonthCompletion[] {
+  const firstLogged = Object.keys(log)
+    .map(parseDateKey)
+    .reduce<Date | null>((first, date) => (!first || date < first ? date : first), null);
+
+  return Array.from({ length: months }, (_, index) => {
+    const month = new Date(today.getFullYear(), today.getMonth() - months + 1 + index, 1);
+    const monthEnd = new Date(month.getFullYear(), month.getMonth() + 1, 0);
+    let prayed = 0;
+    let possible = 0;
+    for (let date = month; date <= monthEnd && date <= today; date = addDays(date, 1)) {
+      const dateKey = getDateKey(date);
+      prayed += countStatus(log, dateKey, "prayed");
+      if (firstLogged && date >= firstLogged) {
+        possible += TRACKED_PRAYERS.length;
+      }
+    }
+    return { month, prayed, possible };
+  });
+}
+
+/** Compares each tick with the prayer window from the cached times of that day. */
+export function getPunctuality(
+  log: PrayerLog,
+  days: Array<{ date: Date; dateKey: string; timings: Timings | null }>
+): PunctualityBreakdown {
+  const breakdown: PunctualityBreakdown = { onTime: 0, late: 0, unknown: 0 };
+  days.forEach((day, index) => {
+    const entries = log[day.dateKey] ?? {};
+    for (const prayer of TRACKED_PRAYERS) {
+      const entry = entries[prayer];
+      if (entry?.status !== "prayed") {
+        continue;
+      }
+      const end = day.timings
+        ? getPrayerWindowEnd(day.date, day.timings, prayer, days[index + 1]?.timings ?? null)
+        : null;
+      if (!end) {
+        breakdown.unknown += 1;
+      } else if ((entry.prayedAt ?? entry.at) <= end.getTime()) {
+        breakdown.onTime += 1;
+      } else {
+        breakdown.late += 1;
+      }
+    }
+  });
+  return breakdown;
+}
+
+/** Missed prayers that have not been added to the qaza counters yet, newest first. */
+export function getMissedPrayers(log: PrayerLog): MissedPrayer[] {
+  return Object.keys(log)
+    .map((dateKey) => ({ dateKey, date: parseDateKey(dateKey) }))
+    .sort((a, b) => b.date.getTime() - a.date.getTime())
+    .flatMap(({ dateKey, date }) =>
+      TRACKED_PRAYERS.filter((prayer) => {
+        const entry = log[dateKey][prayer];
+        return entry?.status === "missed" && !entry.qazaTransferred;
+      }).map((prayer) => ({ dateKey, date, prayer }))
+    );
+}
@@ -1,6 +1,25 @@
+import { haversineDistanceKm, initialBearingDeg } from "@/utils/geo";
+
 const BASE_URL = "https://api.aladhan.com/v1";
 
-export async function getQiblaDirection(lat: number, lon: number): Promise<number> {
+// The Kaaba, Masjid al-Haram.
+export const KAABA = { lat: 21.422487, lon: 39.826206 };
+
+export interface QiblaInfo {
+  bearing: number;
+  distanceKm: number;
+}
+
+/** Great-circle Qibla from the given point; pure math, so it works offline. */
+export function getQiblaDirection(lat: number, lon: number): QiblaInfo {
+  return {
+    bearing: initialBearingDeg(lat, lon, KAABA.lat, KAABA.lon),
+    distanceKm: haversineDistanceKm(lat, lon, KAABA.lat, KAABA.lon)
+  };
+}
+
+/** Aladhan's bearing for the same point, used only to cross-check the local result. */
+export async function fetchQiblaDirection(lat: number, lon: number): Promise<number> {
   const response = await fetch(`${BASE_URL}/qibla/${lat}/${lon}`);
   if (!response.ok) {
     throw new Error("Could not fetch Qibla direction right now.");
@@ -24,4 +43,3 @@ export async function getQiblaDirection(lat: number, lon: number): Promise<numbe
 export function getQiblaCompassImageUrl(lat: number, lon: number, size = 512): string {
   return `${BASE_URL}/qibla/${lat}/${lon}/compass/${size}`;
 }
-
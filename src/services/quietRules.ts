@@ -0,0 +1,77 @@
+import { getFavoriteMosques, getLatestCachedLocation } from "@/services/storage";
+import { timeToMinutes } from "@/services/timingValidation";
+import { FavoriteMosque } from "@/types/mosque";
+import { PrayerName, QuietHoursSetting, QuietSettings } from "@/types/prayer";
+import { haversineDistanceKm } from "@/utils/geo";
+
+// A location fix only says where the user is for a while; later alerts keep their sound.
+export const MOSQUE_PRESENCE_MINUTES = 90;
+
+export type QuietReason = "hours" | "mosque";
+
+export interface QuietContext {
+  settings: QuietSettings;
+  // The favorited mosque the last known location is inside of, if any.
+  mosque: FavoriteMosque | null;
+  presenceUntil: number | null;
+}
+
+export function isWithinQuietHours(hours: QuietHoursSetting, at: Date): boolean {
+  const start = timeToMinutes(hours.start);
+  const end = timeToMinutes(hours.end);
+  const value = at.getHours() * 60 + at.getMinutes();
+  if (start === null || end === null || start === end) {
+    return false;
+  }
+  return start < end ? value >= start && value < end : value >= start || value < end;
+}
+
+export function findMosqueWithin(
+  location: { lat: number; lon: number },
+  mosques: FavoriteMosque[],
+  radiusMeters: number
+): FavoriteMosque | null {
+  let nearest: { mosque: FavoriteMosque; meters: number } | null = null;
+  for (const mosque of mosques) {
+    const meters = haversineDistanceKm(location.lat, location.lon, mosque.lat, mosque.lon) * 1000;
+    if (meters <= radiusMeters && (!nearest || meters < nearest.meters)) {
+      nearest = { mosque, meters };
+    }
+  }
+  return nearest?.mosque ?? null;
+}
+
+/**
+ * Loads what the quiet rules need for one replan. Only a GPS fix counts for the mosque rule; a
+ * manually chosen city says nothing about where the user is standing.
+ */
+export async function getQuietContext(settings: QuietSettings): Promise<QuietContext> {
+  if (!settings.mosque.enabled) {
+    return { settings, mosque: null, presenceUntil: null };
+  }
+
+  const [location, mosques] = await Promise.all([getLatestCachedLocation(), getFavoriteMosques()]);
+  const fixedAt = location ? Date.parse(location.updatedAt) : NaN;
+  if (!location || location.mode !== "gps" || !Number.isFinite(fixedAt)) {
+    return { settings, mosque: null, presenceUntil: null };
+  }
+
+  const mosque = findMosqueWithin(location, mosques, settings.mosque.radiusMeters);
+  return {
+    settings,
+    mosque,
+    presenceUntil: mosque ? fixedAt + MOSQUE_PRESENCE_MINUTES * 60 * 1000 : null
+  };
+}
+
+/** Why an alert for `prayer` at `at` should be silent, or null when it keeps its sound. */
+export function getQuietReason(context: QuietContext, prayer: PrayerName, at: Date): QuietReason | null {
+  if (context.mosque && context.presenceUntil !== null && at.getTime() <= context.presenceUntil) {
+    return "mosque";
+  }
+  const hours = context.settings.hours;
+  if (hours.enabled && !hours.exceptPrayers.includes(prayer) && isWithinQuietHours(hours, at)) {
+    return "hours";
+  }
+  return null;
+}
@@ -0,0 +1,123 @@
+import { getRangeTimings, getTimingsProvider, MonthlyTimingsRow } from "@/services/timingsCache";
+import { RamadanSettings, Settings, Timings } from "@/types/prayer";
+import { findRamadanRange, getHijriDateParts, isRamadanDate, RAMADAN_MONTH } from "@/utils/hijri";
+import { getTomorrow, parsePrayerTimeForDate, shiftTimeHHmm } from "@/utils/time";
+
+export type RamadanPhase = "suhoor" | "iftar";
+
+export interface RamadanCountdown {
+  phase: RamadanPhase;
+  target: Date;
+  day: number | null;
+  imsak: string;
+  iftar: string;
+}
+
+export interface RamadanDayRow {
+  day: number;
+  date: Date;
+  dateKey: string;
+  timings: Timings | null;
+  source: MonthlyTimingsRow["source"];
+}
+
+export interface RamadanTimetable {
+  start: Date;
+  hijriYear: number;
+  rows: RamadanDayRow[];
+}
+
+export function isRamadanActive(ramadan: RamadanSettings, date: Date, hijriAdjustmentDays = 0): boolean {
+  if (ramadan.mode === "on") {
+    return true;
+  }
+  if (ramadan.mode === "off") {
+    return false;
+  }
+  return isRamadanDate(date, hijriAdjustmentDays);
+}
+
+/** Day of Ramadan (1-30) for the date, or null outside the Hijri month. */
+export function getRamadanDay(date: Date, hijriAdjustmentDays = 0): number | null {
+  const parts = getHijriDateParts(date, hijriAdjustmentDays);
+  return parts?.month === RAMADAN_MONTH ? parts.day : null;
+}
+
+/**
+ * Imsak is a precaution before astronomical Fajr, so the margin only applies to Aladhan and the
+ * on-device calculation. Diyanet's published Fajr already is imsak and is used as it is.
+ */
+export function getImsakTime(timings: Timings, ramadan: RamadanSettings): string {
+  const margin = getTimingsProvider(timings) === "diyanet" ? 0 : ramadan.imsakMarginMinutes;
+  return shiftTimeHHmm(timings.times.Fajr, -margin);
+}
+
+/**
+ * Resolves what the fasting day is counting down to: suhoor ends at imsak, iftar is at Maghrib,
+ * and after Maghrib the countdown moves on to tomorrow's imsak if tomorrow is a fasting day.
+ */
+export function getRamadanCountdown(params: {
+  now: Date;
+  today: Timings;
+  tomorrow: Timings | null;
+  ramadan: RamadanSettings;
+  hijriAdjustmentDays: number;
+}): RamadanCountdown | null {
+  if (isRamadanActive(params.ramadan, params.now, params.hijriAdjustmentDays)) {
+    const todayImsak = getImsakTime(params.today, params.ramadan);
+    const imsakAt = parsePrayerTimeForDate(params.now, todayImsak);
+    const iftarAt = parsePrayerTimeForDate(params.now, params.today.times.Maghrib);
+    const day = getRamadanDay(params.now, params.hijriAdjustmentDays);
+    if (params.now.getTime() < imsakAt.getTime()) {
+      return { phase: "suhoor", target: imsakAt, day, imsak: todayImsak, iftar: params.today.times.Maghrib };
+    }
+    if (params.now.getTime() < iftarAt.getTime()) {
+      return { phase: "iftar", target: iftarAt, day, imsak: todayImsak, iftar: params.today.times.Maghrib };
+    }
+  }
+
+  const tomorrowDate = getTomorrow(params.now);
+  if (!params.tomorrow || !isRamadanActive(params.ramadan, tomorrowDate, params.hijriAdjustmentDays)) {
+    return null;
+  }
+  const tomorrowImsak = getImsakTime(params.tomorrow, params.ramadan);
+  return {
+    phase: "suhoor",
+    target: parsePrayerTimeForDate(tomorrowDate, tomorrowImsak),
+    day: getRamadanDay(tomorrowDate, params.hijriAdjustmentDays),
+    imsak: tomorrowImsak,
+    iftar: params.tomorrow.times.Maghrib
+  };
+}
+
+/** Builds the current (or next) Ramadan from the monthly cache, prefetching only missing days. */
+export async function buildRamadanTimetable(params: {
+  reference: Date;
+  location: { lat: number; lon: number };
+  locationLabel?: string;
+  settings: Settings;
+  fetchMissing?: boolean;
+}): Promise<RamadanTimetable | null> {
+  const range = findRamadanRange(params.reference, params.settings.hijriAdjustmentDays);
+  if (!range) {
+    return null;
+  }
+
+  const cachedRows = await getRangeTimings({
+    start: range.start,
+    days: range.days,
+    location: params.location,
+    locationLabel: params.locationLabel,
+    settings: params.settings,
+    fetchMissing: params.fetchMissing
+  });
+  const rows = cachedRows.map((row, index): RamadanDayRow => ({
+    day: index + 1,
+    date: row.date,
+    dateKey: row.dateKey,
+    timings: row.timings,
+    source: row.source
+  }));
+
+  return { start: range.start, hijriYear: range.hijriYear, rows };
+}
@@ -0,0 +1,147 @@
+import { getTodayTomorrowTimings, warmTimingsCacheRange } from "@/services/timingsCache";
+import { timeToMinutes } from "@/services/timingValidation";
+import { PRAYER_NAMES, PrayerName, SavedLocation, Settings, Timings, TravelPlace } from "@/types/prayer";
+import { getTimeZoneOffsetMinutes } from "@/utils/time";
+
+export const MAX_SAVED_LOCATIONS = 8;
+
+// A month ahead per saved location, so switching between them works offline.
+const WARMUP_DAYS = 30;
+
+export interface WatchNextPrayer {
+  location: SavedLocation;
+  prayer: PrayerName;
+  // Wall-clock time at the watched location.
+  time: string;
+  minutesUntil: number;
+  tomorrow: boolean;
+}
+
+export function createSavedLocation(place: TravelPlace, timeZone: string | null): SavedLocation {
+  return {
+    id: `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`,
+    query: place.query,
+    label: place.label,
+    lat: place.lat,
+    lon: place.lon,
+    timeZone,
+    timings: null
+  };
+}
+
+/** Takes the active location's provider override off again, back to the app-wide provider and method. */
+export function restoreBaseTimings(settings: Settings): Settings {
+  if (!settings.baseTimings) {
+    return settings;
+  }
+  const { provider, methodId, methodName } = settings.baseTimings;
+  return { ...settings, timingsProvider: provider, methodId, methodName, baseTimings: null };
+}
+
+/**
+ * Settings as they apply while `location` is selected: its place, plus its provider override if any.
+ * The app-wide provider and method are kept in `baseTimings` so leaving the location restores them.
+ */
+export function getSettingsForLocation(settings: Settings, location: SavedLocation): Settings {
+  const base = restoreBaseTimings(settings);
+  return {
+    ...base,
+    locationMode: "manual",
+    manualLocation: {
+      query: location.query,
+      label: location.label,
+      lat: location.lat,
+      lon: location.lon,
+      ...(location.timeZone ? { timeZone: location.timeZone } : {})
+    },
+    ...(location.timings
+      ? {
+          timingsProvider: location.timings.provider,
+          methodId: location.timings.methodId,
+          methodName: location.timings.methodName,
+          baseTimings: { provider: base.timingsProvider, methodId: base.methodId, methodName: base.methodName }
+        }
+      : {})
+  };
+}
+
+/** Picking a saved location replaces the home city, so a trip in progress ends with it. */
+export function applySavedLocation(settings: Settings, location: SavedLocation): Settings {
+  return {
+    ...getSettingsForLocation(settings, location),
+    activeLocationId: location.id,
+    travel: { ...settings.travel, home: null, active: null, declined: null }
+  };
+}
+
+export function getWatchLocation(settings: Settings): SavedLocation | null {
+  if (!settings.watchLocationId || settings.watchLocationId === settings.activeLocationId) {
+    return null;
+  }
+  return settings.savedLocations.find((item) => item.id === settings.watchLocationId) ?? null;
+}
+
+export async function warmSavedLocation(settings: Settings, location: SavedLocation, today: Date): Promise<void> {
+  await warmTimingsCacheRange({
+    today,
+    location: { lat: location.lat, lon: location.lon },
+    locationLabel: location.label,
+    settings: getSettingsForLocation(settings, location),
+    days: WARMUP_DAYS
+  });
+}
+
+/** Fills the timings cache for every saved location, one at a time to keep the proxies unhurried. */
+export async function warmSavedLocations(settings: Settings, today: Date): Promise<void> {
+  for (const location of settings.savedLocations) {
+    await warmSavedLocation(settings, location, today);
+  }
+}
+
+// Minutes since midnight at the location; the device clock stands in when its zone is unknown.
+function minutesNowIn(timeZone: string | null, now: Date): number {
+  const wallClock = new Date(now.getTime() + getTimeZoneOffsetMinutes(now, timeZone) * 60 * 1000);
+  return wallClock.getUTCHours() * 60 + wallClock.getUTCMinutes();
+}
+
+export function getWatchNextPrayer(
+  location: SavedLocation,
+  today: Timings,
+  tomorrow: Timings | null,
+  now: Date
+): WatchNextPrayer | null {
+  const current = minutesNowIn(location.timeZone, now);
+  for (const prayer of PRAYER_NAMES) {
+    const at = timeToMinutes(today.times[prayer]);
+    if (at !== null && at > current) {
+      return { location, prayer, time: today.times[prayer], minutesUntil: at - current, tomorrow: false };
+    }
+  }
+  const fajr = tomorrow ? timeToMinutes(tomorrow.times.Fajr) : null;
+  if (!tomorrow || fajr === null) {
+    return null;
+  }
+  return {
+    location,
+    prayer: "Fajr",
+    time: tomorrow.times.Fajr,
+    minutesUntil: 24 * 60 - current + fajr,
+    tomorrow: true
+  };
+}
+
+/** Today's and tomorrow's timings for the watched location, from cache when possible. */
+export async function loadWatchTimings(
+  settings: Settings,
+  location: SavedLocation,
+  today: Date
+): Promise<{ today: Timings; tomorrow: Timings | null }> {
+  const resolved = await getTodayTomorrowTimings({
+    today,
+    location: { lat: location.lat, lon: location.lon },
+    locationLabel: location.label,
+    settings: getSettingsForLocation(settings, location),
+    rangeDays: 2
+  });
+  return { today: resolved.today, tomorrow: resolved.tomorrow };
+}
@@ -1,18 +1,49 @@
 import AsyncStorage from "@react-native-async-storage/async-storage";
-import { CachedLocation, CachedQibla, CachedTimings, PRAYER_NAMES, Settings } from "@/types/prayer";
-import { MosquesSettings } from "@/types/mosque";
+import {
+  AsrSchool,
+  BUILT_IN_TONES,
+  BuiltInTone,
+  CachedLocation,
+  CachedQibla,
+  CachedTimings,
+  CustomTone,
+  CustomToneId,
+  EXTRA_TIME_NAMES,
+  HighLatitudeRule,
+  IqamahSchedule,
+  LocationTimings,
+  NotificationTone,
+  PRAYER_NAMES,
+  PrayerNotificationSetting,
+  SavedLocation,
+  Settings,
+  TimingsProvider,
+  TRACKED_PRAYERS,
+  TrackedPrayer,
+  TravelPlace,
+  TravelSettings,
+  TuneOffsets
+} from "@/types/prayer";
+import { DefaultMosque, FavoriteMosque, MosquesSettings } from "@/types/mosque";
+import { sanitizeIqamahSchedule } from "@/services/iqamah";
 import { isValidCachedTimings } from "@/services/timingValidation";
+import { parseDateKey } from "@/utils/time";
 
 const SETTINGS_KEY = "settings:v1";
 const LATEST_CACHE_KEY = "timings:latest:v1";
+const TIMINGS_CACHE_SUFFIXES_KEY = "cache:timings_suffixes:v1";
 const QIBLA_CACHE_PREFIX = "qibla";
 const LATEST_QIBLA_CACHE_KEY = "qibla:latest:v1";
 const LATEST_LOCATION_CACHE_KEY = "location:latest:v1";
 const HOME_DATE_MODE_KEY = "home:date_mode:v1";
-const MOSQUES_CACHE_PREFIX = "mosques:cache:v1";
+const CONSENSUS_THRESHOLD_KEY = "source_check:consensus_threshold:v1";
+const HIJRI_SHOW_KANDILS_KEY = "hijri:show_kandils:v1";
+const MOSQUES_CACHE_PREFIX = "mosques:cache:v2";
 const MOSQUES_SETTINGS_KEY = "mosques:settings:v1";
 const MOSQUES_FAVORITES_KEY = "mosques:favorites:v1";
 const MOSQUES_DEFAULT_KEY = "mosques:default:v1";
+const MOSQUES_DEFAULT_DETAILS_KEY = "mosques:default_details:v1";
+const MOSQUES_FAVORITE_DETAILS_KEY = "mosques:favorite_details:v1";
 const CONTENT_FAVORITES_KEY = "content:favorites:v1";
 const RECENT_CONTENT_KEY = "content:recent:v1";
 const RECENT_CONTENT_LIST_KEY = "content:recent:list:v1";
@@ -24,8 +55,14 @@ const ZIKR_SETTINGS_KEY = "zikr:settings:v1";
 const QAZA_STATE_V2_KEY = "qaza:state:v2";
 const QAZA_STATE_V1_KEY = "qaza:state:v1";
 const ONBOARDING_SEEN_KEY = "onboarding:seen:v1";
+const PRAYER_LOG_KEY = "prayer:log:v1";
+const CUSTOM_TONES_KEY = "tones:custom:v1";
+const NOTIFICATION_AUDIT_KEY = "notifications:audit:v1";
+const COMPASS_CALIBRATION_KEY = "compass:calibration:v1";
+export const MAX_TUNE_OFFSET_MINUTES = 30;
 
 export type HomeDateMode = "gregorian" | "hijri";
+export type ConsensusThresholdMinutes = 2 | 5 | 10;
 export type ZikrKey = "subhanallah" | "alhamdulillah" | "allahuakbar" | "la_ilaha_illallah" | "custom";
 export type ZikrEntry = {
   count: number;
@@ -66,6 +103,69 @@ export type QazaStateV2 = {
   updatedAt: number;
 };
 export type QazaState = QazaStateV2;
+export type PrayerLogStatus = "prayed" | "missed";
+export type PrayerLogEntry = {
+  status: PrayerLogStatus;
+  // When the prayer was ticked.
+  at: number;
+  // When it was prayed, if known (a tick from a notification counts at its delivery); the on-time breakdown prefers it.
+  prayedAt?: number;
+  qazaTransferred?: boolean;
+};
+export type PrayerLogDay = Partial<Record<TrackedPrayer, PrayerLogEntry>>;
+// Keyed by the same DD-MM-YYYY date key as Timings.
+export type PrayerLog = Record<string, PrayerLogDay>;
+export type ReplanTrigger = "app_open" | "settings" | "background";
+export type AuditSkipReason = "past" | "disabled" | "duplicate" | "budget";
+export type AuditPlannedItem = {
+  dedupeKey: string;
+  triggerAt: number;
+  // "prayer:at_time", "ramadan:iftar", "jumuah:leave", ...
+  kind: string;
+  sound: string | null;
+};
+export type AuditSkippedItem = {
+  dedupeKey: string;
+  triggerAt: number | null;
+  reason: AuditSkipReason;
+};
+export type ReplanAuditEntry = {
+  id: string;
+  at: number;
+  trigger: ReplanTrigger;
+  provider: string;
+  methodId: number;
+  locationMode: "gps" | "manual";
+  // Unknown when a single day is planned outside a full replan.
+  lat: number | null;
+  lon: number | null;
+  budget: number;
+  scheduled: AuditPlannedItem[];
+  skipped: AuditSkippedItem[];
+  error?: string;
+};
+export type DeliveryAuditEntry = {
+  // The OS notification identifier; "presented" entries found later in the tray reuse it.
+  identifier: string;
+  event: "received" | "presented" | "tapped";
+  at: number;
+  dedupeKey: string | null;
+  triggerAt: number | null;
+  title: string | null;
+  action?: string;
+};
+export type NotificationAudit = {
+  replans: ReplanAuditEntry[];
+  deliveries: DeliveryAuditEntry[];
+};
+export type CompassCalibrationRecord = {
+  at: number;
+  // Compass confidence when the run ended, whether it settled or the user finished early.
+  quality: "good" | "meh" | "bad";
+  fieldStrength: number | null;
+  headingStdDev: number | null;
+  interference: boolean;
+};
 export type ContentFavoriteKind = "quran_surah" | "namaz_dua" | "namaz_asir";
 export type ContentFavorite = {
   id: string;
@@ -92,12 +192,116 @@ export type ReadingSettings = {
   showTransliteration: boolean;
 };
 
+// Earlier builds stored display labels or named recitations that never shipped; all of them play the bundled adhan.
+const LEGACY_TONES: Record<string, BuiltInTone> = {
+  "Adhan - Makkah (Normal)": "Adhan",
+  "Adhan - Madinah (Soft)": "Adhan",
+  Makkah: "Adhan",
+  Madinah: "Adhan",
+  Istanbul: "Adhan",
+  FajrAdhan: "Adhan"
+};
+
+function parseNotificationTone(value: unknown): NotificationTone | null {
+  if (typeof value !== "string") {
+    return null;
+  }
+  if (BUILT_IN_TONES.includes(value as BuiltInTone)) {
+    return value as BuiltInTone;
+  }
+  if (value.startsWith("custom:") && value.length > "custom:".length) {
+    return value as CustomToneId;
+  }
+  return LEGACY_TONES[value] ?? null;
+}
+
+function parseTravelPlace(value: any): TravelPlace | null {
+  return typeof value?.query === "string" &&
+    typeof value?.label === "string" &&
+    typeof value?.lat === "number" &&
+    typeof value?.lon === "number"
+    ? { query: value.query, label: value.label, lat: value.lat, lon: value.lon }
+    : null;
+}
+
+function parseLocationTimings(value: any): LocationTimings | null {
+  const provider = value?.provider;
+  return (provider === "diyanet" || provider === "aladhan" || provider === "astronomical") &&
+    typeof value.methodId === "number" &&
+    typeof value.methodName === "string"
+    ? { provider, methodId: value.methodId, methodName: value.methodName }
+    : null;
+}
+
+function parseSavedLocation(value: any): SavedLocation | null {
+  const place = parseTravelPlace(value);
+  if (!place || typeof value?.id !== "string") {
+    return null;
+  }
+  return {
+    id: value.id,
+    ...place,
+    timeZone: typeof value.timeZone === "string" ? value.timeZone : null,
+    timings: parseLocationTimings(value.timings)
+  };
+}
+
+function parseTravelActive(value: any): TravelSettings["active"] {
+  const place = parseTravelPlace(value?.place);
+  return place && typeof value?.since === "string" ? { place, since: value.since } : null;
+}
+
 function createDefaultSettings(): Settings {
   return {
     timingsProvider: "diyanet",
     methodId: 3,
     methodName: "Diyanet Official API",
-    hanafiOnly: true,
+    asrSchool: "hanafi",
+    tuneOffsets: PRAYER_NAMES.reduce((acc, prayer) => {
+      acc[prayer] = 0;
+      return acc;
+    }, {} as TuneOffsets),
+    highLatitudeRule: "angle_based",
+    ramadan: {
+      mode: "auto",
+      imsakMarginMinutes: 10,
+      suhoorReminder: true,
+      suhoorMinutesBefore: 30,
+      iftarReminder: true
+    },
+    hijriAdjustmentDays: 0,
+    extraTimes: EXTRA_TIME_NAMES.reduce((acc, name) => {
+      acc[name] = { enabled: false, notify: false };
+      return acc;
+    }, {} as Settings["extraTimes"]),
+    jumuah: {
+      enabled: false,
+      khutbahTimes: {},
+      leaveBufferMinutes: 10,
+      kahfReminder: false,
+      kahfReminderTime: "09:00"
+    },
+    iqamah: {
+      schedules: {},
+      showOnHome: true,
+      notifyAtIqamah: false
+    },
+    quiet: {
+      hours: { enabled: false, start: "23:00", end: "05:00", exceptPrayers: ["Fajr"] },
+      mosque: { enabled: false, radiusMeters: 200 }
+    },
+    travel: {
+      detect: true,
+      distanceKm: 80,
+      combineHints: false,
+      home: null,
+      active: null,
+      declined: null
+    },
+    savedLocations: [],
+    activeLocationId: null,
+    baseTimings: null,
+    watchLocationId: null,
     locationMode: "gps",
     prayerNotifications: PRAYER_NAMES.reduce((acc, prayer) => {
       acc[prayer] = {
@@ -105,6 +309,8 @@ function createDefaultSettings(): Settings {
         minutesBefore: 0,
         playSound: true,
         tone: "Beep",
+        fullAdhan: false,
+        endWarningMinutes: 0,
         volume: 75,
         vibration: true
       };
@@ -124,7 +330,9 @@ export async function getSettings(): Promise<Settings> {
     const defaults = createDefaultSettings();
     const parsedProvider = (parsed as any).timingsProvider ?? (parsed as any).provider;
     const resolvedProvider =
-      parsedProvider === "diyanet" || parsedProvider === "aladhan" ? parsedProvider : defaults.timingsProvider;
+      parsedProvider === "diyanet" || parsedProvider === "aladhan" || parsedProvider === "astronomical"
+        ? parsedProvider
+        : defaults.timingsProvider;
 
     return {
       timingsProvider: resolvedProvider,
@@ -140,10 +348,144 @@ export async function getSettings(): Promise<Settings> {
           : resolvedProvider === "diyanet"
             ? "Diyanet Official API"
           : defaults.methodName,
-      hanafiOnly:
-        typeof (parsed as any).hanafiOnly === "boolean"
-          ? (parsed as any).hanafiOnly
-          : defaults.hanafiOnly,
+      asrSchool:
+        (parsed as any).asrSchool === "standard" || (parsed as any).asrSchool === "hanafi"
+          ? (parsed as any).asrSchool
+          : (parsed as any).hanafiOnly === false
+            ? "standard"
+            : defaults.asrSchool,
+      tuneOffsets: PRAYER_NAMES.reduce((acc, prayer) => {
+        const value = (parsed as any).tuneOffsets?.[prayer];
+        acc[prayer] =
+          typeof value === "number" && Number.isInteger(value) && Math.abs(value) <= MAX_TUNE_OFFSET_MINUTES
+            ? value
+            : defaults.tuneOffsets[prayer];
+        return acc;
+      }, {} as TuneOffsets),
+      highLatitudeRule:
+        (parsed as any).highLatitudeRule === "middle_of_night" ||
+        (parsed as any).highLatitudeRule === "one_seventh" ||
+        (parsed as any).highLatitudeRule === "angle_based"
+          ? (parsed as any).highLatitudeRule
+          : defaults.highLatitudeRule,
+      ramadan: {
+        mode:
+          (parsed as any).ramadan?.mode === "auto" ||
+          (parsed as any).ramadan?.mode === "on" ||
+          (parsed as any).ramadan?.mode === "off"
+            ? (parsed as any).ramadan.mode
+            : defaults.ramadan.mode,
+        imsakMarginMinutes: [0, 5, 10, 15, 20].includes((parsed as any).ramadan?.imsakMarginMinutes)
+          ? (parsed as any).ramadan.imsakMarginMinutes
+          : defaults.ramadan.imsakMarginMinutes,
+        suhoorReminder:
+          typeof (parsed as any).ramadan?.suhoorReminder === "boolean"
+            ? (parsed as any).ramadan.suhoorReminder
+            : defaults.ramadan.suhoorReminder,
+        suhoorMinutesBefore: [0, 15, 30, 45, 60].includes((parsed as any).ramadan?.suhoorMinutesBefore)
+          ? (parsed as any).ramadan.suhoorMinutesBefore
+          : defaults.ramadan.suhoorMinutesBefore,
+        iftarReminder:
+          typeof (parsed as any).ramadan?.iftarReminder === "boolean"
+            ? (parsed as any).ramadan.iftarReminder
+            : defaults.ramadan.iftarReminder
+      },
+      hijriAdjustmentDays: [-2, -1, 0, 1, 2].includes((parsed as any).hijriAdjustmentDays)
+        ? (parsed as any).hijriAdjustmentDays
+        : defaults.hijriAdjustmentDays,
+      extraTimes: EXTRA_TIME_NAMES.reduce((acc, name) => {
+        const value = (parsed as any).extraTimes?.[name];
+        acc[name] = {
+          enabled: typeof value?.enabled === "boolean" ? value.enabled : defaults.extraTimes[name].enabled,
+          notify: typeof value?.notify === "boolean" ? value.notify : defaults.extraTimes[name].notify
+        };
+        return acc;
+      }, {} as Settings["extraTimes"]),
+      jumuah: {
+        enabled:
+          typeof (parsed as any).jumuah?.enabled === "boolean"
+            ? (parsed as any).jumuah.enabled
+            : defaults.jumuah.enabled,
+        khutbahTimes: Object.fromEntries(
+          Object.entries((parsed as any).jumuah?.khutbahTimes ?? {}).filter(
+            (entry): entry is [string, string] => typeof entry[1] === "string" && /^\d{2}:\d{2}$/.test(entry[1])
+          )
+        ),
+        leaveBufferMinutes: [0, 5, 10, 15, 30].includes((parsed as any).jumuah?.leaveBufferMinutes)
+          ? (parsed as any).jumuah.leaveBufferMinutes
+          : defaults.jumuah.leaveBufferMinutes,
+        kahfReminder:
+          typeof (parsed as any).jumuah?.kahfReminder === "boolean"
+            ? (parsed as any).jumuah.kahfReminder
+            : defaults.jumuah.kahfReminder,
+        kahfReminderTime: ["08:00", "09:00", "10:00", "11:00"].includes((parsed as any).jumuah?.kahfReminderTime)
+          ? (parsed as any).jumuah.kahfReminderTime
+          : defaults.jumuah.kahfReminderTime
+      },
+      iqamah: {
+        schedules: Object.fromEntries(
+          Object.entries((parsed as any).iqamah?.schedules ?? {})
+            .map(([id, value]) => [id, sanitizeIqamahSchedule(value)])
+            .filter((entry): entry is [string, IqamahSchedule] => entry[1] !== null)
+        ),
+        showOnHome:
+          typeof (parsed as any).iqamah?.showOnHome === "boolean"
+            ? (parsed as any).iqamah.showOnHome
+            : defaults.iqamah.showOnHome,
+        notifyAtIqamah:
+          typeof (parsed as any).iqamah?.notifyAtIqamah === "boolean"
+            ? (parsed as any).iqamah.notifyAtIqamah
+            : defaults.iqamah.notifyAtIqamah
+      },
+      quiet: {
+        hours: {
+          enabled:
+            typeof (parsed as any).quiet?.hours?.enabled === "boolean"
+              ? (parsed as any).quiet.hours.enabled
+              : defaults.quiet.hours.enabled,
+          start: /^\d{2}:\d{2}$/.test((parsed as any).quiet?.hours?.start)
+            ? (parsed as any).quiet.hours.start
+            : defaults.quiet.hours.start,
+          end: /^\d{2}:\d{2}$/.test((parsed as any).quiet?.hours?.end)
+            ? (parsed as any).quiet.hours.end
+            : defaults.quiet.hours.end,
+          exceptPrayers: Array.isArray((parsed as any).quiet?.hours?.exceptPrayers)
+            ? PRAYER_NAMES.filter((prayer) => (parsed as any).quiet.hours.exceptPrayers.includes(prayer))
+            : defaults.quiet.hours.exceptPrayers
+        },
+        mosque: {
+          enabled:
+            typeof (parsed as any).quiet?.mosque?.enabled === "boolean"
+              ? (parsed as any).quiet.mosque.enabled
+              : defaults.quiet.mosque.enabled,
+          radiusMeters: [100, 200, 300, 500].includes((parsed as any).quiet?.mosque?.radiusMeters)
+            ? (parsed as any).quiet.mosque.radiusMeters
+            : defaults.quiet.mosque.radiusMeters
+        }
+      },
+      travel: {
+        detect:
+          typeof (parsed as any).travel?.detect === "boolean" ? (parsed as any).travel.detect : defaults.travel.detect,
+        distanceKm: [80, 100, 150].includes((parsed as any).travel?.distanceKm)
+          ? (parsed as any).travel.distanceKm
+          : defaults.travel.distanceKm,
+        combineHints:
+          typeof (parsed as any).travel?.combineHints === "boolean"
+            ? (parsed as any).travel.combineHints
+            : defaults.travel.combineHints,
+        home: parseTravelPlace((parsed as any).travel?.home),
+        active: parseTravelActive((parsed as any).travel?.active),
+        declined: parseTravelPlace((parsed as any).travel?.declined)
+      },
+      savedLocations: Array.isArray((parsed as any).savedLocations)
+        ? (parsed as any).savedLocations
+            .map(parseSavedLocation)
+            .filter((item: SavedLocation | null): item is SavedLocation => item !== null)
+        : defaults.savedLocations,
+      activeLocationId:
+        typeof (parsed as any).activeLocationId === "string" ? (parsed as any).activeLocationId : null,
+      baseTimings: parseLocationTimings((parsed as any).baseTimings),
+      watchLocationId: typeof (parsed as any).watchLocationId === "string" ? (parsed as any).watchLocationId : null,
       locationMode:
         (parsed as any).locationMode === "manual" || (parsed as any).locationMode === "gps"
           ? (parsed as any).locationMode
@@ -157,7 +499,10 @@ export async function getSettings(): Promise<Settings> {
               query: (parsed as any).manualLocation.query,
               label: (parsed as any).manualLocation.label,
               lat: (parsed as any).manualLocation.lat,
-              lon: (parsed as any).manualLocation.lon
+              lon: (parsed as any).manualLocation.lon,
+              ...(typeof (parsed as any).manualLocation.timeZone === "string"
+                ? { timeZone: (parsed as any).manualLocation.timeZone }
+                : {})
             }
           : undefined,
       prayerNotifications: PRAYER_NAMES.reduce((acc, prayer) => {
@@ -176,14 +521,16 @@ export async function getSettings(): Promise<Settings> {
             typeof value?.playSound === "boolean"
               ? value.playSound
               : defaults.prayerNotifications[prayer].playSound,
-          tone:
-            value?.tone === "Beep"
-              ? "Beep"
-              : value?.tone === "Adhan" ||
-                  value?.tone === "Adhan - Makkah (Normal)" ||
-                  value?.tone === "Adhan - Madinah (Soft)"
-                ? "Adhan"
-                : defaults.prayerNotifications[prayer].tone,
+          tone: parseNotificationTone(value?.tone) ?? defaults.prayerNotifications[prayer].tone,
+          // Earlier builds always followed a recitation tone with the full adhan when the alert was opened.
+          fullAdhan:
+            typeof value?.fullAdhan === "boolean"
+              ? value.fullAdhan
+              : prayer !== "Sunrise" && (parseNotificationTone(value?.tone) ?? "Beep") !== "Beep",
+          endWarningMinutes:
+            prayer !== "Sunrise" && [0, 10, 15, 20, 30].includes(value?.endWarningMinutes as number)
+              ? (value?.endWarningMinutes as PrayerNotificationSetting["endWarningMinutes"])
+              : defaults.prayerNotifications[prayer].endWarningMinutes,
           volume:
             typeof value?.volume === "number" && value.volume >= 0 && value.volume <= 100
               ? value.volume
@@ -203,6 +550,62 @@ export async function getSettings(): Promise<Settings> {
 
 export async function saveSettings(settings: Settings): Promise<void> {
   await AsyncStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+  try {
+    await pruneTimingsCache(settings);
+  } catch {
+    // A failed cleanup only leaves old rows behind; the settings themselves are saved.
+  }
+}
+
+// Every settings combination that can still be read: the app-wide one plus each saved location's override.
+function getTimingsCacheSuffixes(settings: Settings): string[] {
+  const sources = [
+    { provider: settings.timingsProvider, methodId: settings.methodId },
+    ...(settings.baseTimings ? [settings.baseTimings] : []),
+    ...settings.savedLocations.flatMap((location) => (location.timings ? [location.timings] : []))
+  ];
+  const suffixes = sources.map((source) =>
+    buildTimingsCacheSuffix(
+      source.provider,
+      source.methodId,
+      settings.asrSchool,
+      settings.tuneOffsets,
+      settings.highLatitudeRule
+    )
+  );
+  return Array.from(new Set(suffixes));
+}
+
+/**
+ * Cache keys embed the provider, method, Asr school, tune offsets and high-latitude rule, so a
+ * settings change leaves the old rows unreachable. They are removed once per change of that set.
+ */
+async function pruneTimingsCache(settings: Settings): Promise<void> {
+  const suffixes = getTimingsCacheSuffixes(settings);
+  const signature = [...suffixes].sort().join("|");
+  if ((await AsyncStorage.getItem(TIMINGS_CACHE_SUFFIXES_KEY)) === signature) {
+    return;
+  }
+
+  const stale = (await AsyncStorage.getAllKeys()).filter(
+    (key) =>
+      key.startsWith("timings:") && key !== LATEST_CACHE_KEY && !suffixes.some((suffix) => key.endsWith(suffix))
+  );
+  if (stale.length > 0) {
+    await AsyncStorage.multiRemove(stale);
+  }
+  await AsyncStorage.setItem(TIMINGS_CACHE_SUFFIXES_KEY, signature);
+}
+
+function buildTimingsCacheSuffix(
+  provider: TimingsProvider,
+  methodId: number,
+  asrSchool: AsrSchool,
+  tuneOffsets?: Partial<TuneOffsets>,
+  highLatitudeRule: HighLatitudeRule = "angle_based"
+): string {
+  const tune = PRAYER_NAMES.map((prayer) => tuneOffsets?.[prayer] ?? 0).join(",");
+  return `:p${provider}:m${methodId}:s${asrSchool}:t${tune}:h${highLatitudeRule}`;
 }
 
 export function buildTimingsCacheKey(
@@ -210,11 +613,28 @@ export function buildTimingsCacheKey(
   lat: number,
   lon: number,
   methodId: number,
-  provider: "aladhan" | "diyanet" = "aladhan"
+  provider: TimingsProvider = "aladhan",
+  asrSchool: AsrSchool = "hanafi",
+  tuneOffsets?: Partial<TuneOffsets>,
+  highLatitudeRule?: HighLatitudeRule
 ): string {
   const latRounded = Number(lat.toFixed(2));
   const lonRounded = Number(lon.toFixed(2));
-  return `timings:${dateKey}:${latRounded}:${lonRounded}:p${provider}:m${methodId}`;
+  const suffix = buildTimingsCacheSuffix(provider, methodId, asrSchool, tuneOffsets, highLatitudeRule);
+  return `timings:${dateKey}:${latRounded}:${lonRounded}${suffix}`;
+}
+
+export function buildTimingsCacheKeyForSettings(dateKey: string, lat: number, lon: number, settings: Settings): string {
+  return buildTimingsCacheKey(
+    dateKey,
+    lat,
+    lon,
+    settings.methodId,
+    settings.timingsProvider,
+    settings.asrSchool,
+    settings.tuneOffsets,
+    settings.highLatitudeRule
+  );
 }
 
 export async function getCachedTimings(key: string): Promise<CachedTimings | null> {
@@ -255,11 +675,14 @@ export async function getLatestCachedTimings(): Promise<CachedTimings | null> {
 
 export async function getCachedTimingsForDate(
   dateKey: string,
-  provider: "aladhan" | "diyanet",
-  methodId: number
+  provider: TimingsProvider,
+  methodId: number,
+  asrSchool: AsrSchool = "hanafi",
+  tuneOffsets?: Partial<TuneOffsets>,
+  highLatitudeRule?: HighLatitudeRule
 ): Promise<CachedTimings | null> {
   const prefix = `timings:${dateKey}:`;
-  const suffix = `:p${provider}:m${methodId}`;
+  const suffix = buildTimingsCacheSuffix(provider, methodId, asrSchool, tuneOffsets, highLatitudeRule);
 
   const keys = (await AsyncStorage.getAllKeys()).filter(
     (key) => key.startsWith(prefix) && key.endsWith(suffix)
@@ -276,7 +699,7 @@ export async function getCachedTimingsForDate(
     }
     try {
       const parsed = JSON.parse(raw);
-      if (!isValidCachedTimings(parsed, { dateKey, provider, methodId })) {
+      if (!isValidCachedTimings(parsed, { dateKey, provider, methodId, asrSchool })) {
         continue;
       }
 
@@ -364,6 +787,34 @@ export async function saveHomeDateMode(mode: HomeDateMode): Promise<void> {
   await AsyncStorage.setItem(HOME_DATE_MODE_KEY, mode);
 }
 
+/** Returns null until the user picks a value, so the calendar can default by app language. */
+export async function getShowKandilNights(): Promise<boolean | null> {
+  const value = await AsyncStorage.getItem(HIJRI_SHOW_KANDILS_KEY);
+  if (value === "1") {
+    return true;
+  }
+  if (value === "0") {
+    return false;
+  }
+  return null;
+}
+
+export async function saveShowKandilNights(show: boolean): Promise<void> {
+  await AsyncStorage.setItem(HIJRI_SHOW_KANDILS_KEY, show ? "1" : "0");
+}
+
+export async function getConsensusThresholdMinutes(): Promise<ConsensusThresholdMinutes> {
+  const value = Number(await AsyncStorage.getItem(CONSENSUS_THRESHOLD_KEY));
+  if (value === 2 || value === 5 || value === 10) {
+    return value;
+  }
+  return 5;
+}
+
+export async function saveConsensusThresholdMinutes(minutes: ConsensusThresholdMinutes): Promise<void> {
+  await AsyncStorage.setItem(CONSENSUS_THRESHOLD_KEY, String(minutes));
+}
+
 export async function getOnboardingSeen(): Promise<boolean> {
   const value = await AsyncStorage.getItem(ONBOARDING_SEEN_KEY);
   return value === "1";
@@ -462,6 +913,47 @@ export async function setMosquesFavorites(ids: string[]): Promise<void> {
   await AsyncStorage.setItem(MOSQUES_FAVORITES_KEY, JSON.stringify(unique));
 }
 
+async function getFavoriteMosqueDetails(): Promise<Record<string, FavoriteMosque>> {
+  const raw = await AsyncStorage.getItem(MOSQUES_FAVORITE_DETAILS_KEY);
+  if (!raw) {
+    return {};
+  }
+
+  try {
+    const parsed = JSON.parse(raw) as Record<string, Partial<FavoriteMosque>>;
+    return Object.fromEntries(
+      Object.entries(parsed ?? {}).flatMap(([id, value]) =>
+        value?.id === id &&
+        typeof value.name === "string" &&
+        typeof value.lat === "number" &&
+        typeof value.lon === "number"
+          ? [[id, { id, name: value.name, lat: value.lat, lon: value.lon }]]
+          : []
+      )
+    );
+  } catch {
+    return {};
+  }
+}
+
+/** Remembers where favorited mosques are, so rules can use them without a fresh Overpass query. */
+export async function saveFavoriteMosqueDetails(mosques: FavoriteMosque[]): Promise<void> {
+  if (mosques.length === 0) {
+    return;
+  }
+  const details = await getFavoriteMosqueDetails();
+  for (const mosque of mosques) {
+    details[mosque.id] = { id: mosque.id, name: mosque.name, lat: mosque.lat, lon: mosque.lon };
+  }
+  await AsyncStorage.setItem(MOSQUES_FAVORITE_DETAILS_KEY, JSON.stringify(details));
+}
+
+/** Favorited mosques whose position is known; favorites not seen in a search since are left out. */
+export async function getFavoriteMosques(): Promise<FavoriteMosque[]> {
+  const [ids, details] = await Promise.all([getMosquesFavorites(), getFavoriteMosqueDetails()]);
+  return ids.flatMap((id) => (details[id] ? [details[id]] : []));
+}
+
 export async function getDefaultMosqueId(): Promise<string | null> {
   const raw = await AsyncStorage.getItem(MOSQUES_DEFAULT_KEY);
   if (!raw) {
@@ -478,13 +970,55 @@ export async function getDefaultMosqueId(): Promise<string | null> {
 
 export async function setDefaultMosqueId(id: string | null): Promise<void> {
   if (!id) {
-    await AsyncStorage.removeItem(MOSQUES_DEFAULT_KEY);
+    await AsyncStorage.multiRemove([MOSQUES_DEFAULT_KEY, MOSQUES_DEFAULT_DETAILS_KEY]);
     return;
   }
 
   await AsyncStorage.setItem(MOSQUES_DEFAULT_KEY, JSON.stringify(id));
 }
 
+export async function setDefaultMosque(mosque: DefaultMosque | null): Promise<void> {
+  if (!mosque) {
+    await setDefaultMosqueId(null);
+    return;
+  }
+
+  const details: DefaultMosque = {
+    id: mosque.id,
+    name: mosque.name,
+    lat: mosque.lat,
+    lon: mosque.lon,
+    distanceKm: mosque.distanceKm
+  };
+  await AsyncStorage.multiSet([
+    [MOSQUES_DEFAULT_KEY, JSON.stringify(mosque.id)],
+    [MOSQUES_DEFAULT_DETAILS_KEY, JSON.stringify(details)]
+  ]);
+}
+
+export async function getDefaultMosque(): Promise<DefaultMosque | null> {
+  const [id, raw] = await Promise.all([getDefaultMosqueId(), AsyncStorage.getItem(MOSQUES_DEFAULT_DETAILS_KEY)]);
+  if (!id || !raw) {
+    return null;
+  }
+
+  try {
+    const parsed = JSON.parse(raw) as Partial<DefaultMosque>;
+    if (
+      parsed.id !== id ||
+      typeof parsed.name !== "string" ||
+      typeof parsed.lat !== "number" ||
+      typeof parsed.lon !== "number" ||
+      typeof parsed.distanceKm !== "number"
+    ) {
+      return null;
+    }
+    return { id, name: parsed.name, lat: parsed.lat, lon: parsed.lon, distanceKm: parsed.distanceKm };
+  } catch {
+    return null;
+  }
+}
+
 function sanitizeContentFavorite(value: Partial<ContentFavorite> | undefined): ContentFavorite | null {
   if (!value || typeof value !== "object") {
     return null;
@@ -1092,12 +1626,228 @@ export async function saveQazaState(state: QazaStateV2): Promise<void> {
   await AsyncStorage.setItem(QAZA_STATE_V2_KEY, JSON.stringify(sanitized));
 }
 
-export async function appendQazaEvent(event: QazaEvent): Promise<void> {
+function toQazaSnapshot(state: QazaStateV2): QazaSnapshot {
+  return { remaining: { ...state.remaining }, completed: state.completed, goal: state.goal };
+}
+
+/**
+ * Appends an event to the qaza history. With `apply`, the counters are updated in the same write and
+ * the event gets before/after snapshots like changes made on the qaza screen. Events are keyed by id,
+ * so appending the same event twice (e.g. a notification action delivered twice) is a no-op.
+ */
+export async function appendQazaEvent(
+  event: QazaEvent,
+  apply?: (state: QazaStateV2) => QazaStateV2
+): Promise<void> {
   const state = await getQazaState();
+  if (state.events.some((item) => item.id === event.id)) {
+    return;
+  }
+  const updated = apply ? apply(state) : state;
+  const recorded: QazaEvent = apply
+    ? { ...event, snapshotBefore: toQazaSnapshot(state), snapshotAfter: toQazaSnapshot(updated) }
+    : event;
   const next: QazaStateV2 = {
-    ...state,
-    events: [...state.events, event].slice(-QAZA_MAX_EVENTS),
+    ...updated,
+    events: [...state.events, recorded].slice(-QAZA_MAX_EVENTS),
     updatedAt: Date.now()
   };
   await saveQazaState(next);
 }
+
+const PRAYER_LOG_MAX_DAYS = 400;
+
+function sanitizePrayerLogEntry(raw: Partial<PrayerLogEntry> | undefined): PrayerLogEntry | null {
+  if (!raw || (raw.status !== "prayed" && raw.status !== "missed")) {
+    return null;
+  }
+  return {
+    status: raw.status,
+    at: typeof raw.at === "number" && Number.isFinite(raw.at) ? raw.at : Date.now(),
+    prayedAt: typeof raw.prayedAt === "number" && Number.isFinite(raw.prayedAt) ? raw.prayedAt : undefined,
+    qazaTransferred: raw.qazaTransferred === true ? true : undefined
+  };
+}
+
+function sanitizePrayerLog(raw: unknown): PrayerLog {
+  const log: PrayerLog = {};
+  if (!raw || typeof raw !== "object") {
+    return log;
+  }
+
+  const dateKeys = Object.keys(raw)
+    .filter((key) => /^\d{2}-\d{2}-\d{4}$/.test(key))
+    .sort((a, b) => parseDateKey(b).getTime() - parseDateKey(a).getTime())
+    .slice(0, PRAYER_LOG_MAX_DAYS);
+  for (const dateKey of dateKeys) {
+    const rawDay = (raw as Record<string, Partial<Record<TrackedPrayer, Partial<PrayerLogEntry>>>>)[dateKey] ?? {};
+    const day: PrayerLogDay = {};
+    for (const prayer of TRACKED_PRAYERS) {
+      const entry = sanitizePrayerLogEntry(rawDay[prayer]);
+      if (entry) {
+        day[prayer] = entry;
+      }
+    }
+    if (Object.keys(day).length > 0) {
+      log[dateKey] = day;
+    }
+  }
+  return log;
+}
+
+export async function getPrayerLog(): Promise<PrayerLog> {
+  const raw = await AsyncStorage.getItem(PRAYER_LOG_KEY);
+  if (!raw) {
+    return {};
+  }
+
+  try {
+    return sanitizePrayerLog(JSON.parse(raw));
+  } catch {
+    return {};
+  }
+}
+
+/** Sets or clears (`null`) one prayer of one day and returns the updated log. */
+export async function setPrayerLogEntry(
+  dateKey: string,
+  prayer: TrackedPrayer,
+  entry: PrayerLogEntry | null
+): Promise<PrayerLog> {
+  const log = await getPrayerLog();
+  const day: PrayerLogDay = { ...log[dateKey] };
+  if (entry) {
+    day[prayer] = entry;
+  } else {
+    delete day[prayer];
+  }
+
+  const next = sanitizePrayerLog({ ...log, [dateKey]: day });
+  await AsyncStorage.setItem(PRAYER_LOG_KEY, JSON.stringify(next));
+  return next;
+}
+
+function sanitizeCustomTone(value: Partial<CustomTone> | undefined): CustomTone | null {
+  if (!value || typeof value.fileName !== "string" || value.fileName.length === 0) {
+    return null;
+  }
+  return {
+    id: `custom:${value.fileName}`,
+    name: typeof value.name === "string" && value.name.trim() ? value.name.trim() : value.fileName,
+    fileName: value.fileName,
+    durationSeconds:
+      typeof value.durationSeconds === "number" && Number.isFinite(value.durationSeconds) ? value.durationSeconds : 0,
+    trimmed: value.trimmed === true,
+    importedAt: typeof value.importedAt === "number" ? value.importedAt : Date.now()
+  };
+}
+
+export async function getCustomTones(): Promise<CustomTone[]> {
+  const raw = await AsyncStorage.getItem(CUSTOM_TONES_KEY);
+  if (!raw) {
+    return [];
+  }
+
+  try {
+    const parsed = JSON.parse(raw);
+    if (!Array.isArray(parsed)) {
+      return [];
+    }
+    return parsed
+      .map((item) => sanitizeCustomTone(item))
+      .filter((item): item is CustomTone => item !== null);
+  } catch {
+    return [];
+  }
+}
+
+export async function saveCustomTones(tones: CustomTone[]): Promise<void> {
+  await AsyncStorage.setItem(CUSTOM_TONES_KEY, JSON.stringify(tones));
+}
+
+const AUDIT_MAX_REPLANS = 12;
+const AUDIT_MAX_DELIVERIES = 300;
+
+// Listeners, the background task and replans all append; queueing keeps one read-modify-write at a time.
+let auditWriteQueue: Promise<void> = Promise.resolve();
+
+export async function getNotificationAudit(): Promise<NotificationAudit> {
+  const raw = await AsyncStorage.getItem(NOTIFICATION_AUDIT_KEY);
+  if (!raw) {
+    return { replans: [], deliveries: [] };
+  }
+
+  try {
+    const parsed = JSON.parse(raw) as Partial<NotificationAudit>;
+    return {
+      replans: Array.isArray(parsed.replans) ? parsed.replans : [],
+      deliveries: Array.isArray(parsed.deliveries) ? parsed.deliveries : []
+    };
+  } catch {
+    return { replans: [], deliveries: [] };
+  }
+}
+
+function updateNotificationAudit(update: (audit: NotificationAudit) => NotificationAudit): Promise<void> {
+  auditWriteQueue = auditWriteQueue
+    .catch(() => undefined)
+    .then(async () => {
+      const next = update(await getNotificationAudit());
+      await AsyncStorage.setItem(
+        NOTIFICATION_AUDIT_KEY,
+        JSON.stringify({
+          replans: next.replans.slice(-AUDIT_MAX_REPLANS),
+          deliveries: next.deliveries.slice(-AUDIT_MAX_DELIVERIES)
+        })
+      );
+    });
+  return auditWriteQueue;
+}
+
+export function appendReplanAudit(entry: ReplanAuditEntry): Promise<void> {
+  return updateNotificationAudit((audit) => ({ ...audit, replans: [...audit.replans, entry] }));
+}
+
+/** Records deliveries once per identifier and event, so re-reading the tray adds nothing new. */
+export function appendDeliveryAudit(entries: DeliveryAuditEntry[]): Promise<void> {
+  return updateNotificationAudit((audit) => {
+    const deliveryKey = (item: DeliveryAuditEntry) => `${item.identifier}:${item.event}:${item.action ?? ""}`;
+    const known = new Set(audit.deliveries.map(deliveryKey));
+    const added: DeliveryAuditEntry[] = [];
+    for (const item of entries) {
+      if (!known.has(deliveryKey(item))) {
+        known.add(deliveryKey(item));
+        added.push(item);
+      }
+    }
+    return added.length > 0 ? { ...audit, deliveries: [...audit.deliveries, ...added] } : audit;
+  });
+}
+
+export function clearNotificationAudit(): Promise<void> {
+  return updateNotificationAudit(() => ({ replans: [], deliveries: [] }));
+}
+
+const CALIBRATION_MAX_RECORDS = 20;
+
+export async function getCompassCalibrationHistory(): Promise<CompassCalibrationRecord[]> {
+  const raw = await AsyncStorage.getItem(COMPASS_CALIBRATION_KEY);
+  if (!raw) {
+    return [];
+  }
+
+  try {
+    const parsed = JSON.parse(raw);
+    return Array.isArray(parsed) ? (parsed as CompassCalibrationRecord[]) : [];
+  } catch {
+    return [];
+  }
+}
+
+export async function appendCompassCalibration(record: CompassCalibrationRecord): Promise<void> {
+  const history = await getCompassCalibrationHistory();
+  await AsyncStorage.setItem(
+    COMPASS_CALIBRATION_KEY,
+    JSON.stringify([...history, record].slice(-CALIBRATION_MAX_RECORDS))
+  );
+}
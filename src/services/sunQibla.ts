@@ -0,0 +1,111 @@
+import { sunPosition } from "@/services/astronomical";
+
+// Below this the sun is too close to the horizon (or hidden) to stand in for a compass.
+export const MIN_USABLE_SUN_ALTITUDE = 3;
+// Within this many degrees the sun counts as straight ahead or straight behind.
+const AHEAD_TOLERANCE = 10;
+const SCAN_STEP_MINUTES = 2;
+
+export interface SunPlacement {
+  azimuth: number;
+  altitude: number;
+}
+
+export type SunQiblaGuidance =
+  | { kind: "below_horizon" }
+  | { kind: "ahead" }
+  | { kind: "behind" }
+  | { kind: "side"; side: "left" | "right"; degrees: number };
+
+export interface SunAlignment {
+  // "toward": the sun stands over the Qibla. "away": it is opposite, so shadows point to the Qibla.
+  kind: "toward" | "away";
+  at: Date;
+}
+
+const dtr = (deg: number) => (deg * Math.PI) / 180;
+const rtd = (rad: number) => (rad * 180) / Math.PI;
+
+function signedDiff(from: number, to: number): number {
+  return ((to - from + 540) % 360) - 180;
+}
+
+/** Sun azimuth (clockwise from true north) and altitude above the horizon, both in degrees. */
+export function getSunPlacement(date: Date, lat: number, lon: number): SunPlacement {
+  const jd = date.getTime() / 86400000 + 2440587.5;
+  const { declination, equationOfTime } = sunPosition(jd);
+  const utcHours = (date.getTime() % 86400000) / 3600000;
+  const hourAngle = dtr(15 * (utcHours + lon / 15 + equationOfTime - 12));
+
+  const phi = dtr(lat);
+  const delta = dtr(declination);
+  const altitude = Math.asin(
+    Math.sin(phi) * Math.sin(delta) + Math.cos(phi) * Math.cos(delta) * Math.cos(hourAngle)
+  );
+  const azimuth = Math.atan2(
+    -Math.cos(delta) * Math.sin(hourAngle),
+    Math.sin(delta) * Math.cos(phi) - Math.cos(delta) * Math.cos(hourAngle) * Math.sin(phi)
+  );
+  return { azimuth: (rtd(azimuth) + 360) % 360, altitude: rtd(altitude) };
+}
+
+/** Where the sun sits for someone already facing the Qibla. */
+export function getSunQiblaGuidance(qiblaBearing: number, sun: SunPlacement): SunQiblaGuidance {
+  if (sun.altitude < MIN_USABLE_SUN_ALTITUDE) {
+    return { kind: "below_horizon" };
+  }
+  const relative = signedDiff(qiblaBearing, sun.azimuth);
+  if (Math.abs(relative) <= AHEAD_TOLERANCE) {
+    return { kind: "ahead" };
+  }
+  if (Math.abs(relative) >= 180 - AHEAD_TOLERANCE) {
+    return { kind: "behind" };
+  }
+  return { kind: "side", side: relative > 0 ? "right" : "left", degrees: Math.round(Math.abs(relative)) };
+}
+
+function findCrossing(start: Date, end: Date, target: number, lat: number, lon: number): Date {
+  let low = start.getTime();
+  let high = end.getTime();
+  const lowSign = Math.sign(signedDiff(target, getSunPlacement(start, lat, lon).azimuth));
+  while (high - low > 1000) {
+    const middle = (low + high) / 2;
+    const sign = Math.sign(signedDiff(target, getSunPlacement(new Date(middle), lat, lon).azimuth));
+    if (sign === lowSign) {
+      low = middle;
+    } else {
+      high = middle;
+    }
+  }
+  return new Date(Math.round((low + high) / 2));
+}
+
+/** Today's daylight moments when the sun lines up with the Qibla or stands exactly opposite it. */
+export function getSunQiblaAlignments(day: Date, lat: number, lon: number, qiblaBearing: number): SunAlignment[] {
+  const start = new Date(day.getFullYear(), day.getMonth(), day.getDate());
+  const targets: { kind: SunAlignment["kind"]; azimuth: number }[] = [
+    { kind: "toward", azimuth: qiblaBearing },
+    { kind: "away", azimuth: (qiblaBearing + 180) % 360 }
+  ];
+  const alignments: SunAlignment[] = [];
+
+  let previous = start;
+  let previousSun = getSunPlacement(previous, lat, lon);
+  for (let minute = SCAN_STEP_MINUTES; minute <= 24 * 60; minute += SCAN_STEP_MINUTES) {
+    const current = new Date(start.getTime() + minute * 60000);
+    const currentSun = getSunPlacement(current, lat, lon);
+    if (previousSun.altitude >= MIN_USABLE_SUN_ALTITUDE && currentSun.altitude >= MIN_USABLE_SUN_ALTITUDE) {
+      for (const target of targets) {
+        const before = signedDiff(target.azimuth, previousSun.azimuth);
+        const after = signedDiff(target.azimuth, currentSun.azimuth);
+        // A jump across ±180 is the opposite direction wrapping around, not a crossing.
+        if (Math.sign(before) !== Math.sign(after) && Math.abs(before - after) < 90) {
+          alignments.push({ kind: target.kind, at: findCrossing(previous, current, target.azimuth, lat, lon) });
+        }
+      }
+    }
+    previous = current;
+    previousSun = currentSun;
+  }
+  return alignments;
+}
@@ -0,0 +1,260 @@
+import { File, Paths } from "expo-file-system";
+import * as Print from "expo-print";
+import * as Sharing from "expo-sharing";
+import { getMonthlyCacheSnapshot, MonthlyTimingsRow, prefetchMonthTimings } from "@/services/timingsCache";
+import { PRAYER_NAMES, PrayerName, Settings } from "@/types/prayer";
+import { parseZonedTimeForDate } from "@/utils/time";
+
+export type TimetableExportFormat = "csv" | "ics" | "pdf";
+
+export interface TimetableExportMeta {
+  title: string;
+  locationLabel: string;
+  providerLabel: string;
+  methodLabel: string;
+  generatedLabel: string;
+  dateLabel: string;
+  prayerLabels: Record<PrayerName, string>;
+  monthLabels: string[];
+}
+
+const ICS_EVENT_PRAYERS: PrayerName[] = ["Fajr", "Dhuhr", "Asr", "Maghrib", "Isha"];
+const ICS_EVENT_MINUTES = 15;
+
+function pad(value: number): string {
+  return String(value).padStart(2, "0");
+}
+
+function isoDate(date: Date): string {
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+function escapeCsv(value: string): string {
+  return /[",\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+function escapeIcs(value: string): string {
+  return value.replace(/\\/g, "\\\\").replace(/;/g, "\\;").replace(/,/g, "\\,").replace(/\n/g, "\\n");
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+function utf8Length(value: string): number {
+  const code = value.codePointAt(0) ?? 0;
+  return code < 0x80 ? 1 : code < 0x800 ? 2 : code < 0x10000 ? 3 : 4;
+}
+
+// RFC 5545 limits content lines to 75 octets; longer lines continue with a leading space. Location
+// and prayer names are often non-ASCII, so the limit is counted in UTF-8 bytes, never splitting a character.
+function foldIcsLine(line: string): string {
+  const parts: string[] = [];
+  let current = "";
+  let octets = 0;
+  for (const char of line) {
+    const size = utf8Length(char);
+    // Continuation lines spend one octet on the leading space.
+    if (octets + size > (parts.length === 0 ? 75 : 74)) {
+      parts.push(current);
+      current = "";
+      octets = 0;
+    }
+    current += char;
+    octets += size;
+  }
+  parts.push(current);
+  return parts.join("\r\n ");
+}
+
+function icsUtcStamp(date: Date): string {
+  return date.toISOString().replace(/[-:]/g, "").replace(/\.\d{3}/, "");
+}
+
+/**
+ * Collects a full year of rows month by month. Cached days are reused and only missing days are
+ * fetched through prefetchMonthTimings, so re-exporting the same year is cheap.
+ */
+export async function buildYearTimetable(params: {
+  year: number;
+  location: { lat: number; lon: number };
+  locationLabel?: string;
+  settings: Settings;
+  onProgress?: (completedMonths: number, totalMonths: number) => void;
+}): Promise<MonthlyTimingsRow[]> {
+  const rows: MonthlyTimingsRow[] = [];
+
+  for (let monthIndex = 0; monthIndex < 12; monthIndex += 1) {
+    const month = new Date(params.year, monthIndex, 1);
+    let snapshot = await getMonthlyCacheSnapshot({ month, location: params.location, settings: params.settings });
+
+    if (snapshot.missingDates.length > 0) {
+      try {
+        await prefetchMonthTimings({
+          year: params.year,
+          monthIndex,
+          location: params.location,
+          locationLabel: params.locationLabel,
+          settings: params.settings,
+          dates: snapshot.missingDates.length === snapshot.rows.length ? undefined : snapshot.missingDates
+        });
+      } catch {
+        // Export whatever is available; missing days are rendered as empty rows.
+      }
+      snapshot = await getMonthlyCacheSnapshot({ month, location: params.location, settings: params.settings });
+    }
+
+    rows.push(...snapshot.rows);
+    params.onProgress?.(monthIndex + 1, 12);
+  }
+
+  return rows;
+}
+
+export function buildTimetableCsv(rows: MonthlyTimingsRow[], meta: TimetableExportMeta): string {
+  const header = [meta.dateLabel, ...PRAYER_NAMES.map((prayer) => meta.prayerLabels[prayer])].map(escapeCsv).join(",");
+  const lines = rows.map((row) =>
+    [isoDate(row.date), ...PRAYER_NAMES.map((prayer) => row.timings?.times[prayer] ?? "")].join(",")
+  );
+  return [header, ...lines].join("\n");
+}
+
+export function buildTimetableIcs(rows: MonthlyTimingsRow[], meta: TimetableExportMeta): string {
+  const stamp = icsUtcStamp(new Date());
+  const lines = [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    "PRODID:-//GoToGo Pray//Timetable//EN",
+    "CALSCALE:GREGORIAN",
+    `X-WR-CALNAME:${escapeIcs(meta.title)}`
+  ];
+
+  for (const row of rows) {
+    if (!row.timings) {
+      continue;
+    }
+    for (const prayer of ICS_EVENT_PRAYERS) {
+      // UTC times need no VTIMEZONE block, and every calendar app places them correctly.
+      const start = parseZonedTimeForDate(row.date, row.timings.times[prayer], row.timings.timezone);
+      lines.push(
+        "BEGIN:VEVENT",
+        `UID:${row.dateKey}-${prayer.toLowerCase()}@gotogoprayer`,
+        `DTSTAMP:${stamp}`,
+        `DTSTART:${icsUtcStamp(start)}`,
+        `DTEND:${icsUtcStamp(new Date(start.getTime() + ICS_EVENT_MINUTES * 60 * 1000))}`,
+        `SUMMARY:${escapeIcs(meta.prayerLabels[prayer])}`,
+        `LOCATION:${escapeIcs(meta.locationLabel)}`,
+        `DESCRIPTION:${escapeIcs(`${meta.providerLabel} • ${meta.methodLabel}`)}`,
+        "END:VEVENT"
+      );
+    }
+  }
+
+  lines.push("END:VCALENDAR");
+  return lines.map(foldIcsLine).join("\r\n");
+}
+
+export function buildTimetableHtml(rows: MonthlyTimingsRow[], meta: TimetableExportMeta): string {
+  const byMonth = new Map<number, MonthlyTimingsRow[]>();
+  for (const row of rows) {
+    const monthRows = byMonth.get(row.date.getMonth()) ?? [];
+    monthRows.push(row);
+    byMonth.set(row.date.getMonth(), monthRows);
+  }
+
+  const headerCells = [meta.dateLabel, ...PRAYER_NAMES.map((prayer) => meta.prayerLabels[prayer])]
+    .map((label) => `<th>${escapeHtml(label)}</th>`)
+    .join("");
+  const sections = Array.from(byMonth.entries())
+    .map(([monthIndex, monthRows]) => {
+      const body = monthRows
+        .map((row) => {
+          const cells = PRAYER_NAMES.map((prayer) => `<td>${row.timings?.times[prayer] ?? "-"}</td>`).join("");
+          return `<tr><td>${pad(row.date.getDate())}</td>${cells}</tr>`;
+        })
+        .join("");
+      const title = escapeHtml(meta.monthLabels[monthIndex] ?? "");
+      const table = `<table><thead><tr>${headerCells}</tr></thead><tbody>${body}</tbody></table>`;
+      return `<section><h2>${title}</h2>${table}</section>`;
+    })
+    .join("");
+
+  return `<!DOCTYPE html>
+<html>
+<head>
+<meta charset="utf-8" />
+<meta name="viewport" content="width=device-width, initial-scale=1" />
+<title>${escapeHtml(meta.title)}</title>
+<style>
+  body { font-family: -apple-system, Helvetica, Arial, sans-serif; color: #1A2E45; margin: 24px; }
+  header { border-bottom: 2px solid #2B8CEE; padding-bottom: 8px; margin-bottom: 12px; }
+  h1 { font-size: 22px; margin: 0 0 6px; }
+  header p { margin: 2px 0; font-size: 12px; color: #4E647C; }
+  section { page-break-inside: avoid; break-inside: avoid; margin-bottom: 18px; }
+  h2 { font-size: 16px; margin: 12px 0 6px; }
+  table { width: 100%; border-collapse: collapse; font-size: 11px; }
+  th, td { border: 1px solid #C8DBEE; padding: 3px 4px; text-align: center; }
+  th { background: #EAF4FF; }
+  tbody tr:nth-child(even) td { background: #F6FAFE; }
+</style>
+</head>
+<body>
+<header>
+  <h1>${escapeHtml(meta.title)}</h1>
+  <p>${escapeHtml(meta.locationLabel)}</p>
+  <p>${escapeHtml(meta.providerLabel)} • ${escapeHtml(meta.methodLabel)}</p>
+  <p>${escapeHtml(meta.generatedLabel)}</p>
+</header>
+${sections}
+</body>
+</html>`;
+}
+
+export async function shareTimetable(params: {
+  format: TimetableExportFormat;
+  rows: MonthlyTimingsRow[];
+  meta: TimetableExportMeta;
+  fileBaseName: string;
+}): Promise<void> {
+  if (!(await Sharing.isAvailableAsync())) {
+    throw new Error("Sharing is not available on this device.");
+  }
+
+  if (params.format === "pdf") {
+    const { uri } = await Print.printToFileAsync({ html: buildTimetableHtml(params.rows, params.meta) });
+    const pdf = new File(Paths.cache, `${params.fileBaseName}.pdf`);
+    if (pdf.exists) {
+      pdf.delete();
+    }
+    new File(uri).move(pdf);
+    await Sharing.shareAsync(pdf.uri, {
+      mimeType: "application/pdf",
+      UTI: "com.adobe.pdf",
+      dialogTitle: params.meta.title
+    });
+    return;
+  }
+
+  const file = new File(Paths.cache, `${params.fileBaseName}.${params.format}`);
+  file.create({ overwrite: true });
+  if (params.format === "csv") {
+    file.write(buildTimetableCsv(params.rows, params.meta));
+    await Sharing.shareAsync(file.uri, {
+      mimeType: "text/csv",
+      UTI: "public.comma-separated-values-text",
+      dialogTitle: params.meta.title
+    });
+    return;
+  }
+
+  file.write(buildTimetableIcs(params.rows, params.meta));
+  await Sharing.shareAsync(file.uri, {
+    mimeType: "text/calendar",
+    UTI: "public.calendar-event",
+    dialogTitle: params.meta.title
+  });
+}
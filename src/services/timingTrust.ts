@@ -3,12 +3,13 @@ export type TimingTrust = "live" | "recent-cache" | "stale-cache" | "needs-check
 const STALE_CACHE_AFTER_DAYS = 35;
 
 export function evaluateTimingTrust(params: {
-  source: "api" | "cache" | null;
+  source: "api" | "cache" | "fallback" | null;
   lastUpdated: string | null;
   hasWarnings: boolean;
   now?: Date;
 }): TimingTrust {
-  if (params.hasWarnings) {
+  // Times from a stand-in provider can differ by minutes from the configured one.
+  if (params.hasWarnings || params.source === "fallback") {
     return "needs-check";
   }
 
@@ -1,4 +1,4 @@
-import { CachedTimings, PRAYER_NAMES, PrayerName, Timings } from "@/types/prayer";
+import { AsrSchool, CachedTimings, PRAYER_NAMES, PrayerName, Timings, TimingsProvider } from "@/types/prayer";
 
 const HHMM_REGEX = /^([01]?\d|2[0-3]):([0-5]\d)$/;
 
@@ -91,7 +91,7 @@ function pushGapIssue(
 export function analyzeTimingsSanity(params: {
   timings: Timings;
   nextDayTimings?: Timings | null;
-  provider?: "aladhan" | "diyanet";
+  provider?: TimingsProvider;
 }): TimingSanityIssue[] {
   const issues: TimingSanityIssue[] = [];
 
@@ -114,14 +114,31 @@ export function analyzeTimingsSanity(params: {
     Isha: timeToMinutes(times.Isha)
   };
 
-  pushGapIssue(issues, gap(minutes.Fajr, minutes.Sunrise), 45, 220, "Fajr-Sunrise");
+  // Fajr and Isha that look odd because the provider applied a high-latitude rule are explained
+  // once below instead of being reported as separate warnings.
+  const highLatitudeRule = params.timings.highLatitudeRule ?? params.nextDayTimings?.highLatitudeRule;
+  let highLatitudeExplained = false;
+  const pushTwilightGapIssue = (value: number | null, min: number, max: number, label: string) => {
+    if (highLatitudeRule && value !== null && (value < min || value > max)) {
+      highLatitudeExplained = true;
+      return;
+    }
+    pushGapIssue(issues, value, min, max, label);
+  };
+
+  pushTwilightGapIssue(gap(minutes.Fajr, minutes.Sunrise), 45, 220, "Fajr-Sunrise");
   pushGapIssue(issues, gap(minutes.Sunrise, minutes.Dhuhr), 240, 570, "Sunrise-Dhuhr");
   pushGapIssue(issues, gap(minutes.Dhuhr, minutes.Asr), 90, 430, "Dhuhr-Asr");
   pushGapIssue(issues, gap(minutes.Asr, minutes.Maghrib), 90, 430, "Asr-Maghrib");
-  pushGapIssue(issues, gap(minutes.Maghrib, minutes.Isha), 45, 260, "Maghrib-Isha");
+  pushTwilightGapIssue(gap(minutes.Maghrib, minutes.Isha), 45, 260, "Maghrib-Isha");
 
   const source = params.timings.source ?? "";
-  if (params.provider === "diyanet" && !params.timings.cityId && !source.includes("aladhan")) {
+  if (
+    params.provider === "diyanet" &&
+    !params.timings.cityId &&
+    !source.includes("aladhan") &&
+    !source.includes("astronomical")
+  ) {
     issues.push({
       severity: "warning",
       titleKey: "source_check.sanity_city_missing_title",
@@ -137,6 +154,22 @@ export function analyzeTimingsSanity(params: {
     });
   }
 
+  if (source.includes("astronomical")) {
+    issues.push(
+      params.provider === "astronomical"
+        ? {
+            severity: "info",
+            titleKey: "source_check.sanity_astronomical_title",
+            bodyKey: "source_check.sanity_astronomical_body"
+          }
+        : {
+            severity: "warning",
+            titleKey: "source_check.sanity_astronomical_fallback_title",
+            bodyKey: "source_check.sanity_astronomical_fallback_body"
+          }
+    );
+  }
+
   if (params.timings.citySource === "regional-diyanet-fallback") {
     issues.push({
       severity: "info",
@@ -157,6 +190,10 @@ export function analyzeTimingsSanity(params: {
         continue;
       }
       const diff = normalizedDayDiff(current, next);
+      if (diff > 20 && highLatitudeRule && (prayer === "Fajr" || prayer === "Isha")) {
+        highLatitudeExplained = true;
+        continue;
+      }
       if (diff > 20) {
         issues.push({
           severity: "warning",
@@ -168,6 +205,14 @@ export function analyzeTimingsSanity(params: {
     }
   }
 
+  if (highLatitudeRule && (highLatitudeExplained || source.includes("astronomical"))) {
+    issues.push({
+      severity: "info",
+      titleKey: "source_check.sanity_high_latitude_title",
+      bodyKey: `source_check.sanity_high_latitude_body_${highLatitudeRule}`
+    });
+  }
+
   return issues;
 }
 
@@ -175,8 +220,9 @@ export function isValidCachedTimings(
   value: unknown,
   params?: {
     dateKey?: string;
-    provider?: "aladhan" | "diyanet";
+    provider?: TimingsProvider;
     methodId?: number;
+    asrSchool?: AsrSchool;
   }
 ): value is CachedTimings {
   if (!value || typeof value !== "object") {
@@ -193,6 +239,10 @@ export function isValidCachedTimings(
   if (params?.provider && (cached.provider ?? "aladhan") !== params.provider) {
     return false;
   }
+  // Rows written before the Asr school setting existed were always fetched with the Hanafi school.
+  if (params?.asrSchool && (cached.asrSchool ?? "hanafi") !== params.asrSchool) {
+    return false;
+  }
   if (typeof cached.lastUpdated !== "string" || Number.isNaN(new Date(cached.lastUpdated).getTime())) {
     return false;
   }
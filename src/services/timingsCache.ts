@@ -1,8 +1,13 @@
-import { getTimingsBySettings } from "@/services/prayerTimes";
+import { applyTuneOffsets, getFallbackTimingsBySettings, getTimingsBySettings } from "@/services/prayerTimes";
 import { getMonthlyTimingsByCoordinates } from "@/services/diyanet";
-import { buildTimingsCacheKey, getCachedTimings, saveCachedTimings } from "@/services/storage";
+import {
+  buildTimingsCacheKeyForSettings,
+  getCachedTimings,
+  getCachedTimingsForDate,
+  saveCachedTimings
+} from "@/services/storage";
 import { isValidTimings } from "@/services/timingValidation";
-import { Settings, Timings } from "@/types/prayer";
+import { Settings, Timings, TimingsProvider } from "@/types/prayer";
 import { getDateKey, getTomorrow } from "@/utils/time";
 
 interface LocationInput {
@@ -13,7 +18,8 @@ interface LocationInput {
 interface TodayTomorrowResult {
   today: Timings;
   tomorrow: Timings;
-  source: "api" | "cache";
+  // "fallback": the configured provider failed and another one answered; see getTimingsProvider.
+  source: "api" | "cache" | "fallback";
   lastUpdated: string;
 }
 
@@ -36,6 +42,14 @@ export interface MonthlyCacheSnapshot {
   missingDates: Date[];
 }
 
+/** The provider that actually produced `timings`, read from the tag each provider sets. */
+export function getTimingsProvider(timings: Timings): TimingsProvider {
+  if (timings.source === "astronomical") {
+    return "astronomical";
+  }
+  return timings.source === "aladhan" ? "aladhan" : "diyanet";
+}
+
 async function fetchAndCacheRange(params: {
   startDate: Date;
   days: number;
@@ -66,12 +80,11 @@ async function fetchAndCacheRange(params: {
         if (!isValidTimings(timings, dateKey)) {
           throw new Error(`Invalid timings received for ${dateKey}.`);
         }
-        const cacheKey = buildTimingsCacheKey(
+        const cacheKey = buildTimingsCacheKeyForSettings(
           dateKey,
           params.location.lat,
           params.location.lon,
-          params.settings.methodId,
-          params.settings.timingsProvider
+          params.settings
         );
         const nowIso = new Date().toISOString();
         await saveCachedTimings(cacheKey, {
@@ -81,7 +94,10 @@ async function fetchAndCacheRange(params: {
           latRounded: Number(params.location.lat.toFixed(2)),
           lonRounded: Number(params.location.lon.toFixed(2)),
           provider: params.settings.timingsProvider,
-          methodId: params.settings.methodId
+          methodId: params.settings.methodId,
+          asrSchool: params.settings.asrSchool,
+          tuneOffsets: params.settings.tuneOffsets,
+          highLatitudeRule: params.settings.highLatitudeRule
         });
         return { dateKey, timings };
       })
@@ -95,6 +111,56 @@ async function fetchAndCacheRange(params: {
   return result;
 }
 
+async function resolveUncachedFallback(params: {
+  today: Date;
+  tomorrow: Date;
+  location: LocationInput;
+  locationLabel?: string;
+  settings: Settings;
+}): Promise<TodayTomorrowResult | null> {
+  const todayKey = getDateKey(params.today);
+  const tomorrowKey = getDateKey(params.tomorrow);
+  const cachedToday = await getCachedTimingsForDate(
+    todayKey,
+    params.settings.timingsProvider,
+    params.settings.methodId,
+    params.settings.asrSchool,
+    params.settings.tuneOffsets,
+    params.settings.highLatitudeRule
+  );
+  if (cachedToday) {
+    // Cached provider times beat any fallback; callers already know how to fall back to the cache.
+    return null;
+  }
+
+  try {
+    const [today, tomorrow] = await Promise.all(
+      [params.today, params.tomorrow].map((day) =>
+        getFallbackTimingsBySettings(
+          day,
+          params.location.lat,
+          params.location.lon,
+          params.settings,
+          params.locationLabel
+        )
+      )
+    );
+    if (!isValidTimings(today, todayKey) || !isValidTimings(tomorrow, tomorrowKey)) {
+      return null;
+    }
+
+    // Fallback times are intentionally not cached so the configured provider is retried next time.
+    return {
+      today,
+      tomorrow,
+      source: "fallback",
+      lastUpdated: new Date().toISOString()
+    };
+  } catch {
+    return null;
+  }
+}
+
 export async function getTodayTomorrowTimings(params: {
   today: Date;
   location: LocationInput;
@@ -106,19 +172,17 @@ export async function getTodayTomorrowTimings(params: {
   const tomorrow = getTomorrow(params.today);
   const todayKey = getDateKey(params.today);
   const tomorrowKey = getDateKey(tomorrow);
-  const todayCacheKey = buildTimingsCacheKey(
+  const todayCacheKey = buildTimingsCacheKeyForSettings(
     todayKey,
     params.location.lat,
     params.location.lon,
-    params.settings.methodId,
-    params.settings.timingsProvider
+    params.settings
   );
-  const tomorrowCacheKey = buildTimingsCacheKey(
+  const tomorrowCacheKey = buildTimingsCacheKeyForSettings(
     tomorrowKey,
     params.location.lat,
     params.location.lon,
-    params.settings.methodId,
-    params.settings.timingsProvider
+    params.settings
   );
 
   if (!params.forceRefresh) {
@@ -137,13 +201,28 @@ export async function getTodayTomorrowTimings(params: {
     }
   }
 
-  const prefetched = await fetchAndCacheRange({
-    startDate: params.today,
-    days: params.rangeDays ?? 30,
-    location: params.location,
-    locationLabel: params.locationLabel,
-    settings: params.settings
-  });
+  let prefetched: Map<string, Timings>;
+  try {
+    prefetched = await fetchAndCacheRange({
+      startDate: params.today,
+      days: params.rangeDays ?? 30,
+      location: params.location,
+      locationLabel: params.locationLabel,
+      settings: params.settings
+    });
+  } catch (error) {
+    const fallback = await resolveUncachedFallback({
+      today: params.today,
+      tomorrow,
+      location: params.location,
+      locationLabel: params.locationLabel,
+      settings: params.settings
+    });
+    if (!fallback) {
+      throw error;
+    }
+    return fallback;
+  }
 
   const todayTimings = prefetched.get(todayKey);
   const tomorrowTimings = prefetched.get(tomorrowKey);
@@ -210,12 +289,11 @@ async function fetchAndCacheDays(params: {
           if (!isValidTimings(timings, dateKey)) {
             throw new Error(`Invalid timings received for ${dateKey}.`);
           }
-          const cacheKey = buildTimingsCacheKey(
+          const cacheKey = buildTimingsCacheKeyForSettings(
             dateKey,
             params.location.lat,
             params.location.lon,
-            params.settings.methodId,
-            params.settings.timingsProvider
+            params.settings
           );
           const nowIso = new Date().toISOString();
           await saveCachedTimings(cacheKey, {
@@ -225,7 +303,10 @@ async function fetchAndCacheDays(params: {
             latRounded: Number(params.location.lat.toFixed(2)),
             lonRounded: Number(params.location.lon.toFixed(2)),
             provider: params.settings.timingsProvider,
-            methodId: params.settings.methodId
+            methodId: params.settings.methodId,
+            asrSchool: params.settings.asrSchool,
+            tuneOffsets: params.settings.tuneOffsets,
+            highLatitudeRule: params.settings.highLatitudeRule
           });
           return { dateKey, timings, lastUpdated: nowIso };
         } catch {
@@ -302,12 +383,11 @@ export async function getMonthlyCacheSnapshot(params: {
 
   for (const day of dates) {
     const dateKey = getDateKey(day);
-    const cacheKey = buildTimingsCacheKey(
+    const cacheKey = buildTimingsCacheKeyForSettings(
       dateKey,
       params.location.lat,
       params.location.lon,
-      params.settings.methodId,
-      params.settings.timingsProvider
+      params.settings
     );
     const cached = await getCachedTimings(cacheKey);
     if (cached?.timings) {
@@ -356,20 +436,22 @@ export async function prefetchMonthTimings(params: {
         params.monthIndex + 1,
         params.location.lat,
         params.location.lon,
-        cityHint
+        cityHint,
+        params.settings.highLatitudeRule
       );
       const validMonthly = Object.fromEntries(
-        Object.entries(monthly).filter(([dateKey, timings]) => isValidTimings(timings, dateKey))
+        Object.entries(monthly)
+          .map(([dateKey, timings]) => [dateKey, applyTuneOffsets(timings, params.settings.tuneOffsets)] as const)
+          .filter(([dateKey, timings]) => isValidTimings(timings, dateKey))
       ) as Record<string, Timings>;
       const nowIso = new Date().toISOString();
       await Promise.all(
         Object.entries(validMonthly).map(async ([dateKey, timings]) => {
-          const cacheKey = buildTimingsCacheKey(
+          const cacheKey = buildTimingsCacheKeyForSettings(
             dateKey,
             params.location.lat,
             params.location.lon,
-            params.settings.methodId,
-            params.settings.timingsProvider
+            params.settings
           );
           await saveCachedTimings(cacheKey, {
             timings,
@@ -378,7 +460,10 @@ export async function prefetchMonthTimings(params: {
             latRounded: Number(params.location.lat.toFixed(2)),
             lonRounded: Number(params.location.lon.toFixed(2)),
             provider: params.settings.timingsProvider,
-            methodId: params.settings.methodId
+            methodId: params.settings.methodId,
+            asrSchool: params.settings.asrSchool,
+            tuneOffsets: params.settings.tuneOffsets,
+            highLatitudeRule: params.settings.highLatitudeRule
           });
         })
       );
@@ -404,6 +489,65 @@ export async function prefetchMonthTimings(params: {
   return result;
 }
 
+/**
+ * Reads a date range that may span two Gregorian months (a Hijri month, Ramadan) from the per-day
+ * cache. Each month is read once and only the missing days inside the range are prefetched.
+ */
+export async function getRangeTimings(params: {
+  start: Date;
+  days: number;
+  location: LocationInput;
+  locationLabel?: string;
+  settings: Settings;
+  fetchMissing?: boolean;
+}): Promise<MonthlyTimingsRow[]> {
+  const dates = rangeDates(params.start, params.days);
+  const rangeKeys = new Set(dates.map(getDateKey));
+  const months = Array.from(new Map(dates.map((date) => [`${date.getFullYear()}-${date.getMonth()}`, date])).values());
+  const cachedRows = new Map<string, MonthlyTimingsRow>();
+
+  for (const month of months) {
+    let snapshot = await getMonthlyCacheSnapshot({ month, location: params.location, settings: params.settings });
+    const missing = snapshot.missingDates.filter((date) => rangeKeys.has(getDateKey(date)));
+
+    if (params.fetchMissing !== false && missing.length > 0) {
+      try {
+        await prefetchMonthTimings({
+          year: month.getFullYear(),
+          monthIndex: month.getMonth(),
+          location: params.location,
+          locationLabel: params.locationLabel,
+          settings: params.settings,
+          dates:
+            params.settings.timingsProvider === "diyanet" || missing.length === snapshot.rows.length
+              ? undefined
+              : missing
+        });
+      } catch {
+        // Keep cached days visible; missing days stay empty.
+      }
+      snapshot = await getMonthlyCacheSnapshot({ month, location: params.location, settings: params.settings });
+    }
+
+    for (const row of snapshot.rows) {
+      cachedRows.set(row.dateKey, row);
+    }
+  }
+
+  return dates.map((date) => {
+    const dateKey = getDateKey(date);
+    return (
+      cachedRows.get(dateKey) ?? {
+        date,
+        dateKey,
+        timings: null,
+        source: "missing",
+        lastUpdated: null
+      }
+    );
+  });
+}
+
 export async function getMonthlyTimings(params: {
   month: Date;
   location: LocationInput;
@@ -0,0 +1,118 @@
+import { AVPlaybackSource } from "expo-av";
+import * as DocumentPicker from "expo-document-picker";
+import { Directory, File, Paths } from "expo-file-system";
+import { Platform } from "react-native";
+import { getCustomTones, saveCustomTones } from "@/services/storage";
+import { BuiltInTone, CustomTone, CustomToneId, NotificationTone } from "@/types/prayer";
+import { trimWav } from "@/utils/wav";
+
+// iOS falls back to the default sound for anything longer; Android is kept to the same length.
+export const NOTIFICATION_SOUND_MAX_SECONDS = 30;
+
+interface BuiltInToneDefinition {
+  labelKey: string;
+  // File registered under `expo-notifications` sounds in app.json; null uses the system sound.
+  notificationSound: string | null;
+  preview: AVPlaybackSource | null;
+}
+
+// Only the short adhan ships with the app. Regional recitations (Makkah, Madinah, Istanbul) and a
+// separate Fajr adhan are not bundled; the tones screen points users to importing their own recording.
+const BUILT_IN_TONE_DEFINITIONS: Record<BuiltInTone, BuiltInToneDefinition> = {
+  Adhan: {
+    labelKey: "tones.Adhan",
+    notificationSound: "adhan_short.wav",
+    preview: require("../../assets/sounds/adhan_short.wav")
+  },
+  Beep: {
+    labelKey: "tones.Beep",
+    notificationSound: null,
+    preview: null
+  }
+};
+
+export function isCustomTone(tone: NotificationTone): tone is CustomToneId {
+  return tone.startsWith("custom:");
+}
+
+/** Every tone except the plain beep is a recitation and may be followed by the full adhan. */
+export function isAdhanTone(tone: NotificationTone | undefined): boolean {
+  return Boolean(tone) && tone !== "Beep";
+}
+
+export function getBuiltInToneLabelKey(tone: BuiltInTone): string {
+  return BUILT_IN_TONE_DEFINITIONS[tone].labelKey;
+}
+
+function customToneFileName(tone: CustomToneId): string {
+  return tone.slice("custom:".length);
+}
+
+// iOS only plays notification sounds from the bundle or Library/Sounds, so imports are saved there.
+function getCustomToneDirectory(): Directory {
+  return Platform.OS === "ios"
+    ? new Directory(Paths.document.parentDirectory, "Library", "Sounds")
+    : new Directory(Paths.document, "tones");
+}
+
+/**
+ * Sound name for the notification content. Android only accepts sounds bundled with the app, so
+ * imported tones use the system sound there and are heard in full when the alert is opened.
+ */
+export function getToneNotificationSound(tone: NotificationTone): string | null {
+  if (isCustomTone(tone)) {
+    return Platform.OS === "ios" ? customToneFileName(tone) : null;
+  }
+  return BUILT_IN_TONE_DEFINITIONS[tone]?.notificationSound ?? null;
+}
+
+export function getTonePreviewSource(tone: NotificationTone): AVPlaybackSource | null {
+  if (isCustomTone(tone)) {
+    const file = new File(getCustomToneDirectory(), customToneFileName(tone));
+    return file.exists ? { uri: file.uri } : null;
+  }
+  return BUILT_IN_TONE_DEFINITIONS[tone]?.preview ?? null;
+}
+
+/**
+ * Lets the user pick a WAV file, trims it to the notification sound limit and stores it as a tone.
+ * Returns null when the picker is cancelled; throws when the file cannot be used.
+ */
+export async function importCustomTone(): Promise<CustomTone | null> {
+  const result = await DocumentPicker.getDocumentAsync({
+    type: ["audio/wav", "audio/x-wav", "audio/wave", "audio/vnd.wave"],
+    copyToCacheDirectory: true,
+    multiple: false
+  });
+  if (result.canceled || result.assets.length === 0) {
+    return null;
+  }
+
+  const asset = result.assets[0];
+  const source = new File(asset.uri);
+  const wav = trimWav(await source.bytes(), NOTIFICATION_SOUND_MAX_SECONDS);
+
+  const directory = getCustomToneDirectory();
+  directory.create({ idempotent: true, intermediates: true });
+  const fileName = `custom_${Date.now()}.wav`;
+  new File(directory, fileName).write(wav.bytes);
+
+  const tone: CustomTone = {
+    id: `custom:${fileName}`,
+    name: asset.name.replace(/\.[^.]+$/, "") || fileName,
+    fileName,
+    durationSeconds: Math.round(wav.durationSeconds),
+    trimmed: wav.trimmed,
+    importedAt: Date.now()
+  };
+  await saveCustomTones([...(await getCustomTones()), tone]);
+  return tone;
+}
+
+export async function deleteCustomTone(id: CustomToneId): Promise<void> {
+  const file = new File(getCustomToneDirectory(), customToneFileName(id));
+  if (file.exists) {
+    file.delete();
+  }
+  await saveCustomTones((await getCustomTones()).filter((tone) => tone.id !== id));
+}
@@ -0,0 +1,151 @@
+import { getLocationName, getPassiveLocation } from "@/services/location";
+import { PrayerName, Settings, TravelPlace, TravelSettings } from "@/types/prayer";
+import { haversineDistanceKm } from "@/utils/geo";
+
+export const TRAVEL_DISTANCE_OPTIONS: TravelSettings["distanceKm"][] = [80, 100, 150];
+
+// While traveling in manual mode, moving on by this much takes the timings along to the new place.
+const TRAVEL_FOLLOW_KM = 25;
+// Reverse geocoding is rate limited; a position this close to the last named one keeps that name.
+const TRAVEL_RENAME_KM = 5;
+
+// The home screen locates on every focus, so the last reverse-geocoded place is kept for reuse.
+let lastNamedPlace: TravelPlace | null = null;
+
+export type TravelDetection =
+  | { kind: "idle" }
+  // GPS mode has no home until the first position is seen.
+  | { kind: "adopt_home" }
+  | { kind: "away"; distanceKm: number }
+  | { kind: "moved" }
+  | { kind: "returned" };
+
+export interface QasrHint {
+  // Shortened from four rak'ahs to two.
+  qasr: boolean;
+  combineWith: PrayerName | null;
+}
+
+const QASR_PRAYERS: PrayerName[] = ["Dhuhr", "Asr", "Isha"];
+
+const COMBINE_PAIRS: Partial<Record<PrayerName, PrayerName>> = {
+  Dhuhr: "Asr",
+  Asr: "Dhuhr",
+  Maghrib: "Isha",
+  Isha: "Maghrib"
+};
+
+function distanceKm(from: { lat: number; lon: number }, to: { lat: number; lon: number }): number {
+  return haversineDistanceKm(from.lat, from.lon, to.lat, to.lon);
+}
+
+/** Home in manual mode is the chosen city, unless a trip has put the travel city in its place. */
+export function getTravelHome(settings: Settings): TravelPlace | null {
+  if (settings.locationMode === "manual" && !settings.travel.active) {
+    return settings.manualLocation ?? null;
+  }
+  return settings.travel.home;
+}
+
+export function getDistanceFromHomeKm(settings: Settings, position: { lat: number; lon: number }): number | null {
+  const home = getTravelHome(settings);
+  return home ? distanceKm(home, position) : null;
+}
+
+export function detectTravel(settings: Settings, position: { lat: number; lon: number }): TravelDetection {
+  const { travel } = settings;
+  if (!travel.detect) {
+    return { kind: "idle" };
+  }
+
+  const fromHome = getDistanceFromHomeKm(settings, position);
+  if (fromHome === null) {
+    return settings.locationMode === "gps" ? { kind: "adopt_home" } : { kind: "idle" };
+  }
+
+  if (fromHome <= travel.distanceKm) {
+    return travel.active || travel.declined ? { kind: "returned" } : { kind: "idle" };
+  }
+
+  if (travel.active) {
+    const moved = settings.locationMode === "manual" && distanceKm(travel.active.place, position) > TRAVEL_FOLLOW_KM;
+    return moved ? { kind: "moved" } : { kind: "idle" };
+  }
+
+  if (travel.declined && distanceKm(travel.declined, position) <= travel.distanceKm) {
+    return { kind: "idle" };
+  }
+  return { kind: "away", distanceKm: Math.round(fromHome) };
+}
+
+/** The current position as a place, or null without location access. */
+export async function locateTraveler(): Promise<TravelPlace | null> {
+  const position = await getPassiveLocation();
+  if (!position) {
+    return null;
+  }
+  if (lastNamedPlace && distanceKm(lastNamedPlace, position) < TRAVEL_RENAME_KM) {
+    return { ...lastNamedPlace, lat: position.lat, lon: position.lon };
+  }
+  const name = await getLocationName(position.lat, position.lon);
+  if (name === "Unknown location") {
+    const label = `${position.lat.toFixed(2)}, ${position.lon.toFixed(2)}`;
+    return { query: label, label, lat: position.lat, lon: position.lon };
+  }
+  lastNamedPlace = { query: name, label: name, lat: position.lat, lon: position.lon };
+  return lastNamedPlace;
+}
+
+export function setTravelHome(settings: Settings, place: TravelPlace): Settings {
+  return { ...settings, travel: { ...settings.travel, home: place, declined: null } };
+}
+
+/** In manual mode the trip takes the place of the chosen city, which is kept as home until the return. */
+export function startTravel(settings: Settings, place: TravelPlace): Settings {
+  const active = { place, since: new Date().toISOString() };
+  if (settings.locationMode === "manual") {
+    return {
+      ...settings,
+      manualLocation: place,
+      travel: { ...settings.travel, home: settings.manualLocation ?? null, active, declined: null }
+    };
+  }
+  return { ...settings, travel: { ...settings.travel, active, declined: null } };
+}
+
+export function followTravel(settings: Settings, place: TravelPlace): Settings {
+  if (!settings.travel.active) {
+    return settings;
+  }
+  return {
+    ...settings,
+    manualLocation: settings.locationMode === "manual" ? place : settings.manualLocation,
+    travel: { ...settings.travel, active: { ...settings.travel.active, place } }
+  };
+}
+
+export function endTravel(settings: Settings): Settings {
+  if (settings.locationMode === "manual") {
+    const home = settings.travel.active ? settings.travel.home : null;
+    return {
+      ...settings,
+      manualLocation: home ?? settings.manualLocation,
+      travel: { ...settings.travel, home: null, active: null, declined: null }
+    };
+  }
+  return { ...settings, travel: { ...settings.travel, active: null, declined: null } };
+}
+
+export function declineTravel(settings: Settings, place: TravelPlace): Settings {
+  return { ...settings, travel: { ...settings.travel, declined: place } };
+}
+
+/** Qasr and jam' hints for the home list; null when the user is not traveling. */
+export function getQasrHint(prayer: PrayerName, travel: TravelSettings): QasrHint | null {
+  if (!travel.active) {
+    return null;
+  }
+  const qasr = QASR_PRAYERS.includes(prayer);
+  const combineWith = travel.combineHints ? COMBINE_PAIRS[prayer] ?? null : null;
+  return qasr || combineWith ? { qasr, combineWith } : null;
+}
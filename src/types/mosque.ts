@@ -1,3 +1,19 @@
+export type MosqueAccess = "yes" | "limited" | "no";
+
+export type TimeRange = {
+  // Minutes since midnight; an end past 1440 runs on into the next day.
+  start: number;
+  end: number;
+};
+
+export type OpeningHours = {
+  // The OSM opening_hours tag as mapped.
+  raw: string;
+  // Monday-first ranges for each weekday; null when the tag uses syntax the app does not read
+  // (public holidays, months, sunrise offsets, ...), in which case only the raw text is shown.
+  week: TimeRange[][] | null;
+};
+
 export type Mosque = {
   id: string;
   name: string;
@@ -5,8 +21,23 @@ export type Mosque = {
   lon: number;
   distanceKm: number;
   lastUpdated: number;
+  // From the OSM tags; null when mappers have not recorded it.
+  address: string | null;
+  denomination: string | null;
+  website: string | null;
+  phone: string | null;
+  wheelchair: MosqueAccess | null;
+  womenArea: boolean | null;
+  parking: boolean | null;
+  openingHours: OpeningHours | null;
 };
 
+// Snapshot of the default mosque, kept so reminders can be planned without a fresh Overpass query.
+export type DefaultMosque = Pick<Mosque, "id" | "name" | "lat" | "lon" | "distanceKm">;
+
+// Favorites only store ids; this snapshot keeps their position for the silent-in-mosque rule.
+export type FavoriteMosque = Pick<Mosque, "id" | "name" | "lat" | "lon">;
+
 export type TravelMode = "walk" | "drive";
 
 export type MosquesSettings = {
@@ -2,6 +2,135 @@ export type PrayerName = "Fajr" | "Sunrise" | "Dhuhr" | "Asr" | "Maghrib" | "Ish
 
 export const PRAYER_NAMES: PrayerName[] = ["Fajr", "Sunrise", "Dhuhr", "Asr", "Maghrib", "Isha"];
 
+// The five obligatory prayers; Sunrise marks the end of Fajr and is not prayed.
+export type TrackedPrayer = Exclude<PrayerName, "Sunrise">;
+
+export const TRACKED_PRAYERS: TrackedPrayer[] = ["Fajr", "Dhuhr", "Asr", "Maghrib", "Isha"];
+
+export type ExtraTimeName = "Imsak" | "Duha" | "Istiwa" | "Midnight" | "LastThird";
+
+export const EXTRA_TIME_NAMES: ExtraTimeName[] = ["Imsak", "Duha", "Istiwa", "Midnight", "LastThird"];
+
+export type TimingsProvider = "aladhan" | "diyanet" | "astronomical";
+
+export type AsrSchool = "standard" | "hanafi";
+
+export type TuneOffsets = Record<PrayerName, number>;
+
+export type HighLatitudeRule = "middle_of_night" | "one_seventh" | "angle_based";
+
+// Below this latitude twilight always ends, so a network provider's high-latitude rule never changes its times.
+export const HIGH_LATITUDE_MIN_DEGREES = 48;
+
+export function appliesHighLatitudeRule(lat: number): boolean {
+  return Math.abs(lat) > HIGH_LATITUDE_MIN_DEGREES;
+}
+
+export type HijriAdjustmentDays = -2 | -1 | 0 | 1 | 2;
+
+export type RamadanMode = "auto" | "on" | "off";
+
+export interface RamadanSettings {
+  mode: RamadanMode;
+  imsakMarginMinutes: 0 | 5 | 10 | 15 | 20;
+  suhoorReminder: boolean;
+  suhoorMinutesBefore: 0 | 15 | 30 | 45 | 60;
+  iftarReminder: boolean;
+}
+
+export interface JumuahSettings {
+  enabled: boolean;
+  // Khutbah start per mosque id, so switching the default mosque keeps earlier entries.
+  khutbahTimes: Record<string, string>;
+  leaveBufferMinutes: 0 | 5 | 10 | 15 | 30;
+  kahfReminder: boolean;
+  kahfReminderTime: "08:00" | "09:00" | "10:00" | "11:00";
+}
+
+// "fixed": the congregation starts at a set clock time. "offset": it starts a set number of minutes after the adhan.
+export type IqamahRule = { kind: "fixed"; time: string } | { kind: "offset"; minutes: number };
+
+export interface IqamahPrayerSchedule {
+  rule: IqamahRule | null;
+  // Monday first; an entry replaces `rule` on that weekday, e.g. a later Fajr at the weekend.
+  weekdays: (IqamahRule | null)[];
+}
+
+export interface IqamahSchedule {
+  prayers: Record<TrackedPrayer, IqamahPrayerSchedule>;
+  // The link the timetable was imported from, so it can be refreshed when the mosque updates it.
+  sourceUrl: string | null;
+  // The mosque a shared timetable was exported for, shown before a link import is accepted.
+  sourceMosque: string | null;
+  updatedAt: number;
+}
+
+export interface IqamahSettings {
+  // Timetable per mosque id, like the khutbah times.
+  schedules: Record<string, IqamahSchedule>;
+  showOnHome: boolean;
+  // Prayer alerts and their reminders aim at the default mosque's iqamah instead of the adhan.
+  notifyAtIqamah: boolean;
+}
+
+export interface QuietHoursSetting {
+  enabled: boolean;
+  // "HH:mm"; a start later than the end runs past midnight.
+  start: string;
+  end: string;
+  // Prayers that keep their sound inside the window.
+  exceptPrayers: PrayerName[];
+}
+
+export interface SilentInMosqueSetting {
+  enabled: boolean;
+  radiusMeters: 100 | 200 | 300 | 500;
+}
+
+export interface QuietSettings {
+  hours: QuietHoursSetting;
+  mosque: SilentInMosqueSetting;
+}
+
+// Same shape as Settings.manualLocation, so a trip in manual mode can stand in for the chosen city.
+export interface TravelPlace {
+  query: string;
+  label: string;
+  lat: number;
+  lon: number;
+}
+
+export interface TravelSettings {
+  detect: boolean;
+  // Distance from home at which the user counts as a traveler (musafir).
+  distanceKm: 80 | 100 | 150;
+  // Jam' (combining) hints next to the qasr hints; not every school allows it outside Arafah and Muzdalifah.
+  combineHints: boolean;
+  // Home in GPS mode; in manual mode, the chosen city saved while a trip replaces it.
+  home: TravelPlace | null;
+  active: { place: TravelPlace; since: string } | null;
+  // Where the switch was declined, so it is not offered again until the user moves on.
+  declined: TravelPlace | null;
+}
+
+export interface LocationTimings {
+  provider: TimingsProvider;
+  methodId: number;
+  methodName: string;
+}
+
+export interface SavedLocation {
+  id: string;
+  query: string;
+  label: string;
+  lat: number;
+  lon: number;
+  // IANA zone of the place itself; prayer times are its wall-clock times. Null when the search did not return one.
+  timeZone: string | null;
+  // Provider and method used while this location is selected; null keeps the app-wide ones.
+  timings: LocationTimings | null;
+}
+
 export interface Timings {
   dateKey: string;
   timezone: string;
@@ -12,28 +141,76 @@ export interface Timings {
   cityDistanceKm?: number | null;
   resolvedCityName?: string | null;
   resolvedCountryName?: string | null;
+  tuneOffsets?: Partial<TuneOffsets>;
+  highLatitudeRule?: HighLatitudeRule;
+}
+
+export type BuiltInTone = "Adhan" | "Beep";
+
+export const BUILT_IN_TONES: BuiltInTone[] = ["Adhan", "Beep"];
+
+// Imported tones are referenced by the file name they were saved under.
+export type CustomToneId = `custom:${string}`;
+
+export type NotificationTone = BuiltInTone | CustomToneId;
+
+export interface CustomTone {
+  id: CustomToneId;
+  name: string;
+  fileName: string;
+  durationSeconds: number;
+  // True when the import was cut to the notification sound length limit.
+  trimmed: boolean;
+  importedAt: number;
 }
 
 export interface PrayerNotificationSetting {
   enabled: boolean;
   minutesBefore: 0 | 5 | 10 | 15 | 30;
   playSound: boolean;
-  tone: "Adhan" | "Beep";
+  tone: NotificationTone;
+  // Plays the complete adhan in the app when the prayer-time alert arrives in the foreground or is opened.
+  fullAdhan: boolean;
+  // Warning before the prayer's time runs out; 0 is off. Isha's preferred time ends at midnight.
+  endWarningMinutes: 0 | 10 | 15 | 20 | 30;
   volume: number;
   vibration: boolean;
 }
 
+export interface ExtraTimeSetting {
+  enabled: boolean;
+  notify: boolean;
+}
+
 export interface Settings {
-  timingsProvider: "aladhan" | "diyanet";
+  timingsProvider: TimingsProvider;
   methodId: number;
   methodName: string;
-  hanafiOnly: boolean;
+  asrSchool: AsrSchool;
+  tuneOffsets: TuneOffsets;
+  highLatitudeRule: HighLatitudeRule;
+  ramadan: RamadanSettings;
+  hijriAdjustmentDays: HijriAdjustmentDays;
+  extraTimes: Record<ExtraTimeName, ExtraTimeSetting>;
+  jumuah: JumuahSettings;
+  iqamah: IqamahSettings;
+  quiet: QuietSettings;
+  travel: TravelSettings;
+  savedLocations: SavedLocation[];
+  // The saved location currently applied as the manual location, if any.
+  activeLocationId: string | null;
+  // The app-wide provider and method, kept while the active location's override replaces them.
+  baseTimings: LocationTimings | null;
+  // Secondary location whose next prayer is shown under the main countdown.
+  watchLocationId: string | null;
   locationMode: "gps" | "manual";
   manualLocation?: {
     query: string;
     label: string;
     lat: number;
     lon: number;
+    // IANA zone of the place when known; the device zone is assumed otherwise.
+    timeZone?: string;
   };
   prayerNotifications: Record<PrayerName, PrayerNotificationSetting>;
 }
@@ -44,8 +221,11 @@ export interface CachedTimings {
   source: "api" | "cache";
   latRounded: number;
   lonRounded: number;
-  provider?: "aladhan" | "diyanet";
+  provider?: TimingsProvider;
   methodId: number;
+  asrSchool?: AsrSchool;
+  tuneOffsets?: TuneOffsets;
+  highLatitudeRule?: HighLatitudeRule;
 }
 
 export interface CachedQibla {
@@ -0,0 +1,105 @@
+export const RAMADAN_MONTH = 9;
+
+export interface HijriDateParts {
+  day: number;
+  month: number;
+  year: number;
+}
+
+export interface HijriMonthRange {
+  start: Date;
+  days: number;
+  month: number;
+  year: number;
+}
+
+let hijriFormatter: Intl.DateTimeFormat | null = null;
+
+function getHijriFormatter(): Intl.DateTimeFormat {
+  if (!hijriFormatter) {
+    hijriFormatter = new Intl.DateTimeFormat("en-u-ca-islamic", {
+      day: "numeric",
+      month: "numeric",
+      year: "numeric"
+    });
+  }
+  return hijriFormatter;
+}
+
+function atNoon(date: Date): Date {
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate(), 12, 0, 0, 0);
+}
+
+/**
+ * Moves a Gregorian date by the user's Hijri adjustment. A +1 adjustment means the local Hijri
+ * date runs one day ahead of the tabular calendar, so the calendar is read for the next day.
+ */
+export function applyHijriAdjustment(date: Date, adjustmentDays = 0): Date {
+  const value = atNoon(date);
+  value.setDate(value.getDate() + adjustmentDays);
+  return value;
+}
+
+export function getHijriDateParts(date: Date, adjustmentDays = 0): HijriDateParts | null {
+  try {
+    const parts = getHijriFormatter().formatToParts(applyHijriAdjustment(date, adjustmentDays));
+    const read = (type: Intl.DateTimeFormatPartTypes) =>
+      Number.parseInt(parts.find((part) => part.type === type)?.value ?? "", 10);
+    const day = read("day");
+    const month = read("month");
+    const year = read("year");
+    if (!Number.isFinite(day) || !Number.isFinite(month) || !Number.isFinite(year)) {
+      return null;
+    }
+    return { day, month, year };
+  } catch {
+    return null;
+  }
+}
+
+export function isRamadanDate(date: Date, adjustmentDays = 0): boolean {
+  return getHijriDateParts(date, adjustmentDays)?.month === RAMADAN_MONTH;
+}
+
+/** Gregorian start and length of the Hijri month that contains `date`. */
+export function getHijriMonthRange(date: Date, adjustmentDays = 0): HijriMonthRange | null {
+  const parts = getHijriDateParts(date, adjustmentDays);
+  if (!parts) {
+    return null;
+  }
+
+  const start = atNoon(date);
+  start.setDate(start.getDate() - (parts.day - 1));
+  const cursor = new Date(start);
+  let days = 0;
+  while (days < 31 && getHijriDateParts(cursor, adjustmentDays)?.month === parts.month) {
+    days += 1;
+    cursor.setDate(cursor.getDate() + 1);
+  }
+
+  return { start, days, month: parts.month, year: parts.year };
+}
+
+/**
+ * Finds the Ramadan that contains `reference`, or the next one when the date falls outside it.
+ * Returns the Gregorian start date and the number of days (29 or 30) in the civil calendar.
+ */
+export function findRamadanRange(
+  reference: Date,
+  adjustmentDays = 0
+): { start: Date; days: number; hijriYear: number } | null {
+  const cursor = atNoon(reference);
+  let parts = getHijriDateParts(cursor, adjustmentDays);
+  let guard = 0;
+  while (parts && parts.month !== RAMADAN_MONTH && guard < 400) {
+    cursor.setDate(cursor.getDate() + 1);
+    parts = getHijriDateParts(cursor, adjustmentDays);
+    guard += 1;
+  }
+  if (!parts || parts.month !== RAMADAN_MONTH) {
+    return null;
+  }
+
+  const range = getHijriMonthRange(cursor, adjustmentDays);
+  return range ? { start: range.start, days: range.days, hijriYear: range.year } : null;
+}
@@ -7,6 +7,54 @@ export function parsePrayerTimeForDate(day: Date, timeHHmm: string): Date {
   return date;
 }
 
+/**
+ * Minutes `timeZone` is ahead of UTC at `instant`. Without a zone, or when the engine does not know
+ * it, the device zone is used.
+ */
+export function getTimeZoneOffsetMinutes(instant: Date, timeZone?: string | null): number {
+  const deviceOffset = -instant.getTimezoneOffset();
+  if (!timeZone) {
+    return deviceOffset;
+  }
+  try {
+    const parts = new Intl.DateTimeFormat("en-US", {
+      timeZone,
+      hourCycle: "h23",
+      year: "numeric",
+      month: "numeric",
+      day: "numeric",
+      hour: "numeric",
+      minute: "numeric"
+    }).formatToParts(instant);
+    const part = (type: Intl.DateTimeFormatPartTypes) => Number(parts.find((item) => item.type === type)?.value);
+    const wallClock = Date.UTC(part("year"), part("month") - 1, part("day"), part("hour"), part("minute"));
+    const offset = Math.round((wallClock - Math.floor(instant.getTime() / 60_000) * 60_000) / 60_000);
+    return Number.isFinite(offset) ? offset : deviceOffset;
+  } catch {
+    return deviceOffset;
+  }
+}
+
+/**
+ * The moment the clock in `timeZone` shows `timeHHmm` on the calendar day of `day`. Falls back to
+ * the device zone when the engine does not know the zone.
+ */
+export function parseZonedTimeForDate(day: Date, timeHHmm: string, timeZone?: string | null): Date {
+  const [hours, minutes] = timeHHmm.split(":").map(Number);
+  const wallClock = Date.UTC(day.getFullYear(), day.getMonth(), day.getDate(), hours, minutes);
+  const first = getTimeZoneOffsetMinutes(new Date(wallClock), timeZone);
+  // A second pass picks up a daylight saving switch between the guess and the real moment.
+  const second = getTimeZoneOffsetMinutes(new Date(wallClock - first * 60_000), timeZone);
+  return new Date(wallClock - second * 60_000);
+}
+
+export function shiftTimeHHmm(timeHHmm: string, minutes: number): string {
+  const [hours, mins] = timeHHmm.split(":").map(Number);
+  const dayMinutes = 24 * 60;
+  const total = (((hours * 60 + mins + Math.round(minutes)) % dayMinutes) + dayMinutes) % dayMinutes;
+  return `${String(Math.floor(total / 60)).padStart(2, "0")}:${String(total % 60).padStart(2, "0")}`;
+}
+
 export function formatCountdown(ms: number): string {
   const totalSeconds = Math.max(0, Math.floor(ms / 1000));
   const hours = Math.floor(totalSeconds / 3600);
@@ -46,6 +94,11 @@ export function getDateKey(date: Date): string {
   return `${day}-${month}-${year}`;
 }
 
+export function parseDateKey(dateKey: string): Date {
+  const [day, month, year] = dateKey.split("-").map(Number);
+  return new Date(year, month - 1, day, 0, 0, 0, 0);
+}
+
 export function getNextPrayer(timings: Timings, now: Date): { prayer: PrayerName; time: Date } | null {
   for (const prayer of PRAYER_NAMES) {
     const prayerDate = parsePrayerTimeForDate(now, timings.times[prayer]);
@@ -0,0 +1,81 @@
+export interface TrimmedWav {
+  bytes: Uint8Array;
+  durationSeconds: number;
+  trimmed: boolean;
+}
+
+// A short fade keeps the cut from ending on an audible click.
+const FADE_OUT_SECONDS = 0.25;
+
+function readTag(view: DataView, offset: number): string {
+  return String.fromCharCode(
+    view.getUint8(offset),
+    view.getUint8(offset + 1),
+    view.getUint8(offset + 2),
+    view.getUint8(offset + 3)
+  );
+}
+
+function fadeOutPcm16(bytes: Uint8Array, dataOffset: number, dataSize: number, byteRate: number): void {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const fadeBytes = Math.min(dataSize, Math.floor(byteRate * FADE_OUT_SECONDS)) & ~1;
+  const fadeStart = dataOffset + dataSize - fadeBytes;
+  for (let offset = fadeStart; offset + 1 < dataOffset + dataSize; offset += 2) {
+    const gain = (dataOffset + dataSize - offset) / fadeBytes;
+    view.setInt16(offset, Math.round(view.getInt16(offset, true) * gain), true);
+  }
+}
+
+/**
+ * Cuts a RIFF/WAVE file to at most `maxSeconds`, keeping every chunk before the audio data. Only
+ * uncompressed audio can be cut on a sample boundary, so compressed WAV files are rejected.
+ */
+export function trimWav(input: Uint8Array, maxSeconds: number): TrimmedWav {
+  const view = new DataView(input.buffer, input.byteOffset, input.byteLength);
+  if (input.byteLength < 12 || readTag(view, 0) !== "RIFF" || readTag(view, 8) !== "WAVE") {
+    throw new Error("Not a WAV file.");
+  }
+
+  let format: { audioFormat: number; byteRate: number; blockAlign: number; bitsPerSample: number } | null = null;
+  let offset = 12;
+  while (offset + 8 <= input.byteLength) {
+    const chunkId = readTag(view, offset);
+    const chunkSize = view.getUint32(offset + 4, true);
+    const bodyOffset = offset + 8;
+
+    if (chunkId === "fmt ") {
+      format = {
+        audioFormat: view.getUint16(bodyOffset, true),
+        byteRate: view.getUint32(bodyOffset + 8, true),
+        blockAlign: view.getUint16(bodyOffset + 12, true),
+        bitsPerSample: view.getUint16(bodyOffset + 14, true)
+      };
+    } else if (chunkId === "data") {
+      // 1 = PCM, 3 = IEEE float, 0xFFFE = extensible (PCM in practice).
+      if (!format || ![1, 3, 0xfffe].includes(format.audioFormat) || format.byteRate <= 0 || format.blockAlign <= 0) {
+        throw new Error("Only uncompressed WAV audio can be used as a notification sound.");
+      }
+
+      const dataSize = Math.min(chunkSize, input.byteLength - bodyOffset);
+      const maxBytes = Math.floor((format.byteRate * maxSeconds) / format.blockAlign) * format.blockAlign;
+      if (dataSize <= maxBytes) {
+        return { bytes: input, durationSeconds: dataSize / format.byteRate, trimmed: false };
+      }
+
+      const output = new Uint8Array(bodyOffset + maxBytes);
+      output.set(input.subarray(0, bodyOffset + maxBytes));
+      const outputView = new DataView(output.buffer);
+      outputView.setUint32(4, output.byteLength - 8, true);
+      outputView.setUint32(offset + 4, maxBytes, true);
+      if (format.audioFormat !== 3 && format.bitsPerSample === 16) {
+        fadeOutPcm16(output, bodyOffset, maxBytes, format.byteRate);
+      }
+      return { bytes: output, durationSeconds: maxBytes / format.byteRate, trimmed: true };
+    }
+
+    // Chunks are padded to an even length.
+    offset = bodyOffset + chunkSize + (chunkSize % 2);
+  }
+
+  throw new Error("WAV file has no audio data.");
+}